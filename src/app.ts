@@ -10,6 +10,7 @@
  * - Initializes Passport strategies
  * - Mounts auth-related routes under /auth
  * - Mounts admin-related routes and resources under /admin
+ * - Answers errors passed to next() with application/problem+json
  */
 
 import express, { Request, Response, NextFunction } from "express";
@@ -21,14 +22,27 @@ import helmet from "helmet";
 
 import { loadEnv } from "./config/env";
 import "./config/passport-strategies"; // ensure strategies are loaded
+import { errorHandler } from "./middleware/error-middleware";
+import { guardResponses } from "./middleware/response-middleware";
 import adminRoutes from "./routes/admin-routes";
 import authRoutes from "./routes/auth-routes";
 
 import activityRoutes from "./routes/activity-routes";
+import auditRoutes from "./routes/audit-routes";
+import calendarRoutes from "./routes/calendar-routes";
+import compensationRoutes from "./routes/compensation-routes";
 import doctorRoutes from "./routes/doctor-routes";
+import holidayRoutes from "./routes/holiday-routes";
+import invitationRoutes from "./routes/invitation-routes";
+import leaveEntitlementRoutes from "./routes/leave-entitlement-routes";
+import leaveRequestRoutes from "./routes/leave-request-routes";
+import meRoutes from "./routes/me-routes";
 import personRoutes from "./routes/person-routes";
+import registrationRoutes from "./routes/registration-routes";
 import roleRoutes from "./routes/role-routes";
 import rosterRoutes from "./routes/roster-routes";
+import scheduleRoutes from "./routes/schedule-routes";
+import shiftSwapRoutes from "./routes/shift-swap-routes";
 import shiftTypeRateRoutes from "./routes/shift-type-rate-routes";
 import shiftTypeRoutes from "./routes/shift-type-routes";
 import userConstraintRoutes from "./routes/user-constraint-routes";
@@ -63,6 +77,7 @@ app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 app.use(morgan("dev"));
 app.use(cookieParser()); // Parse HttpOnly cookies correctly
+app.use(guardResponses); // Never send password hashes or reset tokens
 
 // 4. Initialize passport
 app.use(passport.initialize());
@@ -97,16 +112,29 @@ app.use("/admin", adminRoutes);
 
 // 8. Additional admin sub-routes for new models
 app.use("/admin/activities", activityRoutes);
+app.use("/admin/audit", auditRoutes);
+app.use("/admin/compensation", compensationRoutes);
 app.use("/admin/doctors", doctorRoutes);
+app.use("/admin/holidays", holidayRoutes);
+app.use("/admin/invitations", invitationRoutes);
+app.use("/admin/leave-entitlements", leaveEntitlementRoutes);
 app.use("/admin/persons", personRoutes);
+app.use("/admin/registrations", registrationRoutes);
 app.use("/admin/roles", roleRoutes);
 app.use("/admin/rosters", rosterRoutes);
+app.use("/admin/schedules", scheduleRoutes);
 app.use("/admin/shift-types", shiftTypeRoutes);
 app.use("/admin/shift-type-rates", shiftTypeRateRoutes);
 app.use("/admin/user-constraints", userConstraintRoutes);
 app.use("/admin/user-roles", userRoleRoutes);
 
-// 9. Swagger UI route (with customSiteTitle)
+// 9. Routes for every authenticated user (access is checked per request)
+app.use("/calendar", calendarRoutes);
+app.use("/leave-requests", leaveRequestRoutes);
+app.use("/me", meRoutes);
+app.use("/shift-swaps", shiftSwapRoutes);
+
+// 10. Swagger UI route (with customSiteTitle)
 // app.use(
 //   "/api-docs",
 //   swaggerUi.serve,
@@ -116,4 +144,7 @@ app.use("/admin/user-roles", userRoleRoutes);
 // );
 setupSwagger(app);
 
+// 11. Central error handler (RFC 7807 problem responses), must stay last
+app.use(errorHandler);
+
 export default app;
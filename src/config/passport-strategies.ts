@@ -1,4 +1,4 @@
-import { PrismaClient, User, Person, UserRole, Role } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import bcrypt from 'bcrypt';
 import passport from 'passport';
 import { Strategy as LocalStrategy } from 'passport-local';
@@ -9,6 +9,9 @@ import {
   VerifiedCallback,
 } from 'passport-jwt';
 import { Request } from 'express';
+import { resolvePermissions } from './permissions';
+import { loginBlock, signUpBlock } from '../services/account-lifecycle-service';
+import { activeLock, lockedInfo, registerFailedLogin } from '../services/login-security-service';
 
 /* ------------------------------------------------------------------ */
 /* 1. AuthenticatedUser DTO                                            */
@@ -17,6 +20,7 @@ export interface AuthenticatedUser {
   personId: string;
   email: string;
   roles: string[];
+  permissions: string[];
   firstName: string;
   lastName: string;
   dateOfBirth: Date;
@@ -25,16 +29,27 @@ export interface AuthenticatedUser {
 /* ------------------------------------------------------------------ */
 /* 2. Helper – Prisma-record ➜ DTO                                     */
 /* ------------------------------------------------------------------ */
-function toAuthenticatedUser(
-  dbUser: User & {
-    person: Person;
-    userRoles: (UserRole & { role: Role })[];
+const authUserInclude = {
+  person: true,
+  userRoles: {
+    include: {
+      role: { include: { rolePermissions: { include: { permission: true } } } },
+    },
   },
-): AuthenticatedUser {
+} satisfies Prisma.UserInclude;
+
+type AuthUserRecord = Prisma.UserGetPayload<{ include: typeof authUserInclude }>;
+
+function toAuthenticatedUser(dbUser: AuthUserRecord): AuthenticatedUser {
+  const roles = dbUser.userRoles.map((ur) => ur.role.name);
+  const granted = dbUser.userRoles.flatMap((ur) =>
+    ur.role.rolePermissions.map((rp) => rp.permission.name),
+  );
   return {
     personId: dbUser.personId,
     email: dbUser.email,
-    roles: dbUser.userRoles.map((ur) => ur.role.name),
+    roles,
+    permissions: resolvePermissions(roles, granted),
     firstName: dbUser.person.firstName,
     lastName: dbUser.person.lastName,
     dateOfBirth: dbUser.person.dateOfBirth,
@@ -53,19 +68,37 @@ passport.use(
       try {
         const dbUser = await prisma.user.findUnique({
           where: { email },
-          include: {
-            person: true,
-            userRoles: { include: { role: true } },
-          },        });
+          include: authUserInclude,
+        });
         if (!dbUser) {
           return done(null, false, { message: 'Invalid credentials.' });
         }
 
+        const lockedUntil = activeLock(dbUser);
         const isMatch = await bcrypt.compare(password, dbUser.password);
         if (!isMatch) {
+          // While locked, wrong passwords do not extend the lock
+          if (!lockedUntil) await registerFailedLogin(dbUser.personId);
           return done(null, false, { message: 'Invalid credentials.' });
         }
 
+        // Only revealed to someone who knows the password, like the checks below
+        if (lockedUntil) {
+          return done(null, false, lockedInfo(lockedUntil));
+        }
+
+        // Only checked after the password, so it does not reveal which e-mails exist
+        const blocked = loginBlock(dbUser);
+        if (blocked) {
+          return done(null, false, blocked);
+        }
+
+        // Not verified yet, or self-registered and waiting for an admin to approve
+        const incomplete = await signUpBlock(dbUser);
+        if (incomplete) {
+          return done(null, false, incomplete);
+        }
+
         return done(null, toAuthenticatedUser(dbUser));
       } catch (err) {
         return done(err);
@@ -91,17 +124,22 @@ const jwtOpts: StrategyOptions = {
 
 passport.use(
   new JwtStrategy(jwtOpts, async (payload: any, done: VerifiedCallback) => {
+    // Only access tokens carry `id`; two-factor challenge tokens must not log anyone in
+    if (typeof payload.id !== 'string') {
+      return done(null, false, { message: 'Token invalid (type).' });
+    }
     try {
       const dbUser = await prisma.user.findUnique({
         where: { personId: payload.id },
-        include: {
-          person: true,
-          userRoles: { include: { role: true } },
-        },
+        include: authUserInclude,
       });
       if (!dbUser) {
         return done(null, false, { message: 'Token invalid (user).' });
       }
+      // Suspending or deactivating takes effect on the next request, not at token expiry
+      if (loginBlock(dbUser)) {
+        return done(null, false, { message: 'Token invalid (account).' });
+      }
       return done(null, toAuthenticatedUser(dbUser));
     } catch (err) {
       return done(err, false);
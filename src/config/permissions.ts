@@ -0,0 +1,68 @@
+/**
+ * @description
+ * Catalog of the fine-grained permissions that can be granted to a role.
+ *
+ * Key features:
+ * - PERMISSIONS: Every known permission name with a short description
+ * - ADMIN_ROLE: The role that implicitly holds every permission
+ * - resolvePermissions: Effective permissions for a set of roles
+ *
+ * @notes
+ * - Permission rows in the database are created on demand when a permission is granted
+ *   to a role, so the names below are the single source of truth.
+ * - Names follow '<resource>:<action>'; 'read' never implies 'write' or vice versa.
+ */
+
+export const PERMISSIONS = {
+  'activity:read': 'View all activities, violations and period overviews',
+  'activity:write': 'Create, change, delete and force overlapping activities',
+  'schedule:publish': 'Generate schedule proposals and apply rosters',
+  'roster:read': 'View roster templates',
+  'roster:write': 'Create, change and delete roster templates',
+  'shift-type:read': 'View shift types',
+  'shift-type:write': 'Create, change and delete shift types',
+  'rates:read': 'View shift type rates',
+  'rates:write': 'Create, change, supersede and delete shift type rates',
+  'compensation:read': 'View the monthly shift compensation',
+  'person:read': 'View persons, staff, doctors and leave balances',
+  'person:write': 'Create, change and delete persons and doctors',
+  'constraint:read': 'View user constraints',
+  'constraint:write': 'Create, change and delete user constraints',
+  'leave:approve': 'View all leave requests and approve or reject them',
+  'leave:manage': 'Manage leave entitlements',
+  'swap:approve': 'View all shift swaps and approve or reject them',
+  'holiday:read': 'View holidays and closing days',
+  'holiday:write': 'Create, change and delete closing days',
+  'audit:read': 'View the audit trail of data changes',
+} as const;
+
+export type PermissionName = keyof typeof PERMISSIONS;
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as PermissionName[];
+
+export const ADMIN_ROLE = 'admin';
+
+export function isKnownPermission(name: string): name is PermissionName {
+  return Object.prototype.hasOwnProperty.call(PERMISSIONS, name);
+}
+
+/**
+ * @function resolvePermissions
+ * @description
+ * Returns the effective permissions of a user: the union of the permissions of all
+ * roles, or the complete catalog when one of the roles is the admin role.
+ *
+ * @param {string[]} roles - Role names of the user
+ * @param {string[]} granted - Permission names attached to those roles
+ * @returns {string[]} Sorted, de-duplicated permission names
+ *
+ * @example
+ * resolvePermissions(['PLANNER'], ['roster:read', 'activity:read', 'roster:read']);
+ * // ['activity:read', 'roster:read']
+ */
+export function resolvePermissions(roles: string[], granted: string[]): string[] {
+  if (roles.includes(ADMIN_ROLE)) {
+    return [...ALL_PERMISSIONS].sort();
+  }
+  return [...new Set(granted)].sort();
+}
@@ -11,7 +11,7 @@
  * - express-rate-limit: The primary library for request rate limiting
  *
  * @notes
- * - Currently, only a single rate limiter is defined for login attempts.
+ * - Limiters are defined for login attempts and for verification e-mails.
  * - You can create additional limiters for other endpoints as needed.
  * - If you need more flexible logic (e.g., different limits for different roles),
  *   you can define multiple rate-limiters or custom logic in this file.
@@ -44,3 +44,24 @@ export const loginRateLimiter = rateLimit({
   message: 'Too many login attempts from this IP. Please try again after 15 minutes.',
 });
 
+
+/**
+ * @constant verificationEmailRateLimiter
+ * @description
+ * A rate limiter for requesting a new verification e-mail, so the endpoint cannot be
+ * used to flood mailboxes.
+ *
+ * Configuration details:
+ * - windowMs: 1 hour (60 * 60 * 1000 ms)
+ * - max: 5 requests
+ *
+ * @usage
+ * router.post('/resend-verification', verificationEmailRateLimiter, (req, res) => {...});
+ */
+export const verificationEmailRateLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour in milliseconds
+  max: 5, // Limit each IP to 5 requests per windowMs
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: 'Too many verification e-mails requested from this IP. Please try again later.',
+});
@@ -8,6 +8,7 @@ import express, { Request, Response } from 'express';
 import path from 'path';
 import swaggerJsdoc from 'swagger-jsdoc';
 import swaggerUi from 'swagger-ui-express';
+import { generatedSchemaComponents } from '../routes/schema-components';
 
 /* ------------------------------------------------------------------ */
 /* 1. Spec generation (ongewijzigd)                                   */
@@ -21,6 +22,8 @@ const options = {
       description: 'OpenAPI documentation for the MedEcare-BE application',
     },
     components: {
+      // Request bodies come from the validation schemas; the rest from @openapi blocks
+      schemas: generatedSchemaComponents,
       securitySchemes: {
         CookieAuth: {
           type: 'apiKey',
@@ -8,17 +8,95 @@
  * - createActivity
  * - updateActivity
  * - deleteActivity
+ * - listConstraintViolations: Checks planned shifts against each person's UserConstraint
  *
  * @notes
  * - activityType can be 'SHIFT', 'LEAVE', 'CONFERENCE', etc.
  * - personId is required, shiftTypeId is optional if it's a SHIFT.
+ * - create/update reject (409) activities that overlap with another non-cancelled
+ *   activity of the same person, e.g. a shift during approved leave. Users with
+ *   activity:write can override this with `force: true` in the body. The check and the
+ *   write run in one transaction (see activity-service).
+ * - SHIFT activities are rejected (422 NOT_PLANNABLE) for days the person is not employed
+ *   or when their account is deactivated; `force: true` overrides this as well.
+ * - Responses go through toActivityDto.
+ * - Every create/update/delete is recorded in the audit trail.
  */
 
 import { PrismaClient } from '@prisma/client';
 import { NextFunction, Request, Response } from 'express';
+import { AuthenticatedUser } from '../config/passport-strategies';
+import { ActivityRecord, toActivityDto } from '../dto/activity-dto';
+import { hasPermission } from '../middleware/role-middleware';
+import {
+  CANCELLED_STATUS,
+  createActivityWithoutOverlap,
+  updateActivityWithoutOverlap,
+} from '../services/activity-service';
+import { isPlannableOn } from '../services/account-lifecycle-service';
+import { recordAudit } from '../services/audit-service';
+import { findViolationsInPeriod } from '../services/constraint-service';
 
 const prisma = new PrismaClient();
 
+/**
+ * Rejects the request with 403 when `force: true` is passed without activity:write.
+ * Returns true when the caller may continue.
+ */
+function ensureMayForce(req: Request, res: Response, force?: boolean): boolean {
+  const user = req.user as AuthenticatedUser | undefined;
+  if (force === true && !hasPermission(user, 'activity:write')) {
+    res.status(403).json({ error: 'Forbidden. Missing permission: activity:write' });
+    return false;
+  }
+  return true;
+}
+
+/** The 409 for an activity that overlaps with other activities of the same person. */
+function sendOverlap(res: Response, conflicts: ActivityRecord[]): void {
+  res.status(409).json({
+    error: 'Activity overlaps with existing activities of this person.',
+    conflicts: conflicts.map(toActivityDto),
+  });
+}
+
+/**
+ * Rejects the request with 422 when a SHIFT is planned for a day on which the person is
+ * not employed, or for a person whose account is deactivated. Returns true when the
+ * caller may continue.
+ */
+async function ensurePlannable(
+  res: Response,
+  activity: {
+    personId: string;
+    activityType: string;
+    start: Date;
+    status: string;
+    force?: boolean;
+  },
+): Promise<boolean> {
+  if (
+    activity.activityType !== 'SHIFT' ||
+    activity.status === CANCELLED_STATUS ||
+    activity.force === true
+  ) {
+    return true;
+  }
+
+  const person = await prisma.person.findUnique({
+    where: { id: activity.personId },
+    include: { user: true },
+  });
+  if (person && !isPlannableOn(person, activity.start)) {
+    res.status(422).json({
+      error: 'This person is not employed on that day or their account is deactivated.',
+      code: 'NOT_PLANNABLE',
+    });
+    return false;
+  }
+  return true;
+}
+
 export async function listActivities(
   req: Request,
   res: Response,
@@ -31,7 +109,7 @@ export async function listActivities(
         shiftType: true,
       },
     });
-    res.json(activities);
+    res.json(activities.map(toActivityDto));
   } catch (error) {
     next(error);
   }
@@ -55,7 +133,7 @@ export async function getActivityById(
       res.status(404).json({ error: 'Activity not found' });
       return;
     }
-    res.json(activity);
+    res.json(toActivityDto(activity));
   } catch (error) {
     next(error);
   }
@@ -67,19 +145,57 @@ export async function createActivity(
   next: NextFunction,
 ): Promise<void> {
   try {
-    const { activityType, start, end, personId, shiftTypeId, status } =
+    const { activityType, start, end, personId, shiftTypeId, status, force } =
       req.body;
-    const newActivity = await prisma.activity.create({
-      data: {
+
+    const startDate = new Date(start);
+    const endDate = new Date(end);
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      res.status(400).json({ error: 'Invalid date format for start or end' });
+      return;
+    }
+    if (endDate <= startDate) {
+      res.status(400).json({ error: 'end must be after start' });
+      return;
+    }
+
+    const finalStatus = status || 'SCHEDULED';
+    if (
+      !ensureMayForce(req, res, force) ||
+      !(await ensurePlannable(res, {
+        personId,
+        activityType,
+        start: startDate,
+        status: finalStatus,
+        force,
+      }))
+    ) {
+      return;
+    }
+
+    const result = await createActivityWithoutOverlap(
+      {
         activityType,
-        start: new Date(start),
-        end: new Date(end),
+        start: startDate,
+        end: endDate,
         personId,
         shiftTypeId,
-        status: status || 'SCHEDULED',
+        status: finalStatus,
       },
+      force === true,
+    );
+    if ('conflicts' in result) {
+      sendOverlap(res, result.conflicts);
+      return;
+    }
+    const newActivity = result.activity;
+    await recordAudit(req, {
+      action: 'CREATE',
+      entityType: 'Activity',
+      entityId: newActivity.id,
+      after: newActivity,
     });
-    res.status(201).json(newActivity);
+    res.status(201).json(toActivityDto(newActivity));
   } catch (error) {
     next(error);
   }
@@ -92,21 +208,69 @@ export async function updateActivity(
 ): Promise<void> {
   try {
     const { id } = req.params;
-    const { activityType, start, end, personId, shiftTypeId, status } =
+    const { activityType, start, end, personId, shiftTypeId, status, force } =
       req.body;
 
-    const updated = await prisma.activity.update({
-      where: { id },
-      data: {
+    const existing = await prisma.activity.findUnique({ where: { id } });
+    if (!existing) {
+      res.status(404).json({ error: 'Activity not found' });
+      return;
+    }
+
+    const startDate = start ? new Date(start) : existing.start;
+    const endDate = end ? new Date(end) : existing.end;
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      res.status(400).json({ error: 'Invalid date format for start or end' });
+      return;
+    }
+    if (endDate <= startDate) {
+      res.status(400).json({ error: 'end must be after start' });
+      return;
+    }
+
+    const period = {
+      personId: personId ?? existing.personId,
+      start: startDate,
+      end: endDate,
+      status: status ?? existing.status,
+    };
+    if (
+      !ensureMayForce(req, res, force) ||
+      !(await ensurePlannable(res, {
+        ...period,
+        activityType: activityType ?? existing.activityType,
+        force,
+      }))
+    ) {
+      return;
+    }
+
+    const result = await updateActivityWithoutOverlap(
+      id,
+      {
         activityType,
-        start: start ? new Date(start) : undefined,
-        end: end ? new Date(end) : undefined,
+        start: start ? startDate : undefined,
+        end: end ? endDate : undefined,
         personId,
         shiftTypeId,
         status,
       },
+      period,
+      force === true,
+    );
+    if ('conflicts' in result) {
+      sendOverlap(res, result.conflicts);
+      return;
+    }
+    const updated = result.activity;
+    await recordAudit(req, {
+      action: 'UPDATE',
+      entityType: 'Activity',
+      entityId: id,
+      before: existing,
+      after: updated,
     });
-    res.json(updated);
+    res.json(toActivityDto(updated));
   } catch (error) {
     next(error);
   }
@@ -119,7 +283,8 @@ export async function deleteActivity(
 ): Promise<void> {
   try {
     const { id } = req.params;
-    await prisma.activity.delete({ where: { id } });
+    const deleted = await prisma.activity.delete({ where: { id } });
+    await recordAudit(req, { action: 'DELETE', entityType: 'Activity', entityId: id, before: deleted });
     res.json({ message: `Activity with ID ${id} deleted.` });
   } catch (error) {
     next(error);
@@ -162,7 +327,7 @@ export async function filterActivities(
         shiftType: true,
       },
     });
-    res.json(activities);
+    res.json(activities.map(toActivityDto));
   } catch (error) {
     next(error);
   }
@@ -206,7 +371,7 @@ export async function activitiesPeriodFilter(
         shiftType: true,
       },
     });
-    res.json(activities);
+    res.json(activities.map(toActivityDto));
   } catch (error) {
     next(error);
   }
@@ -248,7 +413,7 @@ export async function listShiftsByPeriod(
       },
     });
 
-    res.json(activities);
+    res.json(activities.map(toActivityDto));
   } catch (error) {
     next(error);
   }
@@ -292,7 +457,36 @@ export async function listVerlofByPeriod(
       },
     });
 
-    res.json(activities);
+    res.json(activities.map(toActivityDto));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function listConstraintViolations(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const startDateStr = req.query.startDate as string;
+    const endDateStr = req.query.endDate as string;
+
+    if (!startDateStr || !endDateStr) {
+      res.status(400).json({ error: 'startDate and endDate are required' });
+      return;
+    }
+
+    const startDate = new Date(startDateStr);
+    const endDate = new Date(endDateStr);
+
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      res.status(400).json({ error: 'Invalid date format for startDate or endDate' });
+      return;
+    }
+
+    const violations = await findViolationsInPeriod(startDate, endDate);
+    res.json(violations);
   } catch (error) {
     next(error);
   }
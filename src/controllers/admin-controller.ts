@@ -7,6 +7,8 @@
  * - listUsers: Retrieves a list of all users with their personal information
  * - createNewUser
  * - updateExistingUser
+ * - updateUserStatus: Suspend, deactivate or reactivate an account
+ * - unlockExistingUser: Lifts a lockout after repeated failed logins
  * - deleteExistingUser
  *
  * @dependencies
@@ -17,7 +19,10 @@
  *
  * @notes
  * - All routes must be called after passing jwtAuth and requireAdmin middlewares.
- * - We ensure that no sensitive data (like hashed password) is returned in the response.
+ * - We ensure that no sensitive data (like hashed password) is returned in the response:
+ *   users are always sent as a UserDto.
+ * - Prefer deactivating over deleting: a deleted user loses the history that activities
+ *   and the audit trail refer to.
  */
 
 import bcrypt from 'bcrypt';
@@ -27,13 +32,26 @@ import {
   createUser,
   deleteUser,
   findAllUsersWithPersonDetails,
+  findById,
   findUserById,
   updateUser,
 } from '../services/user-service';
+import { setUserStatus, UserStatus } from '../services/account-lifecycle-service';
+import { recordAudit } from '../services/audit-service';
+import { unlockUser } from '../services/login-security-service';
+import { toUserDto } from '../dto/user-dto';
 import { isPasswordValid } from '../utils/password-validator';
 
 const prisma = new PrismaClient();
 
+/**
+ * The user with its role names, as stored in the audit trail (never the password hash).
+ */
+async function userSnapshot(userId: string) {
+  const user = await findById(userId);
+  return user && { ...toUserDto(user), roles: user.roles };
+}
+
 /**
  * @function listUsers
  * @description Retrieves a list of all users, including person details but excluding passwords.
@@ -51,16 +69,7 @@ export async function listUsers(
 ): Promise<void> {
   try {
     const users = await findAllUsersWithPersonDetails();
-    // Modify to match OpenAPI docs - include the full person object
-    const sanitized = users.map((u) => ({
-      personId: u.personId,
-      email: u.email,
-      createdAt: u.createdAt,
-      updatedAt: u.updatedAt,
-      person: u.person,
-    }));
-
-    res.status(200).json(sanitized);
+    res.status(200).json(users.map(toUserDto));
   } catch (error: any) {
     next(error);
   }
@@ -68,7 +77,8 @@ export async function listUsers(
 
 /**
  * @function createNewUser
- * @description Allows an admin to create a new user. The admin can specify a role, etc.
+ * @description Allows an admin to create an account for an existing person, with a password
+ * chosen by the admin. To add someone new, send an invitation instead (invitation-controller).
  *
  * @param req Express request
  * @param res Express response
@@ -81,11 +91,11 @@ export async function createNewUser(
   next: NextFunction,
 ): Promise<void> {
   try {
-    const { email, password, role } = req.body;
-    if (!email || !password) {
+    const { email, password, role, personId } = req.body;
+    if (!email || !password || !personId) {
       res
         .status(400)
-        .json({ error: 'Missing required fields: email, password.' });
+        .json({ error: 'Missing required fields: email, password, personId.' });
       return;
     }
 
@@ -96,21 +106,14 @@ export async function createNewUser(
       return;
     }
 
-    // Minimal creation. In this admin flow, we might not be linking a Person,
-    // so createUser would require a personId. In a real scenario you'd pass
-    // personId or do something else, but let's keep it consistent with your logic.
-    // This example doesn't show where you get personId from.
-    // If you do have a personId from the request, just pass it in.
-    const tempPerson = await prisma.person.create({
-      data: {
-        firstName: 'AdminCreated',
-        lastName: 'User',
-        dateOfBirth: new Date('2000-01-01'),
-      },
+    const newUser = await createUser({ email, password, role, personId, emailVerified: true });
+    await recordAudit(req, {
+      action: 'CREATE',
+      entityType: 'User',
+      entityId: newUser.personId,
+      after: await userSnapshot(newUser.personId),
     });
 
-    const newUser = await createUser({ email, password, role, personId: tempPerson.id });
-
     res.status(201).json({
       message: 'User created successfully by Admin.',
       user: {
@@ -140,7 +143,9 @@ export async function updateExistingUser(
 ): Promise<void> {
   try {
     const userId = req.params.id;
-    const { email, password, role } = req.body;    const updateData: Record<string, any> = {};
+    const { email, password, role } = req.body;
+    const before = await userSnapshot(userId);
+    const updateData: Record<string, any> = {};
     if (email) updateData.email = email;
 
     if (password) {
@@ -183,15 +188,89 @@ export async function updateExistingUser(
     }
 
     const updated = await updateUser(userId, updateData);
+    await recordAudit(req, {
+      action: 'UPDATE',
+      entityType: 'User',
+      entityId: userId,
+      before,
+      after: { ...(await userSnapshot(userId)), ...(password && { passwordChanged: true }) },
+    });
 
     res.status(200).json({
       message: 'User updated successfully by Admin.',
-      user: {
-        personId: updated.personId,
-        email: updated.email,
-        createdAt: updated.createdAt,
-        updatedAt: updated.updatedAt,
-      },
+      user: toUserDto(updated),
+    });
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @function updateUserStatus
+ * @description Changes the status of a user (ACTIVE, SUSPENDED or DEACTIVATED).
+ * Leaving ACTIVE ends all sessions of the user.
+ *
+ * @param req Express request with user ID in params and { status, reason } in the body
+ * @param res Express response
+ * @param next Error handling
+ * @returns Promise<void>
+ */
+export async function updateUserStatus(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const userId = req.params.id;
+    const { status, reason } = req.body as { status: UserStatus; reason?: string };
+    const before = await userSnapshot(userId);
+    const updated = await setUserStatus(userId, status, reason);
+    await recordAudit(req, {
+      action: 'UPDATE',
+      entityType: 'User',
+      entityId: userId,
+      before,
+      after: await userSnapshot(userId),
+    });
+
+    res.status(200).json({
+      message: `User status set to ${status}.`,
+      user: toUserDto(updated),
+    });
+  } catch (error: any) {
+    next(error);
+  }
+}
+
+/**
+ * @function unlockExistingUser
+ * @description Lifts the lockout of a user and resets the failed-login counter.
+ *
+ * @param req Express request with user ID in params
+ * @param res Express response
+ * @param next Error handling
+ * @returns Promise<void>
+ */
+export async function unlockExistingUser(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const userId = req.params.id;
+    const before = await userSnapshot(userId);
+    const updated = await unlockUser(userId);
+    await recordAudit(req, {
+      action: 'UPDATE',
+      entityType: 'User',
+      entityId: userId,
+      before,
+      after: await userSnapshot(userId),
+    });
+
+    res.status(200).json({
+      message: 'User unlocked.',
+      user: toUserDto(updated),
     });
   } catch (error: any) {
     next(error);
@@ -214,9 +293,11 @@ export async function deleteExistingUser(
 ): Promise<void> {
   try {
     const userId = req.params.id;
+    const before = await userSnapshot(userId);
     await prisma.userRole.deleteMany({ where: { userId } });
     await prisma.refreshToken.deleteMany({ where: { userId } });
     const deleted = await deleteUser(userId);
+    await recordAudit(req, { action: 'DELETE', entityType: 'User', entityId: userId, before });
 
     res.status(200).json({
       message: `User with personId ${deleted.personId} deleted successfully by Admin.`,
@@ -250,16 +331,7 @@ export async function getUserById(
       return;
     }
 
-    // Return user data without sensitive information
-    const sanitizedUser = {
-      personId: user.personId,
-      email: user.email,
-      createdAt: user.createdAt,
-      updatedAt: user.updatedAt,
-      person: user.person,
-    };
-
-    res.status(200).json(sanitizedUser);
+    res.status(200).json(toUserDto(user));
   } catch (error: any) {
     next(error);
   }
@@ -0,0 +1,39 @@
+/**
+ * @description
+ * Audit Controller: read access to the audit trail.
+ *
+ * Key features:
+ * - listAuditEntries: Filter by entity type, entity id, actor and period
+ *
+ * @notes
+ * - The query string is validated by the route (auditQuery); `to` is inclusive.
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import { toAuditLogDto } from '../dto/audit-dto';
+import { listAuditLogs } from '../services/audit-service';
+
+export async function listAuditEntries(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const { entity, entityId, actor, from, to, limit } = req.query as Record<
+      string,
+      string | undefined
+    >;
+
+    const entries = await listAuditLogs({
+      entityType: entity,
+      entityId,
+      actorId: actor,
+      from: from ? new Date(from) : undefined,
+      to: to ? new Date(to) : undefined,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+    res.json(entries.map(toAuditLogDto));
+  } catch (error) {
+    next(error);
+  }
+}
@@ -10,25 +10,68 @@ import jwt from 'jsonwebtoken';
 import passport from 'passport';
 
 import { AuthenticatedUser } from '../config/passport-strategies';
+import { toUserDto } from '../dto/user-dto';
+import { findLoginBlock, signUpBlock } from '../services/account-lifecycle-service';
+import { recordAudit } from '../services/audit-service';
 import {
-  findRefreshToken,
-  removeRefreshToken,
+  consumeRefreshToken,
+  revokeRefreshToken,
   storeRefreshToken,
   storeResetToken,
 } from '../services/auth-service';
-import { sendResetEmail } from '../services/email-service';
 import {
-  createUser,
+  sendResetEmail,
+  sendTwoFactorEnrollmentEmail,
+  sendVerificationEmail,
+} from '../services/email-service';
+import {
+  findResendCandidate,
+  issueVerificationToken,
+  verifyEmailToken,
+} from '../services/email-verification-service';
+import { acceptInvitation } from '../services/invitation-service';
+import {
+  activeLock,
+  lockedInfo,
+  recordFailedLogin,
+  recordSuccessfulLogin,
+  registerFailedLogin,
+} from '../services/login-security-service';
+import { registerApplicant } from '../services/registration-service';
+import {
+  ENROLLMENT_CODE_TTL_MINUTES,
+  confirmEnrollment,
+  consumeEnrollmentCode,
+  getTwoFactorStatus,
+  issueEnrollmentCode,
+  startEnrollment,
+  verifySecondFactor,
+} from '../services/two-factor-service';
+import {
   findByEmail,
   findById,
   findByResetToken,
   updatePassword,
 } from '../services/user-service';
 import { isPasswordValid } from '../utils/password-validator';
-import { generateTokens } from '../utils/token-utils';
+import {
+  generateTokens,
+  generateTwoFactorChallenge,
+  sessionDevice,
+  suppliedRefreshToken,
+  verifyTwoFactorChallenge,
+} from '../utils/token-utils';
 
 const prisma = new PrismaClient();
 
+async function sendVerification(personId: string, email: string): Promise<void> {
+  const { token } = await issueVerificationToken(personId);
+  const verifyLink =
+    process.env.FRONTEND_ORIGIN +
+    `/MedEcareWC/MedEcare.html?verifyToken=${token}`;
+  await sendVerificationEmail(email, verifyLink);
+}
+
 /* ------------------------------------------------------------------ */
 /* 1. REGISTER                                                         */
 /* ------------------------------------------------------------------ */
@@ -100,34 +143,25 @@ export async function register(
       return;
     }
 
-    const existingPerson = await prisma.person.findFirst({
-      where: { firstName, lastName, dateOfBirth: parsedDate },
+    // The requested role and shift eligibility wait for an admin at /admin/registrations
+    const newUser = await registerApplicant({
+      email,
+      password,
+      firstName,
+      lastName,
+      dateOfBirth: parsedDate,
+      rizivNumber,
+      role,
+      isEnabledInShifts,
     });
 
-    let personId: string;
-    if (existingPerson) {
-      personId = existingPerson.id;
-    } else {
-      const newPerson = await prisma.person.create({
-        data: { firstName, lastName, dateOfBirth: parsedDate },
-      });
-      personId = newPerson.id;
-    }
-
-    // Create User (which should handle UserRole creation)
-    const newUser = await createUser({ email, password, role, personId });
-
-    // Always create Doctor record
-    await prisma.doctor.create({
-      data: {
-        personId,
-        rizivNumber,
-        isEnabledInShifts,
-      },
-    });
+    // The account can only log in once the address is confirmed via /auth/verify-email
+    await sendVerification(newUser.personId, newUser.email);
 
     res.status(201).json({
       message: 'Registration successful.',
+      emailVerificationRequired: true,
+      approvalRequired: true,
       user: {
         personId: newUser.personId,
         email: newUser.email,
@@ -147,6 +181,82 @@ interface LoginRequestBody {
   platform?: 'web' | 'mobile' | 'web-persist';
 }
 
+/**
+ * Issues the access and refresh tokens of a completed login: as cookies for web, in the
+ * body for mobile. `extra` is merged into the response body. The login is logged as a
+ * LoginEvent (which resets the failed-login counter).
+ */
+async function sendLoginTokens(
+  req: Request,
+  res: Response,
+  user: AuthenticatedUser,
+  platform: string,
+  extra: Record<string, unknown> = {},
+): Promise<void> {
+  await recordSuccessfulLogin(user, sessionDevice(req, platform));
+  const tokens = generateTokens({ personId: user.personId } as any, platform);
+
+  /* ---------------- mobile / FMX ---------------- */
+  if (platform === 'mobile') {
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + 30);
+    await storeRefreshToken(user.personId, tokens.refreshToken, expiresAt, sessionDevice(req, platform));
+
+    res.status(200).json({
+      message: 'Login successful.',
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      authenticatedUser: user,
+      ...extra,
+    });
+    return;
+  }
+
+  /* ---------------- web & web-persist ---------------- */
+  const isProd = process.env.NODE_ENV === 'production';
+  const cookieOptions: CookieOptions = {
+    httpOnly: true,
+    secure: isProd,
+    sameSite: 'strict',
+  };
+
+  const refreshExpireDays = platform === 'web-persist' ? 30 : 7;
+  cookieOptions.expires = new Date(
+    Date.now() + refreshExpireDays * 86_400_000,
+  );
+
+  await storeRefreshToken(
+    user.personId,
+    tokens.refreshToken,
+    cookieOptions.expires!,
+    sessionDevice(req, platform),
+  );
+
+  res
+    .cookie('accessToken', tokens.accessToken, cookieOptions)
+    .cookie('refreshToken', tokens.refreshToken, cookieOptions)
+    .status(200)
+    .json({
+      message: 'Login successful.',
+      authenticatedUser: user,
+      ...extra,
+    });
+}
+
+async function authenticatedUserById(personId: string): Promise<AuthenticatedUser | null> {
+  const user = await findById(personId);
+  if (!user) return null;
+  return {
+    personId: user.personId,
+    firstName: user.person.firstName,
+    lastName: user.person.lastName,
+    dateOfBirth: user.person.dateOfBirth,
+    email: user.email,
+    roles: user.roles,
+    permissions: user.permissions,
+  };
+}
+
 export function login(req: Request, res: Response, next: NextFunction): void {
   passport.authenticate(
     'local',
@@ -154,57 +264,39 @@ export function login(req: Request, res: Response, next: NextFunction): void {
       if (err) {
         next(err);
         return;
-      }      if (!user) {
-        res.status(401).json({ error: 'Invalid credentials.', message: 'Invalid credentials.' });
-        return;
       }
 
       try {
-        const { platform = 'web' } = req.body as LoginRequestBody;
-        const tokens = generateTokens({ personId: user.personId } as any, platform);
-
-        /* ---------------- mobile / FMX ---------------- */
-        if (platform === 'mobile') {
-          const expiresAt = new Date();
-          expiresAt.setDate(expiresAt.getDate() + 30);
-          await storeRefreshToken(user.personId, tokens.refreshToken, expiresAt);
+        const { email = '', platform = 'web' } = req.body as LoginRequestBody;
+
+        if (!user) {
+          await recordFailedLogin(email, info?.code ?? 'INVALID_CREDENTIALS', sessionDevice(req, platform));
+          // Locked, or the password was right but the account may not log in (yet)
+          if (info?.code) {
+            res.status(403).json({
+              error: info.message,
+              code: info.code,
+              ...(info.lockedUntil && { lockedUntil: info.lockedUntil }),
+            });
+            return;
+          }
+          res.status(401).json({ error: 'Invalid credentials.', message: 'Invalid credentials.' });
+          return;
+        }
 
+        // With 2FA the password is only the first step: tokens follow at /auth/login/2fa
+        const twoFactor = await getTwoFactorStatus(user.personId);
+        if (twoFactor.enabled || twoFactor.required) {
           res.status(200).json({
-            message: 'Login successful.',
-            accessToken: tokens.accessToken,
-            refreshToken: tokens.refreshToken,
-            authenticatedUser: user,
+            message: 'Two-factor authentication required.',
+            twoFactorRequired: true,
+            enrollmentRequired: !twoFactor.enabled,
+            challengeToken: generateTwoFactorChallenge(user.personId, platform),
           });
           return;
         }
 
-        /* ---------------- web & web-persist ---------------- */
-        const isProd = process.env.NODE_ENV === 'production';
-        const cookieOptions: CookieOptions = {
-          httpOnly: true,
-          secure: isProd,
-          sameSite: 'strict',
-        };
-
-        const refreshExpireDays = platform === 'web-persist' ? 30 : 7;
-        cookieOptions.expires = new Date(
-          Date.now() + refreshExpireDays * 86_400_000,
-        );
-
-        await storeRefreshToken(
-          user.personId,
-          tokens.refreshToken,
-          cookieOptions.expires!,
-        );
-
-        res
-          .cookie('accessToken', tokens.accessToken, cookieOptions)
-          .cookie('refreshToken', tokens.refreshToken, cookieOptions)
-          .status(200)
-          .json({
-            message: 'Login successful.',
-            authenticatedUser: user,
-          });
+        await sendLoginTokens(req, res, user, platform);
       } catch (e) {
         next(e);
       }
@@ -212,6 +304,138 @@ export function login(req: Request, res: Response, next: NextFunction): void {
   )(req, res, next);
 }
 
+/* ------------------------------------------------------------------ */
+/* 2b. LOGIN – second factor                                           */
+/* ------------------------------------------------------------------ */
+interface SecondFactorRequestBody {
+  challengeToken: string;
+  code?: string;
+  recoveryCode?: string;
+}
+
+export async function loginSecondFactor(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body as SecondFactorRequestBody;
+    const challenge = verifyTwoFactorChallenge(challengeToken);
+    if (!challenge) {
+      res.status(401).json({ error: 'Login expired. Please log in again.' });
+      return;
+    }
+
+    const user = await authenticatedUserById(challenge.personId);
+    if (!user) {
+      res.status(404).json({ error: 'User not found.' });
+      return;
+    }
+    const device = sessionDevice(req, challenge.platform);
+
+    // The codes count towards the same lockout as the password
+    const dbUser = await prisma.user.findUnique({ where: { personId: user.personId } });
+    const lockedUntil = dbUser && activeLock(dbUser);
+    if (lockedUntil) {
+      const { message, code: reason } = lockedInfo(lockedUntil);
+      await recordFailedLogin(user.email, reason, device);
+      res.status(403).json({ error: message, code: reason, lockedUntil });
+      return;
+    }
+
+    const twoFactor = await getTwoFactorStatus(challenge.personId);
+    let recoveryCodes: string[] | null = null;
+    let accepted: boolean;
+    if (twoFactor.enabled) {
+      accepted = await verifySecondFactor(challenge.personId, { code, recoveryCode });
+    } else {
+      // A role requires 2FA but the user has not enrolled yet: the code confirms the
+      // enrollment started at /auth/login/2fa/setup
+      recoveryCodes = code ? await confirmEnrollment(challenge.personId, code) : null;
+      accepted = !!recoveryCodes;
+    }
+    if (!accepted) {
+      await registerFailedLogin(challenge.personId);
+      await recordFailedLogin(user.email, 'INVALID_TWO_FACTOR_CODE', device);
+      res.status(401).json({ error: 'Invalid two-factor code.' });
+      return;
+    }
+
+    // The account may have been suspended or otherwise changed since the password step
+    const blocked =
+      (await findLoginBlock(challenge.personId)) ?? (dbUser && (await signUpBlock(dbUser)));
+    if (blocked) {
+      await recordFailedLogin(user.email, blocked.code, device);
+      res.status(403).json({ error: blocked.message, code: blocked.code });
+      return;
+    }
+
+    await sendLoginTokens(req, res, user, challenge.platform, recoveryCodes ? { recoveryCodes } : {});
+  } catch (e) {
+    next(e);
+  }
+}
+
+interface TwoFactorSetupRequestBody {
+  challengeToken: string;
+  emailCode?: string;
+}
+
+/**
+ * Enrollment during login. The challenge token only proves the password, so the first call
+ * e-mails a one-time code and only a call with that code gets a new secret.
+ */
+export async function loginTwoFactorSetup(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const { challengeToken, emailCode } = req.body as TwoFactorSetupRequestBody;
+    const challenge = verifyTwoFactorChallenge(challengeToken);
+    if (!challenge) {
+      res.status(401).json({ error: 'Login expired. Please log in again.' });
+      return;
+    }
+
+    const dbUser = await prisma.user.findUnique({ where: { personId: challenge.personId } });
+    if (!dbUser) {
+      res.status(404).json({ error: 'User not found.' });
+      return;
+    }
+    const device = sessionDevice(req, challenge.platform);
+    const lockedUntil = activeLock(dbUser);
+    if (lockedUntil) {
+      const { message, code: reason } = lockedInfo(lockedUntil);
+      await recordFailedLogin(dbUser.email, reason, device);
+      res.status(403).json({ error: message, code: reason, lockedUntil });
+      return;
+    }
+
+    if (!emailCode) {
+      const { code, email } = await issueEnrollmentCode(challenge.personId);
+      await sendTwoFactorEnrollmentEmail(email, code, ENROLLMENT_CODE_TTL_MINUTES);
+      res.status(202).json({
+        message: 'We e-mailed you a code. Send it as emailCode to continue the setup.',
+        emailCodeSent: true,
+      });
+      return;
+    }
+
+    // A wrong code counts towards the same lockout as the password
+    if (!(await consumeEnrollmentCode(challenge.personId, emailCode))) {
+      await registerFailedLogin(challenge.personId);
+      await recordFailedLogin(dbUser.email, 'INVALID_ENROLLMENT_CODE', device);
+      res.status(401).json({ error: 'Invalid or expired e-mail code.' });
+      return;
+    }
+
+    res.json(await startEnrollment(challenge.personId));
+  } catch (e) {
+    next(e);
+  }
+}
+
 /* ------------------------------------------------------------------ */
 /* 3. REFRESH TOKEN                                                    */
 /* ------------------------------------------------------------------ */
@@ -221,19 +445,15 @@ export async function refreshToken(
   next: NextFunction,
 ): Promise<void> {
   try {
-    const suppliedToken: string | undefined =
-      req.cookies?.refreshToken ||
-      req.body?.refreshToken ||
-      (req.headers['x-refresh-token'] as string | undefined);
+    const suppliedToken = suppliedRefreshToken(req);
 
     if (!suppliedToken) {
       res.status(400).json({ error: 'No refresh token supplied.' });
       return;
     }
 
-    let payload: any;
     try {
-      payload = jwt.verify(
+      jwt.verify(
         suppliedToken,
         process.env.JWT_SECRET || 'changeme',
       );
@@ -242,45 +462,57 @@ export async function refreshToken(
       return;
     }
 
-    const existing = await findRefreshToken(suppliedToken);
-    if (!existing) {
+    const { status, record } = await consumeRefreshToken(suppliedToken);
+    if (status === 'NOT_FOUND' || !record) {
       res
         .status(404)
         .json({ error: 'Refresh token not found or already invalidated.' });
       return;
     }
-    if (existing.expiresAt < new Date()) {
-      await removeRefreshToken(suppliedToken);
+    if (status === 'EXPIRED') {
       res.status(401).json({ error: 'Refresh token is expired.' });
       return;
     }
+    if (status === 'REVOKED') {
+      res.status(401).json({ error: 'Refresh token has been revoked.' });
+      return;
+    }
+    if (status === 'REUSED') {
+      // A rotated token came back: it was copied, so every token of this login is revoked
+      await recordAudit(req, {
+        action: 'REVOKE',
+        entityType: 'RefreshTokenFamily',
+        entityId: record.familyId,
+        after: { userId: record.userId, reason: 'REUSE_DETECTED', reusedTokenId: record.id },
+      });
+      res.status(401).json({ error: 'Refresh token was already used. Please log in again.' });
+      return;
+    }
+
+    // The account may have been suspended or the employment ended since the login
+    const blocked = await findLoginBlock(record.userId);
+    if (blocked) {
+      res.status(403).json({ error: blocked.message, code: blocked.code });
+      return;
+    }
 
     // Get user data for the authenticatedUser response
-    const user = await findById(payload.id);
-    if (!user) {
+    const authenticatedUser = await authenticatedUserById(record.userId);
+    if (!authenticatedUser) {
       res.status(404).json({ error: 'User not found.' });
       return;
     }
-    
-    const authenticatedUser: AuthenticatedUser = {
-      personId: user.personId,
-      firstName: user.person.firstName,
-      lastName: user.person.lastName,
-      dateOfBirth: user.person.dateOfBirth,
-      email: user.email,
-      roles: user.roles
-    };
 
-    await removeRefreshToken(suppliedToken);
+    const lineage = { familyId: record.familyId, parentId: record.id };
 
     const { platform = 'web' } = req.body as { platform?: string };
-    const newTokens = generateTokens({ personId: payload.id } as any, platform);
+    const newTokens = generateTokens({ personId: record.userId } as any, platform);
 
     /* ---------------- mobile / FMX ---------------- */
     if (platform === 'mobile') {
       const expiresAt = new Date();
       expiresAt.setDate(expiresAt.getDate() + 30);
-      await storeRefreshToken(payload.id, newTokens.refreshToken, expiresAt);
+      await storeRefreshToken(record.userId, newTokens.refreshToken, expiresAt, sessionDevice(req, platform), lineage);
 
       res.status(200).json({
         message: 'Tokens successfully renewed.',
@@ -296,7 +528,7 @@ export async function refreshToken(
     const refreshExpireDays = platform === 'web-persist' ? 30 : 7;
     const refreshExpires = new Date(Date.now() + refreshExpireDays * 86_400_000);
 
-    await storeRefreshToken(payload.id, newTokens.refreshToken, refreshExpires);
+    await storeRefreshToken(record.userId, newTokens.refreshToken, refreshExpires, sessionDevice(req, platform), lineage);
 
     res
       .cookie('accessToken', newTokens.accessToken, {
@@ -479,10 +711,7 @@ export async function logout(
   next: NextFunction,
 ): Promise<void> {
   try {
-    const token: string | undefined =
-      req.cookies?.refreshToken ||
-      req.body?.refreshToken ||
-      (req.headers['x-refresh-token'] as string | undefined);
+    const token = suppliedRefreshToken(req);
 
     const isProd = process.env.NODE_ENV === 'production';
 
@@ -498,11 +727,7 @@ export async function logout(
     });
 
     if (token) {
-      try {
-        await removeRefreshToken(token);
-      } catch (err: any) {
-        if (err.code !== 'P2025') throw err;
-      }
+      await revokeRefreshToken(token);
     }
 
     res.status(200).json({ message: 'Logout successful.' });
@@ -510,3 +735,101 @@ export async function logout(
     next(e);
   }
 }
+
+/* ------------------------------------------------------------------ */
+/* 8. ACCEPT INVITE                                                    */
+/* ------------------------------------------------------------------ */
+interface AcceptInviteRequestBody {
+  token: string;
+  password: string;
+}
+
+export async function acceptInvite(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const { token, password } = req.body as AcceptInviteRequestBody;
+    if (!isPasswordValid(password)) {
+      res
+        .status(400)
+        .json({ error: 'Password does not meet the required strength policy.' });
+      return;
+    }
+
+    const accepted = await acceptInvitation(token, password);
+    if (!accepted) {
+      res.status(400).json({
+        error: 'This invitation is invalid, already used or expired. Please ask for a new one.',
+      });
+      return;
+    }
+    await recordAudit(req, {
+      action: 'CREATE',
+      entityType: 'User',
+      entityId: accepted.user.personId,
+      after: { ...toUserDto(accepted.user), invitationId: accepted.invitation.id },
+    });
+
+    res.status(201).json({
+      message: 'Account created. You can now log in.',
+      user: toUserDto(accepted.user),
+    });
+  } catch (e) {
+    next(e);
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/* 9. VERIFY EMAIL                                                     */
+/* ------------------------------------------------------------------ */
+export async function verifyEmail(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const result = await verifyEmailToken(req.body.token);
+    if (result === 'INVALID') {
+      res.status(400).json({ error: 'Invalid or unknown verification token.' });
+      return;
+    }
+    if (result === 'EXPIRED') {
+      res
+        .status(400)
+        .json({ error: 'This verification link has expired. Please request a new one.' });
+      return;
+    }
+
+    res
+      .status(200)
+      .json({ message: 'Email address verified. You can now log in.' });
+  } catch (e) {
+    next(e);
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/* 10. RESEND VERIFICATION                                             */
+/* ------------------------------------------------------------------ */
+export async function resendVerification(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    // Same answer whether or not an e-mail was sent, so addresses cannot be probed
+    const user = await findResendCandidate(req.body.email);
+    if (user) {
+      await sendVerification(user.personId, user.email);
+    }
+
+    res.status(200).json({
+      message:
+        'If the address belongs to an unverified account, a new verification link has been sent.',
+    });
+  } catch (e) {
+    next(e);
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * @description
+ * Calendar Controller for the personal ICS subscription feed.
+ *
+ * Key features:
+ * - getCalendarFeed: The ICS feed itself, protected by the token in its URL (no login)
+ * - getCalendarFeedStatus: Whether the logged-in user has an active feed
+ * - createCalendarFeedToken: Creates (or replaces) the feed token and returns the feed URL
+ * - revokeCalendarFeedToken: Disables the feed
+ *
+ * @notes
+ * - Calendar apps cannot send cookies or bearer tokens, hence the secret in the URL.
+ * - An unknown person or a wrong token both answer 404, so a feed cannot be probed.
+ * - The feed also answers 404 while the account may not log in (see loginBlock).
+ * - The feed contains activities from FEED_HISTORY_DAYS ago onwards.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { NextFunction, Request, Response } from 'express';
+import { AuthenticatedUser } from '../config/passport-strategies';
+import { findLoginBlock } from '../services/account-lifecycle-service';
+import {
+  buildIcsCalendar,
+  createFeedToken,
+  isValidFeedToken,
+  revokeFeedToken,
+} from '../services/calendar-service';
+import { addDays, startOfUtcDay } from '../utils/date-utils';
+
+const prisma = new PrismaClient();
+
+const FEED_HISTORY_DAYS = 90;
+
+export async function getCalendarFeed(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const { personId, feedToken } = req.params;
+
+    // A suspended, deactivated or no longer employed person keeps the token for a later
+    // reactivation, but the feed is unavailable, like every other way into the account
+    if (!(await isValidFeedToken(personId, feedToken)) || (await findLoginBlock(personId))) {
+      res.status(404).json({ error: 'Calendar feed not found' });
+      return;
+    }
+
+    const person = await prisma.person.findUnique({ where: { id: personId } });
+    const activities = await prisma.activity.findMany({
+      where: {
+        personId,
+        end: { gte: addDays(startOfUtcDay(new Date()), -FEED_HISTORY_DAYS) },
+      },
+      include: { shiftType: true },
+      orderBy: { start: 'asc' },
+    });
+
+    const calendarName = `MedEcare - ${person?.firstName ?? ''} ${person?.lastName ?? ''}`.trim();
+    res
+      .status(200)
+      .set('Content-Type', 'text/calendar; charset=utf-8')
+      .set('Content-Disposition', 'inline; filename="medecare.ics"')
+      .set('Cache-Control', 'no-cache')
+      .send(buildIcsCalendar(calendarName, activities));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getCalendarFeedStatus(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as AuthenticatedUser;
+    const record = await prisma.user.findUnique({
+      where: { personId: user.personId },
+      select: { calendarFeedTokenCreatedAt: true },
+    });
+    res.json({
+      active: !!record?.calendarFeedTokenCreatedAt,
+      createdAt: record?.calendarFeedTokenCreatedAt ?? null,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function createCalendarFeedToken(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as AuthenticatedUser;
+    const token = await createFeedToken(user.personId);
+    const url = `${req.protocol}://${req.get('host')}/calendar/${user.personId}/${token}.ics`;
+
+    res.status(201).json({
+      message: 'Calendar feed created. Any previous feed URL no longer works.',
+      url,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function revokeCalendarFeedToken(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as AuthenticatedUser;
+    await revokeFeedToken(user.personId);
+    res.json({ message: 'Calendar feed revoked.' });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * @description
+ * Compensation Controller for payroll reports of SHIFT activities.
+ *
+ * Key features:
+ * - getMonthlyCompensation: Per-person totals for a month with a line-item breakdown per activity
+ *
+ * @notes
+ * - Amounts come from the ShiftTypeRate valid at each moment of the shift; see compensation-service.
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import { calculateMonthlyCompensation } from '../services/compensation-service';
+
+export async function getMonthlyCompensation(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const year = parseInt(req.query.year as string, 10);
+    const month = parseInt(req.query.month as string, 10);
+
+    if (isNaN(year) || isNaN(month)) {
+      res.status(400).json({ error: 'year and month are required' });
+      return;
+    }
+    if (month < 1 || month > 12) {
+      res.status(400).json({ error: 'month must be between 1 and 12' });
+      return;
+    }
+
+    res.json(await calculateMonthlyCompensation(year, month));
+  } catch (error) {
+    next(error);
+  }
+}
@@ -15,10 +15,17 @@
  * @notes
  * - Doctor has a 1:1 relationship with Person via personId
  * - personId serves as both foreign key and primary key for Doctor
+ * - Responses go through toDoctorDto, which reduces the linked User to its e-mail.
+ * - listEnabledDoctors only returns doctors that can be planned today: enabled, employed
+ *   and without a deactivated account. Set employmentEnd or deactivate the user instead
+ *   of deleting a doctor whose activities should stay.
  */
 
 import { PrismaClient } from '@prisma/client';
 import { Request, Response, NextFunction } from 'express';
+import { toDoctorDto } from '../dto/person-dto';
+import { plannableDoctorWhere } from '../services/account-lifecycle-service';
+import { recordAudit } from '../services/audit-service';
 
 const prisma = new PrismaClient();
 
@@ -33,7 +40,7 @@ export async function listDoctors(req: Request, res: Response, next: NextFunctio
         },
       },
     });
-    res.json(doctors);
+    res.json(doctors.map(toDoctorDto));
   } catch (error) {
     next(error);
   }
@@ -60,7 +67,7 @@ export async function getDoctorById(req: Request, res: Response, next: NextFunct
       return;
     }
     
-    res.json(doctor);
+    res.json(toDoctorDto(doctor));
   } catch (error) {
     next(error);
   }
@@ -91,7 +98,13 @@ export async function createDoctor(req: Request, res: Response, next: NextFuncti
       },
     });
     
-    res.status(201).json(newDoctor);
+    await recordAudit(req, {
+      action: 'CREATE',
+      entityType: 'Doctor',
+      entityId: newDoctor.personId,
+      after: toDoctorDto(newDoctor),
+    });
+    res.status(201).json(toDoctorDto(newDoctor));
   } catch (error) {
     next(error);
   }
@@ -102,6 +115,7 @@ export async function updateDoctor(req: Request, res: Response, next: NextFuncti
     const { id } = req.params;
     const { rizivNumber, isEnabledInShifts } = req.body;
 
+    const before = await prisma.doctor.findUnique({ where: { personId: id } });
     const updated = await prisma.doctor.update({
       where: { personId: id },
       data: {
@@ -113,7 +127,14 @@ export async function updateDoctor(req: Request, res: Response, next: NextFuncti
       },
     });
     
-    res.json(updated);
+    await recordAudit(req, {
+      action: 'UPDATE',
+      entityType: 'Doctor',
+      entityId: id,
+      before,
+      after: toDoctorDto(updated),
+    });
+    res.json(toDoctorDto(updated));
   } catch (error) {
     next(error);
   }
@@ -122,7 +143,8 @@ export async function updateDoctor(req: Request, res: Response, next: NextFuncti
 export async function deleteDoctor(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
     const { id } = req.params;
-    await prisma.doctor.delete({ where: { personId: id } });
+    const deleted = await prisma.doctor.delete({ where: { personId: id } });
+    await recordAudit(req, { action: 'DELETE', entityType: 'Doctor', entityId: id, before: deleted });
     res.json({ message: `Doctor with personId ${id} deleted.` });
   } catch (error) {
     next(error);
@@ -131,13 +153,14 @@ export async function deleteDoctor(req: Request, res: Response, next: NextFuncti
 
 export async function listEnabledDoctors(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
+    const today = new Date();
     const doctors = await prisma.doctor.findMany({
-      where: { isEnabledInShifts: true },
+      where: plannableDoctorWhere(today, today),
       include: {
         person: true,
       },
     });
-    res.json(doctors);
+    res.json(doctors.map(toDoctorDto));
   } catch (error) {
     next(error);
   }
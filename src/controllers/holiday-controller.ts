@@ -0,0 +1,149 @@
+/**
+ * @description
+ * Holiday Controller for the holiday calendar and CRUD on 'ClosingDay'.
+ *
+ * Key features:
+ * - listHolidays: National holidays plus closing days of a year
+ * - listClosingDays: The hospital-specific closing days (optionally of one year)
+ * - createClosingDay
+ * - updateClosingDay
+ * - deleteClosingDay
+ *
+ * @notes
+ * - Closing days are stored as UTC midnight; any time in the given date is dropped.
+ * - There is at most one closing day per date (409 otherwise).
+ * - Every create/update/delete is recorded in the audit trail.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { NextFunction, Request, Response } from 'express';
+import { recordAudit } from '../services/audit-service';
+import { getHolidays } from '../services/holiday-service';
+import { startOfUtcDay } from '../utils/date-utils';
+
+const prisma = new PrismaClient();
+
+export async function listHolidays(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const year = req.query.year
+      ? parseInt(req.query.year as string, 10)
+      : new Date().getUTCFullYear();
+
+    if (isNaN(year)) {
+      res.status(400).json({ error: 'year must be an integer' });
+      return;
+    }
+
+    res.json(await getHolidays(year));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function listClosingDays(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const year = req.query.year ? parseInt(req.query.year as string, 10) : undefined;
+
+    const closingDays = await prisma.closingDay.findMany({
+      where:
+        year !== undefined && !isNaN(year)
+          ? {
+              date: {
+                gte: new Date(Date.UTC(year, 0, 1)),
+                lt: new Date(Date.UTC(year + 1, 0, 1)),
+              },
+            }
+          : {},
+      orderBy: { date: 'asc' },
+    });
+    res.json(closingDays);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function createClosingDay(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const { date, name } = req.body;
+
+    if (!date || !name) {
+      res.status(400).json({ error: 'date and name are required' });
+      return;
+    }
+    const day = new Date(date);
+    if (isNaN(day.getTime())) {
+      res.status(400).json({ error: 'Invalid date format for date' });
+      return;
+    }
+
+    const closingDay = await prisma.closingDay.create({
+      data: { date: startOfUtcDay(day), name },
+    });
+    await recordAudit(req, {
+      action: 'CREATE',
+      entityType: 'ClosingDay',
+      entityId: closingDay.id,
+      after: closingDay,
+    });
+    res.status(201).json(closingDay);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateClosingDay(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const { id } = req.params;
+    const { date, name } = req.body;
+
+    let day: Date | undefined;
+    if (date !== undefined) {
+      day = new Date(date);
+      if (isNaN(day.getTime())) {
+        res.status(400).json({ error: 'Invalid date format for date' });
+        return;
+      }
+    }
+
+    const before = await prisma.closingDay.findUnique({ where: { id } });
+    const updated = await prisma.closingDay.update({
+      where: { id },
+      data: { date: day && startOfUtcDay(day), name },
+    });
+    await recordAudit(req, { action: 'UPDATE', entityType: 'ClosingDay', entityId: id, before, after: updated });
+    res.json(updated);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function deleteClosingDay(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const { id } = req.params;
+    const deleted = await prisma.closingDay.delete({ where: { id } });
+    await recordAudit(req, { action: 'DELETE', entityType: 'ClosingDay', entityId: id, before: deleted });
+    res.json({ message: `ClosingDay with ID ${id} deleted.` });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * @description
+ * Invitation Controller: admins invite people to create their own account.
+ *
+ * Key features:
+ * - createNewInvitation: Invite an existing person, or create the person (and doctor) first
+ * - listAllInvitations: Optionally filtered by status
+ * - resendExistingInvitation: New link by e-mail; the previous link stops working
+ * - revokeExistingInvitation: The link stops working
+ *
+ * @notes
+ * - The invitee accepts at /auth/accept-invite (auth-controller.ts).
+ * - The token only appears in the e-mail, never in a response.
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import { AuthenticatedUser } from '../config/passport-strategies';
+import { toInvitationDto } from '../dto/invitation-dto';
+import { recordAudit } from '../services/audit-service';
+import { sendInvitationEmail } from '../services/email-service';
+import {
+  createInvitation,
+  InvitationStatus,
+  IssuedInvitation,
+  listInvitations,
+  resendInvitation,
+  revokeInvitation,
+} from '../services/invitation-service';
+
+async function sendInvitation({ invitation, token }: IssuedInvitation): Promise<void> {
+  const inviteLink =
+    process.env.FRONTEND_ORIGIN +
+    `/MedEcareWC/MedEcare.html?inviteToken=${token}`;
+  await sendInvitationEmail(invitation.email, inviteLink, invitation.expiresAt);
+}
+
+export async function createNewInvitation(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const admin = req.user as AuthenticatedUser;
+    const issued = await createInvitation(req.body, admin.personId);
+    await recordAudit(req, {
+      action: 'CREATE',
+      entityType: 'Invitation',
+      entityId: issued.invitation.id,
+      after: toInvitationDto(issued.invitation),
+    });
+
+    await sendInvitation(issued);
+    res.status(201).json(toInvitationDto(issued.invitation));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function listAllInvitations(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const status = req.query.status as InvitationStatus | undefined;
+    const invitations = await listInvitations(status);
+    res.json(invitations.map(toInvitationDto));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function resendExistingInvitation(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const issued = await resendInvitation(req.params.id);
+    await recordAudit(req, {
+      action: 'UPDATE',
+      entityType: 'Invitation',
+      entityId: issued.invitation.id,
+      after: toInvitationDto(issued.invitation),
+    });
+
+    await sendInvitation(issued);
+    res.json(toInvitationDto(issued.invitation));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function revokeExistingInvitation(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const revoked = await revokeInvitation(req.params.id);
+    await recordAudit(req, {
+      action: 'REVOKE',
+      entityType: 'Invitation',
+      entityId: revoked.id,
+      after: toInvitationDto(revoked),
+    });
+    res.json(toInvitationDto(revoked));
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * @description
+ * LeaveEntitlement Controller for CRUD on 'LeaveEntitlement' and the resulting balances.
+ *
+ * Key features:
+ * - listLeaveEntitlements: Optionally filtered by personId and year
+ * - getLeaveEntitlementById
+ * - createLeaveEntitlement
+ * - updateLeaveEntitlement
+ * - deleteLeaveEntitlement
+ * - getPersonLeaveBalance: Leave balances of a person for a year
+ *
+ * @notes
+ * - There is at most one entitlement per person, year and leave category (409 otherwise).
+ * - Balances are always calculated, never stored; see leave-balance-service.
+ * - Every create/update/delete is recorded in the audit trail.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { NextFunction, Request, Response } from 'express';
+import { recordAudit } from '../services/audit-service';
+import { getLeaveBalance, getLeaveBalances } from '../services/leave-balance-service';
+
+const prisma = new PrismaClient();
+
+/**
+ * Validates the numeric fields of a request body. Returns an error message, or null when valid.
+ */
+function validateEntitlement(body: {
+  year?: unknown;
+  days?: unknown;
+  maxCarryOverDays?: unknown;
+}): string | null {
+  if (body.year !== undefined && !Number.isInteger(body.year)) {
+    return 'year must be an integer';
+  }
+  if (body.days !== undefined && (typeof body.days !== 'number' || body.days < 0)) {
+    return 'days must be a number >= 0';
+  }
+  if (
+    body.maxCarryOverDays !== undefined &&
+    (typeof body.maxCarryOverDays !== 'number' || body.maxCarryOverDays < 0)
+  ) {
+    return 'maxCarryOverDays must be a number >= 0';
+  }
+  return null;
+}
+
+export async function listLeaveEntitlements(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const personId = req.query.personId as string | undefined;
+    const year = req.query.year ? parseInt(req.query.year as string, 10) : undefined;
+
+    const entitlements = await prisma.leaveEntitlement.findMany({
+      where: {
+        ...(personId && { personId }),
+        ...(year !== undefined && !isNaN(year) && { year }),
+      },
+      include: { person: true },
+      orderBy: [{ year: 'desc' }, { leaveType: 'asc' }],
+    });
+    res.json(entitlements);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getLeaveEntitlementById(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const { id } = req.params;
+    const entitlement = await prisma.leaveEntitlement.findUnique({
+      where: { id },
+      include: { person: true },
+    });
+    if (!entitlement) {
+      res.status(404).json({ error: 'LeaveEntitlement not found' });
+      return;
+    }
+    res.json(entitlement);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function createLeaveEntitlement(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const { personId, year, leaveType, days, maxCarryOverDays } = req.body;
+
+    if (!personId || year === undefined || days === undefined) {
+      res.status(400).json({ error: 'personId, year and days are required' });
+      return;
+    }
+    const validationError = validateEntitlement(req.body);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const entitlement = await prisma.leaveEntitlement.create({
+      data: { personId, year, leaveType, days, maxCarryOverDays },
+    });
+    await recordAudit(req, {
+      action: 'CREATE',
+      entityType: 'LeaveEntitlement',
+      entityId: entitlement.id,
+      after: entitlement,
+    });
+    res.status(201).json(entitlement);
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      res.status(409).json({
+        error: 'An entitlement for this person, year and leave type already exists.',
+      });
+      return;
+    }
+    next(error);
+  }
+}
+
+export async function updateLeaveEntitlement(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const { id } = req.params;
+    const { year, leaveType, days, maxCarryOverDays } = req.body;
+
+    const validationError = validateEntitlement(req.body);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const before = await prisma.leaveEntitlement.findUnique({ where: { id } });
+    const updated = await prisma.leaveEntitlement.update({
+      where: { id },
+      data: { year, leaveType, days, maxCarryOverDays },
+    });
+    await recordAudit(req, {
+      action: 'UPDATE',
+      entityType: 'LeaveEntitlement',
+      entityId: id,
+      before,
+      after: updated,
+    });
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      res.status(409).json({
+        error: 'An entitlement for this person, year and leave type already exists.',
+      });
+      return;
+    }
+    next(error);
+  }
+}
+
+export async function deleteLeaveEntitlement(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const { id } = req.params;
+    const deleted = await prisma.leaveEntitlement.delete({ where: { id } });
+    await recordAudit(req, { action: 'DELETE', entityType: 'LeaveEntitlement', entityId: id, before: deleted });
+    res.json({ message: `LeaveEntitlement with ID ${id} deleted.` });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getPersonLeaveBalance(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const { id } = req.params;
+    const year = req.query.year
+      ? parseInt(req.query.year as string, 10)
+      : new Date().getUTCFullYear();
+    const leaveType = req.query.leaveType as string | undefined;
+
+    if (isNaN(year)) {
+      res.status(400).json({ error: 'year must be an integer' });
+      return;
+    }
+
+    const person = await prisma.person.findUnique({ where: { id } });
+    if (!person) {
+      res.status(404).json({ error: 'Person not found' });
+      return;
+    }
+
+    const balances = leaveType
+      ? [await getLeaveBalance(id, leaveType, year)]
+      : await getLeaveBalances(id, year);
+    res.json(balances);
+  } catch (error) {
+    next(error);
+  }
+}
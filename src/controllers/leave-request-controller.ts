@@ -0,0 +1,260 @@
+/**
+ * @description
+ * Leave Request Controller for requesting and deciding on leave (verlof).
+ *
+ * Key features:
+ * - listLeaveRequests: Own requests (approvers see all, optionally filtered by person)
+ * - getLeaveRequestById: A single request
+ * - createLeaveRequest: Request leave for yourself
+ * - approveLeaveRequest / rejectLeaveRequest: Decision of an approver (leave:approve), with comment
+ * - cancelLeaveRequest: Withdraw a requested or approved leave
+ *
+ * @notes
+ * - An approved request becomes a non-SHIFT activity, so it shows up in
+ *   listVerlofByPeriod and blocks scheduling for that period.
+ * - Approving returns `collidingShifts`: SHIFT activities of the person during the
+ *   leave that still need to be reassigned.
+ * - A single request and the approval response include `balance`: the leave balance
+ *   per year the request touches, with the days it costs.
+ * - Responses go through toLeaveRequestDto.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { NextFunction, Request, Response } from 'express';
+import { AuthenticatedUser } from '../config/passport-strategies';
+import { toActivityDto } from '../dto/activity-dto';
+import { toLeaveRequestDto } from '../dto/leave-request-dto';
+import { hasPermission } from '../middleware/role-middleware';
+import {
+  LeaveStatus,
+  LeaveWithDetails,
+  OPEN_STATUSES,
+  approveLeave,
+  cancelLeave,
+  leaveInclude,
+  rejectLeave,
+} from '../services/leave-service';
+import { recordAudit } from '../services/audit-service';
+import { evaluateLeaveRequest } from '../services/leave-balance-service';
+
+const prisma = new PrismaClient();
+
+/** Approvers see every request, not just their own. */
+function isApprover(user: AuthenticatedUser): boolean {
+  return hasPermission(user, 'leave:approve');
+}
+
+/**
+ * Loads the leave request from req.params.id and responds with 404 when it does not
+ * exist or belongs to someone else (unless the caller is an approver).
+ */
+async function loadLeaveForUser(
+  req: Request,
+  res: Response,
+): Promise<LeaveWithDetails | null> {
+  const user = req.user as AuthenticatedUser;
+  const leave = await prisma.leaveRequest.findUnique({
+    where: { id: req.params.id },
+    include: leaveInclude,
+  });
+  if (!leave || (!isApprover(user) && leave.personId !== user.personId)) {
+    res.status(404).json({ error: 'Leave request not found' });
+    return null;
+  }
+  return leave;
+}
+
+export async function listLeaveRequests(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as AuthenticatedUser;
+    const status = req.query.status as string | undefined;
+    const personId = isApprover(user)
+      ? (req.query.personId as string | undefined)
+      : user.personId;
+
+    const leaveRequests = await prisma.leaveRequest.findMany({
+      where: {
+        ...(status && { status }),
+        ...(personId && { personId }),
+      },
+      include: leaveInclude,
+      orderBy: { start: 'asc' },
+    });
+    res.json(leaveRequests.map(toLeaveRequestDto));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getLeaveRequestById(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const leave = await loadLeaveForUser(req, res);
+    if (!leave) return;
+    res.json({ ...toLeaveRequestDto(leave), balance: await evaluateLeaveRequest(leave) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function createLeaveRequest(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as AuthenticatedUser;
+    const { leaveType, start, end, reason } = req.body;
+
+    if (!start || !end) {
+      res.status(400).json({ error: 'start and end are required' });
+      return;
+    }
+    const startDate = new Date(start);
+    const endDate = new Date(end);
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      res.status(400).json({ error: 'Invalid date format for start or end' });
+      return;
+    }
+    if (endDate <= startDate) {
+      res.status(400).json({ error: 'end must be after start' });
+      return;
+    }
+    if (leaveType !== undefined && (typeof leaveType !== 'string' || leaveType === 'SHIFT')) {
+      res.status(400).json({ error: 'leaveType must be a non-SHIFT activity type' });
+      return;
+    }
+
+    const overlapping = await prisma.leaveRequest.findFirst({
+      where: {
+        personId: user.personId,
+        status: { in: OPEN_STATUSES },
+        start: { lt: endDate },
+        end: { gt: startDate },
+      },
+    });
+    if (overlapping) {
+      res.status(409).json({
+        error: 'You already have a leave request for this period.',
+        leaveRequestId: overlapping.id,
+      });
+      return;
+    }
+
+    const leave = await prisma.leaveRequest.create({
+      data: {
+        personId: user.personId,
+        leaveType,
+        start: startDate,
+        end: endDate,
+        reason,
+      },
+      include: leaveInclude,
+    });
+    res.status(201).json(toLeaveRequestDto(leave));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function approveLeaveRequest(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as AuthenticatedUser;
+    const { comment } = req.body ?? {};
+    const leave = await loadLeaveForUser(req, res);
+    if (!leave) return;
+
+    if (leave.status !== 'REQUESTED') {
+      res.status(409).json({ error: `Leave request is ${leave.status}, not REQUESTED.` });
+      return;
+    }
+
+    const { leaveRequest, collidingShifts } = await approveLeave(
+      leave,
+      user.personId,
+      comment,
+    );
+    if (leaveRequest.activity) {
+      await recordAudit(req, {
+        action: 'CREATE',
+        entityType: 'Activity',
+        entityId: leaveRequest.activity.id,
+        after: leaveRequest.activity,
+      });
+    }
+    res.json({
+      ...toLeaveRequestDto(leaveRequest),
+      balance: await evaluateLeaveRequest(leaveRequest),
+      collidingShifts: collidingShifts.map(toActivityDto),
+      ...(collidingShifts.length > 0 && {
+        warning: `The leave collides with ${collidingShifts.length} assigned shift(s).`,
+      }),
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function rejectLeaveRequest(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as AuthenticatedUser;
+    const { comment } = req.body ?? {};
+    const leave = await loadLeaveForUser(req, res);
+    if (!leave) return;
+
+    if (leave.status !== 'REQUESTED') {
+      res.status(409).json({ error: `Leave request is ${leave.status}, not REQUESTED.` });
+      return;
+    }
+
+    const rejected = await rejectLeave(leave, user.personId, comment);
+    res.json(toLeaveRequestDto(rejected));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function cancelLeaveRequest(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const leave = await loadLeaveForUser(req, res);
+    if (!leave) return;
+
+    if (!OPEN_STATUSES.includes(leave.status as LeaveStatus)) {
+      res.status(409).json({ error: `Leave request is already ${leave.status}.` });
+      return;
+    }
+
+    const cancelled = await cancelLeave(leave);
+    if (cancelled.activity) {
+      await recordAudit(req, {
+        action: 'UPDATE',
+        entityType: 'Activity',
+        entityId: cancelled.activity.id,
+        before: leave.activity ?? undefined,
+        after: cancelled.activity,
+      });
+    }
+    res.json(toLeaveRequestDto(cancelled));
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * @description
+ * Me Controller: personal data of the logged-in user, for users without admin rights.
+ *
+ * Key features:
+ * - getMyProfile: Person, e-mail, roles, permissions and doctor details
+ * - listMyActivities: Own activities, optionally limited to a period
+ * - listMyConstraints: Own UserConstraint records
+ * - getMyLeave: Own leave requests and leave balances for a year
+ *
+ * @notes
+ * - Every query is scoped to req.user.personId from the JWT strategy; no route accepts
+ *   a personId, so users can never read someone else's data here.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { NextFunction, Request, Response } from 'express';
+import { AuthenticatedUser } from '../config/passport-strategies';
+import { toActivityDto } from '../dto/activity-dto';
+import { toDoctorDto } from '../dto/person-dto';
+import { getLeaveBalances } from '../services/leave-balance-service';
+
+const prisma = new PrismaClient();
+
+export async function getMyProfile(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as AuthenticatedUser;
+    const person = await prisma.person.findUnique({
+      where: { id: user.personId },
+      include: { doctor: true },
+    });
+    if (!person) {
+      res.status(404).json({ error: 'Person not found' });
+      return;
+    }
+
+    res.json({
+      personId: person.id,
+      firstName: person.firstName,
+      lastName: person.lastName,
+      dateOfBirth: person.dateOfBirth,
+      email: user.email,
+      roles: user.roles,
+      permissions: user.permissions,
+      doctor: person.doctor && toDoctorDto(person.doctor),
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function listMyActivities(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as AuthenticatedUser;
+    const fromStr = req.query.from as string | undefined;
+    const toStr = req.query.to as string | undefined;
+
+    const from = fromStr ? new Date(fromStr) : undefined;
+    const to = toStr ? new Date(toStr) : undefined;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      res.status(400).json({ error: 'Invalid date format for from or to' });
+      return;
+    }
+
+    const activities = await prisma.activity.findMany({
+      where: {
+        personId: user.personId,
+        ...(to && { start: { lt: to } }),
+        ...(from && { end: { gt: from } }),
+      },
+      include: { shiftType: true },
+      orderBy: { start: 'asc' },
+    });
+    res.json(activities.map(toActivityDto));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function listMyConstraints(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as AuthenticatedUser;
+    const constraints = await prisma.userConstraint.findMany({
+      where: { personId: user.personId },
+    });
+    res.json(constraints);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getMyLeave(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as AuthenticatedUser;
+    const year = req.query.year
+      ? parseInt(req.query.year as string, 10)
+      : new Date().getUTCFullYear();
+
+    if (isNaN(year)) {
+      res.status(400).json({ error: 'year must be an integer' });
+      return;
+    }
+
+    const requests = await prisma.leaveRequest.findMany({
+      where: {
+        personId: user.personId,
+        start: { lt: new Date(Date.UTC(year + 1, 0, 1)) },
+        end: { gt: new Date(Date.UTC(year, 0, 1)) },
+      },
+      orderBy: { start: 'asc' },
+    });
+
+    res.json({
+      year,
+      balances: await getLeaveBalances(user.personId, year),
+      requests,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -15,10 +15,16 @@
  * @notes
  * - This does NOT handle the linked 'User' model. 'User' is separate (with personId).
  * - For advanced usage, you might have join queries, etc.
+ * - Responses go through the Person/Doctor DTOs, which reduce a linked User to its e-mail.
+ * - employmentStart / employmentEnd bound planning and login (account-lifecycle-service).
+ * - Every create/update/delete is recorded in the audit trail.
  */
 
 import { PrismaClient } from '@prisma/client';
 import { Request, Response, NextFunction } from 'express';
+import { toDoctorDto, toPersonDto } from '../dto/person-dto';
+import { plannableDoctorWhere } from '../services/account-lifecycle-service';
+import { recordAudit } from '../services/audit-service';
 
 const prisma = new PrismaClient();
 
@@ -31,7 +37,7 @@ export async function listPersons(req: Request, res: Response, next: NextFunctio
         userConstraints: false,
       },
     });
-    res.json(persons);
+    res.json(persons.map(toPersonDto));
   } catch (error) {
     next(error);
   }
@@ -52,7 +58,7 @@ export async function getPersonById(req: Request, res: Response, next: NextFunct
       res.status(404).json({ error: 'Person not found' });
       return;
     }
-    res.json(person);
+    res.json(toPersonDto(person));
   } catch (error) {
     next(error);
   }
@@ -60,15 +66,18 @@ export async function getPersonById(req: Request, res: Response, next: NextFunct
 
 export async function createPerson(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
-    const { firstName, lastName, dateOfBirth } = req.body;
+    const { firstName, lastName, dateOfBirth, employmentStart, employmentEnd } = req.body;
     const newPerson = await prisma.person.create({
       data: {
         firstName: firstName,
         lastName: lastName,
         dateOfBirth: dateOfBirth, // Remove default value to allow Prisma to throw error if missing
+        employmentStart,
+        employmentEnd,
       },
     });
-    res.status(201).json(newPerson);
+    await recordAudit(req, { action: 'CREATE', entityType: 'Person', entityId: newPerson.id, after: newPerson });
+    res.status(201).json(toPersonDto(newPerson));
   } catch (error) {
     next(error);
   }
@@ -77,17 +86,39 @@ export async function createPerson(req: Request, res: Response, next: NextFuncti
 export async function updatePerson(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
     const { id } = req.params;
-    const { firstName, lastName,dateOfBirth } = req.body;
+    const { firstName, lastName, dateOfBirth, employmentStart, employmentEnd } = req.body;
+
+    const existing = await prisma.person.findUnique({ where: { id } });
+    if (!existing) {
+      res.status(404).json({ error: 'Person not found' });
+      return;
+    }
+    // Only one of the two dates may be sent, so the order is checked against the stored one
+    const start = employmentStart === undefined ? existing.employmentStart : employmentStart;
+    const end = employmentEnd === undefined ? existing.employmentEnd : employmentEnd;
+    if (start && end && end < start) {
+      res.status(400).json({ error: 'employmentEnd must be on or after employmentStart' });
+      return;
+    }
 
     const updated = await prisma.person.update({
       where: { id },
       data: {
         firstName,
         lastName,
-        dateOfBirth
+        dateOfBirth,
+        employmentStart,
+        employmentEnd,
       },
     });
-    res.json(updated);
+    await recordAudit(req, {
+      action: 'UPDATE',
+      entityType: 'Person',
+      entityId: id,
+      before: existing,
+      after: updated,
+    });
+    res.json(toPersonDto(updated));
   } catch (error) {
     next(error);
   }
@@ -96,7 +127,8 @@ export async function updatePerson(req: Request, res: Response, next: NextFuncti
 export async function deletePerson(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
     const { id } = req.params;
-    await prisma.person.delete({ where: { id } });
+    const deleted = await prisma.person.delete({ where: { id } });
+    await recordAudit(req, { action: 'DELETE', entityType: 'Person', entityId: id, before: deleted });
     res.json({ message: `Person with ID ${id} deleted.` });
   } catch (error) {
     next(error);
@@ -105,14 +137,15 @@ export async function deletePerson(req: Request, res: Response, next: NextFuncti
 
 export async function listStaff(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
-    // Find all doctors where isEnabledInShifts is true, include person details
+    // Doctors that can be planned today (enabled, employed, account not deactivated)
+    const today = new Date();
     const doctors = await prisma.doctor.findMany({
-      where: { isEnabledInShifts: true },
+      where: plannableDoctorWhere(today, today),
       include: {
         person: true,
       },
     });
-    res.json(doctors);
+    res.json(doctors.map(toDoctorDto));
   } catch (error) {
     next(error);
   }
@@ -132,7 +165,7 @@ export async function getDoctorById(req: Request, res: Response, next: NextFunct
       return;
     }
     
-    res.json(doctor);
+    res.json(toDoctorDto(doctor));
   } catch (error) {
     next(error);
   }
@@ -0,0 +1,92 @@
+/**
+ * @description
+ * Registration Controller: admins review self-registered doctors.
+ *
+ * Key features:
+ * - listAllRegistrations: Optionally filtered by status (e.g. the PENDING queue)
+ * - approveExistingRegistration: Grants role and shift eligibility, e-mails the applicant
+ * - rejectExistingRegistration: Records the reason, e-mails it to the applicant
+ *
+ * @notes
+ * - Registrations are created by POST /auth/register (auth-controller.ts).
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import { AuthenticatedUser } from '../config/passport-strategies';
+import { toRegistrationDto } from '../dto/registration-dto';
+import { recordAudit } from '../services/audit-service';
+import {
+  sendRegistrationApprovedEmail,
+  sendRegistrationRejectedEmail,
+} from '../services/email-service';
+import {
+  approveRegistration,
+  listRegistrations,
+  RegistrationStatus,
+  rejectRegistration,
+} from '../services/registration-service';
+
+export async function listAllRegistrations(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const status = req.query.status as RegistrationStatus | undefined;
+    const registrations = await listRegistrations(status);
+    res.json(registrations.map(toRegistrationDto));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function approveExistingRegistration(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const admin = req.user as AuthenticatedUser;
+    const approved = await approveRegistration(req.params.id, admin.personId, req.body ?? {});
+    await recordAudit(req, {
+      action: 'APPROVE',
+      entityType: 'Registration',
+      entityId: approved.id,
+      after: toRegistrationDto(approved),
+    });
+
+    const email = approved.person?.user?.email;
+    if (email) {
+      const loginLink = process.env.FRONTEND_ORIGIN + '/MedEcareWC/MedEcare.html';
+      await sendRegistrationApprovedEmail(email, loginLink);
+    }
+    res.json(toRegistrationDto(approved));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function rejectExistingRegistration(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const admin = req.user as AuthenticatedUser;
+    const rejected = await rejectRegistration(req.params.id, admin.personId, req.body.reason);
+    await recordAudit(req, {
+      action: 'REJECT',
+      entityType: 'Registration',
+      entityId: rejected.id,
+      after: toRegistrationDto(rejected),
+    });
+
+    const email = rejected.person?.user?.email;
+    if (email) {
+      await sendRegistrationRejectedEmail(email, req.body.reason);
+    }
+    res.json(toRegistrationDto(rejected));
+  } catch (error) {
+    next(error);
+  }
+}
@@ -6,15 +6,21 @@
  * - listRoles: Return all roles
  * - getRoleById: Return a single role by ID
  * - createRole: Create a new role (e.g., "ADMIN")
- * - updateRole: Update the role name
+ * - updateRole: Update the role name and whether it requires two-factor authentication
  * - deleteRole: Remove a role by ID
+ * - listPermissions: The catalog of permissions that can be granted
+ * - getRolePermissions / setRolePermissions: Read or replace the permissions of a role
  *
  * @notes
  * - Usually roles are quite static, but we have a full CRUD for demonstration.
+ * - Permission names are validated against config/permissions.ts; the 'admin' role
+ *   holds every permission regardless of what is stored for it.
  */
 
 import { PrismaClient } from '@prisma/client';
 import { Request, Response, NextFunction } from 'express';
+import { PERMISSIONS, PermissionName, isKnownPermission } from '../config/permissions';
+import { recordAudit } from '../services/audit-service';
 
 const prisma = new PrismaClient();
 
@@ -43,10 +49,11 @@ export async function getRoleById(req: Request, res: Response, next: NextFunctio
 
 export async function createRole(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
-    const { name } = req.body;
+    const { name, requiresTwoFactor } = req.body;
     const newRole = await prisma.role.create({
-      data: { name: name.toUpperCase() },
+      data: { name: name.toUpperCase(), requiresTwoFactor },
     });
+    await recordAudit(req, { action: 'CREATE', entityType: 'Role', entityId: newRole.id, after: newRole });
     res.status(201).json(newRole);
   } catch (error) {
     next(error);
@@ -56,12 +63,14 @@ export async function createRole(req: Request, res: Response, next: NextFunction
 export async function updateRole(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
     const { id } = req.params;
-    const { name } = req.body;
+    const { name, requiresTwoFactor } = req.body;
 
+    const before = await prisma.role.findUnique({ where: { id } });
     const updated = await prisma.role.update({
       where: { id },
-      data: { name: name.toUpperCase() },
+      data: { name: name.toUpperCase(), requiresTwoFactor },
     });
+    await recordAudit(req, { action: 'UPDATE', entityType: 'Role', entityId: id, before, after: updated });
     res.json(updated);
   } catch (error) {
     next(error);
@@ -71,9 +80,97 @@ export async function updateRole(req: Request, res: Response, next: NextFunction
 export async function deleteRole(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
     const { id } = req.params;
-    await prisma.role.delete({ where: { id } });
+    const deleted = await prisma.role.delete({ where: { id } });
+    await recordAudit(req, { action: 'DELETE', entityType: 'Role', entityId: id, before: deleted });
     res.json({ message: `Role with ID ${id} deleted.` });
   } catch (error) {
     next(error);
   }
 }
+
+export async function listPermissions(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    res.json(
+      Object.entries(PERMISSIONS).map(([name, description]) => ({ name, description })),
+    );
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getRolePermissions(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { id } = req.params;
+    const role = await prisma.role.findUnique({
+      where: { id },
+      include: { rolePermissions: { include: { permission: true } } },
+    });
+    if (!role) {
+      res.status(404).json({ error: 'Role not found' });
+      return;
+    }
+    res.json({
+      roleId: role.id,
+      name: role.name,
+      permissions: role.rolePermissions.map((rp) => rp.permission.name).sort(),
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function setRolePermissions(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { id } = req.params;
+    const { permissions } = req.body as { permissions?: unknown };
+
+    if (!Array.isArray(permissions) || permissions.some((p) => typeof p !== 'string')) {
+      res.status(400).json({ error: 'permissions must be an array of permission names' });
+      return;
+    }
+    const unknown = permissions.filter((p) => !isKnownPermission(p));
+    if (unknown.length > 0) {
+      res.status(400).json({ error: `Unknown permission(s): ${unknown.join(', ')}` });
+      return;
+    }
+
+    const role = await prisma.role.findUnique({
+      where: { id },
+      include: { rolePermissions: { include: { permission: true } } },
+    });
+    if (!role) {
+      res.status(404).json({ error: 'Role not found' });
+      return;
+    }
+
+    const names = [...new Set(permissions as PermissionName[])].sort();
+    await prisma.$transaction(async (tx) => {
+      await tx.rolePermission.deleteMany({ where: { roleId: id } });
+      for (const name of names) {
+        const permission = await tx.permission.upsert({
+          where: { name },
+          update: {},
+          create: { name, description: PERMISSIONS[name] },
+        });
+        await tx.rolePermission.create({
+          data: { roleId: id, permissionId: permission.id },
+        });
+      }
+    });
+
+    await recordAudit(req, {
+      action: 'UPDATE',
+      entityType: 'Role',
+      entityId: id,
+      before: {
+        roleId: role.id,
+        name: role.name,
+        permissions: role.rolePermissions.map((rp) => rp.permission.name).sort(),
+      },
+      after: { roleId: role.id, name: role.name, permissions: names },
+    });
+    res.json({ roleId: role.id, name: role.name, permissions: names });
+  } catch (error) {
+    next(error);
+  }
+}
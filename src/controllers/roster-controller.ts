@@ -1,31 +1,98 @@
 /**
  * @description
- * Roster Controller for CRUD on 'Roster'.
+ * Roster Controller for weekly roster templates ('Roster' + 'RosterSlot').
  * * Key features:
- * - listRosters: Return all rosters with their related ShiftType
- * - getRosterById: Return a single roster by ID
- * - createRoster: Clear entire roster table and populate with new collection
- * - updateRoster: Update an existing roster
- * - deleteRoster: Remove a roster by ID
+ * - listRosters: Return all templates (or only the latest version of each) with their slots
+ * - getRosterById: Return a single template version by ID
+ * - createRoster: Save a template; reusing an existing name creates its next version
+ * - updateRoster: Save changes to a template as a new version (older versions are kept)
+ * - deleteRoster: Remove a template version by ID
+ * - applyRoster: Generate SHIFT activities from a template for a period
  *
  * @notes
- * - Each Roster is linked to a ShiftType via shiftTypeId.
- * - The ID field is an Int (auto-increment) instead of UUID.
+ * - A slot carries an ISO weekday (1 = Monday .. 7 = Sunday), a ShiftType, the required
+ *   headcount and optionally a default person.
+ * - Template versions are never changed in place, so what was applied stays traceable.
+ * - Responses go through toRosterDto (and toActivityDto for applied shifts).
  */
 
 import { PrismaClient } from '@prisma/client';
 import { Request, Response, NextFunction } from 'express';
+import { toActivityDto } from '../dto/activity-dto';
+import { toRosterDto } from '../dto/roster-dto';
+import {
+  applyRosterTemplate,
+  RosterSlotData,
+  rosterInclude,
+  saveRosterVersion,
+} from '../services/roster-service';
+import { recordAudit } from '../services/audit-service';
 
 const prisma = new PrismaClient();
 
+const MAX_APPLY_DAYS = 92;
+
+interface RosterSlotInput {
+  weekday?: number;
+  shiftTypeId?: string;
+  headcount?: number;
+  defaultPersonId?: string | null;
+}
+
+/**
+ * Validates the slots of a request body. Returns an error message, or null when valid.
+ */
+function validateSlots(slots: unknown): string | null {
+  if (!Array.isArray(slots)) {
+    return 'Request body must contain a "slots" array';
+  }
+  for (const slot of slots as RosterSlotInput[]) {
+    if (!Number.isInteger(slot.weekday) || slot.weekday! < 1 || slot.weekday! > 7) {
+      return 'Each slot needs a weekday between 1 (Monday) and 7 (Sunday)';
+    }
+    if (!slot.shiftTypeId) {
+      return 'Each slot needs a shiftTypeId';
+    }
+    if (
+      slot.headcount !== undefined &&
+      (!Number.isInteger(slot.headcount) || slot.headcount < 1)
+    ) {
+      return 'headcount must be a positive integer';
+    }
+  }
+  return null;
+}
+
+function toSlotData(slots: RosterSlotInput[]): RosterSlotData[] {
+  return slots.map((slot) => ({
+    weekday: slot.weekday!,
+    shiftTypeId: slot.shiftTypeId!,
+    headcount: slot.headcount ?? 1,
+    defaultPersonId: slot.defaultPersonId ?? null,
+  }));
+}
+
 export async function listRosters(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
     const rosters = await prisma.roster.findMany({
-      include: {
-        shiftType: true,
-      },
+      include: rosterInclude,
+      orderBy: [{ name: 'asc' }, { version: 'desc' }],
     });
-    res.json(rosters);
+
+    if (req.query.latest === 'true') {
+      const seen = new Set<string>();
+      res.json(
+        rosters
+          .filter((r) => {
+            if (seen.has(r.name)) return false;
+            seen.add(r.name);
+            return true;
+          })
+          .map(toRosterDto),
+      );
+      return;
+    }
+    res.json(rosters.map(toRosterDto));
   } catch (error) {
     next(error);
   }
@@ -35,16 +102,14 @@ export async function getRosterById(req: Request, res: Response, next: NextFunct
   try {
     const { id } = req.params;
     const roster = await prisma.roster.findUnique({
-      where: { id: parseInt(id) },
-      include: {
-        shiftType: true,
-      },
+      where: { id },
+      include: rosterInclude,
     });
     if (!roster) {
       res.status(404).json({ error: 'Roster not found' });
       return;
     }
-    res.json(roster);
+    res.json(toRosterDto(roster));
   } catch (error) {
     next(error);
   }
@@ -52,41 +117,21 @@ export async function getRosterById(req: Request, res: Response, next: NextFunct
 
 export async function createRoster(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
-    const { rosters } = req.body;
+    const { name, description, slots } = req.body;
 
-    // Validate that rosters is an array
-    if (!Array.isArray(rosters)) {
-      res.status(400).json({ error: 'Request body must contain a "rosters" array' });
+    if (!name || typeof name !== 'string') {
+      res.status(400).json({ error: 'name is required' });
+      return;
+    }
+    const slotError = validateSlots(slots);
+    if (slotError) {
+      res.status(400).json({ error: slotError });
       return;
     }
 
-    // Use transaction to ensure atomicity: first clear the table, then populate with new data
-    const result = await prisma.$transaction(async (tx) => {
-      // First, clear the entire roster table
-      await tx.roster.deleteMany({});
-
-      // Then, create all new rosters
-      const createdRosters = await Promise.all(
-        rosters.map(async (rosterData: { id: number; shiftTypeId: string }) => {
-          return await tx.roster.create({
-            data: {
-              id: rosterData.id,
-              shiftTypeId: rosterData.shiftTypeId,
-            },
-            include: {
-              shiftType: true,
-            },
-          });
-        })
-      );
-
-      return createdRosters;
-    });
-
-    res.status(201).json({
-      message: `Roster table cleared and ${result.length} new rosters created`,
-      rosters: result,
-    });
+    const roster = await saveRosterVersion(name, description, toSlotData(slots));
+    await recordAudit(req, { action: 'CREATE', entityType: 'Roster', entityId: roster.id, after: roster });
+    res.status(201).json(toRosterDto(roster));
   } catch (error) {
     next(error);
   }
@@ -95,18 +140,38 @@ export async function createRoster(req: Request, res: Response, next: NextFuncti
 export async function updateRoster(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
     const { id } = req.params;
-    const { shiftTypeId } = req.body;
+    const { description, slots } = req.body;
 
-    const updated = await prisma.roster.update({
-      where: { id: parseInt(id) },
-      data: {
-        shiftTypeId,
-      },
-      include: {
-        shiftType: true,
-      },
+    const current = await prisma.roster.findUnique({
+      where: { id },
+      include: { slots: true },
     });
-    res.json(updated);
+    if (!current) {
+      res.status(404).json({ error: 'Roster not found' });
+      return;
+    }
+
+    const newSlots: RosterSlotInput[] = slots ?? current.slots;
+    const slotError = validateSlots(newSlots);
+    if (slotError) {
+      res.status(400).json({ error: slotError });
+      return;
+    }
+
+    const roster = await saveRosterVersion(
+      current.name,
+      description !== undefined ? description : current.description,
+      toSlotData(newSlots),
+    );
+    // The new version is logged against the version it replaces
+    await recordAudit(req, {
+      action: 'UPDATE',
+      entityType: 'Roster',
+      entityId: current.id,
+      before: current,
+      after: roster,
+    });
+    res.status(201).json(toRosterDto(roster));
   } catch (error) {
     next(error);
   }
@@ -115,9 +180,68 @@ export async function updateRoster(req: Request, res: Response, next: NextFuncti
 export async function deleteRoster(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
     const { id } = req.params;
-    await prisma.roster.delete({ where: { id: parseInt(id) } });
+    const deleted = await prisma.roster.delete({ where: { id }, include: { slots: true } });
+    await recordAudit(req, { action: 'DELETE', entityType: 'Roster', entityId: id, before: deleted });
     res.json({ message: `Roster with ID ${id} deleted.` });
   } catch (error) {
     next(error);
   }
 }
+
+export async function applyRoster(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { id } = req.params;
+    const fromStr = req.query.from as string;
+    const toStr = req.query.to as string;
+
+    if (!fromStr || !toStr) {
+      res.status(400).json({ error: 'from and to are required' });
+      return;
+    }
+
+    const from = new Date(fromStr);
+    const to = new Date(toStr);
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      res.status(400).json({ error: 'Invalid date format for from or to' });
+      return;
+    }
+    if (to < from) {
+      res.status(400).json({ error: 'to must be on or after from' });
+      return;
+    }
+    if ((to.getTime() - from.getTime()) / 86_400_000 >= MAX_APPLY_DAYS) {
+      res
+        .status(400)
+        .json({ error: `The period may not exceed ${MAX_APPLY_DAYS} days` });
+      return;
+    }
+
+    const result = await applyRosterTemplate(id, from, to);
+    if (!result) {
+      res.status(404).json({ error: 'Roster not found' });
+      return;
+    }
+    await recordAudit(req, [
+      {
+        action: 'APPLY',
+        entityType: 'Roster',
+        entityId: id,
+        after: { from, to, createdActivityIds: result.created.map((a) => a.id) },
+      },
+      ...result.created.map((activity) => ({
+        action: 'CREATE' as const,
+        entityType: 'Activity' as const,
+        entityId: activity.id,
+        after: activity,
+      })),
+    ]);
+    res.status(201).json({
+      message: `${result.created.length} activities created from roster.`,
+      ...result,
+      created: result.created.map(toActivityDto),
+    });
+  } catch (error) {
+    next(error);
+  }
+}
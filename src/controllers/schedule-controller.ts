@@ -0,0 +1,57 @@
+/**
+ * @description
+ * Schedule Controller for the automatic shift planning.
+ *
+ * Key features:
+ * - generateScheduleProposal: Proposes SHIFT activities for a period and lists the slots
+ *   that could not be filled
+ *
+ * @notes
+ * - The proposal is not persisted. A planner reviews it and saves the shifts through
+ *   POST /admin/activities.
+ * - The planning logic lives in services/schedule-service.ts.
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import { proposeSchedule } from '../services/schedule-service';
+
+const MAX_PERIOD_DAYS = 92;
+
+export async function generateScheduleProposal(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const fromStr = req.query.from as string;
+    const toStr = req.query.to as string;
+
+    if (!fromStr || !toStr) {
+      res.status(400).json({ error: 'from and to are required' });
+      return;
+    }
+
+    const from = new Date(fromStr);
+    const to = new Date(toStr);
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      res.status(400).json({ error: 'Invalid date format for from or to' });
+      return;
+    }
+    if (to < from) {
+      res.status(400).json({ error: 'to must be on or after from' });
+      return;
+    }
+    if ((to.getTime() - from.getTime()) / 86_400_000 >= MAX_PERIOD_DAYS) {
+      res
+        .status(400)
+        .json({ error: `The period may not exceed ${MAX_PERIOD_DAYS} days` });
+      return;
+    }
+
+    const { proposed, unfilled } = await proposeSchedule(from, to);
+    res.json({ from, to, proposed, unfilled });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * @description
+ * Session Controller: lets users see and end their own sessions, and admins force-logout
+ * any account.
+ *
+ * Key features:
+ * - listMySessions / revokeMySession / revokeAllMySessions: /me/sessions
+ * - listUserSessions / revokeUserSession / revokeAllUserSessions: /admin/users/:id/sessions
+ * - listMySignIns: /me/sign-ins, the recent sign-in attempts on the own account
+ *
+ * @notes
+ * - A session is a refresh token family (see session-service); its id is the familyId.
+ * - The session of the refresh token sent with the request is flagged `current`.
+ * - Sessions ended by an admin are recorded in the audit trail.
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import { AuthenticatedUser } from '../config/passport-strategies';
+import { toLoginEventDto } from '../dto/login-event-dto';
+import { recordAudit } from '../services/audit-service';
+import {
+  findSessionId,
+  listSessions,
+  revokeAllSessions,
+  revokeSession,
+  Session,
+} from '../services/session-service';
+import { listLoginEvents } from '../services/login-security-service';
+import { findById } from '../services/user-service';
+import { suppliedRefreshToken } from '../utils/token-utils';
+
+async function withCurrentFlag(req: Request, sessions: Session[]) {
+  const token = suppliedRefreshToken(req);
+  const currentId = token ? await findSessionId(token) : null;
+  return sessions.map((session) => ({ ...session, current: session.id === currentId }));
+}
+
+/* ------------------------------------------------------------------ */
+/* 1. OWN SESSIONS                                                      */
+/* ------------------------------------------------------------------ */
+export async function listMySessions(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as AuthenticatedUser;
+    const sessions = await listSessions(user.personId);
+    res.json(await withCurrentFlag(req, sessions));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function revokeMySession(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as AuthenticatedUser;
+    const revoked = await revokeSession(user.personId, req.params.id);
+    if (!revoked) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+    res.json({ message: 'Session revoked.' });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function revokeAllMySessions(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as AuthenticatedUser;
+    const revoked = await revokeAllSessions(user.personId);
+
+    // The current session is ended as well, so log this device out like /auth/logout does
+    const isProd = process.env.NODE_ENV === 'production';
+    res.clearCookie('refreshToken', { httpOnly: true, secure: isProd, sameSite: 'strict' });
+    res.clearCookie('accessToken', { httpOnly: true, secure: isProd, sameSite: 'strict' });
+
+    res.json({ message: 'All sessions revoked.', revoked });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/* 2. SESSIONS OF ANY USER (admin)                                      */
+/* ------------------------------------------------------------------ */
+export async function listUserSessions(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = await findById(req.params.id);
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+    res.json(await listSessions(user.personId));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function revokeUserSession(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const { id: userId, sessionId } = req.params;
+    const revoked = await revokeSession(userId, sessionId);
+    if (!revoked) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+    await recordAudit(req, {
+      action: 'REVOKE',
+      entityType: 'RefreshTokenFamily',
+      entityId: sessionId,
+      after: { userId, reason: 'ADMIN_REVOKED' },
+    });
+    res.json({ message: 'Session revoked.' });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function revokeAllUserSessions(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = await findById(req.params.id);
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    const sessions = await listSessions(user.personId);
+    const revoked = await revokeAllSessions(user.personId);
+    await recordAudit(
+      req,
+      sessions.map((session) => ({
+        action: 'REVOKE' as const,
+        entityType: 'RefreshTokenFamily' as const,
+        entityId: session.id,
+        after: { userId: user.personId, reason: 'ADMIN_REVOKED' },
+      })),
+    );
+
+    res.json({ message: 'All sessions revoked.', revoked });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/* 3. SIGN-IN HISTORY                                                   */
+/* ------------------------------------------------------------------ */
+export async function listMySignIns(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as AuthenticatedUser;
+    const events = await listLoginEvents(user.personId);
+    res.json(events.map(toLoginEventDto));
+  } catch (error) {
+    next(error);
+  }
+}
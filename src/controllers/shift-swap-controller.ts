@@ -0,0 +1,399 @@
+/**
+ * @description
+ * Shift Swap Controller for doctors trading SHIFT activities.
+ *
+ * Key features:
+ * - listShiftSwaps: Own swap requests (approvers see all)
+ * - getShiftSwapById: A single swap request with its history
+ * - proposeShiftSwap: Offer one of your shifts, optionally in exchange for one of the counterpart's
+ * - acceptShiftSwap / declineShiftSwap: Answer of the counterpart
+ * - cancelShiftSwap: Withdrawal by the requester
+ * - approveShiftSwap / rejectShiftSwap: Decision of an approver (swap:approve)
+ *
+ * @notes
+ * - Every step is recorded as a ShiftSwapEvent and emailed to both doctors.
+ * - The activities are only reassigned on approval, atomically.
+ * - The status checks below give a clear 409 early; the service repeats them atomically,
+ *   so a concurrent step still gets 409 (SWAP_STATE_CHANGED).
+ * - With SHIFT_SWAP_AUTO_APPROVE=true, an accepted swap that causes no overlap and
+ *   breaks no UserConstraint is approved immediately; its moves are audited without an actor.
+ * - Responses go through toShiftSwapDto.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { NextFunction, Request, Response } from 'express';
+import { AuthenticatedUser } from '../config/passport-strategies';
+import { toActivityDto } from '../dto/activity-dto';
+import { toShiftSwapDto } from '../dto/shift-swap-dto';
+import { hasPermission } from '../middleware/role-middleware';
+import { CANCELLED_STATUS } from '../services/activity-service';
+import { AuditEntry, recordAudit, recordSystemAudit } from '../services/audit-service';
+import {
+  SwapWithDetails,
+  canTakeStep,
+  evaluateSwap,
+  executeSwap,
+  isAutoApproveEnabled,
+  notifySwapStep,
+  recordSwapStep,
+  swapInclude,
+} from '../services/shift-swap-service';
+
+const prisma = new PrismaClient();
+
+const OPEN_STATUSES = ['PROPOSED', 'ACCEPTED'];
+
+/** Approvers see every request, not just their own. */
+function isApprover(user: AuthenticatedUser): boolean {
+  return hasPermission(user, 'swap:approve');
+}
+
+/** The audit entries for the activities an approved swap reassigned. */
+function swapMoves(swap: SwapWithDetails, approved: SwapWithDetails): AuditEntry[] {
+  const moves: AuditEntry[] = [
+    {
+      action: 'UPDATE',
+      entityType: 'Activity',
+      entityId: swap.activity.id,
+      before: swap.activity,
+      after: approved.activity,
+    },
+  ];
+  if (swap.counterActivity) {
+    moves.push({
+      action: 'UPDATE',
+      entityType: 'Activity',
+      entityId: swap.counterActivity.id,
+      before: swap.counterActivity,
+      after: approved.counterActivity,
+    });
+  }
+  return moves;
+}
+
+/**
+ * Loads the swap request from req.params.id and responds with 404 when it does not exist
+ * or the caller is neither a participant nor an approver.
+ */
+async function loadSwapForUser(
+  req: Request,
+  res: Response,
+): Promise<SwapWithDetails | null> {
+  const user = req.user as AuthenticatedUser;
+  const swap = await prisma.shiftSwapRequest.findUnique({
+    where: { id: req.params.id },
+    include: swapInclude,
+  });
+  if (
+    !swap ||
+    (!isApprover(user) &&
+      swap.requesterId !== user.personId &&
+      swap.counterpartId !== user.personId)
+  ) {
+    res.status(404).json({ error: 'Shift swap request not found' });
+    return null;
+  }
+  return swap;
+}
+
+export async function listShiftSwaps(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as AuthenticatedUser;
+    const status = req.query.status as string | undefined;
+
+    const swaps = await prisma.shiftSwapRequest.findMany({
+      where: {
+        ...(status && { status }),
+        ...(!isApprover(user) && {
+          OR: [{ requesterId: user.personId }, { counterpartId: user.personId }],
+        }),
+      },
+      include: swapInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+    res.json(swaps.map(toShiftSwapDto));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getShiftSwapById(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const swap = await loadSwapForUser(req, res);
+    if (!swap) return;
+    res.json(toShiftSwapDto(swap));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function proposeShiftSwap(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as AuthenticatedUser;
+    const { activityId, counterpartId, counterActivityId, message } = req.body;
+
+    if (!activityId || !counterpartId) {
+      res.status(400).json({ error: 'activityId and counterpartId are required' });
+      return;
+    }
+    if (counterpartId === user.personId) {
+      res.status(400).json({ error: 'You cannot swap a shift with yourself' });
+      return;
+    }
+
+    const activity = await prisma.activity.findUnique({ where: { id: activityId } });
+    if (
+      !activity ||
+      activity.personId !== user.personId ||
+      activity.activityType !== 'SHIFT' ||
+      activity.status === CANCELLED_STATUS
+    ) {
+      res.status(400).json({ error: 'activityId must be one of your scheduled shifts' });
+      return;
+    }
+    if (activity.start <= new Date()) {
+      res.status(400).json({ error: 'Only future shifts can be swapped' });
+      return;
+    }
+
+    const counterpart = await prisma.doctor.findUnique({ where: { personId: counterpartId } });
+    if (!counterpart?.isEnabledInShifts) {
+      res.status(400).json({ error: 'counterpartId must be a doctor who is enabled in shifts' });
+      return;
+    }
+
+    if (counterActivityId) {
+      const counterActivity = await prisma.activity.findUnique({
+        where: { id: counterActivityId },
+      });
+      if (
+        !counterActivity ||
+        counterActivity.personId !== counterpartId ||
+        counterActivity.activityType !== 'SHIFT' ||
+        counterActivity.status === CANCELLED_STATUS ||
+        counterActivity.start <= new Date()
+      ) {
+        res.status(400).json({
+          error: 'counterActivityId must be a future scheduled shift of the counterpart',
+        });
+        return;
+      }
+    }
+
+    const openSwap = await prisma.shiftSwapRequest.findFirst({
+      where: {
+        status: { in: OPEN_STATUSES },
+        OR: [
+          { activityId: { in: [activityId, counterActivityId].filter(Boolean) } },
+          { counterActivityId: { in: [activityId, counterActivityId].filter(Boolean) } },
+        ],
+      },
+    });
+    if (openSwap) {
+      res.status(409).json({
+        error: 'One of these shifts is already part of an open swap request.',
+        swapRequestId: openSwap.id,
+      });
+      return;
+    }
+
+    const created = await prisma.shiftSwapRequest.create({
+      data: {
+        type: counterActivityId ? 'EXCHANGE' : 'GIVE_AWAY',
+        requesterId: user.personId,
+        counterpartId,
+        activityId,
+        counterActivityId: counterActivityId || null,
+        message,
+        events: {
+          create: { action: 'PROPOSED', actorId: user.personId, comment: message },
+        },
+      },
+      include: swapInclude,
+    });
+    await notifySwapStep(created, message);
+
+    res.status(201).json(toShiftSwapDto(created));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function acceptShiftSwap(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as AuthenticatedUser;
+    const swap = await loadSwapForUser(req, res);
+    if (!swap) return;
+
+    if (swap.counterpartId !== user.personId) {
+      res.status(403).json({ error: 'Only the counterpart can accept this swap.' });
+      return;
+    }
+    if (!canTakeStep(swap.status, 'ACCEPTED')) {
+      res.status(409).json({ error: `Swap request is ${swap.status}, not PROPOSED.` });
+      return;
+    }
+
+    let result = await recordSwapStep(swap.id, 'ACCEPTED', user.personId, req.body?.comment);
+    await notifySwapStep(result, req.body?.comment);
+
+    if (isAutoApproveEnabled()) {
+      const evaluation = await evaluateSwap(result);
+      if (!evaluation.conflicts.length && !evaluation.brokenRules.length) {
+        const approved = await executeSwap(result, null, 'Auto-approved');
+        if (approved) {
+          await recordSystemAudit(swapMoves(result, approved));
+          result = approved;
+          await notifySwapStep(result);
+        }
+      }
+    }
+
+    res.json(toShiftSwapDto(result));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function declineShiftSwap(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as AuthenticatedUser;
+    const swap = await loadSwapForUser(req, res);
+    if (!swap) return;
+
+    if (swap.counterpartId !== user.personId) {
+      res.status(403).json({ error: 'Only the counterpart can decline this swap.' });
+      return;
+    }
+    if (!canTakeStep(swap.status, 'DECLINED')) {
+      res.status(409).json({ error: `Swap request is ${swap.status}, not PROPOSED.` });
+      return;
+    }
+
+    const result = await recordSwapStep(swap.id, 'DECLINED', user.personId, req.body?.comment);
+    await notifySwapStep(result, req.body?.comment);
+    res.json(toShiftSwapDto(result));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function cancelShiftSwap(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as AuthenticatedUser;
+    const swap = await loadSwapForUser(req, res);
+    if (!swap) return;
+
+    if (swap.requesterId !== user.personId) {
+      res.status(403).json({ error: 'Only the requester can cancel this swap.' });
+      return;
+    }
+    if (!canTakeStep(swap.status, 'CANCELLED')) {
+      res.status(409).json({ error: `Swap request is already ${swap.status}.` });
+      return;
+    }
+
+    const result = await recordSwapStep(swap.id, 'CANCELLED', user.personId, req.body?.comment);
+    await notifySwapStep(result, req.body?.comment);
+    res.json(toShiftSwapDto(result));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function approveShiftSwap(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as AuthenticatedUser;
+    const { comment, force } = req.body ?? {};
+    const swap = await loadSwapForUser(req, res);
+    if (!swap) return;
+
+    // The approval is the confirmation by someone else; participants cannot give it
+    if (swap.requesterId === user.personId || swap.counterpartId === user.personId) {
+      res.status(403).json({ error: 'You cannot approve a swap you take part in.' });
+      return;
+    }
+    if (!canTakeStep(swap.status, 'APPROVED')) {
+      res.status(409).json({ error: `Swap request is ${swap.status}, not ACCEPTED.` });
+      return;
+    }
+
+    const evaluation = await evaluateSwap(swap);
+    if (
+      force !== true &&
+      (evaluation.conflicts.length || evaluation.brokenRules.length)
+    ) {
+      res.status(409).json({
+        error: 'The swap causes overlaps or breaks personal constraints.',
+        conflicts: evaluation.conflicts.map(toActivityDto),
+        brokenRules: evaluation.brokenRules,
+      });
+      return;
+    }
+
+    const approved = await executeSwap(swap, user.personId, comment);
+    if (!approved) {
+      res.status(409).json({
+        error: 'The swap or its shifts changed in the meantime; this swap is no longer valid.',
+      });
+      return;
+    }
+    await recordAudit(req, swapMoves(swap, approved));
+    await notifySwapStep(approved, comment);
+    res.json(toShiftSwapDto(approved));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function rejectShiftSwap(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as AuthenticatedUser;
+    const { comment } = req.body ?? {};
+    const swap = await loadSwapForUser(req, res);
+    if (!swap) return;
+
+    if (!canTakeStep(swap.status, 'REJECTED')) {
+      res.status(409).json({ error: `Swap request is ${swap.status}, not ACCEPTED.` });
+      return;
+    }
+
+    const result = await recordSwapStep(swap.id, 'REJECTED', user.personId, comment);
+    await notifySwapStep(result, comment);
+    res.json(toShiftSwapDto(result));
+  } catch (error) {
+    next(error);
+  }
+}
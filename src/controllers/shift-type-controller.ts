@@ -15,6 +15,7 @@
 
 import { PrismaClient } from '@prisma/client';
 import { Request, Response, NextFunction } from 'express';
+import { recordAudit } from '../services/audit-service';
 
 const prisma = new PrismaClient();
 
@@ -68,6 +69,12 @@ export async function createShiftType(req: Request, res: Response, next: NextFun
         activeUntil: activeUntil ? new Date(activeUntil) : null,
       },
     });
+    await recordAudit(req, {
+      action: 'CREATE',
+      entityType: 'ShiftType',
+      entityId: newShiftType.id,
+      after: newShiftType,
+    });
     res.status(201).json(newShiftType);
   } catch (error) {
     next(error);
@@ -86,6 +93,7 @@ export async function updateShiftType(req: Request, res: Response, next: NextFun
       activeUntil,
     } = req.body;
 
+    const before = await prisma.shiftType.findUnique({ where: { id } });
     const updated = await prisma.shiftType.update({
       where: { id },
       data: {
@@ -97,6 +105,7 @@ export async function updateShiftType(req: Request, res: Response, next: NextFun
         activeUntil: activeUntil ? new Date(activeUntil) : null,
       },
     });
+    await recordAudit(req, { action: 'UPDATE', entityType: 'ShiftType', entityId: id, before, after: updated });
     res.json(updated);
   } catch (error) {
     next(error);
@@ -106,7 +115,8 @@ export async function updateShiftType(req: Request, res: Response, next: NextFun
 export async function deleteShiftType(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
     const { id } = req.params;
-    await prisma.shiftType.delete({ where: { id } });
+    const deleted = await prisma.shiftType.delete({ where: { id } });
+    await recordAudit(req, { action: 'DELETE', entityType: 'ShiftType', entityId: id, before: deleted });
     res.json({ message: `ShiftType with ID ${id} deleted.` });
   } catch (error) {
     next(error);
@@ -8,16 +8,41 @@
  * - createShiftTypeRate
  * - updateShiftTypeRate
  * - deleteShiftTypeRate
+ * - supersedeShiftTypeRate: Close the open-ended rate of a shift type and start a new one
+ * - getShiftTypeRateAt: The rate of a shift type valid on a given date
  *
  * @notes
  * - Each ShiftTypeRate references a ShiftType by shiftTypeId.
+ * - The validity periods of the rates of one shift type may not overlap (409 otherwise),
+ *   so the payout of a shift is never ambiguous. validFrom/validUntil are inclusive days.
  */
 
 import { PrismaClient } from '@prisma/client';
 import { Request, Response, NextFunction } from 'express';
+import {
+  createRate,
+  findRateAt,
+  supersedeRate,
+  updatedRatePeriod,
+  updateRate,
+} from '../services/shift-type-rate-service';
+import { recordAudit } from '../services/audit-service';
 
 const prisma = new PrismaClient();
 
+/**
+ * Validates a rate period. Returns an error message, or null when valid.
+ */
+function validatePeriod(validFrom: Date, validUntil: Date | null): string | null {
+  if (isNaN(validFrom.getTime()) || (validUntil && isNaN(validUntil.getTime()))) {
+    return 'Invalid date format for validFrom or validUntil';
+  }
+  if (validUntil && validUntil < validFrom) {
+    return 'validUntil must be on or after validFrom';
+  }
+  return null;
+}
+
 export async function listShiftTypeRates(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
     const allRates = await prisma.shiftTypeRate.findMany({
@@ -52,13 +77,34 @@ export async function createShiftTypeRate(req: Request, res: Response, next: Nex
   try {
     const { shiftTypeId, rate, validFrom, validUntil } = req.body;
 
-    const newRate = await prisma.shiftTypeRate.create({
-      data: {
-        shiftTypeId,
-        rate,
-        validFrom: new Date(validFrom),
-        validUntil: validUntil ? new Date(validUntil) : null,
-      },
+    if (!shiftTypeId || rate === undefined || !validFrom) {
+      res.status(400).json({ error: 'shiftTypeId, rate and validFrom are required' });
+      return;
+    }
+    const period = {
+      validFrom: new Date(validFrom),
+      validUntil: validUntil ? new Date(validUntil) : null,
+    };
+    const periodError = validatePeriod(period.validFrom, period.validUntil);
+    if (periodError) {
+      res.status(400).json({ error: periodError });
+      return;
+    }
+
+    const result = await createRate({ shiftTypeId, rate, ...period });
+    if ('conflicts' in result) {
+      res.status(409).json({
+        error: 'The validity period overlaps with other rates of this shift type.',
+        conflicts: result.conflicts,
+      });
+      return;
+    }
+    const newRate = result.created;
+    await recordAudit(req, {
+      action: 'CREATE',
+      entityType: 'ShiftTypeRate',
+      entityId: newRate.id,
+      after: newRate,
     });
     res.status(201).json(newRate);
   } catch (error) {
@@ -71,14 +117,34 @@ export async function updateShiftTypeRate(req: Request, res: Response, next: Nex
     const { id } = req.params;
     const { shiftTypeId, rate, validFrom, validUntil } = req.body;
 
-    const updated = await prisma.shiftTypeRate.update({
-      where: { id },
-      data: {
-        shiftTypeId,
-        rate,
-        validFrom: validFrom ? new Date(validFrom) : undefined,
-        validUntil: validUntil ? new Date(validUntil) : null,
-      },
+    const existing = await prisma.shiftTypeRate.findUnique({ where: { id } });
+    if (!existing) {
+      res.status(404).json({ error: 'ShiftTypeRate not found' });
+      return;
+    }
+
+    const period = updatedRatePeriod(existing, { validFrom, validUntil });
+    const periodError = validatePeriod(period.validFrom, period.validUntil);
+    if (periodError) {
+      res.status(400).json({ error: periodError });
+      return;
+    }
+
+    const result = await updateRate(existing, { shiftTypeId, rate, ...period });
+    if ('conflicts' in result) {
+      res.status(409).json({
+        error: 'The validity period overlaps with other rates of this shift type.',
+        conflicts: result.conflicts,
+      });
+      return;
+    }
+    const { updated } = result;
+    await recordAudit(req, {
+      action: 'UPDATE',
+      entityType: 'ShiftTypeRate',
+      entityId: id,
+      before: existing,
+      after: updated,
     });
     res.json(updated);
   } catch (error) {
@@ -89,9 +155,86 @@ export async function updateShiftTypeRate(req: Request, res: Response, next: Nex
 export async function deleteShiftTypeRate(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
     const { id } = req.params;
-    await prisma.shiftTypeRate.delete({ where: { id } });
+    const deleted = await prisma.shiftTypeRate.delete({ where: { id } });
+    await recordAudit(req, { action: 'DELETE', entityType: 'ShiftTypeRate', entityId: id, before: deleted });
     res.json({ message: `ShiftTypeRate with ID ${id} deleted.` });
   } catch (error) {
     next(error);
   }
 }
+
+export async function supersedeShiftTypeRate(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { id } = req.params;
+    const { rate, validFrom } = req.body;
+
+    if (rate === undefined || !validFrom) {
+      res.status(400).json({ error: 'rate and validFrom are required' });
+      return;
+    }
+    const from = new Date(validFrom);
+    if (isNaN(from.getTime())) {
+      res.status(400).json({ error: 'Invalid date format for validFrom' });
+      return;
+    }
+
+    const shiftType = await prisma.shiftType.findUnique({ where: { id } });
+    if (!shiftType) {
+      res.status(404).json({ error: 'ShiftType not found' });
+      return;
+    }
+
+    const result = await supersedeRate(id, rate, from);
+    if ('conflicts' in result) {
+      res.status(409).json({
+        error: 'The new rate would overlap with other rates of this shift type.',
+        conflicts: result.conflicts,
+      });
+      return;
+    }
+    if (result.closed) {
+      await recordAudit(req, {
+        action: 'SUPERSEDE',
+        entityType: 'ShiftTypeRate',
+        entityId: result.closed.id,
+        before: { ...result.closed, validUntil: null },
+        after: result.closed,
+      });
+    }
+    await recordAudit(req, {
+      action: 'CREATE',
+      entityType: 'ShiftTypeRate',
+      entityId: result.created.id,
+      after: result.created,
+    });
+    res.status(201).json(result);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getShiftTypeRateAt(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { id } = req.params;
+    const dateStr = req.query.date as string;
+
+    if (!dateStr) {
+      res.status(400).json({ error: 'date is required' });
+      return;
+    }
+    const date = new Date(dateStr);
+    if (isNaN(date.getTime())) {
+      res.status(400).json({ error: 'Invalid date format for date' });
+      return;
+    }
+
+    const rate = await findRateAt(id, date);
+    if (!rate) {
+      res.status(404).json({ error: 'No rate valid on this date' });
+      return;
+    }
+    res.json(rate);
+  } catch (error) {
+    next(error);
+  }
+}
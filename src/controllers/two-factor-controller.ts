@@ -0,0 +1,141 @@
+/**
+ * @description
+ * Two-Factor Controller: lets a logged-in user manage TOTP two-factor authentication, and
+ * admins reset it for a user who lost their device.
+ *
+ * Key features:
+ * - getMyTwoFactor: Status (enabled, required by a role, recovery codes left)
+ * - setupMyTwoFactor / enableMyTwoFactor: Enrollment with secret + otpauth URI, then a code
+ * - disableMyTwoFactor: Turn 2FA off (not allowed when a role requires it)
+ * - regenerateMyRecoveryCodes: New set of recovery codes
+ * - resetUserTwoFactor: Admin reset; the user enrolls again at the next login if required
+ *
+ * @notes
+ * - The login itself (password, then code) lives in auth-controller.ts.
+ * - Disabling and regenerating need a valid second factor, so a stolen session alone
+ *   cannot turn 2FA off or read new recovery codes.
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import { AuthenticatedUser } from '../config/passport-strategies';
+import { recordAudit } from '../services/audit-service';
+import {
+  confirmEnrollment,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  startEnrollment,
+  verifySecondFactor,
+} from '../services/two-factor-service';
+
+export async function getMyTwoFactor(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as AuthenticatedUser;
+    res.json(await getTwoFactorStatus(user.personId));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function setupMyTwoFactor(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as AuthenticatedUser;
+    // Logged in, so a pending enrollment (e.g. a QR code that was never scanned) may be replaced
+    res.json(await startEnrollment(user.personId, { replacePending: true }));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function enableMyTwoFactor(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as AuthenticatedUser;
+    const recoveryCodes = await confirmEnrollment(user.personId, req.body.code);
+    if (!recoveryCodes) {
+      res.status(400).json({ error: 'Invalid two-factor code.' });
+      return;
+    }
+    res.json({ message: 'Two-factor authentication enabled.', recoveryCodes });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function disableMyTwoFactor(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as AuthenticatedUser;
+    const status = await getTwoFactorStatus(user.personId);
+    if (status.required) {
+      res.status(403).json({ error: 'Your role requires two-factor authentication.' });
+      return;
+    }
+    if (!status.enabled) {
+      res.status(400).json({ error: 'Two-factor authentication is not enabled.' });
+      return;
+    }
+    if (!(await verifySecondFactor(user.personId, req.body))) {
+      res.status(400).json({ error: 'Invalid two-factor code.' });
+      return;
+    }
+
+    await disableTwoFactor(user.personId);
+    res.json({ message: 'Two-factor authentication disabled.' });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function regenerateMyRecoveryCodes(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as AuthenticatedUser;
+    if (!(await verifySecondFactor(user.personId, { code: req.body.code }))) {
+      res.status(400).json({ error: 'Invalid two-factor code.' });
+      return;
+    }
+    res.json({ recoveryCodes: await regenerateRecoveryCodes(user.personId) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function resetUserTwoFactor(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const userId = req.params.id;
+    const before = await getTwoFactorStatus(userId);
+    await disableTwoFactor(userId);
+    await recordAudit(req, {
+      action: 'UPDATE',
+      entityType: 'User',
+      entityId: userId,
+      before: { twoFactorEnabled: before.enabled },
+      after: { twoFactorEnabled: false },
+    });
+    res.json({ message: 'Two-factor authentication reset.' });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -15,6 +15,7 @@
 
 import { PrismaClient } from '@prisma/client';
 import { NextFunction, Request, Response } from 'express';
+import { recordAudit } from '../services/audit-service';
 
 const prisma = new PrismaClient();
 
@@ -79,6 +80,12 @@ export async function createUserConstraint(
         minRestHoursBetweenShifts,
       },
     });
+    await recordAudit(req, {
+      action: 'CREATE',
+      entityType: 'UserConstraint',
+      entityId: newConstraint.id,
+      after: newConstraint,
+    });
     res.status(201).json(newConstraint);
   } catch (error) {
     next(error);
@@ -99,6 +106,7 @@ export async function updateUserConstraint(
       minRestHoursBetweenShifts,
     } = req.body;
 
+    const before = await prisma.userConstraint.findUnique({ where: { id } });
     const updated = await prisma.userConstraint.update({
       where: { id },
       data: {
@@ -108,6 +116,13 @@ export async function updateUserConstraint(
         minRestHoursBetweenShifts,
       },
     });
+    await recordAudit(req, {
+      action: 'UPDATE',
+      entityType: 'UserConstraint',
+      entityId: id,
+      before,
+      after: updated,
+    });
     res.json(updated);
   } catch (error) {
     next(error);
@@ -121,7 +136,8 @@ export async function deleteUserConstraint(
 ): Promise<void> {
   try {
     const { id } = req.params;
-    await prisma.userConstraint.delete({ where: { id } });
+    const deleted = await prisma.userConstraint.delete({ where: { id } });
+    await recordAudit(req, { action: 'DELETE', entityType: 'UserConstraint', entityId: id, before: deleted });
     res.json({ message: `UserConstraint with ID ${id} deleted.` });
   } catch (error) {
     next(error);
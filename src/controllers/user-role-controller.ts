@@ -17,10 +17,13 @@
  * @notes
  * - UserRole uses composite primary key [userId, roleId]
  * - userId references User.personId (not User.id)
+ * - The included users go through toUserRoleDto, so no credentials are returned.
  */
 
 import { PrismaClient } from '@prisma/client';
 import { Request, Response, NextFunction } from 'express';
+import { toRoleDto, toUserRoleDto } from '../dto/user-dto';
+import { recordAudit } from '../services/audit-service';
 
 const prisma = new PrismaClient();
 
@@ -36,7 +39,7 @@ export async function listUserRoles(req: Request, res: Response, next: NextFunct
         role: true,
       },
     });
-    res.json(userRoles);
+    res.json(userRoles.map(toUserRoleDto));
   } catch (error) {
     next(error);
   }
@@ -62,7 +65,7 @@ export async function getUserRolesByUserId(req: Request, res: Response, next: Ne
       return;
     }
     
-    res.json(userRoles);
+    res.json(userRoles.map(toUserRoleDto));
   } catch (error) {
     next(error);
   }
@@ -81,7 +84,7 @@ export async function getRolesByUserId(req: Request, res: Response, next: NextFu
       },
     });
     
-    res.json(roles);
+    res.json(roles.map(toRoleDto));
   } catch (error) {
     next(error);
   }
@@ -102,7 +105,7 @@ export async function getUsersByRoleId(req: Request, res: Response, next: NextFu
       },
     });
     
-    res.json(userRoles);
+    res.json(userRoles.map(toUserRoleDto));
   } catch (error) {
     next(error);
   }
@@ -162,7 +165,13 @@ export async function createUserRole(req: Request, res: Response, next: NextFunc
       },
     });
     
-    res.status(201).json(newUserRole);
+    await recordAudit(req, {
+      action: 'CREATE',
+      entityType: 'UserRole',
+      entityId: `${userId}:${roleId}`,
+      after: { userId, roleId, role: existingRole.name },
+    });
+    res.status(201).json(toUserRoleDto(newUserRole));
   } catch (error) {
     next(error);
   }
@@ -195,6 +204,12 @@ export async function deleteUserRole(req: Request, res: Response, next: NextFunc
       },
     });
     
+    await recordAudit(req, {
+      action: 'DELETE',
+      entityType: 'UserRole',
+      entityId: `${userId}:${roleId}`,
+      before: existingAssignment,
+    });
     res.json({ message: `Role assignment removed for user ${userId} and role ${roleId}` });
   } catch (error) {
     next(error);
@@ -0,0 +1,48 @@
+/**
+ * @description
+ * Output DTO for Activity.
+ *
+ * Key features:
+ * - toActivityDto: Activity with its shift type and person, if loaded
+ *
+ * @notes
+ * - ShiftType has no sensitive fields and is passed through as-is.
+ */
+
+import { Activity, ShiftType } from '@prisma/client';
+import { PersonDto, PersonRecord, toPersonDto } from './person-dto';
+
+export interface ActivityDto {
+  id: string;
+  activityType: string;
+  start: Date;
+  end: Date;
+  status: string;
+  personId: string;
+  shiftTypeId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  person?: PersonDto;
+  shiftType?: ShiftType | null;
+}
+
+export type ActivityRecord = Activity & {
+  person?: PersonRecord;
+  shiftType?: ShiftType | null;
+};
+
+export function toActivityDto(activity: ActivityRecord): ActivityDto {
+  return {
+    id: activity.id,
+    activityType: activity.activityType,
+    start: activity.start,
+    end: activity.end,
+    status: activity.status,
+    personId: activity.personId,
+    shiftTypeId: activity.shiftTypeId,
+    createdAt: activity.createdAt,
+    updatedAt: activity.updatedAt,
+    ...(activity.person && { person: toPersonDto(activity.person) }),
+    ...(activity.shiftType !== undefined && { shiftType: activity.shiftType }),
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * @description
+ * Output DTO for AuditLog.
+ *
+ * Key features:
+ * - toAuditLogDto: Audit entry with the before/after snapshots parsed back into objects
+ */
+
+import { AuditLog } from '@prisma/client';
+
+export interface AuditLogDto {
+  id: string;
+  actorId: string | null;
+  action: string;
+  entityType: string;
+  entityId: string;
+  before: unknown;
+  after: unknown;
+  createdAt: Date;
+}
+
+function parseSnapshot(json: string | null): unknown {
+  return json === null ? null : JSON.parse(json);
+}
+
+export function toAuditLogDto(entry: AuditLog): AuditLogDto {
+  return {
+    id: entry.id,
+    actorId: entry.actorId,
+    action: entry.action,
+    entityType: entry.entityType,
+    entityId: entry.entityId,
+    before: parseSnapshot(entry.before),
+    after: parseSnapshot(entry.after),
+    createdAt: entry.createdAt,
+  };
+}
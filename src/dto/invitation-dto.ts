@@ -0,0 +1,45 @@
+/**
+ * @description
+ * Output DTO for Invitation.
+ *
+ * Key features:
+ * - toInvitationDto: Invitation with its derived status and person, if loaded
+ *
+ * @notes
+ * - The token hash is never copied; the token itself is only ever sent by e-mail.
+ */
+
+import { InvitationRecord, InvitationStatus, invitationStatus } from '../services/invitation-service';
+import { PersonDto, toPersonDto } from './person-dto';
+
+export interface InvitationDto {
+  id: string;
+  email: string;
+  role: string | null;
+  personId: string;
+  status: InvitationStatus;
+  expiresAt: Date;
+  sentAt: Date;
+  invitedById: string | null;
+  acceptedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+  person?: PersonDto;
+}
+
+export function toInvitationDto(invitation: InvitationRecord): InvitationDto {
+  return {
+    id: invitation.id,
+    email: invitation.email,
+    role: invitation.role,
+    personId: invitation.personId,
+    status: invitationStatus(invitation),
+    expiresAt: invitation.expiresAt,
+    sentAt: invitation.sentAt,
+    invitedById: invitation.invitedById,
+    acceptedAt: invitation.acceptedAt,
+    revokedAt: invitation.revokedAt,
+    createdAt: invitation.createdAt,
+    ...(invitation.person && { person: toPersonDto(invitation.person) }),
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * @description
+ * Output DTO for LeaveRequest.
+ *
+ * Key features:
+ * - toLeaveRequestDto: Request with its person, approver and leave activity, if loaded
+ *
+ * @notes
+ * - Person and approver go through toPersonDto, the activity through toActivityDto.
+ */
+
+import { LeaveRequest } from '@prisma/client';
+import { ActivityDto, ActivityRecord, toActivityDto } from './activity-dto';
+import { PersonDto, PersonRecord, toPersonDto } from './person-dto';
+
+export interface LeaveRequestDto {
+  id: string;
+  leaveType: string;
+  start: Date;
+  end: Date;
+  reason: string | null;
+  status: string;
+  personId: string;
+  approverId: string | null;
+  approverComment: string | null;
+  decidedAt: Date | null;
+  activityId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  person?: PersonDto;
+  approver?: PersonDto | null;
+  activity?: ActivityDto | null;
+}
+
+export type LeaveRequestRecord = LeaveRequest & {
+  person?: PersonRecord;
+  approver?: PersonRecord | null;
+  activity?: ActivityRecord | null;
+};
+
+export function toLeaveRequestDto(leave: LeaveRequestRecord): LeaveRequestDto {
+  return {
+    id: leave.id,
+    leaveType: leave.leaveType,
+    start: leave.start,
+    end: leave.end,
+    reason: leave.reason,
+    status: leave.status,
+    personId: leave.personId,
+    approverId: leave.approverId,
+    approverComment: leave.approverComment,
+    decidedAt: leave.decidedAt,
+    activityId: leave.activityId,
+    createdAt: leave.createdAt,
+    updatedAt: leave.updatedAt,
+    ...(leave.person && { person: toPersonDto(leave.person) }),
+    ...(leave.approver !== undefined && {
+      approver: leave.approver && toPersonDto(leave.approver),
+    }),
+    ...(leave.activity !== undefined && {
+      activity: leave.activity && toActivityDto(leave.activity),
+    }),
+  };
+}
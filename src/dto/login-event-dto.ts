@@ -0,0 +1,36 @@
+/**
+ * @description
+ * Output DTO for LoginEvent.
+ *
+ * Key features:
+ * - toLoginEventDto: One sign-in attempt as shown to the user it belongs to
+ *
+ * @notes
+ * - userId and the entered e-mail are left out: the list is always scoped to one account.
+ */
+
+import { LoginEvent } from '@prisma/client';
+
+export interface LoginEventDto {
+  id: string;
+  success: boolean;
+  reason: string | null;
+  platform: string;
+  userAgent: string | null;
+  ip: string | null;
+  newDevice: boolean;
+  createdAt: Date;
+}
+
+export function toLoginEventDto(event: LoginEvent): LoginEventDto {
+  return {
+    id: event.id,
+    success: event.success,
+    reason: event.reason,
+    platform: event.platform,
+    userAgent: event.userAgent,
+    ip: event.ip,
+    newDevice: event.newDevice,
+    createdAt: event.createdAt,
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * @description
+ * Output DTOs for Person and Doctor.
+ *
+ * Key features:
+ * - toPersonDto: Person with whichever relations were loaded (user, doctor, activities, constraints)
+ * - toDoctorDto: Doctor with its person, if loaded
+ *
+ * @notes
+ * - Every field is copied explicitly. A linked User is reduced to personId and e-mail,
+ *   so including `user: true` in a query can never leak the password hash or reset token.
+ * - Person and Doctor live in one file because they nest into each other.
+ */
+
+import { Activity, Doctor, Person, ShiftType, User, UserConstraint } from '@prisma/client';
+import { ActivityDto, toActivityDto } from './activity-dto';
+
+export interface UserSummaryDto {
+  personId: string;
+  email: string;
+}
+
+export interface DoctorDto {
+  personId: string;
+  rizivNumber: string;
+  isEnabledInShifts: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  person?: PersonDto;
+}
+
+export interface PersonDto {
+  id: string;
+  firstName: string;
+  lastName: string;
+  dateOfBirth: Date;
+  employmentStart: Date | null;
+  employmentEnd: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  user?: UserSummaryDto | null;
+  doctor?: DoctorDto | null;
+  activities?: ActivityDto[];
+  userConstraints?: UserConstraint[];
+}
+
+export type PersonRecord = Person & {
+  user?: Pick<User, 'personId' | 'email'> | null;
+  doctor?: Doctor | null;
+  activities?: (Activity & { shiftType?: ShiftType | null })[];
+  userConstraints?: UserConstraint[];
+};
+
+export type DoctorRecord = Doctor & { person?: PersonRecord };
+
+export function toUserSummaryDto(user: Pick<User, 'personId' | 'email'>): UserSummaryDto {
+  return { personId: user.personId, email: user.email };
+}
+
+export function toPersonDto(person: PersonRecord): PersonDto {
+  return {
+    id: person.id,
+    firstName: person.firstName,
+    lastName: person.lastName,
+    dateOfBirth: person.dateOfBirth,
+    employmentStart: person.employmentStart,
+    employmentEnd: person.employmentEnd,
+    createdAt: person.createdAt,
+    updatedAt: person.updatedAt,
+    ...(person.user !== undefined && {
+      user: person.user && toUserSummaryDto(person.user),
+    }),
+    ...(person.doctor !== undefined && {
+      doctor: person.doctor && toDoctorDto(person.doctor),
+    }),
+    ...(person.activities && { activities: person.activities.map(toActivityDto) }),
+    ...(person.userConstraints && { userConstraints: person.userConstraints }),
+  };
+}
+
+export function toDoctorDto(doctor: DoctorRecord): DoctorDto {
+  return {
+    personId: doctor.personId,
+    rizivNumber: doctor.rizivNumber,
+    isEnabledInShifts: doctor.isEnabledInShifts,
+    createdAt: doctor.createdAt,
+    updatedAt: doctor.updatedAt,
+    ...(doctor.person && { person: toPersonDto(doctor.person) }),
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * @description
+ * Output DTO for Registration.
+ *
+ * Key features:
+ * - toRegistrationDto: Registration with its person (account and doctor), if loaded
+ *
+ * @notes
+ * - emailVerified tells admins whether the applicant confirmed their e-mail address yet.
+ */
+
+import { RegistrationRecord, RegistrationStatus } from '../services/registration-service';
+import { PersonDto, toPersonDto } from './person-dto';
+
+export interface RegistrationDto {
+  id: string;
+  personId: string;
+  status: RegistrationStatus;
+  requestedRole: string | null;
+  requestedIsEnabledInShifts: boolean;
+  reviewerId: string | null;
+  reason: string | null;
+  decidedAt: Date | null;
+  createdAt: Date;
+  emailVerified?: boolean;
+  person?: PersonDto;
+}
+
+export function toRegistrationDto(registration: RegistrationRecord): RegistrationDto {
+  const user = registration.person?.user;
+  return {
+    id: registration.id,
+    personId: registration.personId,
+    status: registration.status as RegistrationStatus,
+    requestedRole: registration.requestedRole,
+    requestedIsEnabledInShifts: registration.requestedIsEnabledInShifts,
+    reviewerId: registration.reviewerId,
+    reason: registration.reason,
+    decidedAt: registration.decidedAt,
+    createdAt: registration.createdAt,
+    ...(user && { emailVerified: !!user.emailVerifiedAt }),
+    ...(registration.person && { person: toPersonDto(registration.person) }),
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * @description
+ * Output DTOs for Roster and RosterSlot.
+ *
+ * Key features:
+ * - toRosterDto: Template version with its slots, if loaded
+ * - toRosterSlotDto: Slot with its shift type and default person, if loaded
+ *
+ * @notes
+ * - The default person goes through toPersonDto, so a loaded user is reduced to
+ *   personId and e-mail.
+ */
+
+import { Roster, RosterSlot, ShiftType } from '@prisma/client';
+import { PersonDto, PersonRecord, toPersonDto } from './person-dto';
+
+export interface RosterSlotDto {
+  id: string;
+  rosterId: string;
+  weekday: number;
+  headcount: number;
+  shiftTypeId: string;
+  defaultPersonId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  shiftType?: ShiftType;
+  defaultPerson?: PersonDto | null;
+}
+
+export interface RosterDto {
+  id: string;
+  name: string;
+  version: number;
+  description: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  slots?: RosterSlotDto[];
+}
+
+export type RosterSlotRecord = RosterSlot & {
+  shiftType?: ShiftType;
+  defaultPerson?: PersonRecord | null;
+};
+
+export type RosterRecord = Roster & { slots?: RosterSlotRecord[] };
+
+export function toRosterSlotDto(slot: RosterSlotRecord): RosterSlotDto {
+  return {
+    id: slot.id,
+    rosterId: slot.rosterId,
+    weekday: slot.weekday,
+    headcount: slot.headcount,
+    shiftTypeId: slot.shiftTypeId,
+    defaultPersonId: slot.defaultPersonId,
+    createdAt: slot.createdAt,
+    updatedAt: slot.updatedAt,
+    ...(slot.shiftType && { shiftType: slot.shiftType }),
+    ...(slot.defaultPerson !== undefined && {
+      defaultPerson: slot.defaultPerson && toPersonDto(slot.defaultPerson),
+    }),
+  };
+}
+
+export function toRosterDto(roster: RosterRecord): RosterDto {
+  return {
+    id: roster.id,
+    name: roster.name,
+    version: roster.version,
+    description: roster.description,
+    createdAt: roster.createdAt,
+    updatedAt: roster.updatedAt,
+    ...(roster.slots && { slots: roster.slots.map(toRosterSlotDto) }),
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * @description
+ * Output DTO for ShiftSwapRequest.
+ *
+ * Key features:
+ * - toShiftSwapDto: Swap request with its people, shifts and history, if loaded
+ *
+ * @notes
+ * - ShiftSwapEvent has no sensitive fields and is passed through as-is.
+ */
+
+import { ShiftSwapEvent, ShiftSwapRequest } from '@prisma/client';
+import { ActivityDto, ActivityRecord, toActivityDto } from './activity-dto';
+import { PersonDto, PersonRecord, toPersonDto } from './person-dto';
+
+export interface ShiftSwapDto {
+  id: string;
+  type: string;
+  status: string;
+  requesterId: string;
+  counterpartId: string;
+  activityId: string;
+  counterActivityId: string | null;
+  message: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  requester?: PersonDto;
+  counterpart?: PersonDto;
+  activity?: ActivityDto;
+  counterActivity?: ActivityDto | null;
+  events?: ShiftSwapEvent[];
+}
+
+export type ShiftSwapRecord = ShiftSwapRequest & {
+  requester?: PersonRecord;
+  counterpart?: PersonRecord;
+  activity?: ActivityRecord;
+  counterActivity?: ActivityRecord | null;
+  events?: ShiftSwapEvent[];
+};
+
+export function toShiftSwapDto(swap: ShiftSwapRecord): ShiftSwapDto {
+  return {
+    id: swap.id,
+    type: swap.type,
+    status: swap.status,
+    requesterId: swap.requesterId,
+    counterpartId: swap.counterpartId,
+    activityId: swap.activityId,
+    counterActivityId: swap.counterActivityId,
+    message: swap.message,
+    createdAt: swap.createdAt,
+    updatedAt: swap.updatedAt,
+    ...(swap.requester && { requester: toPersonDto(swap.requester) }),
+    ...(swap.counterpart && { counterpart: toPersonDto(swap.counterpart) }),
+    ...(swap.activity && { activity: toActivityDto(swap.activity) }),
+    ...(swap.counterActivity !== undefined && {
+      counterActivity: swap.counterActivity && toActivityDto(swap.counterActivity),
+    }),
+    ...(swap.events && { events: swap.events }),
+  };
+}
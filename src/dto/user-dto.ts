@@ -0,0 +1,79 @@
+/**
+ * @description
+ * Output DTOs for User, Role and UserRole.
+ *
+ * Key features:
+ * - toUserDto: Account data with person and roles, if loaded
+ * - toRoleDto / toUserRoleDto: Role assignments with the user reduced to a UserDto
+ *
+ * @notes
+ * - The password hash, reset token, calendar feed token hash and TOTP secret are never copied.
+ */
+
+import { Role, User, UserRole } from '@prisma/client';
+import { UserStatus } from '../services/account-lifecycle-service';
+import { PersonDto, PersonRecord, toPersonDto } from './person-dto';
+
+export interface RoleDto {
+  id: string;
+  name: string;
+  requiresTwoFactor: boolean;
+}
+
+export interface UserDto {
+  personId: string;
+  email: string;
+  status: UserStatus;
+  statusReason: string | null;
+  statusChangedAt: Date | null;
+  lockedUntil: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  person?: PersonDto;
+  userRoles?: UserRoleDto[];
+}
+
+export interface UserRoleDto {
+  userId: string;
+  roleId: string;
+  role?: RoleDto;
+  user?: UserDto;
+}
+
+export type UserRecord = User & {
+  person?: PersonRecord;
+  userRoles?: UserRoleRecord[];
+};
+
+export type UserRoleRecord = UserRole & {
+  role?: Role;
+  user?: UserRecord;
+};
+
+export function toRoleDto(role: Role): RoleDto {
+  return { id: role.id, name: role.name, requiresTwoFactor: role.requiresTwoFactor };
+}
+
+export function toUserDto(user: UserRecord): UserDto {
+  return {
+    personId: user.personId,
+    email: user.email,
+    status: user.status as UserStatus,
+    statusReason: user.statusReason,
+    statusChangedAt: user.statusChangedAt,
+    lockedUntil: user.lockedUntil,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
+    ...(user.person && { person: toPersonDto(user.person) }),
+    ...(user.userRoles && { userRoles: user.userRoles.map(toUserRoleDto) }),
+  };
+}
+
+export function toUserRoleDto(userRole: UserRoleRecord): UserRoleDto {
+  return {
+    userId: userRole.userId,
+    roleId: userRole.roleId,
+    ...(userRole.role && { role: toRoleDto(userRole.role) }),
+    ...(userRole.user && { user: toUserDto(userRole.user) }),
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * @description
+ * Central error handler: turns everything passed to next(error) into an RFC 7807
+ * `application/problem+json` response.
+ *
+ * Key features:
+ * - AppError subclasses (utils/app-error.ts) keep their status and code
+ * - Known Prisma errors are mapped: P2002 -> 409, P2025 -> 404, P2003 -> 409 on delete
+ *   and 422 otherwise
+ * - Malformed JSON bodies -> 400
+ * - Anything else -> 500 with a generic detail; the error itself is only logged
+ *
+ * @notes
+ * - Every problem carries a stable `code` for clients to switch on, and an `error`
+ *   member with the same text as `detail`, so clients that read `error` (the shape of
+ *   all other error responses) keep working.
+ * - The stack trace is only included when NODE_ENV is 'development'.
+ * - Must be registered after all routes in app.ts.
+ */
+
+import { STATUS_CODES } from 'http';
+import { ErrorRequestHandler, Request } from 'express';
+import { Prisma } from '@prisma/client';
+import { AppError } from '../utils/app-error';
+
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance: string;
+  code: string;
+  error: string;
+  fields?: string[];
+  stack?: string;
+}
+
+interface MappedError {
+  status: number;
+  code: string;
+  detail: string;
+  fields?: string[];
+}
+
+function uniqueFields(error: Prisma.PrismaClientKnownRequestError): string[] {
+  const target = error.meta?.target;
+  if (Array.isArray(target)) return target.map(String);
+  return typeof target === 'string' ? [target] : [];
+}
+
+function mapPrismaError(error: Prisma.PrismaClientKnownRequestError, req: Request): MappedError | null {
+  switch (error.code) {
+    case 'P2002': {
+      const fields = uniqueFields(error);
+      return {
+        status: 409,
+        code: 'UNIQUE_CONSTRAINT_VIOLATION',
+        detail: fields.length > 0
+          ? `A record with this ${fields.join(', ')} already exists.`
+          : 'A record with these values already exists.',
+        fields,
+      };
+    }
+    case 'P2025':
+      return { status: 404, code: 'RECORD_NOT_FOUND', detail: 'The requested record does not exist.' };
+    case 'P2003':
+      return req.method === 'DELETE'
+        ? { status: 409, code: 'RECORD_IN_USE', detail: 'The record is still referenced by other records.' }
+        : { status: 422, code: 'RELATED_RECORD_NOT_FOUND', detail: 'A referenced record does not exist.' };
+    default:
+      return null;
+  }
+}
+
+function mapError(error: unknown, req: Request): MappedError {
+  if (error instanceof AppError) {
+    return { status: error.status, code: error.code, detail: error.message };
+  }
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    const mapped = mapPrismaError(error, req);
+    if (mapped) return mapped;
+  }
+  if (error instanceof Prisma.PrismaClientValidationError) {
+    return { status: 422, code: 'INVALID_DATA', detail: 'The data does not match the expected format.' };
+  }
+  // body-parser sets `type` and a 4xx `status` on request errors
+  const bodyError = error as { type?: string; status?: number };
+  if (bodyError?.type === 'entity.parse.failed') {
+    return { status: 400, code: 'MALFORMED_JSON', detail: 'The request body is not valid JSON.' };
+  }
+  if (typeof bodyError?.status === 'number' && bodyError.status >= 400 && bodyError.status < 500) {
+    return {
+      status: bodyError.status,
+      code: 'REQUEST_REJECTED',
+      detail: STATUS_CODES[bodyError.status] ?? 'The request was rejected.',
+    };
+  }
+  return { status: 500, code: 'INTERNAL_ERROR', detail: 'An unexpected error occurred.' };
+}
+
+/**
+ * @function toProblem
+ * @description
+ * Builds the RFC 7807 problem body for an error.
+ *
+ * @param {unknown} error - Whatever was passed to next()
+ * @param {Request} req - The failing request (used for `instance` and the method)
+ * @returns {ProblemDetails} The problem body
+ *
+ * @example
+ * toProblem(new NotFoundError('Doctor not found'), req);
+ * // { type: 'about:blank', title: 'Not Found', status: 404, detail: 'Doctor not found',
+ * //   instance: '/admin/doctors/42', code: 'NOT_FOUND', error: 'Doctor not found' }
+ */
+export function toProblem(error: unknown, req: Request): ProblemDetails {
+  const { status, code, detail, fields } = mapError(error, req);
+  return {
+    type: 'about:blank',
+    title: STATUS_CODES[status] ?? 'Error',
+    status,
+    detail,
+    instance: req.originalUrl,
+    code,
+    error: detail,
+    ...(fields && fields.length > 0 && { fields }),
+    ...(process.env.NODE_ENV === 'development' &&
+      error instanceof Error && { stack: error.stack }),
+  };
+}
+
+export const errorHandler: ErrorRequestHandler = (error, req, res, next) => {
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+
+  const problem = toProblem(error, req);
+  if (problem.status >= 500) {
+    console.error(`Unhandled error on ${req.method} ${req.originalUrl}:`, error);
+  }
+
+  res.status(problem.status).type('application/problem+json').json(problem);
+};
@@ -0,0 +1,89 @@
+/**
+ * @description
+ * Last line of defence against leaking credentials in JSON responses.
+ *
+ * Key features:
+ * - SENSITIVE_FIELDS: Column names that must never leave the server
+ * - stripSensitiveFields: Deep copy of a value without those keys
+ * - guardResponses: Wraps res.json so every response body is stripped before sending
+ *
+ * @notes
+ * - Controllers are expected to answer with the DTOs from src/dto; this middleware only
+ *   catches what slips through (e.g. a new `include: { user: true }`) and logs it, so
+ *   the controller can be fixed.
+ * - Dates and other non-plain objects are left untouched.
+ */
+
+import { RequestHandler } from 'express';
+
+export const SENSITIVE_FIELDS: ReadonlySet<string> = new Set([
+  'password',
+  'resetToken',
+  'resetExpire',
+  'calendarFeedTokenHash',
+  'tokenHash',
+  'totpSecret',
+  'totpSecretCreatedAt',
+  'totpLastStep',
+  'twoFactorEnrollCodeHash',
+  'twoFactorEnrollCodeExpire',
+  'codeHash',
+  'emailVerificationTokenHash',
+  'emailVerificationExpire',
+]);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * @function stripSensitiveFields
+ * @description
+ * Returns a copy of the value with every SENSITIVE_FIELDS key removed, at any depth.
+ *
+ * @param {unknown} value - A response body
+ * @param {string[]} [found] - Collects the paths of the removed keys
+ * @returns {unknown} The stripped copy
+ *
+ * @example
+ * stripSensitiveFields({ person: { user: { email: 'a@b.be', password: '$2b$…' } } });
+ * // { person: { user: { email: 'a@b.be' } } }
+ */
+export function stripSensitiveFields(value: unknown, found: string[] = [], path = ''): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item, i) => stripSensitiveFields(item, found, `${path}[${i}]`));
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  const copy: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const itemPath = path ? `${path}.${key}` : key;
+    if (SENSITIVE_FIELDS.has(key)) {
+      found.push(itemPath);
+      continue;
+    }
+    copy[key] = stripSensitiveFields(item, found, itemPath);
+  }
+  return copy;
+}
+
+export const guardResponses: RequestHandler = (req, res, next) => {
+  const json = res.json.bind(res);
+
+  res.json = (body?: unknown) => {
+    const found: string[] = [];
+    const stripped = stripSensitiveFields(body, found);
+    if (found.length > 0) {
+      console.warn(
+        `Removed sensitive fields from ${req.method} ${req.originalUrl}: ${found.join(', ')}`,
+      );
+    }
+    return json(stripped);
+  };
+
+  next();
+};
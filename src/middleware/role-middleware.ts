@@ -1,9 +1,11 @@
 /**
  * @description
- * Provides role-based authorization middleware functions for admin-only routes.
+ * Provides role- and permission-based authorization middleware functions.
  *
  * Key features:
  * - requireAdmin: Verifies that the user has the 'ADMIN' role in user.roles array. If not, returns 403.
+ * - requirePermission: Verifies that the user holds every given permission. If not, returns 403.
+ * - hasPermission: The same check for use inside controllers.
  *
  * @dependencies
  * - express: For the RequestHandler type
@@ -12,9 +14,13 @@
  * - Used in conjunction with JWT authentication (jwtAuth) from auth-middleware.ts
  *   so that `req.user` is populated with the currently authenticated user data.
  * - The user model now has a M:N relationship with Role via UserRole. We flatten roles into user.roles.
+ * - Effective permissions are flattened into user.permissions by the passport strategies;
+ *   the admin role holds every permission (see config/permissions.ts).
+ * - requireAdmin stays in use for managing users, roles and permissions themselves.
  */
 
 import { RequestHandler } from 'express';
+import { PermissionName } from '../config/permissions';
 
 export const requireAdmin: RequestHandler = (req, res, next) => {
   const user = req.user as { roles?: string[] } | undefined;
@@ -29,3 +35,37 @@ export const requireAdmin: RequestHandler = (req, res, next) => {
   next();
 };
 
+export function hasPermission(
+  user: { permissions?: string[] } | undefined,
+  permission: PermissionName,
+): boolean {
+  return !!user && Array.isArray(user.permissions) && user.permissions.includes(permission);
+}
+
+/**
+ * @function requirePermission
+ * @description
+ * Builds a middleware that only lets the request through when the authenticated user
+ * holds all of the given permissions.
+ *
+ * @param {...PermissionName} permissions - Required permission names
+ * @returns {RequestHandler} Express middleware
+ *
+ * @example
+ * router.put('/:id', jwtAuth, requirePermission('activity:write'), updateActivity);
+ */
+export function requirePermission(...permissions: PermissionName[]): RequestHandler {
+  return (req, res, next) => {
+    const user = req.user as { permissions?: string[] } | undefined;
+    const missing = permissions.filter((p) => !hasPermission(user, p));
+
+    if (missing.length > 0) {
+      res.status(403).json({
+        error: `Forbidden. Missing permission: ${missing.join(', ')}`,
+      });
+      return;
+    }
+
+    next();
+  };
+}
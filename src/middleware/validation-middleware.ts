@@ -1,4 +1,5 @@
-import { Request, Response, NextFunction } from 'express';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { z } from 'zod';
 
 /**
  * Middleware to sanitize and validate input data
@@ -62,3 +63,112 @@ function sanitizeObject(obj: any): any {
   
   return obj;
 }
+
+type RequestPart = 'body' | 'params' | 'query';
+
+export interface RequestSchemas {
+  body?: z.ZodType;
+  params?: z.ZodType;
+  query?: z.ZodType;
+}
+
+const TYPE_MESSAGES: Record<string, string> = {
+  string: 'must be a string',
+  number: 'must be a number',
+  int: 'must be an integer',
+  boolean: 'must be true or false',
+  array: 'must be an array',
+  object: 'must be an object',
+};
+
+/**
+ * Error map for zod issues that have no message of their own in request-schemas.ts,
+ * so every response uses the same short phrases.
+ */
+const issueMessage: z.core.$ZodErrorMap = (issue) => {
+  switch (issue.code) {
+    case 'invalid_type':
+      return TYPE_MESSAGES[issue.expected];
+    case 'too_small':
+      if (issue.origin === 'string') {
+        return Number(issue.minimum) <= 1
+          ? 'must not be empty'
+          : `must be at least ${issue.minimum} characters`;
+      }
+      if (issue.origin === 'array') return `must contain at least ${issue.minimum} item(s)`;
+      return undefined;
+    case 'too_big':
+      return issue.origin === 'string' ? `must be at most ${issue.maximum} characters` : undefined;
+    case 'invalid_value':
+      return `must be one of ${issue.values.join(', ')}`;
+    default:
+      return undefined;
+  }
+};
+
+/** Formats an issue path the way clients address fields: slots[0].weekday */
+function fieldName(path: PropertyKey[]): string {
+  return path
+    .map((key, i) => (typeof key === 'number' ? `[${key}]` : `${i > 0 ? '.' : ''}${String(key)}`))
+    .join('');
+}
+
+function valueAt(input: unknown, path: PropertyKey[]): unknown {
+  return path.reduce<unknown>(
+    (value, key) =>
+      value && typeof value === 'object' ? (value as Record<PropertyKey, unknown>)[key] : undefined,
+    input,
+  );
+}
+
+/**
+ * Middleware factory that validates body, params and query against the given zod schemas.
+ *
+ * On failure it answers 400 with one entry per invalid field:
+ * { error: 'Validation failed', details: [{ field, in, message }] }
+ *
+ * On success req.body is replaced by the parsed value (unknown keys dropped, dates
+ * as Date objects). Params and query are only checked; numbers and booleans in them
+ * are accepted in their string form and left as strings for the controllers.
+ */
+export function validate(schemas: RequestSchemas): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const details: { field: string; in: RequestPart; message: string }[] = [];
+    let body: unknown;
+
+    for (const part of ['params', 'query', 'body'] as const) {
+      const schema = schemas[part];
+      if (!schema) continue;
+
+      const input = req[part] ?? {};
+      const result = schema.safeParse(input, { error: issueMessage });
+      if (!result.success) {
+        for (const issue of result.error.issues) {
+          const field = fieldName(issue.path);
+          // zod reports every failed check; clients get the first one per field
+          if (details.some((d) => d.in === part && d.field === field)) continue;
+          details.push({
+            field,
+            in: part,
+            // Checked against the raw input: query numbers are coerced before zod sees them
+            message:
+              issue.code === 'invalid_type' && valueAt(input, issue.path) === undefined
+                ? 'is required'
+                : issue.message,
+          });
+        }
+      } else if (part === 'body') {
+        body = result.data;
+      }
+    }
+
+    if (details.length > 0) {
+      res.status(400).json({ error: 'Validation failed', details });
+      return;
+    }
+    if (schemas.body) {
+      req.body = body;
+    }
+    next();
+  };
+}
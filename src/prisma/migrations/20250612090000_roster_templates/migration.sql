@@ -0,0 +1,35 @@
+-- The old Roster rows (integer id + shiftTypeId) cannot be mapped onto weekly
+-- template slots, so the table is recreated.
+
+-- DropTable
+PRAGMA foreign_keys=off;
+DROP TABLE "Roster";
+PRAGMA foreign_keys=on;
+
+-- CreateTable
+CREATE TABLE "Roster" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "description" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "RosterSlot" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "rosterId" TEXT NOT NULL,
+    "weekday" INTEGER NOT NULL,
+    "headcount" INTEGER NOT NULL DEFAULT 1,
+    "shiftTypeId" TEXT NOT NULL,
+    "defaultPersonId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "RosterSlot_rosterId_fkey" FOREIGN KEY ("rosterId") REFERENCES "Roster" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "RosterSlot_shiftTypeId_fkey" FOREIGN KEY ("shiftTypeId") REFERENCES "ShiftType" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "RosterSlot_defaultPersonId_fkey" FOREIGN KEY ("defaultPersonId") REFERENCES "Person" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Roster_name_version_key" ON "Roster"("name", "version");
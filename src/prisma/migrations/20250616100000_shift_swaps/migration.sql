@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "ShiftSwapRequest" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "type" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PROPOSED',
+    "requesterId" TEXT NOT NULL,
+    "counterpartId" TEXT NOT NULL,
+    "activityId" TEXT NOT NULL,
+    "counterActivityId" TEXT,
+    "message" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "ShiftSwapRequest_requesterId_fkey" FOREIGN KEY ("requesterId") REFERENCES "Person" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "ShiftSwapRequest_counterpartId_fkey" FOREIGN KEY ("counterpartId") REFERENCES "Person" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "ShiftSwapRequest_activityId_fkey" FOREIGN KEY ("activityId") REFERENCES "Activity" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "ShiftSwapRequest_counterActivityId_fkey" FOREIGN KEY ("counterActivityId") REFERENCES "Activity" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "ShiftSwapEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "swapRequestId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "actorId" TEXT,
+    "comment" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ShiftSwapEvent_swapRequestId_fkey" FOREIGN KEY ("swapRequestId") REFERENCES "ShiftSwapRequest" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
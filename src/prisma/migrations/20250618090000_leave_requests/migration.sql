@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "LeaveRequest" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "leaveType" TEXT NOT NULL DEFAULT 'LEAVE',
+    "start" DATETIME NOT NULL,
+    "end" DATETIME NOT NULL,
+    "reason" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'REQUESTED',
+    "personId" TEXT NOT NULL,
+    "approverId" TEXT,
+    "approverComment" TEXT,
+    "decidedAt" DATETIME,
+    "activityId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "LeaveRequest_personId_fkey" FOREIGN KEY ("personId") REFERENCES "Person" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "LeaveRequest_approverId_fkey" FOREIGN KEY ("approverId") REFERENCES "Person" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "LeaveRequest_activityId_fkey" FOREIGN KEY ("activityId") REFERENCES "Activity" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LeaveRequest_activityId_key" ON "LeaveRequest"("activityId");
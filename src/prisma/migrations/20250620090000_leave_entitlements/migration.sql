@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "LeaveEntitlement" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "personId" TEXT NOT NULL,
+    "year" INTEGER NOT NULL,
+    "leaveType" TEXT NOT NULL DEFAULT 'LEAVE',
+    "days" REAL NOT NULL,
+    "maxCarryOverDays" REAL NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "LeaveEntitlement_personId_fkey" FOREIGN KEY ("personId") REFERENCES "Person" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LeaveEntitlement_personId_year_leaveType_key" ON "LeaveEntitlement"("personId", "year", "leaveType");
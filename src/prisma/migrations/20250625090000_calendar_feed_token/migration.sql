@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "calendarFeedTokenCreatedAt" DATETIME;
+ALTER TABLE "User" ADD COLUMN "calendarFeedTokenHash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_calendarFeedTokenHash_key" ON "User"("calendarFeedTokenHash");
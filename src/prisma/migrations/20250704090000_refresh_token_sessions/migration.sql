@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "RefreshToken" ADD COLUMN "platform" TEXT NOT NULL DEFAULT 'web';
+ALTER TABLE "RefreshToken" ADD COLUMN "userAgent" TEXT;
+ALTER TABLE "RefreshToken" ADD COLUMN "ip" TEXT;
+ALTER TABLE "RefreshToken" ADD COLUMN "lastUsedAt" DATETIME;
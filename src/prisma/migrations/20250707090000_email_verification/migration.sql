@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "emailVerifiedAt" DATETIME;
+ALTER TABLE "User" ADD COLUMN "emailVerificationTokenHash" TEXT;
+ALTER TABLE "User" ADD COLUMN "emailVerificationExpire" DATETIME;
+ALTER TABLE "User" ADD COLUMN "emailVerificationSentAt" DATETIME;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_emailVerificationTokenHash_key" ON "User"("emailVerificationTokenHash");
+
+-- Accounts that exist today keep working without verification
+UPDATE "User" SET "emailVerifiedAt" = CURRENT_TIMESTAMP;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "Registration" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "personId" TEXT NOT NULL,
+    "requestedRole" TEXT,
+    "requestedIsEnabledInShifts" BOOLEAN NOT NULL DEFAULT true,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "reviewerId" TEXT,
+    "reason" TEXT,
+    "decidedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Registration_personId_fkey" FOREIGN KEY ("personId") REFERENCES "Person" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Registration_personId_key" ON "Registration"("personId");
+
+-- CreateIndex
+CREATE INDEX "Registration_status_idx" ON "Registration"("status");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Person" ADD COLUMN "employmentStart" DATETIME;
+ALTER TABLE "Person" ADD COLUMN "employmentEnd" DATETIME;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'ACTIVE';
+ALTER TABLE "User" ADD COLUMN "statusReason" TEXT;
+ALTER TABLE "User" ADD COLUMN "statusChangedAt" DATETIME;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "totpSecretCreatedAt" DATETIME;
+ALTER TABLE "User" ADD COLUMN "twoFactorEnrollCodeHash" TEXT;
+ALTER TABLE "User" ADD COLUMN "twoFactorEnrollCodeExpire" DATETIME;
@@ -4,6 +4,7 @@
 //   npx ts-node src/prisma/seed-sqlite.ts
 
 import { PrismaClient } from '@prisma/client'
+import { PERMISSIONS, PermissionName } from '../config/permissions'
 const prisma = new PrismaClient()
 
 // Helper function to add days to a date
@@ -78,6 +79,8 @@ async function main() {
     const roles = [
       { id: 'c4074275-394f-4e3c-b6cd-208742851a02', name: 'admin' },
       { id: 'ec8de067-2638-4449-ac78-61513b449c47', name: 'user' },
+      { id: '8f0c7d2e-5b1a-4c3e-9d6f-2a7b8c9d0e11', name: 'planner' },
+      { id: '3b9e4f6a-7c2d-4e8f-a1b5-6c7d8e9f0a22', name: 'secretariaat' },
     ]
 
     for (const r of roles) {
@@ -88,6 +91,39 @@ async function main() {
       })
     }
     
+    /* ------------------------------------------------------------------ *
+     * 2.1 Role permissions ('admin' implicitly holds all)                *
+     * ------------------------------------------------------------------ */
+    const rolePermissions: Record<string, PermissionName[]> = {
+      planner: [
+        'activity:read', 'activity:write', 'schedule:publish',
+        'roster:read', 'roster:write', 'shift-type:read',
+        'person:read', 'constraint:read', 'constraint:write',
+        'leave:approve', 'swap:approve', 'holiday:read',
+      ],
+      secretariaat: [
+        'activity:read', 'person:read', 'person:write',
+        'leave:approve', 'leave:manage', 'holiday:read', 'holiday:write',
+        'rates:read', 'compensation:read',
+      ],
+    }
+
+    for (const [roleName, names] of Object.entries(rolePermissions)) {
+      const role = await tx.role.findUniqueOrThrow({ where: { name: roleName } })
+      for (const name of names) {
+        const permission = await tx.permission.upsert({
+          where: { name },
+          update: {},
+          create: { name, description: PERMISSIONS[name] },
+        })
+        await tx.rolePermission.upsert({
+          where: { roleId_permissionId: { roleId: role.id, permissionId: permission.id } },
+          update: {},
+          create: { roleId: role.id, permissionId: permission.id },
+        })
+      }
+    }
+    
     /* ------------------------------------------------------------------ *
      * 3. Users                                                          *
      * ------------------------------------------------------------------ */    const users = [
@@ -118,7 +154,7 @@ async function main() {
       await tx.user.upsert({
         where: { personId: u.personId },
         update: {},
-        create: u,
+        create: { ...u, emailVerifiedAt: new Date() },
       })
     }
     
@@ -7,6 +7,7 @@
 //   npx prisma db seed
 
 import { PrismaClient } from '@prisma/client'
+import { PERMISSIONS, PermissionName } from '../config/permissions'
 const prisma = new PrismaClient()
 
 async function main() {
@@ -150,6 +151,8 @@ async function main() {
     const roles = [
       { name: 'ADMIN' },
       { name: 'USER' },
+      { name: 'PLANNER' },
+      { name: 'SECRETARIAAT' },
     ]
 
     for (const r of roles) {
@@ -195,7 +198,7 @@ async function main() {
           password: u.password,
           updatedAt: u.updatedAt
         },
-        create: u,
+        create: { ...u, emailVerifiedAt: new Date() },
       })
     }
 
@@ -230,6 +233,39 @@ async function main() {
       })
     }
 
+    /* ------------------------------------------------------------------ *
+     * 2.3 Role permissions ('admin' implicitly holds all)                *
+     * ------------------------------------------------------------------ */
+    const rolePermissions: Record<string, PermissionName[]> = {
+      PLANNER: [
+        'activity:read', 'activity:write', 'schedule:publish',
+        'roster:read', 'roster:write', 'shift-type:read',
+        'person:read', 'constraint:read', 'constraint:write',
+        'leave:approve', 'swap:approve', 'holiday:read',
+      ],
+      SECRETARIAAT: [
+        'activity:read', 'person:read', 'person:write',
+        'leave:approve', 'leave:manage', 'holiday:read', 'holiday:write',
+        'rates:read', 'compensation:read',
+      ],
+    }
+
+    for (const [roleName, names] of Object.entries(rolePermissions)) {
+      const role = await tx.role.findUniqueOrThrow({ where: { name: roleName } })
+      for (const name of names) {
+        const permission = await tx.permission.upsert({
+          where: { name },
+          update: {},
+          create: { name, description: PERMISSIONS[name] },
+        })
+        await tx.rolePermission.upsert({
+          where: { roleId_permissionId: { roleId: role.id, permissionId: permission.id } },
+          update: {},
+          create: { roleId: role.id, permissionId: permission.id },
+        })
+      }
+    }
+
     /* ------------------------------------------------------------------ *
      * 3. ShiftTypes                                                      *
      * ------------------------------------------------------------------ */
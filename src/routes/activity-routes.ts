@@ -8,10 +8,13 @@ import {
   updateActivity,
   activitiesPeriodFilter,
   listShiftsByPeriod,
-  listVerlofByPeriod
+  listVerlofByPeriod,
+  listConstraintViolations,
 } from '../controllers/activity-controller';
 import { jwtAuth } from '../middleware/auth-middleware';
-import { requireAdmin } from '../middleware/role-middleware';
+import { requirePermission } from '../middleware/role-middleware';
+import { validate } from '../middleware/validation-middleware';
+import { activityBody, activityUpdateBody, periodQuery, yearMonthQuery } from '../validation/request-schemas';
 
 const router = Router();
 
@@ -23,7 +26,7 @@ const router = Router();
  *
  * /admin/activities:
  *   get:
- *     summary: List all activities (authenticated users)
+ *     summary: List all activities (requires activity:read; use /me/activities for your own)
  *     tags: [Activity]
  *     security:
  *       - CookieAuth: []
@@ -37,7 +40,7 @@ const router = Router();
  *               items:
  *                 $ref: '#/components/schemas/Activity'
  *   post:
- *     summary: Create a new activity (authenticated users)
+ *     summary: Create a new activity (activity:write)
  *     tags: [Activity]
  *     security:
  *       - CookieAuth: []
@@ -54,6 +57,14 @@ const router = Router();
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Activity'
+ *       403:
+ *         description: Missing permission activity:write
+ *       409:
+ *         description: The activity overlaps with other activities of the same person
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ActivityConflict'
  *
  * /admin/activities/{id}:
  *   get:
@@ -98,7 +109,7 @@ const router = Router();
  *       content:
  *         application/json:
  *           schema:
- *             $ref: '#/components/schemas/ActivityRequestBody'
+ *             $ref: '#/components/schemas/ActivityUpdateRequestBody'
  *     responses:
  *       200:
  *         description: The updated activity
@@ -108,6 +119,12 @@ const router = Router();
  *               $ref: '#/components/schemas/Activity'
  *       404:
  *         description: Activity not found
+ *       409:
+ *         description: The activity overlaps with other activities of the same person
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ActivityConflict'
  *   delete:
  *     summary: Delete an activity
  *     tags: [Activity]
@@ -287,16 +304,60 @@ const router = Router();
  *               properties:
  *                 error:
  *                   type: string
+ *
+ * /admin/activities/violations:
+ *   get:
+ *     summary: Report UserConstraint violations of planned shifts, per person
+ *     description: >
+ *       Checks the non-cancelled SHIFT activities against each person's constraints:
+ *       night shifts per ISO week, consecutive night shifts and minimum rest between
+ *       shifts (overlapping shifts are reported as OVERLAP). Only violations involving
+ *       a shift that starts in the period are returned.
+ *     tags: [Activity]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: startDate
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: endDate
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Persons with at least one violation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/PersonViolations'
+ *       400:
+ *         description: Missing or invalid query parameters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 error:
+ *                   type: string
  */
-router.get('/filter', jwtAuth, requireAdmin, filterActivities);
-router.get('/period', jwtAuth, requireAdmin, activitiesPeriodFilter);
-router.get('/period/verlof', jwtAuth, requireAdmin, listVerlofByPeriod);
-router.get('/period/shifts', jwtAuth, requireAdmin, listShiftsByPeriod);
+router.get('/filter', jwtAuth, requirePermission('activity:read'), validate({ query: yearMonthQuery }), filterActivities);
+router.get('/period', jwtAuth, requirePermission('activity:read'), validate({ query: periodQuery }), activitiesPeriodFilter);
+router.get('/period/verlof', jwtAuth, requirePermission('activity:read'), validate({ query: periodQuery }), listVerlofByPeriod);
+router.get('/period/shifts', jwtAuth, requirePermission('activity:read'), validate({ query: periodQuery }), listShiftsByPeriod);
+router.get('/violations', jwtAuth, requirePermission('activity:read'), validate({ query: periodQuery }), listConstraintViolations);
 
-router.get('/', jwtAuth, listActivities);
-router.post('/', jwtAuth, createActivity);
-router.get('/:id', jwtAuth, requireAdmin, getActivityById);
-router.put('/:id', jwtAuth, requireAdmin, updateActivity);
-router.delete('/:id', jwtAuth, requireAdmin, deleteActivity);
+router.get('/', jwtAuth, requirePermission('activity:read'), listActivities);
+router.post('/', jwtAuth, requirePermission('activity:write'), validate({ body: activityBody }), createActivity);
+router.get('/:id', jwtAuth, requirePermission('activity:read'), getActivityById);
+router.put('/:id', jwtAuth, requirePermission('activity:write'), validate({ body: activityUpdateBody }), updateActivity);
+router.delete('/:id', jwtAuth, requirePermission('activity:write'), deleteActivity);
 
 export default router;
@@ -4,10 +4,20 @@ import {
   deleteExistingUser,
   getUserById,
   listUsers,
+  unlockExistingUser,
   updateExistingUser,
+  updateUserStatus,
 } from '../controllers/admin-controller';
+import {
+  listUserSessions,
+  revokeAllUserSessions,
+  revokeUserSession,
+} from '../controllers/session-controller';
+import { resetUserTwoFactor } from '../controllers/two-factor-controller';
 import { jwtAuth } from '../middleware/auth-middleware';
 import { requireAdmin } from '../middleware/role-middleware';
+import { validate } from '../middleware/validation-middleware';
+import { adminUserBody, adminUserUpdateBody, userStatusBody } from '../validation/request-schemas';
 
 const router = Router();
 
@@ -66,18 +76,7 @@ const router = Router();
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - email
- *               - password
- *             properties:
- *               email:
- *                 type: string
- *               password:
- *                 type: string
- *               role:
- *                 type: string
- *                 description: Optional user role, e.g., ADMIN or USER
+ *             $ref: '#/components/schemas/AdminUserRequestBody'
  *     responses:
  *       201:
  *         description: The newly created user
@@ -115,8 +114,8 @@ const router = Router();
  *                 error:
  *                   type: string
  *   put:
- *     summary: Update an existing user (authenticated users)
- *     description: Does not require admin privileges, only authentication
+ *     summary: Update an existing user
+ *     description: Changes e-mail, password or role, so it is admin-only like the other user routes
  *     tags: [Admin]
  *     security:
  *       - CookieAuth: []
@@ -130,7 +129,7 @@ const router = Router();
  *       content:
  *         application/json:
  *           schema:
- *             $ref: '#/components/schemas/AdminUserRequestBody'
+ *             $ref: '#/components/schemas/AdminUserUpdateRequestBody'
  *     responses:
  *       200:
  *         description: The updated user
@@ -163,11 +162,173 @@ const router = Router();
  *                   type: string
  *       404:
  *         description: User not found
+ *
+ * /admin/users/{id}/status:
+ *   put:
+ *     summary: Suspend, deactivate or reactivate a user
+ *     description: >
+ *       Use this instead of deleting a user, so activities and rates keep their history.
+ *       SUSPENDED and DEACTIVATED users cannot log in and all their sessions end; their
+ *       access tokens stop working immediately. DEACTIVATED users are also no longer planned.
+ *     tags: [Admin]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UserStatusRequestBody'
+ *     responses:
+ *       200:
+ *         description: The updated user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AdminUserResponse'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *
+ * /admin/users/{id}/unlock:
+ *   post:
+ *     summary: Unlock a user after repeated failed logins
+ *     description: >
+ *       After 5 consecutive failed logins (wrong password or 2FA code) an account is locked
+ *       for 15 minutes, doubling with every further failure up to a day. This lifts the lock
+ *       and resets the counter.
+ *     tags: [Admin]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The unlocked user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AdminUserResponse'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *
+ * /admin/users/{id}/sessions:
+ *   get:
+ *     summary: Active sessions of a user
+ *     tags: [Admin]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The user's sessions, most recently used first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Session'
+ *       404:
+ *         description: User not found
+ *
+ * /admin/users/{id}/sessions/{sessionId}:
+ *   delete:
+ *     summary: Force-logout one session of a user
+ *     tags: [Admin]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       404:
+ *         description: Session not found
+ *
+ * /admin/users/{id}/sessions/revoke-all:
+ *   post:
+ *     summary: Force-logout every session of a user
+ *     description: >
+ *       The user can no longer refresh tokens on any device. Access tokens already handed
+ *       out stay valid until they expire.
+ *     tags: [Admin]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Sessions revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message: { type: string }
+ *                 revoked: { type: integer, description: Number of sessions ended }
+ *       404:
+ *         description: User not found
+ *
+ * /admin/users/{id}/2fa:
+ *   delete:
+ *     summary: Reset two-factor authentication of a user (lost device)
+ *     description: >
+ *       Removes the secret and recovery codes. If a role of the user requires 2FA, the user
+ *       enrolls again at the next login.
+ *     tags: [Admin]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication reset
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
  */
 router.get('/users', jwtAuth, requireAdmin, listUsers);
 router.get('/users/:id', jwtAuth, requireAdmin, getUserById);
-router.post('/users', jwtAuth, requireAdmin, createNewUser);
-router.put('/users/:id', jwtAuth, updateExistingUser);
+router.post('/users', jwtAuth, requireAdmin, validate({ body: adminUserBody }), createNewUser);
+router.put('/users/:id', jwtAuth, requireAdmin, validate({ body: adminUserUpdateBody }), updateExistingUser);
 router.delete('/users/:id', jwtAuth, requireAdmin, deleteExistingUser);
+router.put('/users/:id/status', jwtAuth, requireAdmin, validate({ body: userStatusBody }), updateUserStatus);
+router.post('/users/:id/unlock', jwtAuth, requireAdmin, unlockExistingUser);
+router.get('/users/:id/sessions', jwtAuth, requireAdmin, listUserSessions);
+router.post('/users/:id/sessions/revoke-all', jwtAuth, requireAdmin, revokeAllUserSessions);
+router.delete('/users/:id/sessions/:sessionId', jwtAuth, requireAdmin, revokeUserSession);
+router.delete('/users/:id/2fa', jwtAuth, requireAdmin, resetUserTwoFactor);
 
 export default router;
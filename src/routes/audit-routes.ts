@@ -0,0 +1,73 @@
+import { Router } from 'express';
+import { listAuditEntries } from '../controllers/audit-controller';
+import { jwtAuth } from '../middleware/auth-middleware';
+import { requirePermission } from '../middleware/role-middleware';
+import { validate } from '../middleware/validation-middleware';
+import { auditQuery } from '../validation/request-schemas';
+
+const router = Router();
+
+/**
+ * @openapi
+ * tags:
+ *   - name: Audit
+ *     description: Audit trail of data changes
+ *
+ * /admin/audit:
+ *   get:
+ *     summary: List audit entries, newest first
+ *     description: >
+ *       Every create, update and delete of activities, rosters, shift types, rates,
+ *       user constraints, users, roles, persons, doctors, leave entitlements and closing
+ *       days is recorded with the acting user and the state of the record before and
+ *       after the change.
+ *     tags: [Audit]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: entity
+ *         schema:
+ *           type: string
+ *         description: Entity type, e.g. Activity or ShiftTypeRate
+ *       - in: query
+ *         name: entityId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: actor
+ *         schema:
+ *           type: string
+ *         description: personId of the user who made the change
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 500
+ *           default: 100
+ *     responses:
+ *       200:
+ *         description: Matching audit entries
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/AuditLog'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+router.get('/', jwtAuth, requirePermission('audit:read'), validate({ query: auditQuery }), listAuditEntries);
+
+export default router;
@@ -7,10 +7,36 @@ import {
   resetPassword,
   changePassword,
   logout,
+  loginSecondFactor,
+  loginTwoFactorSetup,
+  acceptInvite,
+  verifyEmail,
+  resendVerification,
 } from '../controllers/auth-controller';
+import {
+  disableMyTwoFactor,
+  enableMyTwoFactor,
+  getMyTwoFactor,
+  regenerateMyRecoveryCodes,
+  setupMyTwoFactor,
+} from '../controllers/two-factor-controller';
 import { jwtAuth } from '../middleware/auth-middleware';
-import { loginRateLimiter } from '../config/rate-limit';
-import { sanitizeInput } from '../middleware/validation-middleware';
+import { loginRateLimiter, verificationEmailRateLimiter } from '../config/rate-limit';
+import { sanitizeInput, validate } from '../middleware/validation-middleware';
+import {
+  acceptInviteBody,
+  changePasswordBody,
+  forgotPasswordBody,
+  loginBody,
+  loginSecondFactorBody,
+  registerBody,
+  resendVerificationBody,
+  resetPasswordBody,
+  secondFactorBody,
+  twoFactorChallengeBody,
+  twoFactorCodeBody,
+  verifyEmailBody,
+} from '../validation/request-schemas';
 
 const router = Router();
 
@@ -29,35 +55,20 @@ const router = Router();
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - email
- *               - password
- *               - firstName
- *               - lastName
- *               - dateOfBirth
- *             properties:
- *               email:
- *                 type: string
- *               password:
- *                 type: string
- *               role:
- *                 type: string
- *                 description: Optional, e.g. "ADMIN" or "USER"
- *               firstName:
- *                 type: string
- *               lastName:
- *                 type: string
- *               dateOfBirth:
- *                 type: string
- *                 format: date
+ *             $ref: '#/components/schemas/RegisterRequestBody'
  *     responses:
  *       201:
- *         description: The newly registered user
+ *         description: >
+ *           The newly registered user. A verification link is e-mailed; the user can only
+ *           log in after confirming the address at /auth/verify-email.
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/AuthUserResponse'
+ *       409:
+ *         description: >
+ *           `code` EMAIL_TAKEN, PERSON_HAS_ACCOUNT, PERSON_IS_DOCTOR (ask for an invitation)
+ *           or INVITATION_PENDING (use the invitation link)
  *
  * /auth/login:
  *   post:
@@ -68,19 +79,78 @@ const router = Router();
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - email
- *               - password
- *               - platform
- *             properties:
- *               email:
- *                 type: string
- *               password:
- *                 type: string
- *               platform:
- *                 type: string
- *                 description: Platform from which the user logs in (e.g. "web", "mobile")
+ *             $ref: '#/components/schemas/LoginRequestBody'
+ *     responses:
+ *       200:
+ *         description: >
+ *           The logged in user with tokens. When two-factor authentication is enabled, or
+ *           required by one of the user's roles, no tokens are issued yet: the body is
+ *           `{ twoFactorRequired: true, enrollmentRequired, challengeToken }` and the login
+ *           continues at /auth/login/2fa.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthUserResponse'
+ *       401:
+ *         description: >
+ *           Invalid credentials. Failed attempts are counted per account: after 5 in a row
+ *           the account is locked for 15 minutes, doubling with every further failure.
+ *           While locked, a wrong password still gets this answer.
+ *       403:
+ *         description: >
+ *           The account may not log in; `code` says why: ACCOUNT_LOCKED (with `lockedUntil`),
+ *           ACCOUNT_SUSPENDED, ACCOUNT_DEACTIVATED, EMPLOYMENT_ENDED, EMAIL_NOT_VERIFIED,
+ *           REGISTRATION_PENDING or REGISTRATION_REJECTED
+ *
+ * /auth/verify-email:
+ *   post:
+ *     summary: Confirm the e-mail address of a new account
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/VerifyEmailRequestBody'
+ *     responses:
+ *       200:
+ *         description: Verified (or already verified); the user can log in
+ *       400:
+ *         description: The token is invalid or expired
+ *
+ * /auth/resend-verification:
+ *   post:
+ *     summary: Send a new verification link
+ *     description: >
+ *       Answers the same whether or not the address belongs to an unverified account. At most
+ *       one e-mail per minute is sent per account, and requests are rate-limited per IP.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ResendVerificationRequestBody'
+ *     responses:
+ *       200:
+ *         description: Generic confirmation
+ *       429:
+ *         description: Too many requests
+ *
+ * /auth/login/2fa:
+ *   post:
+ *     summary: Second login step - submit a TOTP or recovery code
+ *     description: >
+ *       Issues the tokens, exactly like /auth/login does without 2FA. When the user still had
+ *       to enroll (enrollmentRequired), the code confirms the enrollment and the response also
+ *       contains the recovery codes.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/LoginSecondFactorRequestBody'
  *     responses:
  *       200:
  *         description: The logged in user with tokens
@@ -88,6 +158,164 @@ const router = Router();
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/AuthUserResponse'
+ *       401:
+ *         description: >
+ *           Invalid code (counts towards the account lockout), or the challenge token
+ *           expired (log in again)
+ *       403:
+ *         description: >
+ *           The account may not log in (anymore); `code` says why, as for /auth/login:
+ *           ACCOUNT_LOCKED (with `lockedUntil`), ACCOUNT_SUSPENDED, ACCOUNT_DEACTIVATED,
+ *           EMPLOYMENT_ENDED, EMAIL_NOT_VERIFIED, REGISTRATION_PENDING or REGISTRATION_REJECTED
+ *
+ * /auth/login/2fa/setup:
+ *   post:
+ *     summary: Enroll in two-factor authentication during login
+ *     description: >
+ *       For users whose role requires 2FA but who have not enrolled yet. The challenge token
+ *       only proves the password, so the first call (without emailCode) e-mails a one-time
+ *       code; the call with that code returns the new secret. A pending secret that is less
+ *       than 15 minutes old is not replaced here (409 TWO_FACTOR_ENROLLMENT_PENDING).
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TwoFactorChallengeRequestBody'
+ *     responses:
+ *       200:
+ *         description: The new secret; confirm it with a code at /auth/login/2fa
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TwoFactorEnrollment'
+ *       202:
+ *         description: The e-mail code was sent; call again with emailCode
+ *       401:
+ *         description: >
+ *           Wrong or expired e-mail code (counts towards the account lockout), or the
+ *           challenge token expired (log in again)
+ *       403:
+ *         description: The account is locked (ACCOUNT_LOCKED, with `lockedUntil`)
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
+ *
+ * /auth/2fa:
+ *   get:
+ *     summary: Your two-factor authentication status
+ *     tags: [Auth]
+ *     security:
+ *       - CookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TwoFactorStatus'
+ *
+ * /auth/2fa/setup:
+ *   post:
+ *     summary: Start enrolling in two-factor authentication
+ *     description: Generates a new secret. It is only used after /auth/2fa/enable accepts a code.
+ *     tags: [Auth]
+ *     security:
+ *       - CookieAuth: []
+ *     responses:
+ *       200:
+ *         description: The secret and the URI to show as QR code
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TwoFactorEnrollment'
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
+ *
+ * /auth/2fa/enable:
+ *   post:
+ *     summary: Enable two-factor authentication with a code from the app
+ *     tags: [Auth]
+ *     security:
+ *       - CookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TwoFactorCodeRequestBody'
+ *     responses:
+ *       200:
+ *         description: Enabled; the recovery codes are shown only this once
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RecoveryCodes'
+ *       400:
+ *         description: Invalid code
+ *       422:
+ *         $ref: '#/components/responses/UnprocessableEntity'
+ *
+ * /auth/2fa/disable:
+ *   post:
+ *     summary: Disable two-factor authentication
+ *     tags: [Auth]
+ *     security:
+ *       - CookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SecondFactorRequestBody'
+ *     responses:
+ *       200:
+ *         description: Disabled
+ *       400:
+ *         description: Invalid code, or 2FA is not enabled
+ *       403:
+ *         description: One of your roles requires two-factor authentication
+ *
+ * /auth/2fa/recovery-codes:
+ *   post:
+ *     summary: Replace your recovery codes
+ *     tags: [Auth]
+ *     security:
+ *       - CookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TwoFactorCodeRequestBody'
+ *     responses:
+ *       200:
+ *         description: The new recovery codes; the old ones no longer work
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RecoveryCodes'
+ *       400:
+ *         description: Invalid code
+ *
+ * /auth/accept-invite:
+ *   post:
+ *     summary: Accept an invitation and choose a password
+ *     description: Creates the account of the invited person with the invited role.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/AcceptInviteRequestBody'
+ *     responses:
+ *       201:
+ *         description: Account created; the user can log in
+ *       400:
+ *         description: Weak password, or the invitation is invalid, used, revoked or expired
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
  *
  * /auth/logout:
  *   post:
@@ -115,13 +343,34 @@ const router = Router();
  *               properties:
  *                 token:
  *                   type: string
+ *       401:
+ *         description: >
+ *           Refresh token is invalid, expired or revoked. Presenting a token that was
+ *           already exchanged revokes every token issued since that login.
+ *       404:
+ *         description: Refresh token not found
  */
-router.post('/register', sanitizeInput, register);
-router.post('/login', sanitizeInput, loginRateLimiter, login);
+router.post('/register', sanitizeInput, validate({ body: registerBody }), register);
+router.post('/login', sanitizeInput, loginRateLimiter, validate({ body: loginBody }), login);
 router.post('/refresh', refreshToken);
-router.post('/forgot-password', forgotPassword);
-router.post('/reset-password', resetPassword);
-router.post('/change-password', jwtAuth, changePassword);
+router.post('/forgot-password', validate({ body: forgotPasswordBody }), forgotPassword);
+router.post('/reset-password', validate({ body: resetPasswordBody }), resetPassword);
+router.post('/change-password', jwtAuth, validate({ body: changePasswordBody }), changePassword);
 router.post('/logout', logout);
+router.post('/accept-invite', validate({ body: acceptInviteBody }), acceptInvite);
+router.post('/verify-email', validate({ body: verifyEmailBody }), verifyEmail);
+router.post(
+  '/resend-verification',
+  verificationEmailRateLimiter,
+  validate({ body: resendVerificationBody }),
+  resendVerification,
+);
+router.post('/login/2fa', loginRateLimiter, validate({ body: loginSecondFactorBody }), loginSecondFactor);
+router.post('/login/2fa/setup', loginRateLimiter, validate({ body: twoFactorChallengeBody }), loginTwoFactorSetup);
+router.get('/2fa', jwtAuth, getMyTwoFactor);
+router.post('/2fa/setup', jwtAuth, setupMyTwoFactor);
+router.post('/2fa/enable', jwtAuth, validate({ body: twoFactorCodeBody }), enableMyTwoFactor);
+router.post('/2fa/disable', jwtAuth, validate({ body: secondFactorBody }), disableMyTwoFactor);
+router.post('/2fa/recovery-codes', jwtAuth, validate({ body: twoFactorCodeBody }), regenerateMyRecoveryCodes);
 
 export default router;
@@ -0,0 +1,102 @@
+import { Router } from 'express';
+import {
+  createCalendarFeedToken,
+  getCalendarFeed,
+  getCalendarFeedStatus,
+  revokeCalendarFeedToken,
+} from '../controllers/calendar-controller';
+import { jwtAuth } from '../middleware/auth-middleware';
+
+const router = Router();
+
+/**
+ * @openapi
+ * tags:
+ *   - name: Calendar
+ *     description: Personal iCalendar (ICS) subscription feed
+ *
+ * /calendar/feed-token:
+ *   get:
+ *     summary: Status of your calendar feed
+ *     tags: [Calendar]
+ *     security:
+ *       - CookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Whether a feed is active and since when
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 active:    { type: boolean }
+ *                 createdAt: { type: string, format: date-time, nullable: true }
+ *   post:
+ *     summary: Create a calendar feed URL
+ *     description: >
+ *       Generates a new secret feed URL to subscribe to in a calendar app. The URL is
+ *       only shown once; calling this again replaces it and the old URL stops working.
+ *     tags: [Calendar]
+ *     security:
+ *       - CookieAuth: []
+ *     responses:
+ *       201:
+ *         description: The new feed URL
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message: { type: string }
+ *                 url:     { type: string }
+ *   delete:
+ *     summary: Revoke your calendar feed
+ *     description: The feed URL stops working. Your login sessions are not affected.
+ *     tags: [Calendar]
+ *     security:
+ *       - CookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Success message
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message: { type: string }
+ *
+ * /calendar/{personId}/{feedToken}.ics:
+ *   get:
+ *     summary: ICS feed of a person's activities
+ *     description: >
+ *       Protected by the feed token in the URL instead of a login. Each event shows the
+ *       shift type (or activity type) and status; cancelled activities are published
+ *       as cancelled events.
+ *     tags: [Calendar]
+ *     parameters:
+ *       - in: path
+ *         name: personId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: feedToken
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The calendar
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Unknown person, invalid feed token, or an account that may not log in
+ */
+router.get('/feed-token', jwtAuth, getCalendarFeedStatus);
+router.post('/feed-token', jwtAuth, createCalendarFeedToken);
+router.delete('/feed-token', jwtAuth, revokeCalendarFeedToken);
+router.get('/:personId/:feedToken.ics', getCalendarFeed);
+
+export default router;
@@ -0,0 +1,52 @@
+import { Router } from 'express';
+import { getMonthlyCompensation } from '../controllers/compensation-controller';
+import { jwtAuth } from '../middleware/auth-middleware';
+import { requirePermission } from '../middleware/role-middleware';
+import { validate } from '../middleware/validation-middleware';
+import { yearMonthQuery } from '../validation/request-schemas';
+
+const router = Router();
+
+/**
+ * @openapi
+ * tags:
+ *   - name: Compensation
+ *     description: Endpoints for shift compensation (payroll)
+ *
+ * /admin/compensation:
+ *   get:
+ *     summary: Monthly shift compensation per person
+ *     description: >
+ *       Pays every non-cancelled SHIFT activity starting in the month at the hourly
+ *       ShiftTypeRate of its shift type. A shift crossing a rate boundary is split,
+ *       each part paid at its own rate. Parts without a valid rate are listed with
+ *       rate null and amount 0.
+ *     tags: [Compensation]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: year
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: month
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 12
+ *     responses:
+ *       200:
+ *         description: Totals per person with the line items per activity
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MonthlyCompensation'
+ *       400:
+ *         description: Missing or invalid year or month
+ */
+router.get('/', jwtAuth, requirePermission('compensation:read'), validate({ query: yearMonthQuery }), getMonthlyCompensation);
+
+export default router;
@@ -8,7 +8,9 @@ import {
   listEnabledDoctors,
 } from '../controllers/doctor-controller';
 import { jwtAuth } from '../middleware/auth-middleware';
-import { requireAdmin } from '../middleware/role-middleware';
+import { requirePermission } from '../middleware/role-middleware';
+import { validate } from '../middleware/validation-middleware';
+import { doctorBody, doctorUpdateBody } from '../validation/request-schemas';
 
 const router = Router();
 
@@ -60,6 +62,8 @@ const router = Router();
  *               properties:
  *                 error:
  *                   type: string
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
  *
  * /admin/doctors/enabled:
  *   get:
@@ -122,14 +126,7 @@ const router = Router();
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             properties:
- *               rizivNumber:
- *                 type: string
- *                 description: Belgian RIZIV number (11 characters)
- *               isEnabledInShifts:
- *                 type: boolean
- *                 description: Whether the doctor is enabled for shift planning
+ *             $ref: '#/components/schemas/DoctorUpdateRequestBody'
  *     responses:
  *       200:
  *         description: The updated doctor
@@ -165,11 +162,11 @@ const router = Router();
  *         description: Doctor not found
  */
 
-router.get('/', jwtAuth, requireAdmin, listDoctors);
-router.get('/enabled', jwtAuth, requireAdmin, listEnabledDoctors);
-router.get('/:id', jwtAuth, requireAdmin, getDoctorById);
-router.post('/', jwtAuth, requireAdmin, createDoctor);
-router.put('/:id', jwtAuth, requireAdmin, updateDoctor);
-router.delete('/:id', jwtAuth, requireAdmin, deleteDoctor);
+router.get('/', jwtAuth, requirePermission('person:read'), listDoctors);
+router.get('/enabled', jwtAuth, requirePermission('person:read'), listEnabledDoctors);
+router.get('/:id', jwtAuth, requirePermission('person:read'), getDoctorById);
+router.post('/', jwtAuth, requirePermission('person:write'), validate({ body: doctorBody }), createDoctor);
+router.put('/:id', jwtAuth, requirePermission('person:write'), validate({ body: doctorUpdateBody }), updateDoctor);
+router.delete('/:id', jwtAuth, requirePermission('person:write'), deleteDoctor);
 
 export default router;
@@ -0,0 +1,151 @@
+import { Router } from 'express';
+import {
+  createClosingDay,
+  deleteClosingDay,
+  listClosingDays,
+  listHolidays,
+  updateClosingDay,
+} from '../controllers/holiday-controller';
+import { jwtAuth } from '../middleware/auth-middleware';
+import { requirePermission } from '../middleware/role-middleware';
+import { validate } from '../middleware/validation-middleware';
+import { closingDayBody, closingDayUpdateBody, yearQuery } from '../validation/request-schemas';
+
+const router = Router();
+
+/**
+ * @openapi
+ * tags:
+ *   - name: Holiday
+ *     description: Endpoints for the holiday calendar and hospital closing days
+ *
+ * /admin/holidays:
+ *   get:
+ *     summary: List the holidays of a year
+ *     description: >
+ *       The Belgian national holidays (including the Easter-based ones) together with
+ *       the hospital's own closing days. This is the calendar used for leave counting.
+ *     tags: [Holiday]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: year
+ *         required: false
+ *         schema:
+ *           type: integer
+ *         description: Defaults to the current year
+ *     responses:
+ *       200:
+ *         description: Holidays sorted by date
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Holiday'
+ *       400:
+ *         description: Invalid year
+ *
+ * /admin/holidays/closing-days:
+ *   get:
+ *     summary: List hospital closing days
+ *     tags: [Holiday]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: year
+ *         required: false
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Closing days sorted by date
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ClosingDay'
+ *   post:
+ *     summary: Create a closing day
+ *     tags: [Holiday]
+ *     security:
+ *       - CookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ClosingDayRequestBody'
+ *     responses:
+ *       201:
+ *         description: The newly created closing day
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ClosingDay'
+ *       400:
+ *         description: Missing or invalid fields
+ *       409:
+ *         description: A closing day already exists on this date
+ *
+ * /admin/holidays/closing-days/{id}:
+ *   put:
+ *     summary: Update a closing day
+ *     tags: [Holiday]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ClosingDayUpdateRequestBody'
+ *     responses:
+ *       200:
+ *         description: The updated closing day
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ClosingDay'
+ *       400:
+ *         description: Invalid date
+ *       409:
+ *         description: A closing day already exists on this date
+ *   delete:
+ *     summary: Delete a closing day
+ *     tags: [Holiday]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Success message
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ */
+router.get('/', jwtAuth, requirePermission('holiday:read'), validate({ query: yearQuery }), listHolidays);
+router.get('/closing-days', jwtAuth, requirePermission('holiday:read'), validate({ query: yearQuery }), listClosingDays);
+router.post('/closing-days', jwtAuth, requirePermission('holiday:write'), validate({ body: closingDayBody }), createClosingDay);
+router.put('/closing-days/:id', jwtAuth, requirePermission('holiday:write'), validate({ body: closingDayUpdateBody }), updateClosingDay);
+router.delete('/closing-days/:id', jwtAuth, requirePermission('holiday:write'), deleteClosingDay);
+
+export default router;
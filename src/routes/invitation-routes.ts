@@ -0,0 +1,132 @@
+import { Router } from 'express';
+import {
+  createNewInvitation,
+  listAllInvitations,
+  resendExistingInvitation,
+  revokeExistingInvitation,
+} from '../controllers/invitation-controller';
+import { jwtAuth } from '../middleware/auth-middleware';
+import { requireAdmin } from '../middleware/role-middleware';
+import { validate } from '../middleware/validation-middleware';
+import { invitationBody, invitationQuery } from '../validation/request-schemas';
+
+const router = Router();
+
+/**
+ * @openapi
+ * tags:
+ *   - name: Invitations
+ *     description: Invite people to create their own account
+ *
+ * /admin/invitations:
+ *   get:
+ *     summary: List invitations, newest first
+ *     tags: [Invitations]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, ACCEPTED, REVOKED, EXPIRED]
+ *     responses:
+ *       200:
+ *         description: The invitations
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Invitation'
+ *   post:
+ *     summary: Invite a person by e-mail
+ *     description: >
+ *       Give either the personId of an existing person (or doctor), or the details of a new
+ *       person, optionally with doctor details. The invitee receives a single-use link,
+ *       valid for 7 days, to choose a password at /auth/accept-invite.
+ *     tags: [Invitations]
+ *     security:
+ *       - CookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/InvitationRequestBody'
+ *     responses:
+ *       201:
+ *         description: The invitation (the e-mail has been sent)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Invitation'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: E-mail already in use, person already has an account, or an invitation is pending
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       422:
+ *         $ref: '#/components/responses/UnprocessableEntity'
+ *
+ * /admin/invitations/{id}/resend:
+ *   post:
+ *     summary: Send a new link for a pending or expired invitation
+ *     description: The previous link stops working and the 7 days start again.
+ *     tags: [Invitations]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The updated invitation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Invitation'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
+ *
+ * /admin/invitations/{id}:
+ *   delete:
+ *     summary: Revoke an invitation
+ *     tags: [Invitations]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The revoked invitation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Invitation'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
+ */
+router.get('/', jwtAuth, requireAdmin, validate({ query: invitationQuery }), listAllInvitations);
+router.post('/', jwtAuth, requireAdmin, validate({ body: invitationBody }), createNewInvitation);
+router.post('/:id/resend', jwtAuth, requireAdmin, resendExistingInvitation);
+router.delete('/:id', jwtAuth, requireAdmin, revokeExistingInvitation);
+
+export default router;
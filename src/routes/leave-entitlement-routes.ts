@@ -0,0 +1,148 @@
+import { Router } from 'express';
+import {
+  createLeaveEntitlement,
+  deleteLeaveEntitlement,
+  getLeaveEntitlementById,
+  listLeaveEntitlements,
+  updateLeaveEntitlement,
+} from '../controllers/leave-entitlement-controller';
+import { jwtAuth } from '../middleware/auth-middleware';
+import { requirePermission } from '../middleware/role-middleware';
+import { validate } from '../middleware/validation-middleware';
+import { leaveEntitlementBody, leaveEntitlementQuery, leaveEntitlementUpdateBody } from '../validation/request-schemas';
+
+const router = Router();
+
+/**
+ * @openapi
+ * tags:
+ *   - name: LeaveEntitlement
+ *     description: Endpoints for managing leave entitlements per person and year
+ *
+ * /admin/leave-entitlements:
+ *   get:
+ *     summary: List leave entitlements
+ *     tags: [LeaveEntitlement]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: personId
+ *         required: false
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: year
+ *         required: false
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: List of leave entitlements
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/LeaveEntitlement'
+ *   post:
+ *     summary: Create a leave entitlement
+ *     tags: [LeaveEntitlement]
+ *     security:
+ *       - CookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/LeaveEntitlementRequestBody'
+ *     responses:
+ *       201:
+ *         description: The newly created entitlement
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LeaveEntitlement'
+ *       400:
+ *         description: Missing or invalid fields
+ *       409:
+ *         description: An entitlement for this person, year and leave type already exists
+ *
+ * /admin/leave-entitlements/{id}:
+ *   get:
+ *     summary: Retrieve a leave entitlement by ID
+ *     tags: [LeaveEntitlement]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The requested entitlement
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LeaveEntitlement'
+ *       404:
+ *         description: LeaveEntitlement not found
+ *   put:
+ *     summary: Update a leave entitlement
+ *     tags: [LeaveEntitlement]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/LeaveEntitlementUpdateRequestBody'
+ *     responses:
+ *       200:
+ *         description: The updated entitlement
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LeaveEntitlement'
+ *       400:
+ *         description: Invalid fields
+ *       409:
+ *         description: An entitlement for this person, year and leave type already exists
+ *   delete:
+ *     summary: Delete a leave entitlement
+ *     tags: [LeaveEntitlement]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Success message
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ */
+router.get('/', jwtAuth, requirePermission('leave:manage'), validate({ query: leaveEntitlementQuery }), listLeaveEntitlements);
+router.post('/', jwtAuth, requirePermission('leave:manage'), validate({ body: leaveEntitlementBody }), createLeaveEntitlement);
+router.get('/:id', jwtAuth, requirePermission('leave:manage'), getLeaveEntitlementById);
+router.put('/:id', jwtAuth, requirePermission('leave:manage'), validate({ body: leaveEntitlementUpdateBody }), updateLeaveEntitlement);
+router.delete('/:id', jwtAuth, requirePermission('leave:manage'), deleteLeaveEntitlement);
+
+export default router;
@@ -0,0 +1,199 @@
+import { Router } from 'express';
+import {
+  approveLeaveRequest,
+  cancelLeaveRequest,
+  createLeaveRequest,
+  getLeaveRequestById,
+  listLeaveRequests,
+  rejectLeaveRequest,
+} from '../controllers/leave-request-controller';
+import { jwtAuth } from '../middleware/auth-middleware';
+import { requirePermission } from '../middleware/role-middleware';
+import { validate } from '../middleware/validation-middleware';
+import { decisionBody, leaveRequestBody, leaveRequestQuery } from '../validation/request-schemas';
+
+const router = Router();
+
+/**
+ * @openapi
+ * tags:
+ *   - name: LeaveRequest
+ *     description: Endpoints for requesting and approving leave (verlof)
+ *
+ * /leave-requests:
+ *   get:
+ *     summary: List leave requests
+ *     description: Users see their own requests; holders of leave:approve see all requests.
+ *     tags: [LeaveRequest]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [REQUESTED, APPROVED, REJECTED, CANCELLED]
+ *       - in: query
+ *         name: personId
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Only with leave:approve; filters on the requesting person
+ *     responses:
+ *       200:
+ *         description: Array of leave requests
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/LeaveRequest'
+ *   post:
+ *     summary: Request leave for yourself
+ *     tags: [LeaveRequest]
+ *     security:
+ *       - CookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/LeaveRequestBody'
+ *     responses:
+ *       201:
+ *         description: The created leave request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LeaveRequest'
+ *       400:
+ *         description: Missing or invalid fields
+ *       409:
+ *         description: You already have an open leave request for this period
+ *
+ * /leave-requests/{id}:
+ *   get:
+ *     summary: Retrieve a leave request by ID
+ *     tags: [LeaveRequest]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The requested leave request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LeaveRequest'
+ *       404:
+ *         description: Leave request not found
+ *
+ * /leave-requests/{id}/approve:
+ *   post:
+ *     summary: Approve a leave request (requires leave:approve)
+ *     description: >
+ *       Creates the leave activity. SHIFT activities of the person during the leave
+ *       are not changed, but returned in collidingShifts together with a warning.
+ *     tags: [LeaveRequest]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/DecisionRequestBody'
+ *     responses:
+ *       200:
+ *         description: The approved leave request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/LeaveRequest'
+ *                 - type: object
+ *                   properties:
+ *                     warning: { type: string }
+ *                     collidingShifts:
+ *                       type: array
+ *                       items: { $ref: '#/components/schemas/Activity' }
+ *       404:
+ *         description: Leave request not found
+ *       409:
+ *         description: The leave request is not REQUESTED
+ *
+ * /leave-requests/{id}/reject:
+ *   post:
+ *     summary: Reject a leave request (requires leave:approve)
+ *     tags: [LeaveRequest]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/DecisionRequestBody'
+ *     responses:
+ *       200:
+ *         description: The rejected leave request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LeaveRequest'
+ *       404:
+ *         description: Leave request not found
+ *       409:
+ *         description: The leave request is not REQUESTED
+ *
+ * /leave-requests/{id}/cancel:
+ *   post:
+ *     summary: Cancel a requested or approved leave
+ *     description: The leave activity of an approved request gets status CANCELLED.
+ *     tags: [LeaveRequest]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The cancelled leave request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LeaveRequest'
+ *       404:
+ *         description: Leave request not found
+ *       409:
+ *         description: The leave request is already rejected or cancelled
+ */
+router.get('/', jwtAuth, validate({ query: leaveRequestQuery }), listLeaveRequests);
+router.post('/', jwtAuth, validate({ body: leaveRequestBody }), createLeaveRequest);
+router.get('/:id', jwtAuth, getLeaveRequestById);
+router.post('/:id/approve', jwtAuth, requirePermission('leave:approve'), validate({ body: decisionBody }), approveLeaveRequest);
+router.post('/:id/reject', jwtAuth, requirePermission('leave:approve'), validate({ body: decisionBody }), rejectLeaveRequest);
+router.post('/:id/cancel', jwtAuth, cancelLeaveRequest);
+
+export default router;
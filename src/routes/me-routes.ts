@@ -0,0 +1,238 @@
+import { Router } from 'express';
+import {
+  getMyLeave,
+  getMyProfile,
+  listMyActivities,
+  listMyConstraints,
+} from '../controllers/me-controller';
+import {
+  listMySessions,
+  listMySignIns,
+  revokeAllMySessions,
+  revokeMySession,
+} from '../controllers/session-controller';
+import { jwtAuth } from '../middleware/auth-middleware';
+import { validate } from '../middleware/validation-middleware';
+import { optionalFromToQuery, yearQuery } from '../validation/request-schemas';
+
+const router = Router();
+
+/**
+ * @openapi
+ * tags:
+ *   - name: Me
+ *     description: Personal data of the logged-in user (no admin rights needed)
+ *
+ * /me/profile:
+ *   get:
+ *     summary: Your profile
+ *     tags: [Me]
+ *     security:
+ *       - CookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Your person record, e-mail, roles, effective permissions and doctor details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 personId:    { type: string }
+ *                 firstName:   { type: string }
+ *                 lastName:    { type: string }
+ *                 dateOfBirth: { type: string, format: date }
+ *                 email:       { type: string }
+ *                 roles:
+ *                   type: array
+ *                   items: { type: string }
+ *                 permissions:
+ *                   type: array
+ *                   items: { type: string }
+ *                 doctor:
+ *                   type: object
+ *                   nullable: true
+ *                   properties:
+ *                     rizivNumber:       { type: string }
+ *                     isEnabledInShifts: { type: boolean }
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *
+ * /me/activities:
+ *   get:
+ *     summary: Your activities
+ *     description: Activities overlapping [from, to); without from/to all your activities.
+ *     tags: [Me]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         required: false
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         required: false
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Your activities, ordered by start
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Activity'
+ *       400:
+ *         description: Invalid from or to
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *
+ * /me/constraints:
+ *   get:
+ *     summary: Your personal constraints
+ *     tags: [Me]
+ *     security:
+ *       - CookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Your UserConstraint records
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/UserConstraint'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *
+ * /me/leave:
+ *   get:
+ *     summary: Your leave requests and leave balances
+ *     tags: [Me]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: year
+ *         required: false
+ *         schema:
+ *           type: integer
+ *         description: Defaults to the current year
+ *     responses:
+ *       200:
+ *         description: Balances per leave category and the leave requests touching the year
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 year: { type: integer }
+ *                 balances:
+ *                   type: array
+ *                   items: { $ref: '#/components/schemas/LeaveBalance' }
+ *                 requests:
+ *                   type: array
+ *                   items: { $ref: '#/components/schemas/LeaveRequest' }
+ *       400:
+ *         description: Invalid year
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *
+ * /me/sessions:
+ *   get:
+ *     summary: Your active sessions
+ *     description: One session per login that can still be refreshed, most recently used first.
+ *     tags: [Me]
+ *     security:
+ *       - CookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Your sessions; the one of this request is flagged current
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 allOf:
+ *                   - $ref: '#/components/schemas/Session'
+ *                   - type: object
+ *                     properties:
+ *                       current: { type: boolean }
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *
+ * /me/sessions/{id}:
+ *   delete:
+ *     summary: End one of your sessions
+ *     description: The device can no longer refresh its tokens; its access token expires on its own.
+ *     tags: [Me]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         description: Session not found
+ *
+ * /me/sessions/revoke-all:
+ *   post:
+ *     summary: End all your sessions, including this one
+ *     tags: [Me]
+ *     security:
+ *       - CookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessions revoked; the auth cookies of this device are cleared
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message: { type: string }
+ *                 revoked: { type: integer, description: Number of sessions ended }
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *
+ * /me/sign-ins:
+ *   get:
+ *     summary: Your recent sign-in attempts
+ *     description: >
+ *       The last 50 attempts on your account, newest first, including refused ones (wrong
+ *       password or 2FA code, locked account). A successful sign-in from a device you never
+ *       used before is flagged newDevice and also e-mailed to you.
+ *     tags: [Me]
+ *     security:
+ *       - CookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Your sign-in attempts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items: { $ref: '#/components/schemas/LoginEvent' }
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+router.get('/profile', jwtAuth, getMyProfile);
+router.get('/activities', jwtAuth, validate({ query: optionalFromToQuery }), listMyActivities);
+router.get('/constraints', jwtAuth, listMyConstraints);
+router.get('/leave', jwtAuth, validate({ query: yearQuery }), getMyLeave);
+router.get('/sessions', jwtAuth, listMySessions);
+router.post('/sessions/revoke-all', jwtAuth, revokeAllMySessions);
+router.delete('/sessions/:id', jwtAuth, revokeMySession);
+router.get('/sign-ins', jwtAuth, listMySignIns);
+
+export default router;
@@ -7,8 +7,11 @@ import {
   updatePerson,
   listStaff,
 } from '../controllers/person-controller';
+import { getPersonLeaveBalance } from '../controllers/leave-entitlement-controller';
 import { jwtAuth } from '../middleware/auth-middleware';
-import { requireAdmin } from '../middleware/role-middleware';
+import { requirePermission } from '../middleware/role-middleware';
+import { validate } from '../middleware/validation-middleware';
+import { leaveBalanceQuery, personBody, personUpdateBody } from '../validation/request-schemas';
 
 const router = Router();
 
@@ -90,7 +93,7 @@ const router = Router();
  *       content:
  *         application/json:
  *           schema:
- *             $ref: '#/components/schemas/PersonRequestBody'
+ *             $ref: '#/components/schemas/PersonUpdateRequestBody'
  *     responses:
  *       200:
  *         description: Person updated
@@ -145,13 +148,56 @@ const router = Router();
  *                     type: boolean
  *                   person:
  *                     $ref: '#/components/schemas/SimplePersonResponse'
+ *
+ * /admin/persons/{id}/leave-balance:
+ *   get:
+ *     summary: Leave balances of a person for a year
+ *     description: >
+ *       Calculated from the person's leave entitlements (with carry-over) and the
+ *       working days of their non-cancelled leave activities. Weekends and public
+ *       holidays are not counted.
+ *     tags: [Person]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: year
+ *         required: false
+ *         schema:
+ *           type: integer
+ *         description: Defaults to the current year
+ *       - in: query
+ *         name: leaveType
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Only this leave category (otherwise every category with an entitlement)
+ *     responses:
+ *       200:
+ *         description: One balance per leave category
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/LeaveBalance'
+ *       400:
+ *         description: Invalid year
+ *       404:
+ *         description: Person not found
  */
 
-router.get('/', jwtAuth, requireAdmin, listPersons);
-router.get('/staff', jwtAuth, requireAdmin, listStaff);
-router.post('/', jwtAuth, requireAdmin, createPerson);
-router.get('/:id', jwtAuth, requireAdmin, getPersonById);
-router.put('/:id', jwtAuth, requireAdmin, updatePerson);
-router.delete('/:id', jwtAuth, requireAdmin, deletePerson);
+router.get('/', jwtAuth, requirePermission('person:read'), listPersons);
+router.get('/staff', jwtAuth, requirePermission('person:read'), listStaff);
+router.post('/', jwtAuth, requirePermission('person:write'), validate({ body: personBody }), createPerson);
+router.get('/:id', jwtAuth, requirePermission('person:read'), getPersonById);
+router.get('/:id/leave-balance', jwtAuth, requirePermission('person:read'), validate({ query: leaveBalanceQuery }), getPersonLeaveBalance);
+router.put('/:id', jwtAuth, requirePermission('person:write'), validate({ body: personUpdateBody }), updatePerson);
+router.delete('/:id', jwtAuth, requirePermission('person:write'), deletePerson);
 
 export default router;
@@ -0,0 +1,119 @@
+import { Router } from 'express';
+import {
+  approveExistingRegistration,
+  listAllRegistrations,
+  rejectExistingRegistration,
+} from '../controllers/registration-controller';
+import { jwtAuth } from '../middleware/auth-middleware';
+import { requireAdmin } from '../middleware/role-middleware';
+import { validate } from '../middleware/validation-middleware';
+import {
+  registrationApprovalBody,
+  registrationQuery,
+  registrationRejectionBody,
+} from '../validation/request-schemas';
+
+const router = Router();
+
+/**
+ * @openapi
+ * tags:
+ *   - name: Registrations
+ *     description: Review self-registered doctors before they can log in
+ *
+ * /admin/registrations:
+ *   get:
+ *     summary: List registrations, oldest first
+ *     tags: [Registrations]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, APPROVED, REJECTED]
+ *     responses:
+ *       200:
+ *         description: The registrations
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Registration'
+ *
+ * /admin/registrations/{id}/approve:
+ *   post:
+ *     summary: Approve a pending registration
+ *     description: >
+ *       Grants the role and shift eligibility the applicant asked for, unless overridden in
+ *       the body, and e-mails the applicant that they can log in.
+ *     tags: [Registrations]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RegistrationApprovalRequestBody'
+ *     responses:
+ *       200:
+ *         description: The approved registration
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Registration'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
+ *       422:
+ *         $ref: '#/components/responses/UnprocessableEntity'
+ *
+ * /admin/registrations/{id}/reject:
+ *   post:
+ *     summary: Reject a pending registration
+ *     description: The reason is e-mailed to the applicant; the account cannot log in.
+ *     tags: [Registrations]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RegistrationRejectionRequestBody'
+ *     responses:
+ *       200:
+ *         description: The rejected registration
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Registration'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/Conflict'
+ */
+router.get('/', jwtAuth, requireAdmin, validate({ query: registrationQuery }), listAllRegistrations);
+router.post('/:id/approve', jwtAuth, requireAdmin, validate({ body: registrationApprovalBody }), approveExistingRegistration);
+router.post('/:id/reject', jwtAuth, requireAdmin, validate({ body: registrationRejectionBody }), rejectExistingRegistration);
+
+export default router;
@@ -7,7 +7,12 @@ import {
   createRole,
   updateRole,
   deleteRole,
+  listPermissions,
+  getRolePermissions,
+  setRolePermissions,
 } from '../controllers/role-controller';
+import { validate } from '../middleware/validation-middleware';
+import { roleBody, rolePermissionsBody } from '../validation/request-schemas';
 
 const router = Router();
 
@@ -42,12 +47,7 @@ const router = Router();
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - name
- *             properties:
- *               name:
- *                 type: string
+ *             $ref: '#/components/schemas/RoleRequestBody'
  *     responses:
  *       201:
  *         description: The newly created role
@@ -99,7 +99,7 @@ const router = Router();
  *       content:
  *         application/json:
  *           schema:
- *             $ref: '#/components/schemas/Role'
+ *             $ref: '#/components/schemas/RoleRequestBody'
  *     responses:
  *       200:
  *         description: The updated role
@@ -132,11 +132,82 @@ const router = Router();
  *                   type: string
  *       404:
  *         description: Role not found
+ *
+ * /admin/roles/permissions:
+ *   get:
+ *     summary: List all permissions that can be granted to a role
+ *     tags: [Role]
+ *     security:
+ *       - CookieAuth: []
+ *     responses:
+ *       200:
+ *         description: The permission catalog
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Permission'
+ *
+ * /admin/roles/{id}/permissions:
+ *   get:
+ *     summary: Permissions granted to a role
+ *     description: The 'admin' role holds every permission, whatever is stored here.
+ *     tags: [Role]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The role with its permission names
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RolePermissions'
+ *       404:
+ *         description: Role not found
+ *   put:
+ *     summary: Replace the permissions of a role
+ *     description: Users holding the role get the new permissions on their next request.
+ *     tags: [Role]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RolePermissionsRequestBody'
+ *     responses:
+ *       200:
+ *         description: The role with its new permission names
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RolePermissions'
+ *       400:
+ *         description: Not an array or unknown permission names
+ *       404:
+ *         description: Role not found
  */
 router.get('/', jwtAuth, requireAdmin, listRoles);
+router.get('/permissions', jwtAuth, requireAdmin, listPermissions);
 router.get('/:id', jwtAuth, requireAdmin, getRoleById);
-router.post('/', jwtAuth, requireAdmin, createRole);
-router.put('/:id', jwtAuth, requireAdmin, updateRole);
+router.get('/:id/permissions', jwtAuth, requireAdmin, getRolePermissions);
+router.put('/:id/permissions', jwtAuth, requireAdmin, validate({ body: rolePermissionsBody }), setRolePermissions);
+router.post('/', jwtAuth, requireAdmin, validate({ body: roleBody }), createRole);
+router.put('/:id', jwtAuth, requireAdmin, validate({ body: roleBody }), updateRole);
 router.delete('/:id', jwtAuth, requireAdmin, deleteRole);
 
 export default router;
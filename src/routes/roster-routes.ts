@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import {
+  applyRoster,
   createRoster,
   deleteRoster,
   getRosterById,
@@ -7,7 +8,9 @@ import {
   updateRoster,
 } from '../controllers/roster-controller';
 import { jwtAuth } from '../middleware/auth-middleware';
-import { requireAdmin } from '../middleware/role-middleware';
+import { requirePermission } from '../middleware/role-middleware';
+import { validate } from '../middleware/validation-middleware';
+import { fromToQuery, rosterBody, rosterListQuery, rosterUpdateBody } from '../validation/request-schemas';
 
 const router = Router();
 
@@ -15,17 +18,24 @@ const router = Router();
  * @openapi
  * tags:
  *   - name: Roster
- *     description: Endpoints for managing rosters
+ *     description: Endpoints for managing weekly roster templates
  *
  * /admin/rosters:
  *   get:
- *     summary: List all rosters
+ *     summary: List all roster templates
  *     tags: [Roster]
  *     security:
  *       - CookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: latest
+ *         required: false
+ *         schema:
+ *           type: boolean
+ *         description: Only return the latest version of each template
  *     responses:
  *       200:
- *         description: Array of rosters
+ *         description: Array of roster templates
  *         content:
  *           application/json:
  *             schema:
@@ -33,7 +43,8 @@ const router = Router();
  *               items:
  *                 $ref: '#/components/schemas/Roster'
  *   post:
- *     summary: Create a new roster
+ *     summary: Create a roster template
+ *     description: If a template with the same name exists, this creates its next version.
  *     tags: [Roster]
  *     security:
  *       - CookieAuth: []
@@ -42,28 +53,22 @@ const router = Router();
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - id
- *               - shiftTypeId
- *             properties:
- *               id:
- *                 type: integer
- *                 description: The roster ID (must be unique)
- *               shiftTypeId:
- *                 type: string
- *                 description: Reference to the shift type
+ *             $ref: '#/components/schemas/RosterRequestBody'
  *     responses:
  *       201:
- *         description: The newly created roster
+ *         description: The newly created template version
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Roster'
+ *       400:
+ *         description: Missing name or invalid slots
+ *       409:
+ *         description: Concurrent saves kept taking the version number (`code` ROSTER_VERSION_CONFLICT)
  *
  * /admin/rosters/{id}:
  *   get:
- *     summary: Retrieve a roster by ID
+ *     summary: Retrieve a roster template version by ID
  *     tags: [Roster]
  *     security:
  *       - CookieAuth: []
@@ -72,10 +77,10 @@ const router = Router();
  *         name: id
  *         required: true
  *         schema:
- *           type: integer
+ *           type: string
  *     responses:
  *       200:
- *         description: The requested roster
+ *         description: The requested roster template
  *         content:
  *           application/json:
  *             schema:
@@ -90,7 +95,8 @@ const router = Router();
  *                 error:
  *                   type: string
  *   put:
- *     summary: Update an existing roster
+ *     summary: Save changes to a roster template as a new version
+ *     description: The template keeps its name; omitted fields are copied from this version.
  *     tags: [Roster]
  *     security:
  *       - CookieAuth: []
@@ -99,27 +105,25 @@ const router = Router();
  *         name: id
  *         required: true
  *         schema:
- *           type: integer
+ *           type: string
  *     requestBody:
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             properties:
- *               shiftTypeId:
- *                 type: string
- *                 description: Reference to the shift type
+ *             $ref: '#/components/schemas/RosterUpdateRequestBody'
  *     responses:
- *       200:
- *         description: The updated roster
+ *       201:
+ *         description: The new template version
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Roster'
  *       404:
  *         description: Roster not found
+ *       409:
+ *         description: Concurrent saves kept taking the version number (`code` ROSTER_VERSION_CONFLICT)
  *   delete:
- *     summary: Delete a roster
+ *     summary: Delete a roster template version
  *     tags: [Roster]
  *     security:
  *       - CookieAuth: []
@@ -128,7 +132,7 @@ const router = Router();
  *         name: id
  *         required: true
  *         schema:
- *           type: integer
+ *           type: string
  *     responses:
  *       200:
  *         description: Success message
@@ -141,11 +145,52 @@ const router = Router();
  *                   type: string
  *       404:
  *         description: Roster not found
+ *
+ * /admin/rosters/{id}/apply:
+ *   post:
+ *     summary: Apply a roster template to a period
+ *     description: >
+ *       Creates SHIFT activities for every slot in the period that has a default person.
+ *       Slots that are already filled are skipped; slots without a default person, or
+ *       whose default person is already booked, are returned as open.
+ *     tags: [Roster]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       201:
+ *         description: The created activities, skipped slots and open slots
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RosterApplyResult'
+ *       400:
+ *         description: Missing or invalid query parameters
+ *       404:
+ *         description: Roster not found
  */
-router.get('/', jwtAuth, requireAdmin, listRosters);
-router.post('/', jwtAuth, requireAdmin, createRoster);
-router.get('/:id', jwtAuth, requireAdmin, getRosterById);
-router.put('/:id', jwtAuth, requireAdmin, updateRoster);
-router.delete('/:id', jwtAuth, requireAdmin, deleteRoster);
+router.get('/', jwtAuth, requirePermission('roster:read'), validate({ query: rosterListQuery }), listRosters);
+router.post('/', jwtAuth, requirePermission('roster:write'), validate({ body: rosterBody }), createRoster);
+router.get('/:id', jwtAuth, requirePermission('roster:read'), getRosterById);
+router.put('/:id', jwtAuth, requirePermission('roster:write'), validate({ body: rosterUpdateBody }), updateRoster);
+router.delete('/:id', jwtAuth, requirePermission('roster:write'), deleteRoster);
+router.post('/:id/apply', jwtAuth, requirePermission('schedule:publish'), validate({ query: fromToQuery }), applyRoster);
 
 export default router;
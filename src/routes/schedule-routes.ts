@@ -0,0 +1,60 @@
+import { Router } from 'express';
+import { generateScheduleProposal } from '../controllers/schedule-controller';
+import { jwtAuth } from '../middleware/auth-middleware';
+import { requirePermission } from '../middleware/role-middleware';
+import { validate } from '../middleware/validation-middleware';
+import { fromToQuery } from '../validation/request-schemas';
+
+const router = Router();
+
+/**
+ * @openapi
+ * tags:
+ *   - name: Schedule
+ *     description: Automatic shift planning
+ *
+ * /admin/schedules/generate:
+ *   post:
+ *     summary: Propose SHIFT activities for a period
+ *     description: >
+ *       Fills every active shift type slot in the period with a doctor that is enabled
+ *       in shifts, skipping doctors on leave/conference and respecting their
+ *       UserConstraint limits. The proposal is not saved.
+ *     tags: [Schedule]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: First day of the period (inclusive)
+ *       - in: query
+ *         name: to
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Last day of the period (inclusive, at most 92 days after from)
+ *     responses:
+ *       200:
+ *         description: The proposed shifts and the slots that could not be filled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScheduleProposal'
+ *       400:
+ *         description: Missing or invalid query parameters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 error:
+ *                   type: string
+ */
+router.post('/generate', jwtAuth, requirePermission('schedule:publish'), validate({ query: fromToQuery }), generateScheduleProposal);
+
+export default router;
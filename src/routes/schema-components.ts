@@ -9,6 +9,8 @@
  *         firstName: { type: string }
  *         lastName:  { type: string }
  *         dateOfBirth: { type: string, format: date }
+ *         employmentStart: { type: string, format: date, nullable: true, description: First working day }
+ *         employmentEnd:   { type: string, format: date, nullable: true, description: Last working day }
  *         createdAt:   { type: string, format: date-time }
  *         updatedAt:   { type: string, format: date-time }
  *         user:
@@ -29,6 +31,14 @@
  *       properties:
  *         personId:  { type: string }
  *         email:     { type: string }
+ *         status:    { type: string, enum: [ACTIVE, SUSPENDED, DEACTIVATED] }
+ *         statusReason:    { type: string, nullable: true }
+ *         statusChangedAt: { type: string, format: date-time, nullable: true }
+ *         lockedUntil:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Set after repeated failed logins; an admin can unlock earlier
  *         createdAt: { type: string, format: date-time }
  *         updatedAt: { type: string, format: date-time }
  *         person:    { $ref: '#/components/schemas/Person' }
@@ -46,6 +56,22 @@
  *       properties:
  *         id:   { type: string }
  *         name: { type: string }
+ *         requiresTwoFactor: { type: boolean }
+ *
+ *     Permission:
+ *       type: object
+ *       properties:
+ *         name:        { type: string, example: 'activity:write' }
+ *         description: { type: string }
+ *
+ *     RolePermissions:
+ *       type: object
+ *       properties:
+ *         roleId: { type: string }
+ *         name:   { type: string }
+ *         permissions:
+ *           type: array
+ *           items: { type: string }
  *
  *     Doctor:
  *       type: object
@@ -69,21 +95,6 @@
  *                 personId: { type: string }
  *                 email: { type: string }
  *
- *     DoctorRequestBody:
- *       type: object
- *       required: [personId, rizivNumber]
- *       properties:
- *         personId: 
- *           type: string
- *           description: The person ID to link to this doctor
- *         rizivNumber: 
- *           type: string
- *           description: Belgian RIZIV number (11 characters)
- *         isEnabledInShifts: 
- *           type: boolean
- *           description: Whether the doctor is enabled for shift planning
- *           default: true
- *
  *     Activity:
  *       type: object
  *       properties:
@@ -114,19 +125,13 @@
  *             startMinute:     { type: integer }
  *             durationMinutes: { type: integer }
  *
- *     ActivityRequestBody:
+ *     ActivityConflict:
  *       type: object
- *       required: [activityType, start, end, personId]
  *       properties:
- *         activityType: { type: string }
- *         start:        { type: string, format: date-time }
- *         end:          { type: string, format: date-time }
- *         personId:     { type: string }
- *         shiftTypeId:  { type: string }
- *         status:
- *           type: string
- *           description: Status of the activity (SCHEDULED, COMPLETED, CANCELLED, etc.)
- *           default: SCHEDULED
+ *         error: { type: string }
+ *         conflicts:
+ *           type: array
+ *           items: { $ref: '#/components/schemas/Activity' }
  *
  *     ShiftType:
  *       type: object
@@ -158,18 +163,58 @@
  *     Roster:
  *       type: object
  *       properties:
- *         id:          { type: integer }
- *         shiftTypeId: { type: string }
+ *         id:          { type: string }
+ *         name:        { type: string }
+ *         version:     { type: integer }
+ *         description: { type: string, nullable: true }
  *         createdAt:   { type: string, format: date-time }
  *         updatedAt:   { type: string, format: date-time }
- *         shiftType:
- *           type: object
- *           properties:
- *             id:              { type: string }
- *             name:            { type: string }
- *             startHour:       { type: integer }
- *             startMinute:     { type: integer }
- *             durationMinutes: { type: integer }
+ *         slots:
+ *           type: array
+ *           items: { $ref: '#/components/schemas/RosterSlot' }
+ *
+ *     RosterSlot:
+ *       type: object
+ *       properties:
+ *         id:        { type: string }
+ *         rosterId:  { type: string }
+ *         weekday:
+ *           type: integer
+ *           description: ISO weekday, 1 = Monday .. 7 = Sunday
+ *         headcount: { type: integer }
+ *         shiftTypeId:     { type: string }
+ *         defaultPersonId: { type: string, nullable: true }
+ *         shiftType:       { $ref: '#/components/schemas/ShiftType' }
+ *         defaultPerson:   { $ref: '#/components/schemas/SimplePersonResponse' }
+ *
+ *     RosterApplyResult:
+ *       type: object
+ *       properties:
+ *         message: { type: string }
+ *         created:
+ *           type: array
+ *           items: { $ref: '#/components/schemas/Activity' }
+ *         skipped:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               rosterSlotId: { type: string }
+ *               shiftTypeId:  { type: string }
+ *               start: { type: string, format: date-time }
+ *         open:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               rosterSlotId: { type: string }
+ *               shiftTypeId:  { type: string }
+ *               start:   { type: string, format: date-time }
+ *               end:     { type: string, format: date-time }
+ *               missing: { type: integer }
+ *               reason:
+ *                 type: string
+ *                 enum: [NO_DEFAULT_PERSON, CONFLICT, INACTIVE]
  *
  *     UserConstraint:
  *       type: object
@@ -188,6 +233,229 @@
  *             firstName: { type: string }
  *             lastName:  { type: string }
  *
+ *     PersonViolations:
+ *       type: object
+ *       properties:
+ *         personId:  { type: string }
+ *         firstName: { type: string }
+ *         lastName:  { type: string }
+ *         violations:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               rule:
+ *                 type: string
+ *                 enum: [OVERLAP, MIN_REST, MAX_NIGHT_SHIFTS_PER_WEEK, MAX_CONSECUTIVE_NIGHT_SHIFTS]
+ *               limit:  { type: number }
+ *               actual: { type: number }
+ *               week:
+ *                 type: string
+ *                 description: ISO week, only for MAX_NIGHT_SHIFTS_PER_WEEK (e.g. 2025-W23)
+ *               activityIds:
+ *                 type: array
+ *                 items: { type: string }
+ *
+ *     ScheduleSlot:
+ *       type: object
+ *       properties:
+ *         shiftTypeId:   { type: string }
+ *         shiftTypeName: { type: string }
+ *         start: { type: string, format: date-time }
+ *         end:   { type: string, format: date-time }
+ *
+ *     ScheduleProposal:
+ *       type: object
+ *       properties:
+ *         from: { type: string, format: date-time }
+ *         to:   { type: string, format: date-time }
+ *         proposed:
+ *           type: array
+ *           items: { $ref: '#/components/schemas/ActivityRequestBody' }
+ *         unfilled:
+ *           type: array
+ *           items:
+ *             allOf:
+ *               - $ref: '#/components/schemas/ScheduleSlot'
+ *               - type: object
+ *                 properties:
+ *                   rejections:
+ *                     type: array
+ *                     items:
+ *                       type: object
+ *                       properties:
+ *                         personId: { type: string }
+ *                         reason:
+ *                           type: string
+ *                           enum: [UNAVAILABLE, OVERLAP, MIN_REST, MAX_NIGHT_SHIFTS_PER_WEEK, MAX_CONSECUTIVE_NIGHT_SHIFTS]
+ *
+ *     ShiftSwapEvent:
+ *       type: object
+ *       properties:
+ *         id:            { type: string }
+ *         swapRequestId: { type: string }
+ *         action:
+ *           type: string
+ *           enum: [PROPOSED, ACCEPTED, DECLINED, APPROVED, REJECTED, CANCELLED]
+ *         actorId:
+ *           type: string
+ *           nullable: true
+ *           description: null when the step was taken automatically
+ *         comment:   { type: string, nullable: true }
+ *         createdAt: { type: string, format: date-time }
+ *
+ *     ShiftSwapRequest:
+ *       type: object
+ *       properties:
+ *         id: { type: string }
+ *         type:
+ *           type: string
+ *           enum: [GIVE_AWAY, EXCHANGE]
+ *         status:
+ *           type: string
+ *           enum: [PROPOSED, ACCEPTED, DECLINED, APPROVED, REJECTED, CANCELLED]
+ *         requesterId:       { type: string }
+ *         counterpartId:     { type: string }
+ *         activityId:        { type: string }
+ *         counterActivityId: { type: string, nullable: true }
+ *         message:   { type: string, nullable: true }
+ *         createdAt: { type: string, format: date-time }
+ *         updatedAt: { type: string, format: date-time }
+ *         requester:       { $ref: '#/components/schemas/SimplePersonResponse' }
+ *         counterpart:     { $ref: '#/components/schemas/SimplePersonResponse' }
+ *         activity:        { $ref: '#/components/schemas/Activity' }
+ *         counterActivity: { $ref: '#/components/schemas/Activity' }
+ *         events:
+ *           type: array
+ *           items: { $ref: '#/components/schemas/ShiftSwapEvent' }
+ *
+ *     LeaveRequest:
+ *       type: object
+ *       properties:
+ *         id: { type: string }
+ *         leaveType: { type: string }
+ *         start: { type: string, format: date-time }
+ *         end:   { type: string, format: date-time }
+ *         reason: { type: string, nullable: true }
+ *         status:
+ *           type: string
+ *           enum: [REQUESTED, APPROVED, REJECTED, CANCELLED]
+ *         personId:        { type: string }
+ *         approverId:      { type: string, nullable: true }
+ *         approverComment: { type: string, nullable: true }
+ *         decidedAt:  { type: string, format: date-time, nullable: true }
+ *         activityId:
+ *           type: string
+ *           nullable: true
+ *           description: The leave activity created on approval
+ *         createdAt: { type: string, format: date-time }
+ *         updatedAt: { type: string, format: date-time }
+ *         person:   { $ref: '#/components/schemas/SimplePersonResponse' }
+ *         approver: { $ref: '#/components/schemas/SimplePersonResponse' }
+ *         activity: { $ref: '#/components/schemas/Activity' }
+ *         balance:
+ *           type: array
+ *           description: Only on a single request; the balance per year the leave touches
+ *           items:
+ *             allOf:
+ *               - $ref: '#/components/schemas/LeaveBalance'
+ *               - type: object
+ *                 properties:
+ *                   requestedDays: { type: number }
+ *                   remainingAfterApproval: { type: number }
+ *
+ *     LeaveEntitlement:
+ *       type: object
+ *       properties:
+ *         id:        { type: string }
+ *         personId:  { type: string }
+ *         year:      { type: integer }
+ *         leaveType: { type: string }
+ *         days:      { type: number }
+ *         maxCarryOverDays: { type: number }
+ *         createdAt: { type: string, format: date-time }
+ *         updatedAt: { type: string, format: date-time }
+ *
+ *     LeaveBalance:
+ *       type: object
+ *       properties:
+ *         personId:    { type: string }
+ *         year:        { type: integer }
+ *         leaveType:   { type: string }
+ *         entitled:    { type: number }
+ *         carriedOver: { type: number }
+ *         taken:       { type: number }
+ *         pending:
+ *           type: number
+ *           description: Working days of leave requests awaiting a decision
+ *         remaining:   { type: number }
+ *
+ *     Holiday:
+ *       type: object
+ *       properties:
+ *         date: { type: string, format: date-time }
+ *         name: { type: string }
+ *         type:
+ *           type: string
+ *           enum: [NATIONAL, CLOSING_DAY]
+ *         closingDayId:
+ *           type: string
+ *           description: Only for closing days
+ *
+ *     ClosingDay:
+ *       type: object
+ *       properties:
+ *         id:   { type: string }
+ *         date: { type: string, format: date-time }
+ *         name: { type: string }
+ *         createdAt: { type: string, format: date-time }
+ *         updatedAt: { type: string, format: date-time }
+ *
+ *     CompensationLine:
+ *       type: object
+ *       properties:
+ *         rateId: { type: string, nullable: true }
+ *         rate:
+ *           type: number
+ *           nullable: true
+ *           description: Hourly rate; null when no rate was valid for this part
+ *         start:  { type: string, format: date-time }
+ *         end:    { type: string, format: date-time }
+ *         hours:  { type: number }
+ *         amount: { type: number }
+ *
+ *     MonthlyCompensation:
+ *       type: object
+ *       properties:
+ *         year:  { type: integer }
+ *         month: { type: integer }
+ *         totalAmount: { type: number }
+ *         persons:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               personId:    { type: string }
+ *               firstName:   { type: string }
+ *               lastName:    { type: string }
+ *               totalHours:  { type: number }
+ *               totalAmount: { type: number }
+ *               activities:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     activityId:    { type: string }
+ *                     shiftTypeId:   { type: string }
+ *                     shiftTypeName: { type: string }
+ *                     start:  { type: string, format: date-time }
+ *                     end:    { type: string, format: date-time }
+ *                     hours:  { type: number }
+ *                     amount: { type: number }
+ *                     lines:
+ *                       type: array
+ *                       items: { $ref: '#/components/schemas/CompensationLine' }
+ *
  *     AdminPersonResponse:
  *       type: object
  *       properties:
@@ -235,6 +503,11 @@
  *               type: array
  *               items:
  *                 type: string
+ *             permissions:
+ *               type: array
+ *               description: Effective permissions of all roles together
+ *               items:
+ *                 type: string
  *             firstName:
  *               type: string
  *             lastName:
@@ -243,21 +516,6 @@
  *               type: string
  *               format: date
  *
- *     PersonRequestBody:
- *       type: object
- *       required: [firstName, lastName, dateOfBirth]
- *       properties:
- *         firstName:
- *           type: string
- *           description: The person's first name
- *         lastName:
- *           type: string
- *           description: The person's last name
- *         dateOfBirth:
- *           type: string
- *           format: date
- *           description: The person's date of birth
- *
  *     PersonResponse:
  *       type: object
  *       properties:
@@ -290,6 +548,126 @@
  *         createdAt: { type: string, format: date-time }
  *         updatedAt: { type: string, format: date-time }
  *
+ *     AuditLog:
+ *       type: object
+ *       properties:
+ *         id: { type: string }
+ *         actorId: { type: string, nullable: true, description: personId of the acting user }
+ *         action: { type: string, example: UPDATE }
+ *         entityType: { type: string, example: ShiftTypeRate }
+ *         entityId: { type: string }
+ *         before: { type: object, nullable: true, description: The record before the change }
+ *         after: { type: object, nullable: true, description: The record after the change }
+ *         createdAt: { type: string, format: date-time }
+ *
+ *     Invitation:
+ *       type: object
+ *       properties:
+ *         id: { type: string }
+ *         email: { type: string }
+ *         role: { type: string, nullable: true, description: Role granted on acceptance (null = user) }
+ *         personId: { type: string }
+ *         status: { type: string, enum: [PENDING, ACCEPTED, REVOKED, EXPIRED] }
+ *         expiresAt: { type: string, format: date-time }
+ *         sentAt: { type: string, format: date-time }
+ *         invitedById: { type: string, nullable: true }
+ *         acceptedAt: { type: string, format: date-time, nullable: true }
+ *         revokedAt: { type: string, format: date-time, nullable: true }
+ *         createdAt: { type: string, format: date-time }
+ *         person: { $ref: '#/components/schemas/Person' }
+ *
+ *     Registration:
+ *       type: object
+ *       description: A self-registered doctor waiting for (or after) review by an admin
+ *       properties:
+ *         id: { type: string }
+ *         personId: { type: string }
+ *         status: { type: string, enum: [PENDING, APPROVED, REJECTED] }
+ *         requestedRole: { type: string, nullable: true, description: Role asked for (null = user) }
+ *         requestedIsEnabledInShifts: { type: boolean }
+ *         reviewerId: { type: string, nullable: true }
+ *         reason: { type: string, nullable: true, description: Why the registration was rejected }
+ *         decidedAt: { type: string, format: date-time, nullable: true }
+ *         createdAt: { type: string, format: date-time }
+ *         emailVerified: { type: boolean, description: The applicant confirmed their e-mail address }
+ *         person: { $ref: '#/components/schemas/Person' }
+ *
+ *     TwoFactorStatus:
+ *       type: object
+ *       properties:
+ *         enabled: { type: boolean }
+ *         required: { type: boolean, description: One of your roles requires two-factor authentication }
+ *         recoveryCodesLeft: { type: integer }
+ *
+ *     TwoFactorEnrollment:
+ *       type: object
+ *       properties:
+ *         secret: { type: string, description: Base32 secret for manual entry in the authenticator app }
+ *         otpauthUri:
+ *           type: string
+ *           description: Render as QR code for the authenticator app to scan
+ *           example: otpauth://totp/MedEcare:jane%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=MedEcare
+ *
+ *     RecoveryCodes:
+ *       type: object
+ *       properties:
+ *         recoveryCodes:
+ *           type: array
+ *           description: Single-use codes for when the authenticator app is unavailable; shown only once
+ *           items: { type: string, example: a1b2c-3d4e5 }
+ *
+ *     Session:
+ *       type: object
+ *       description: One login of a user, kept alive by refreshing its tokens
+ *       properties:
+ *         id: { type: string, description: Session id (refresh token family) }
+ *         platform: { type: string, enum: [web, web-persist, mobile] }
+ *         userAgent: { type: string, nullable: true }
+ *         ip: { type: string, nullable: true }
+ *         signedInAt: { type: string, format: date-time }
+ *         lastUsedAt: { type: string, format: date-time, nullable: true }
+ *         expiresAt: { type: string, format: date-time }
+ *
+ *     LoginEvent:
+ *       type: object
+ *       description: One sign-in attempt, successful or refused
+ *       properties:
+ *         id: { type: string }
+ *         success: { type: boolean }
+ *         reason:
+ *           type: string
+ *           nullable: true
+ *           description: Why the attempt was refused, e.g. INVALID_CREDENTIALS, ACCOUNT_LOCKED
+ *         platform: { type: string, enum: [web, web-persist, mobile] }
+ *         userAgent: { type: string, nullable: true }
+ *         ip: { type: string, nullable: true }
+ *         newDevice: { type: boolean, description: First successful sign-in from this user agent }
+ *         createdAt: { type: string, format: date-time }
+ *
+ *     Problem:
+ *       type: object
+ *       description: RFC 7807 problem details (application/problem+json)
+ *       properties:
+ *         type: { type: string, example: about:blank }
+ *         title: { type: string, example: Conflict }
+ *         status: { type: integer, example: 409 }
+ *         detail: { type: string, example: A record with this rizivNumber already exists. }
+ *         instance: { type: string, example: /admin/doctors }
+ *         code:
+ *           type: string
+ *           description: Stable error code, e.g. RECORD_NOT_FOUND, UNIQUE_CONSTRAINT_VIOLATION
+ *           example: UNIQUE_CONSTRAINT_VIOLATION
+ *         error:
+ *           type: string
+ *           description: Same as detail, for clients that read `error`
+ *         fields:
+ *           type: array
+ *           items: { type: string }
+ *           description: Fields of a violated unique constraint
+ *         stack:
+ *           type: string
+ *           description: Only in development
+ *
  *   responses:
  *     NotFound:
  *       description: The specified resource was not found
@@ -308,6 +686,15 @@
  *             type: object
  *             properties:
  *               error: { type: string }
+ *               details:
+ *                 type: array
+ *                 description: One entry per invalid field (schema validation only)
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     field: { type: string, example: startHour }
+ *                     in: { type: string, enum: [body, params, query] }
+ *                     message: { type: string, example: must be an integer between 0 and 23 }
  *
  *     Unauthorized:
  *       description: Authentication information is missing or invalid
@@ -326,4 +713,33 @@
  *             type: object
  *             properties:
  *               error: { type: string }
+ *
+ *     Conflict:
+ *       description: The record conflicts with an existing one (e.g. a duplicate unique value)
+ *       content:
+ *         application/problem+json:
+ *           schema:
+ *             $ref: '#/components/schemas/Problem'
+ *
+ *     UnprocessableEntity:
+ *       description: The request refers to records that do not exist
+ *       content:
+ *         application/problem+json:
+ *           schema:
+ *             $ref: '#/components/schemas/Problem'
+ */
+
+import { z } from 'zod';
+import { requestBodyComponents } from '../validation/request-schemas';
+
+/**
+ * Request body components (ActivityRequestBody, ShiftTypeRequestBody, ...), generated
+ * from the schemas that validate the requests, so the docs always match the checks.
+ * Merged into the spec by config/swagger.ts.
  */
+export const generatedSchemaComponents: Record<string, unknown> = Object.fromEntries(
+  Object.entries(requestBodyComponents).map(([name, schema]) => [
+    name,
+    z.toJSONSchema(schema, { target: 'openapi-3.0', io: 'input' }),
+  ]),
+);
@@ -0,0 +1,263 @@
+import { Router } from 'express';
+import {
+  acceptShiftSwap,
+  approveShiftSwap,
+  cancelShiftSwap,
+  declineShiftSwap,
+  getShiftSwapById,
+  listShiftSwaps,
+  proposeShiftSwap,
+  rejectShiftSwap,
+} from '../controllers/shift-swap-controller';
+import { jwtAuth } from '../middleware/auth-middleware';
+import { requirePermission } from '../middleware/role-middleware';
+import { validate } from '../middleware/validation-middleware';
+import { decisionBody, shiftSwapBody, shiftSwapQuery, swapApprovalBody } from '../validation/request-schemas';
+
+const router = Router();
+
+/**
+ * @openapi
+ * tags:
+ *   - name: ShiftSwap
+ *     description: Endpoints for swapping shifts between doctors
+ *
+ * /shift-swaps:
+ *   get:
+ *     summary: List shift swap requests
+ *     description: Doctors see the requests they take part in; holders of swap:approve see all requests.
+ *     tags: [ShiftSwap]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [PROPOSED, ACCEPTED, DECLINED, APPROVED, REJECTED, CANCELLED]
+ *     responses:
+ *       200:
+ *         description: Array of shift swap requests
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ShiftSwapRequest'
+ *   post:
+ *     summary: Propose a shift swap
+ *     description: >
+ *       Offers one of your future shifts to a colleague. With counterActivityId the
+ *       colleague's shift is taken over in return (EXCHANGE), otherwise the shift is
+ *       given away (GIVE_AWAY).
+ *     tags: [ShiftSwap]
+ *     security:
+ *       - CookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ShiftSwapRequestBody'
+ *     responses:
+ *       201:
+ *         description: The created swap request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ShiftSwapRequest'
+ *       400:
+ *         description: Missing fields or shifts that cannot be swapped
+ *       409:
+ *         description: One of the shifts is already part of an open swap request
+ *
+ * /shift-swaps/{id}:
+ *   get:
+ *     summary: Retrieve a shift swap request with its history
+ *     tags: [ShiftSwap]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The requested swap
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ShiftSwapRequest'
+ *       404:
+ *         description: Swap request not found
+ *
+ * /shift-swaps/{id}/accept:
+ *   post:
+ *     summary: Accept a proposed swap (counterpart only)
+ *     description: >
+ *       When SHIFT_SWAP_AUTO_APPROVE is enabled and the swap causes no overlap and
+ *       breaks no personal constraint, it is approved immediately.
+ *     tags: [ShiftSwap]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/DecisionRequestBody'
+ *     responses:
+ *       200:
+ *         description: The updated swap
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ShiftSwapRequest'
+ *       403:
+ *         description: Only the counterpart can accept
+ *       404:
+ *         description: Swap request not found
+ *       409:
+ *         description: The swap is not PROPOSED
+ *
+ * /shift-swaps/{id}/decline:
+ *   post:
+ *     summary: Decline a proposed swap (counterpart only)
+ *     tags: [ShiftSwap]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/DecisionRequestBody'
+ *     responses:
+ *       200:
+ *         description: The updated swap
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ShiftSwapRequest'
+ *       403:
+ *         description: Only the counterpart can decline
+ *       404:
+ *         description: Swap request not found
+ *       409:
+ *         description: The swap is not PROPOSED
+ *
+ * /shift-swaps/{id}/cancel:
+ *   post:
+ *     summary: Cancel an open swap (requester only)
+ *     tags: [ShiftSwap]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The updated swap
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ShiftSwapRequest'
+ *       403:
+ *         description: Only the requester can cancel
+ *       404:
+ *         description: Swap request not found
+ *       409:
+ *         description: The swap is already decided
+ *
+ * /shift-swaps/{id}/approve:
+ *   post:
+ *     summary: Approve an accepted swap and reassign the shifts (requires swap:approve)
+ *     tags: [ShiftSwap]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ShiftSwapApprovalRequestBody'
+ *     responses:
+ *       200:
+ *         description: The approved swap
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ShiftSwapRequest'
+ *       403:
+ *         description: The approver is the requester or counterpart of the swap
+ *       404:
+ *         description: Swap request not found
+ *       409:
+ *         description: >
+ *           The swap is not ACCEPTED, causes overlaps or broken constraints (without force),
+ *           or the shifts were reassigned in the meantime
+ *
+ * /shift-swaps/{id}/reject:
+ *   post:
+ *     summary: Reject an accepted swap (requires swap:approve)
+ *     tags: [ShiftSwap]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/DecisionRequestBody'
+ *     responses:
+ *       200:
+ *         description: The rejected swap
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ShiftSwapRequest'
+ *       404:
+ *         description: Swap request not found
+ *       409:
+ *         description: The swap is not ACCEPTED
+ */
+router.get('/', jwtAuth, validate({ query: shiftSwapQuery }), listShiftSwaps);
+router.post('/', jwtAuth, validate({ body: shiftSwapBody }), proposeShiftSwap);
+router.get('/:id', jwtAuth, getShiftSwapById);
+router.post('/:id/accept', jwtAuth, validate({ body: decisionBody }), acceptShiftSwap);
+router.post('/:id/decline', jwtAuth, validate({ body: decisionBody }), declineShiftSwap);
+router.post('/:id/cancel', jwtAuth, validate({ body: decisionBody }), cancelShiftSwap);
+router.post('/:id/approve', jwtAuth, requirePermission('swap:approve'), validate({ body: swapApprovalBody }), approveShiftSwap);
+router.post('/:id/reject', jwtAuth, requirePermission('swap:approve'), validate({ body: decisionBody }), rejectShiftSwap);
+
+export default router;
@@ -7,7 +7,9 @@ import {
   updateShiftTypeRate,
 } from '../controllers/shift-type-rate-controller';
 import { jwtAuth } from '../middleware/auth-middleware';
-import { requireAdmin } from '../middleware/role-middleware';
+import { requirePermission } from '../middleware/role-middleware';
+import { validate } from '../middleware/validation-middleware';
+import { shiftTypeRateBody, shiftTypeRateUpdateBody } from '../validation/request-schemas';
 
 const router = Router();
 
@@ -42,19 +44,7 @@ const router = Router();
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - shiftTypeId
- *               - rate
- *               - validFrom
- *             properties:
- *               shiftTypeId:
- *                 type: string
- *               rate:
- *                 type: number
- *               validFrom:
- *                 type: string
- *                 format: date-time
+ *             $ref: '#/components/schemas/ShiftTypeRateRequestBody'
  *     responses:
  *       201:
  *         description: The newly created shift-type rate
@@ -62,6 +52,10 @@ const router = Router();
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ShiftTypeRate'
+ *       400:
+ *         description: Missing fields or invalid period
+ *       409:
+ *         description: The period overlaps with other rates of the shift type
  *
  * /admin/shift-type-rates/{id}:
  *   get:
@@ -106,7 +100,7 @@ const router = Router();
  *       content:
  *         application/json:
  *           schema:
- *             $ref: '#/components/schemas/ShiftTypeRate'
+ *             $ref: '#/components/schemas/ShiftTypeRateUpdateRequestBody'
  *     responses:
  *       200:
  *         description: The updated shift-type rate
@@ -114,8 +108,12 @@ const router = Router();
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ShiftTypeRate'
+ *       400:
+ *         description: Invalid period
  *       404:
  *         description: Shift-type rate not found
+ *       409:
+ *         description: The period overlaps with other rates of the shift type
  *   delete:
  *     summary: Delete a shift-type rate
  *     tags: [ShiftTypeRate]
@@ -140,10 +138,10 @@ const router = Router();
  *       404:
  *         description: Shift-type rate not found
  */
-router.get('/', jwtAuth, requireAdmin, listShiftTypeRates);
-router.post('/', jwtAuth, requireAdmin, createShiftTypeRate);
-router.get('/:id', jwtAuth, requireAdmin, getShiftTypeRateById);
-router.put('/:id', jwtAuth, requireAdmin, updateShiftTypeRate);
-router.delete('/:id', jwtAuth, requireAdmin, deleteShiftTypeRate);
+router.get('/', jwtAuth, requirePermission('rates:read'), listShiftTypeRates);
+router.post('/', jwtAuth, requirePermission('rates:write'), validate({ body: shiftTypeRateBody }), createShiftTypeRate);
+router.get('/:id', jwtAuth, requirePermission('rates:read'), getShiftTypeRateById);
+router.put('/:id', jwtAuth, requirePermission('rates:write'), validate({ body: shiftTypeRateUpdateBody }), updateShiftTypeRate);
+router.delete('/:id', jwtAuth, requirePermission('rates:write'), deleteShiftTypeRate);
 
 export default router;
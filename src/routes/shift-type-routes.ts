@@ -6,8 +6,14 @@ import {
   listShiftTypes,
   updateShiftType,
 } from '../controllers/shift-type-controller';
+import {
+  getShiftTypeRateAt,
+  supersedeShiftTypeRate,
+} from '../controllers/shift-type-rate-controller';
 import { jwtAuth } from '../middleware/auth-middleware';
-import { requireAdmin } from '../middleware/role-middleware';
+import { requirePermission } from '../middleware/role-middleware';
+import { validate } from '../middleware/validation-middleware';
+import { rateAtQuery, shiftTypeBody, shiftTypeUpdateBody, supersedeRateBody } from '../validation/request-schemas';
 
 const router = Router();
 
@@ -42,21 +48,7 @@ const router = Router();
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - name
- *               - startHour
- *               - startMinute
- *               - durationMinutes
- *             properties:
- *               name:
- *                 type: string
- *               startHour:
- *                 type: integer
- *               startMinute:
- *                 type: integer
- *               durationMinutes:
- *                 type: integer
+ *             $ref: '#/components/schemas/ShiftTypeRequestBody'
  *     responses:
  *       201:
  *         description: The newly created shift type
@@ -108,7 +100,7 @@ const router = Router();
  *       content:
  *         application/json:
  *           schema:
- *             $ref: '#/components/schemas/ShiftType'
+ *             $ref: '#/components/schemas/ShiftTypeUpdateRequestBody'
  *     responses:
  *       200:
  *         description: The updated shift type
@@ -141,11 +133,85 @@ const router = Router();
  *                   type: string
  *       404:
  *         description: Shift type not found
+ *
+ * /admin/shift-types/{id}/rates/at:
+ *   get:
+ *     summary: Retrieve the rate of a shift type valid on a date
+ *     tags: [ShiftType]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: date
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: The valid rate
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ShiftTypeRate'
+ *       400:
+ *         description: Missing or invalid date
+ *       404:
+ *         description: No rate valid on this date
+ *
+ * /admin/shift-types/{id}/rates/supersede:
+ *   post:
+ *     summary: Start a new rate for a shift type
+ *     description: >
+ *       Creates an open-ended rate from validFrom and closes the current open-ended
+ *       rate on the day before, in one step.
+ *     tags: [ShiftType]
+ *     security:
+ *       - CookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SupersedeRateRequestBody'
+ *     responses:
+ *       201:
+ *         description: The closed and the created rate
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 closed:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/ShiftTypeRate'
+ *                   nullable: true
+ *                 created:
+ *                   $ref: '#/components/schemas/ShiftTypeRate'
+ *       400:
+ *         description: Missing or invalid rate or validFrom
+ *       404:
+ *         description: Shift type not found
+ *       409:
+ *         description: The new rate would overlap with other rates (e.g. one planned later on)
  */
-router.get('/', jwtAuth, requireAdmin, listShiftTypes);
-router.post('/', jwtAuth, requireAdmin, createShiftType);
-router.get('/:id', jwtAuth, requireAdmin, getShiftTypeById);
-router.put('/:id', jwtAuth, requireAdmin, updateShiftType);
-router.delete('/:id', jwtAuth, requireAdmin, deleteShiftType);
+router.get('/', jwtAuth, requirePermission('shift-type:read'), listShiftTypes);
+router.post('/', jwtAuth, requirePermission('shift-type:write'), validate({ body: shiftTypeBody }), createShiftType);
+router.get('/:id', jwtAuth, requirePermission('shift-type:read'), getShiftTypeById);
+router.put('/:id', jwtAuth, requirePermission('shift-type:write'), validate({ body: shiftTypeUpdateBody }), updateShiftType);
+router.delete('/:id', jwtAuth, requirePermission('shift-type:write'), deleteShiftType);
+router.get('/:id/rates/at', jwtAuth, requirePermission('rates:read'), validate({ query: rateAtQuery }), getShiftTypeRateAt);
+router.post('/:id/rates/supersede', jwtAuth, requirePermission('rates:write'), validate({ body: supersedeRateBody }), supersedeShiftTypeRate);
 
 export default router;
@@ -7,7 +7,9 @@ import {
   updateUserConstraint,
 } from '../controllers/user-constraint-controller';
 import { jwtAuth } from '../middleware/auth-middleware';
-import { requireAdmin } from '../middleware/role-middleware';
+import { requirePermission } from '../middleware/role-middleware';
+import { validate } from '../middleware/validation-middleware';
+import { userConstraintBody, userConstraintUpdateBody } from '../validation/request-schemas';
 
 const router = Router();
 
@@ -42,12 +44,7 @@ const router = Router();
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - personId
- *             properties:
- *               personId:
- *                 type: string
+ *             $ref: '#/components/schemas/UserConstraintRequestBody'
  *     responses:
  *       201:
  *         description: The newly created user constraint
@@ -99,7 +96,7 @@ const router = Router();
  *       content:
  *         application/json:
  *           schema:
- *             $ref: '#/components/schemas/UserConstraint'
+ *             $ref: '#/components/schemas/UserConstraintUpdateRequestBody'
  *     responses:
  *       200:
  *         description: The updated user constraint
@@ -133,10 +130,10 @@ const router = Router();
  *       404:
  *         description: User constraint not found
  */
-router.get('/', jwtAuth, requireAdmin, listUserConstraints);
-router.post('/', jwtAuth, requireAdmin, createUserConstraint);
-router.get('/:id', jwtAuth, requireAdmin, getUserConstraintById);
-router.put('/:id', jwtAuth, requireAdmin, updateUserConstraint);
-router.delete('/:id', jwtAuth, requireAdmin, deleteUserConstraint);
+router.get('/', jwtAuth, requirePermission('constraint:read'), listUserConstraints);
+router.post('/', jwtAuth, requirePermission('constraint:write'), validate({ body: userConstraintBody }), createUserConstraint);
+router.get('/:id', jwtAuth, requirePermission('constraint:read'), getUserConstraintById);
+router.put('/:id', jwtAuth, requirePermission('constraint:write'), validate({ body: userConstraintUpdateBody }), updateUserConstraint);
+router.delete('/:id', jwtAuth, requirePermission('constraint:write'), deleteUserConstraint);
 
 export default router;
@@ -9,6 +9,8 @@ import {
 } from '../controllers/user-role-controller';
 import { jwtAuth } from '../middleware/auth-middleware';
 import { requireAdmin } from '../middleware/role-middleware';
+import { validate } from '../middleware/validation-middleware';
+import { userRoleBody } from '../validation/request-schemas';
 
 const router = Router();
 
@@ -169,7 +171,7 @@ router.get('/', jwtAuth, requireAdmin, listUserRoles);
 router.get('/user/:userId', jwtAuth, requireAdmin, getUserRolesByUserId);
 router.get('/user/:userId/roles', jwtAuth, requireAdmin, getRolesByUserId);
 router.get('/role/:roleId', jwtAuth, requireAdmin, getUsersByRoleId);
-router.post('/', jwtAuth, requireAdmin, createUserRole);
+router.post('/', jwtAuth, requireAdmin, validate({ body: userRoleBody }), createUserRole);
 router.delete('/:userId/:roleId', jwtAuth, requireAdmin, deleteUserRole);
 
 export default router;
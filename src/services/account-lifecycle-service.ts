@@ -0,0 +1,162 @@
+/**
+ * @description
+ * Account status and employment period: who may log in and who may be planned.
+ *
+ * Key features:
+ * - loginBlock / findLoginBlock: Why an account may not log in (suspended, deactivated,
+ *   employment ended)
+ * - signUpBlock: Why an account may not log in yet (e-mail not verified, registration
+ *   not approved)
+ * - setUserStatus: Suspends, deactivates or reactivates an account
+ * - plannableDoctorWhere / isPlannableOn: Who can get shifts on a day or in a period
+ *
+ * @notes
+ * - Deactivating replaces deleting users and doctors: activities, rates and the audit
+ *   trail keep pointing at the person.
+ * - SUSPENDED only blocks the login (e.g. while something is investigated); the person is
+ *   still planned. DEACTIVATED also takes the person out of planning.
+ * - Employment dates are whole UTC days, both inclusive; outside them the person is not
+ *   planned, and after employmentEnd the login is refused.
+ * - Doctors without an account are planned on their employment period alone.
+ */
+
+import { Person, Prisma, PrismaClient, User } from '@prisma/client';
+import { NotFoundError } from '../utils/app-error';
+import { isEmployedOn, startOfUtcDay } from '../utils/date-utils';
+import { revokeAllSessions } from './session-service';
+
+const prisma = new PrismaClient();
+
+export const USER_STATUSES = ['ACTIVE', 'SUSPENDED', 'DEACTIVATED'] as const;
+
+export type UserStatus = (typeof USER_STATUSES)[number];
+
+export interface LoginBlock {
+  code: 'ACCOUNT_SUSPENDED' | 'ACCOUNT_DEACTIVATED' | 'EMPLOYMENT_ENDED';
+  message: string;
+}
+
+/**
+ * @function loginBlock
+ * @description Determines whether an account may log in (or keep using its tokens).
+ *
+ * @returns {LoginBlock | null} null when the account may log in
+ */
+export function loginBlock(
+  user: Pick<User, 'status'> & { person: Pick<Person, 'employmentEnd'> },
+  now: Date = new Date(),
+): LoginBlock | null {
+  if (user.status === 'SUSPENDED') {
+    return { code: 'ACCOUNT_SUSPENDED', message: 'This account is suspended.' };
+  }
+  if (user.status === 'DEACTIVATED') {
+    return { code: 'ACCOUNT_DEACTIVATED', message: 'This account is deactivated.' };
+  }
+  const { employmentEnd } = user.person;
+  if (employmentEnd && startOfUtcDay(employmentEnd) < startOfUtcDay(now)) {
+    return { code: 'EMPLOYMENT_ENDED', message: 'The employment of this person has ended.' };
+  }
+  return null;
+}
+
+/**
+ * @function findLoginBlock
+ * @description loginBlock for a user that still has to be loaded (e.g. on token refresh).
+ *
+ * @returns {Promise<LoginBlock | null>} null when the account may log in or does not exist
+ */
+export async function findLoginBlock(userId: string): Promise<LoginBlock | null> {
+  const user = await prisma.user.findUnique({
+    where: { personId: userId },
+    include: { person: true },
+  });
+  return user && loginBlock(user);
+}
+
+export interface SignUpBlock {
+  code: 'EMAIL_NOT_VERIFIED' | 'REGISTRATION_PENDING' | 'REGISTRATION_REJECTED';
+  message: string;
+}
+
+/**
+ * @function signUpBlock
+ * @description
+ * Determines whether the sign-up of an account is complete: the e-mail address is
+ * verified and, for self-registered accounts, an admin approved the registration.
+ *
+ * @returns {Promise<SignUpBlock | null>} null when the account may log in
+ */
+export async function signUpBlock(
+  user: Pick<User, 'personId' | 'emailVerifiedAt'>,
+): Promise<SignUpBlock | null> {
+  if (!user.emailVerifiedAt) {
+    return { code: 'EMAIL_NOT_VERIFIED', message: 'Email address not verified.' };
+  }
+  const registration = await prisma.registration.findUnique({
+    where: { personId: user.personId },
+  });
+  if (!registration || registration.status === 'APPROVED') return null;
+  return registration.status === 'REJECTED'
+    ? { code: 'REGISTRATION_REJECTED', message: 'Registration was rejected.' }
+    : { code: 'REGISTRATION_PENDING', message: 'Registration is awaiting approval.' };
+}
+
+/**
+ * @function setUserStatus
+ * @description Changes the status of an account; leaving ACTIVE also ends all its sessions.
+ *
+ * @param {string} userId - personId of the user
+ * @param {UserStatus} status - The new status
+ * @param {string} [reason] - Why, for other admins
+ * @returns {Promise<User>} The updated user
+ * @throws {NotFoundError} When the user does not exist
+ */
+export async function setUserStatus(
+  userId: string,
+  status: UserStatus,
+  reason?: string,
+): Promise<User> {
+  const existing = await prisma.user.findUnique({ where: { personId: userId } });
+  if (!existing) throw new NotFoundError('User not found');
+
+  const updated = await prisma.user.update({
+    where: { personId: userId },
+    data: { status, statusReason: reason ?? null, statusChangedAt: new Date() },
+  });
+  if (status !== 'ACTIVE') {
+    await revokeAllSessions(userId);
+  }
+  return updated;
+}
+
+/**
+ * @function plannableDoctorWhere
+ * @description
+ * Filter for doctors that can get shifts on at least one day of [from, to]: enabled in
+ * shifts, employed during the period and without a deactivated account.
+ */
+export function plannableDoctorWhere(from: Date, to: Date): Prisma.DoctorWhereInput {
+  return {
+    isEnabledInShifts: true,
+    person: {
+      AND: [
+        { OR: [{ employmentStart: null }, { employmentStart: { lte: to } }] },
+        { OR: [{ employmentEnd: null }, { employmentEnd: { gte: startOfUtcDay(from) } }] },
+        { OR: [{ user: { is: null } }, { user: { is: { status: { not: 'DEACTIVATED' } } } }] },
+      ],
+    },
+  };
+}
+
+/**
+ * @function isPlannableOn
+ * @description True when the person is employed on `day` and their account is not deactivated.
+ */
+export function isPlannableOn(
+  person: Pick<Person, 'employmentStart' | 'employmentEnd'> & {
+    user?: Pick<User, 'status'> | null;
+  },
+  day: Date,
+): boolean {
+  return isEmployedOn(person, day) && person.user?.status !== 'DEACTIVATED';
+}
@@ -0,0 +1,132 @@
+/**
+ * @description
+ * Shared data access for Activity rules that apply to every path that writes activities
+ * (single create/update as well as bulk operations).
+ *
+ * Key features:
+ * - findOverlappingActivities: Finds a person's non-cancelled activities overlapping a period
+ * - createActivityWithoutOverlap / updateActivityWithoutOverlap: Write an activity, checking
+ *   for overlaps in the same transaction
+ *
+ * @dependencies
+ * - PrismaClient from '@prisma/client'
+ *
+ * @notes
+ * - Back-to-back activities (one ends exactly when the other starts) do not overlap.
+ * - Cancelled activities never conflict, and a cancelled activity never conflicts either.
+ */
+
+import { Activity, Prisma, PrismaClient, ShiftType } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export const CANCELLED_STATUS = 'CANCELLED';
+
+export type ActivityWithShiftType = Activity & { shiftType: ShiftType | null };
+
+export type ActivityWriteResult = { activity: Activity } | { conflicts: ActivityWithShiftType[] };
+
+/** Where an activity is, or will be after the write, for the overlap check. */
+export interface ActivityPeriod {
+  personId: string;
+  start: Date;
+  end: Date;
+  status: string;
+}
+
+/**
+ * @function findOverlappingActivities
+ * @description Retrieves the non-cancelled activities of a person that overlap [start, end).
+ *
+ * @param {string} personId - The person the activity is (or would be) assigned to
+ * @param {Date} start - Start of the period
+ * @param {Date} end - End of the period
+ * @param {string} [excludeId] - Activity to ignore, e.g. the one being updated
+ * @param {Prisma.TransactionClient} [db] - Pass a transaction client to check inside it
+ * @returns {Promise<ActivityWithShiftType[]>} The conflicting activities
+ *
+ * @example
+ *   const conflicts = await findOverlappingActivities(personId, start, end, activityId);
+ */
+export async function findOverlappingActivities(
+  personId: string,
+  start: Date,
+  end: Date,
+  excludeId?: string,
+  db: Prisma.TransactionClient = prisma,
+): Promise<ActivityWithShiftType[]> {
+  return db.activity.findMany({
+    where: {
+      personId,
+      status: { not: CANCELLED_STATUS },
+      start: { lt: end },
+      end: { gt: start },
+      ...(excludeId && { id: { not: excludeId } }),
+    },
+    include: { shiftType: true },
+    orderBy: { start: 'asc' },
+  });
+}
+
+/**
+ * Runs `write` after the overlap check, both in one transaction, so two concurrent
+ * writes for the same person cannot both pass the check.
+ */
+async function writeWithoutOverlap(
+  period: ActivityPeriod,
+  excludeId: string | undefined,
+  allowOverlap: boolean,
+  write: (tx: Prisma.TransactionClient) => Promise<Activity>,
+): Promise<ActivityWriteResult> {
+  return prisma.$transaction(async (tx) => {
+    if (!allowOverlap && period.status !== CANCELLED_STATUS) {
+      const conflicts = await findOverlappingActivities(
+        period.personId,
+        period.start,
+        period.end,
+        excludeId,
+        tx,
+      );
+      if (conflicts.length) {
+        return { conflicts };
+      }
+    }
+    return { activity: await write(tx) };
+  });
+}
+
+/**
+ * @function createActivityWithoutOverlap
+ * @description Creates an activity unless it overlaps with another activity of the person.
+ *
+ * @param {Prisma.ActivityUncheckedCreateInput} data - The new activity, with its status
+ * @param {boolean} [allowOverlap] - Create it even when it overlaps (`force: true`)
+ * @returns The created activity, or the conflicting activities
+ */
+export async function createActivityWithoutOverlap(
+  data: Prisma.ActivityUncheckedCreateInput & ActivityPeriod,
+  allowOverlap = false,
+): Promise<ActivityWriteResult> {
+  return writeWithoutOverlap(data, undefined, allowOverlap, (tx) => tx.activity.create({ data }));
+}
+
+/**
+ * @function updateActivityWithoutOverlap
+ * @description Updates an activity unless its new period overlaps with another activity of the person.
+ *
+ * @param {string} id - The activity to update
+ * @param {Prisma.ActivityUncheckedUpdateInput} data - The changed fields
+ * @param {ActivityPeriod} period - Person, period and status after the update
+ * @param {boolean} [allowOverlap] - Update it even when it overlaps (`force: true`)
+ * @returns The updated activity, or the conflicting activities
+ */
+export async function updateActivityWithoutOverlap(
+  id: string,
+  data: Prisma.ActivityUncheckedUpdateInput,
+  period: ActivityPeriod,
+  allowOverlap = false,
+): Promise<ActivityWriteResult> {
+  return writeWithoutOverlap(period, id, allowOverlap, (tx) =>
+    tx.activity.update({ where: { id }, data }),
+  );
+}
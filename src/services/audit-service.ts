@@ -0,0 +1,144 @@
+/**
+ * @description
+ * Audit trail of data mutations: who created, changed or deleted which record, and how
+ * it looked before and after.
+ *
+ * Key features:
+ * - recordAudit: Stores AuditLog entries for the mutations done in a request
+ * - recordSystemAudit: Stores AuditLog entries for mutations nobody triggered directly
+ * - listAuditLogs: Entries filtered by entity, actor and period, newest first
+ * - auditSnapshot: The JSON text stored as before/after state
+ *
+ * @notes
+ * - Controllers call recordAudit right after a successful mutation. A failing audit write
+ *   is logged but does not fail the request, because the mutation is already committed.
+ * - Snapshots are stored as JSON text; credentials (see SENSITIVE_FIELDS) are removed first.
+ */
+
+import { AuditLog, PrismaClient } from '@prisma/client';
+import { Request } from 'express';
+import { AuthenticatedUser } from '../config/passport-strategies';
+import { stripSensitiveFields } from '../middleware/response-middleware';
+
+const prisma = new PrismaClient();
+
+export type AuditAction =
+  | 'CREATE'
+  | 'UPDATE'
+  | 'DELETE'
+  | 'APPLY'
+  | 'SUPERSEDE'
+  | 'REVOKE'
+  | 'APPROVE'
+  | 'REJECT';
+
+export type AuditEntityType =
+  | 'Activity'
+  | 'ClosingDay'
+  | 'Doctor'
+  | 'Invitation'
+  | 'LeaveEntitlement'
+  | 'Person'
+  | 'RefreshTokenFamily'
+  | 'Registration'
+  | 'Role'
+  | 'Roster'
+  | 'ShiftType'
+  | 'ShiftTypeRate'
+  | 'User'
+  | 'UserConstraint'
+  | 'UserRole';
+
+export interface AuditEntry {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditFilter {
+  entityType?: string;
+  entityId?: string;
+  actorId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+export function auditSnapshot(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  return JSON.stringify(stripSensitiveFields(value));
+}
+
+/**
+ * @function recordAudit
+ * @description
+ * Stores audit entries for one or more mutations, with the logged-in user as actor.
+ *
+ * @param {Request} req - The request that did the mutation (req.user is the actor)
+ * @param {AuditEntry | AuditEntry[]} entries - What happened to which record(s), with before/after state
+ *
+ * @example
+ * await recordAudit(req, { action: 'UPDATE', entityType: 'ShiftType', entityId: id, before: existing, after: updated });
+ */
+export async function recordAudit(req: Request, entries: AuditEntry | AuditEntry[]): Promise<void> {
+  const actor = req.user as AuthenticatedUser | undefined;
+  await writeAudit(actor?.personId ?? null, entries);
+}
+
+/**
+ * @function recordSystemAudit
+ * @description
+ * Stores audit entries without an actor, for mutations the system did by itself
+ * (e.g. an auto-approved shift swap).
+ */
+export async function recordSystemAudit(entries: AuditEntry | AuditEntry[]): Promise<void> {
+  await writeAudit(null, entries);
+}
+
+async function writeAudit(actorId: string | null, entries: AuditEntry | AuditEntry[]): Promise<void> {
+  const list = Array.isArray(entries) ? entries : [entries];
+  if (list.length === 0) return;
+
+  try {
+    await prisma.auditLog.createMany({
+      data: list.map((entry) => ({
+        actorId,
+        action: entry.action,
+        entityType: entry.entityType,
+        entityId: entry.entityId,
+        before: auditSnapshot(entry.before),
+        after: auditSnapshot(entry.after),
+      })),
+    });
+  } catch (error) {
+    const what = list.map((e) => `${e.action} ${e.entityType} ${e.entityId}`).join(', ');
+    console.error(`Failed to write audit log for ${what}:`, error);
+  }
+}
+
+/**
+ * @function listAuditLogs
+ * @description Retrieves audit entries, newest first.
+ *
+ * @param {AuditFilter} filter - Optional entity type/id, actor and [from, to] period
+ * @returns {Promise<AuditLog[]>} At most `limit` entries (default 100)
+ */
+export async function listAuditLogs(filter: AuditFilter): Promise<AuditLog[]> {
+  return prisma.auditLog.findMany({
+    where: {
+      ...(filter.entityType && { entityType: filter.entityType }),
+      ...(filter.entityId && { entityId: filter.entityId }),
+      ...(filter.actorId && { actorId: filter.actorId }),
+      ...((filter.from || filter.to) && {
+        createdAt: {
+          ...(filter.from && { gte: filter.from }),
+          ...(filter.to && { lte: filter.to }),
+        },
+      }),
+    },
+    orderBy: { createdAt: 'desc' },
+    take: filter.limit ?? 100,
+  });
+}
@@ -4,97 +4,151 @@
  * using Prisma.
  *
  * Key features:
- * - storeRefreshToken: Saves a new refresh token in the database
- * - findRefreshToken: Looks up a refresh token by token string
- * - removeRefreshToken: Deletes a refresh token from the database
+ * - storeRefreshToken: Saves a new refresh token (as a hash), starting or continuing a family
+ * - consumeRefreshToken: Exchanges a refresh token once, detecting reuse of rotated tokens
+ * - revokeRefreshToken: Revokes the family of a refresh token (logout)
  * - storeResetToken: Updates the specified user record with a reset token & expiration
  *
  * @dependencies
  * - PrismaClient from '@prisma/client': For database interactions
  *
  * @notes
- * - The token for refresh is stored in plain text for simplicity; production systems
- *   may choose to hash it.
- * - The password reset token is similarly stored in plain text for quick reference.
- * - A real system might store the token hashed or use a separate table.
- * - The single-use approach for refresh tokens means we remove them once used or expired.
+ * - Refresh tokens are stored as SHA-256 hashes; the token itself only lives on the client.
+ * - Every login starts a token family. A refresh marks the presented token as rotated and
+ *   stores its replacement in the same family. When a rotated token is presented again,
+ *   someone else holds a copy of it, so the whole family is revoked.
+ * - The password reset token is still stored in plain text for quick reference.
  */
 
+import crypto from 'crypto';
 import { PrismaClient, RefreshToken } from '@prisma/client';
 
 const prisma = new PrismaClient();
 
+export type RefreshTokenStatus = 'ROTATED' | 'NOT_FOUND' | 'EXPIRED' | 'REVOKED' | 'REUSED';
+
+export interface RefreshTokenLineage {
+  familyId: string;
+  parentId: string;
+}
+
+export interface SessionDevice {
+  platform: string;
+  userAgent?: string | null;
+  ip?: string | null;
+}
+
+export interface ConsumedRefreshToken {
+  status: RefreshTokenStatus;
+  record: RefreshToken | null;
+}
+
+/**
+ * @function hashRefreshToken
+ * @description Hashes a refresh token for storage and lookup
+ * @param {string} token - The refresh token string (JWT)
+ * @returns {string} - The hex-encoded SHA-256 hash
+ */
+export function hashRefreshToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
 /**
  * @function storeRefreshToken
- * @description Stores a refresh token in the database
+ * @description Stores the hash of a refresh token in the database
  * @param {string} userId - The unique ID of the user (which is actually personId in our schema)
  * @param {string} token - The refresh token string (JWT)
  * @param {Date} expiresAt - The date/time when the token expires
+ * @param {SessionDevice} device - Platform, user agent and IP of the login or refresh request
+ * @param {RefreshTokenLineage} [lineage] - Family and parent of a rotated token; omit at login
+ *   to start a new family
  * @returns {Promise<RefreshToken>} - A promise resolving to the stored RefreshToken record
  *
  * @example
- *   const newToken = await storeRefreshToken("user-id", "jwt-token-here", new Date("2025-12-31"));
+ *   const first = await storeRefreshToken("user-id", "jwt-token-here", new Date("2025-12-31"), { platform: "web" });
+ *   await storeRefreshToken("user-id", "next-jwt", expiresAt, device, { familyId: first.familyId, parentId: first.id });
  */
 export async function storeRefreshToken(
   userId: string,
   token: string,
   expiresAt: Date,
+  device: SessionDevice,
+  lineage?: RefreshTokenLineage,
 ): Promise<RefreshToken> {
-  try {
-    const record = await prisma.refreshToken.create({
-      data: {
-        userId,
-        token,
-        expiresAt,
-      },
-    });
-    return record;
-  } catch (error) {
-    throw error;
-  }
+  return prisma.refreshToken.create({
+    data: {
+      userId,
+      tokenHash: hashRefreshToken(token),
+      expiresAt,
+      familyId: lineage?.familyId ?? crypto.randomUUID(),
+      parentId: lineage?.parentId ?? null,
+      platform: device.platform,
+      userAgent: device.userAgent ?? null,
+      ip: device.ip ?? null,
+      lastUsedAt: new Date(),
+    },
+  });
 }
 
 /**
- * @function findRefreshToken
- * @description Finds a refresh token record by its token string
+ * @function consumeRefreshToken
+ * @description
+ * Marks a refresh token as rotated so it can be exchanged only once.
+ * Presenting a token that was already rotated revokes its whole family.
+ *
  * @param {string} token - The refresh token string (JWT)
- * @returns {Promise<RefreshToken | null>} - The found record or null if not found
+ * @returns {Promise<ConsumedRefreshToken>} - 'ROTATED' with the record when the caller may issue
+ *   a replacement; otherwise why not (the record is null for 'NOT_FOUND')
  *
  * @example
- *   const existing = await findRefreshToken("jwt-token-here");
+ *   const { status, record } = await consumeRefreshToken(suppliedToken);
+ *   if (status === 'ROTATED') await storeRefreshToken(record!.userId, next, expiresAt, device, { familyId: record!.familyId, parentId: record!.id });
  */
-export async function findRefreshToken(
-  token: string,
-): Promise<RefreshToken | null> {
-  try {
-    const record = await prisma.refreshToken.findUnique({
-      where: { token },
+export async function consumeRefreshToken(token: string): Promise<ConsumedRefreshToken> {
+  const record = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashRefreshToken(token) },
+  });
+  if (!record) return { status: 'NOT_FOUND', record: null };
+  if (record.revokedAt) return { status: 'REVOKED', record };
+
+  if (!record.rotatedAt) {
+    if (record.expiresAt < new Date()) return { status: 'EXPIRED', record };
+
+    // Only one of two concurrent refreshes with the same token may win
+    const { count } = await prisma.refreshToken.updateMany({
+      where: { id: record.id, rotatedAt: null },
+      data: { rotatedAt: new Date() },
     });
-    return record;
-  } catch (error) {
-    throw error;
+    if (count === 1) return { status: 'ROTATED', record };
   }
+
+  await prisma.refreshToken.updateMany({
+    where: { familyId: record.familyId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return { status: 'REUSED', record };
 }
 
 /**
- * @function removeRefreshToken
- * @description Removes a refresh token record from the database, invalidating it
+ * @function revokeRefreshToken
+ * @description Revokes the family of a refresh token, so none of its tokens can be used again
  * @param {string} token - The refresh token string (JWT)
- * @returns {Promise<RefreshToken>} - The removed record, or an error if not found
+ * @returns {Promise<number>} - The number of tokens revoked (0 when the token is unknown)
  *
  * @example
- *   await removeRefreshToken("jwt-token-here");
+ *   await revokeRefreshToken("jwt-token-here");
  */
-export async function removeRefreshToken(token: string): Promise<RefreshToken> {
-  try {
-    const deleted = await prisma.refreshToken.delete({
-      where: { token },
-    });
-    return deleted;
-  } catch (error) {
-    // If token doesn't exist, Prisma will throw an error
-    throw error;
-  }
+export async function revokeRefreshToken(token: string): Promise<number> {
+  const record = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashRefreshToken(token) },
+  });
+  if (!record) return 0;
+
+  const { count } = await prisma.refreshToken.updateMany({
+    where: { familyId: record.familyId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return count;
 }
 
 /**
@@ -0,0 +1,146 @@
+/**
+ * @description
+ * iCalendar (RFC 5545) subscription feeds of a person's activities.
+ *
+ * Key features:
+ * - createFeedToken / revokeFeedToken: Manage the secret that protects a person's feed
+ * - isValidFeedToken: Checks the secret of a feed URL
+ * - buildIcsCalendar: Renders activities as a VCALENDAR document
+ *
+ * @notes
+ * - Only a SHA-256 hash of the feed token is stored, like a password it cannot be shown
+ *   again; creating a new token replaces (and thereby revokes) the old one.
+ * - The feed token is independent of JWT access/refresh tokens: revoking it does not
+ *   log anyone out, and logging out does not break the calendar subscription.
+ * - Cancelled activities stay in the feed with STATUS:CANCELLED so calendar apps
+ *   remove them instead of keeping a stale copy.
+ */
+
+import { Activity, PrismaClient, ShiftType } from '@prisma/client';
+import crypto from 'crypto';
+
+const prisma = new PrismaClient();
+
+const PRODUCT_ID = '-//MedEcare//Schedule Feed//EN';
+const MAX_LINE_OCTETS = 75;
+
+export type CalendarActivity = Activity & { shiftType: ShiftType | null };
+
+function hashFeedToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * @function createFeedToken
+ * @description Generates a new feed token for the user, replacing any previous one.
+ *
+ * @returns {Promise<string>} The plain token; only its hash is stored
+ */
+export async function createFeedToken(personId: string): Promise<string> {
+  const token = crypto.randomBytes(32).toString('hex');
+  await prisma.user.update({
+    where: { personId },
+    data: {
+      calendarFeedTokenHash: hashFeedToken(token),
+      calendarFeedTokenCreatedAt: new Date(),
+    },
+  });
+  return token;
+}
+
+export async function revokeFeedToken(personId: string): Promise<void> {
+  await prisma.user.update({
+    where: { personId },
+    data: { calendarFeedTokenHash: null, calendarFeedTokenCreatedAt: null },
+  });
+}
+
+export async function isValidFeedToken(personId: string, token: string): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { personId },
+    select: { calendarFeedTokenHash: true },
+  });
+  if (!user?.calendarFeedTokenHash) return false;
+
+  const expected = Buffer.from(user.calendarFeedTokenHash, 'hex');
+  const actual = Buffer.from(hashFeedToken(token), 'hex');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/** 2025-06-02T19:00:00.000Z => 20250602T190000Z */
+export function formatIcsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+export function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Folds a content line at 75 octets; continuation lines start with a single space.
+ */
+export function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length ? MAX_LINE_OCTETS - 1 : MAX_LINE_OCTETS;
+    if (Buffer.byteLength(current + char, 'utf8') > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function buildEvent(activity: CalendarActivity): string[] {
+  const title = activity.shiftType?.name ?? activity.activityType;
+  const cancelled = activity.status === 'CANCELLED';
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${activity.id}@medecare`,
+    `DTSTAMP:${formatIcsDate(activity.updatedAt)}`,
+    `LAST-MODIFIED:${formatIcsDate(activity.updatedAt)}`,
+    `DTSTART:${formatIcsDate(activity.start)}`,
+    `DTEND:${formatIcsDate(activity.end)}`,
+    `SUMMARY:${escapeIcsText(cancelled ? `${title} (cancelled)` : title)}`,
+    `DESCRIPTION:${escapeIcsText(`Type: ${activity.activityType}\nStatus: ${activity.status}`)}`,
+    `CATEGORIES:${escapeIcsText(activity.activityType)}`,
+    `STATUS:${cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    'TRANSP:OPAQUE',
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * @function buildIcsCalendar
+ * @description Renders activities as an iCalendar document (CRLF line endings, folded lines).
+ *
+ * @param {string} calendarName - Shown as the calendar name in most calendar apps
+ * @param {CalendarActivity[]} activities - The activities, with their ShiftType
+ *
+ * @example
+ *   res.type('text/calendar').send(buildIcsCalendar('MedEcare - Jan Peeters', activities));
+ */
+export function buildIcsCalendar(
+  calendarName: string,
+  activities: CalendarActivity[],
+): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+    ...activities.flatMap(buildEvent),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
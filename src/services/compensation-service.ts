@@ -0,0 +1,199 @@
+/**
+ * @description
+ * Compensation engine: turns SHIFT activities into payable amounts using the
+ * time-bound ShiftTypeRate of their shift type.
+ *
+ * Key features:
+ * - splitShiftByRates: Splits one shift into line items, one per applicable rate period
+ * - calculateMonthlyCompensation: Per-person totals for a month, with the line items per activity
+ *
+ * @notes
+ * - ShiftTypeRate.rate is an hourly rate; a line item pays rate x hours.
+ * - A shift that crosses a rate boundary (e.g. a night shift starting the evening before
+ *   a new rate) is split at the boundary, each part paid at its own rate.
+ * - Parts of a shift without any valid rate produce a line item with rate null and
+ *   amount 0, so payroll can see what is missing.
+ * - A shift belongs to the month in which it starts (UTC). Cancelled shifts are ignored.
+ */
+
+import { PrismaClient, ShiftTypeRate } from '@prisma/client';
+import { CANCELLED_STATUS } from './activity-service';
+import { rateWindow } from './shift-type-rate-service';
+
+const prisma = new PrismaClient();
+
+export interface CompensationLine {
+  rateId: string | null;
+  rate: number | null;
+  start: Date;
+  end: Date;
+  hours: number;
+  amount: number;
+}
+
+export interface ActivityCompensation {
+  activityId: string;
+  shiftTypeId: string;
+  shiftTypeName: string;
+  start: Date;
+  end: Date;
+  hours: number;
+  amount: number;
+  lines: CompensationLine[];
+}
+
+export interface PersonCompensation {
+  personId: string;
+  firstName: string;
+  lastName: string;
+  totalHours: number;
+  totalAmount: number;
+  activities: ActivityCompensation[];
+}
+
+export interface MonthlyCompensation {
+  year: number;
+  month: number;
+  totalAmount: number;
+  persons: PersonCompensation[];
+}
+
+type RatePeriod = Pick<ShiftTypeRate, 'id' | 'rate' | 'validFrom' | 'validUntil'>;
+
+function round(value: number, decimals = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function line(rate: RatePeriod | null, start: Date, end: Date): CompensationLine {
+  const hours = (end.getTime() - start.getTime()) / 3_600_000;
+  return {
+    rateId: rate?.id ?? null,
+    rate: rate?.rate ?? null,
+    start,
+    end,
+    hours: round(hours, 4),
+    amount: rate ? round(hours * rate.rate) : 0,
+  };
+}
+
+/**
+ * @function splitShiftByRates
+ * @description Splits [start, end) of a shift over the rate periods of its shift type.
+ *
+ * @param {Date} start - Start of the shift
+ * @param {Date} end - End of the shift
+ * @param {RatePeriod[]} rates - The rates of the shift type
+ * @returns {CompensationLine[]} Line items in chronological order, covering the whole shift
+ *
+ * @example
+ *   // Night shift 30 June 19:00 -> 1 July 09:00, new rate from 1 July
+ *   splitShiftByRates(start, end, rates);
+ *   // => [{ rate: 85, hours: 5, ... }, { rate: 90, hours: 9, ... }]
+ */
+export function splitShiftByRates(
+  start: Date,
+  end: Date,
+  rates: RatePeriod[],
+): CompensationLine[] {
+  const lines: CompensationLine[] = [];
+  let cursor = start;
+
+  while (cursor < end) {
+    const at = cursor;
+    const current = rates.find((r) => {
+      const window = rateWindow(r);
+      return window.start <= at && (!window.end || at < window.end);
+    });
+
+    if (current) {
+      const windowEnd = rateWindow(current).end;
+      const partEnd = windowEnd && windowEnd < end ? windowEnd : end;
+      lines.push(line(current, cursor, partEnd));
+      cursor = partEnd;
+      continue;
+    }
+
+    // No rate at the cursor: the gap lasts until the next rate starts (or the shift ends)
+    const nextStart = rates
+      .map((r) => rateWindow(r).start)
+      .filter((s) => s > at && s < end)
+      .sort((a, b) => a.getTime() - b.getTime())[0];
+    const gapEnd = nextStart ?? end;
+    lines.push(line(null, cursor, gapEnd));
+    cursor = gapEnd;
+  }
+  return lines;
+}
+
+/**
+ * @function calculateMonthlyCompensation
+ * @description Calculates the compensation of all SHIFT activities starting in a month.
+ *
+ * @param {number} year - e.g. 2025
+ * @param {number} month - 1 = January .. 12 = December
+ */
+export async function calculateMonthlyCompensation(
+  year: number,
+  month: number,
+): Promise<MonthlyCompensation> {
+  const activities = await prisma.activity.findMany({
+    where: {
+      activityType: 'SHIFT',
+      status: { not: CANCELLED_STATUS },
+      shiftTypeId: { not: null },
+      start: {
+        gte: new Date(Date.UTC(year, month - 1, 1)),
+        lt: new Date(Date.UTC(year, month, 1)),
+      },
+    },
+    include: {
+      person: true,
+      shiftType: { include: { rates: true } },
+    },
+    orderBy: { start: 'asc' },
+  });
+
+  const persons = new Map<string, PersonCompensation>();
+  for (const activity of activities) {
+    if (!activity.shiftType) continue;
+
+    const lines = splitShiftByRates(activity.start, activity.end, activity.shiftType.rates);
+    const item: ActivityCompensation = {
+      activityId: activity.id,
+      shiftTypeId: activity.shiftType.id,
+      shiftTypeName: activity.shiftType.name,
+      start: activity.start,
+      end: activity.end,
+      hours: round(lines.reduce((sum, l) => sum + l.hours, 0), 4),
+      amount: round(lines.reduce((sum, l) => sum + l.amount, 0)),
+      lines,
+    };
+
+    let person = persons.get(activity.personId);
+    if (!person) {
+      person = {
+        personId: activity.personId,
+        firstName: activity.person.firstName,
+        lastName: activity.person.lastName,
+        totalHours: 0,
+        totalAmount: 0,
+        activities: [],
+      };
+      persons.set(activity.personId, person);
+    }
+    person.activities.push(item);
+    person.totalHours = round(person.totalHours + item.hours, 4);
+    person.totalAmount = round(person.totalAmount + item.amount);
+  }
+
+  const result = [...persons.values()].sort(
+    (a, b) => a.lastName.localeCompare(b.lastName) || a.firstName.localeCompare(b.firstName),
+  );
+  return {
+    year,
+    month,
+    totalAmount: round(result.reduce((sum, p) => sum + p.totalAmount, 0)),
+    persons: result,
+  };
+}
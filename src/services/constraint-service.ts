@@ -0,0 +1,361 @@
+/**
+ * @description
+ * Evaluates the personal planning limits stored in UserConstraint against
+ * (planned or existing) shifts.
+ *
+ * Key features:
+ * - resolveConstraintLimits: Collapses all UserConstraint rows of a person into one set of limits
+ * - isNightShift: Decides whether a shift counts as a night shift
+ * - checkShiftAssignment: Tells whether a candidate shift can be added to a person's shifts
+ * - findConstraintViolations: Lists every breach in a person's existing shifts
+ * - findViolationsInPeriod: Loads planned SHIFT activities and reports breaches per person
+ *
+ * @notes
+ * - A person may have several UserConstraint rows; the strictest value of each limit wins.
+ * - A shift is a night shift when it covers any part of 00:00-06:00 (UTC), so the
+ *   'nacht' shift type (19:00 + 14h) qualifies and day shifts do not.
+ * - Consecutive nights are counted per calendar day on which the night shift starts.
+ */
+
+import { PrismaClient, UserConstraint } from '@prisma/client';
+import {
+  addDays,
+  intervalsOverlap,
+  isoWeekKey,
+  startOfUtcDay,
+} from '../utils/date-utils';
+
+const prisma = new PrismaClient();
+
+const NIGHT_WINDOW_END_HOUR = 6;
+
+/** Extra days loaded around a period so weeks and night runs at its edges are complete. */
+const CONTEXT_DAYS = 7;
+
+export type ConstraintRule =
+  | 'OVERLAP'
+  | 'MIN_REST'
+  | 'MAX_NIGHT_SHIFTS_PER_WEEK'
+  | 'MAX_CONSECUTIVE_NIGHT_SHIFTS';
+
+export interface PlannedShift {
+  id?: string;
+  personId: string;
+  start: Date;
+  end: Date;
+}
+
+export interface ConstraintLimits {
+  maxNightShiftsPerWeek: number | null;
+  maxConsecutiveNightShifts: number | null;
+  minRestHoursBetweenShifts: number | null;
+}
+
+export interface ConstraintViolation {
+  rule: ConstraintRule;
+  /** The configured limit (hours for MIN_REST, a count otherwise; 0 for OVERLAP) */
+  limit: number;
+  /** The measured value (rest hours, or the number of night shifts) */
+  actual: number;
+  /** ISO week for MAX_NIGHT_SHIFTS_PER_WEEK, e.g. "2025-W23" */
+  week?: string;
+  activityIds: string[];
+}
+
+export interface PersonViolations {
+  personId: string;
+  firstName: string;
+  lastName: string;
+  violations: ConstraintViolation[];
+}
+
+type ConstraintFields = Pick<
+  UserConstraint,
+  | 'maxNightShiftsPerWeek'
+  | 'maxConsecutiveNightShifts'
+  | 'minRestHoursBetweenShifts'
+>;
+
+function strictest(
+  values: (number | null)[],
+  pick: (a: number, b: number) => number,
+): number | null {
+  const present = values.filter((v): v is number => v !== null && v !== undefined);
+  return present.length ? present.reduce((a, b) => pick(a, b)) : null;
+}
+
+export function resolveConstraintLimits(
+  constraints: ConstraintFields[],
+): ConstraintLimits {
+  return {
+    maxNightShiftsPerWeek: strictest(
+      constraints.map((c) => c.maxNightShiftsPerWeek),
+      Math.min,
+    ),
+    maxConsecutiveNightShifts: strictest(
+      constraints.map((c) => c.maxConsecutiveNightShifts),
+      Math.min,
+    ),
+    minRestHoursBetweenShifts: strictest(
+      constraints.map((c) => c.minRestHoursBetweenShifts),
+      Math.max,
+    ),
+  };
+}
+
+export function isNightShift(start: Date, end: Date): boolean {
+  for (
+    let day = startOfUtcDay(start);
+    day < end;
+    day = addDays(day, 1)
+  ) {
+    const windowEnd = new Date(day.getTime() + NIGHT_WINDOW_END_HOUR * 3_600_000);
+    if (intervalsOverlap(start, end, day, windowEnd)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * @function restHoursBetween
+ * @description Hours between the end of the earlier shift and the start of the later one.
+ * Returns a negative number when the shifts overlap.
+ */
+export function restHoursBetween(a: PlannedShift, b: PlannedShift): number {
+  const [first, second] = a.start <= b.start ? [a, b] : [b, a];
+  return (second.start.getTime() - first.end.getTime()) / 3_600_000;
+}
+
+/**
+ * @function nightRunLength
+ * @description Length of the run of consecutive night-shift days that contains `day`,
+ * given the set of days (as UTC midnight timestamps) on which night shifts start.
+ */
+export function nightRunLength(nightDays: Set<number>, day: Date): number {
+  const anchor = startOfUtcDay(day);
+  if (!nightDays.has(anchor.getTime())) return 0;
+
+  let length = 1;
+  for (let d = addDays(anchor, -1); nightDays.has(d.getTime()); d = addDays(d, -1)) {
+    length++;
+  }
+  for (let d = addDays(anchor, 1); nightDays.has(d.getTime()); d = addDays(d, 1)) {
+    length++;
+  }
+  return length;
+}
+
+/**
+ * @function checkShiftAssignment
+ * @description Checks whether `candidate` can be added to the shifts a person already has
+ * without breaking a hard constraint.
+ *
+ * @param {PlannedShift[]} shifts - The person's other (non-cancelled) shifts
+ * @param {PlannedShift} candidate - The shift that would be assigned
+ * @param {ConstraintLimits} limits - The person's resolved limits
+ * @returns {ConstraintRule | null} The first rule that would be broken, or null if allowed
+ */
+export function checkShiftAssignment(
+  shifts: PlannedShift[],
+  candidate: PlannedShift,
+  limits: ConstraintLimits,
+): ConstraintRule | null {
+  for (const shift of shifts) {
+    if (intervalsOverlap(shift.start, shift.end, candidate.start, candidate.end)) {
+      return 'OVERLAP';
+    }
+  }
+
+  if (limits.minRestHoursBetweenShifts !== null) {
+    for (const shift of shifts) {
+      if (restHoursBetween(shift, candidate) < limits.minRestHoursBetweenShifts) {
+        return 'MIN_REST';
+      }
+    }
+  }
+
+  if (!isNightShift(candidate.start, candidate.end)) {
+    return null;
+  }
+  const nights = shifts.filter((s) => isNightShift(s.start, s.end));
+
+  if (limits.maxNightShiftsPerWeek !== null) {
+    const week = isoWeekKey(candidate.start);
+    const inWeek = nights.filter((s) => isoWeekKey(s.start) === week).length;
+    if (inWeek + 1 > limits.maxNightShiftsPerWeek) {
+      return 'MAX_NIGHT_SHIFTS_PER_WEEK';
+    }
+  }
+
+  if (limits.maxConsecutiveNightShifts !== null) {
+    const nightDays = new Set(nights.map((s) => startOfUtcDay(s.start).getTime()));
+    nightDays.add(startOfUtcDay(candidate.start).getTime());
+    if (nightRunLength(nightDays, candidate.start) > limits.maxConsecutiveNightShifts) {
+      return 'MAX_CONSECUTIVE_NIGHT_SHIFTS';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * @function findConstraintViolations
+ * @description Checks all shifts of one person against their limits and reports every breach.
+ *
+ * @param {PlannedShift[]} shifts - The person's non-cancelled shifts (with activity IDs)
+ * @param {ConstraintLimits} limits - The person's resolved limits
+ * @returns {ConstraintViolation[]} One entry per breach, referencing the offending activities
+ */
+export function findConstraintViolations(
+  shifts: PlannedShift[],
+  limits: ConstraintLimits,
+): ConstraintViolation[] {
+  const violations: ConstraintViolation[] = [];
+  const sorted = [...shifts].sort((a, b) => a.start.getTime() - b.start.getTime());
+  const idOf = (s: PlannedShift) => s.id ?? '';
+
+  // Overlaps and rest, between every pair of shifts that follow each other closely
+  for (let i = 0; i < sorted.length; i++) {
+    for (let j = i + 1; j < sorted.length; j++) {
+      const rest = restHoursBetween(sorted[i], sorted[j]);
+      if (rest < 0) {
+        violations.push({
+          rule: 'OVERLAP',
+          limit: 0,
+          actual: rest,
+          activityIds: [idOf(sorted[i]), idOf(sorted[j])],
+        });
+      } else if (
+        limits.minRestHoursBetweenShifts !== null &&
+        rest < limits.minRestHoursBetweenShifts
+      ) {
+        violations.push({
+          rule: 'MIN_REST',
+          limit: limits.minRestHoursBetweenShifts,
+          actual: rest,
+          activityIds: [idOf(sorted[i]), idOf(sorted[j])],
+        });
+      } else {
+        // sorted[j] starts late enough, so every later shift does too
+        break;
+      }
+    }
+  }
+
+  const nights = sorted.filter((s) => isNightShift(s.start, s.end));
+
+  if (limits.maxNightShiftsPerWeek !== null) {
+    const byWeek = new Map<string, PlannedShift[]>();
+    for (const night of nights) {
+      const week = isoWeekKey(night.start);
+      byWeek.set(week, [...(byWeek.get(week) ?? []), night]);
+    }
+    for (const [week, inWeek] of byWeek) {
+      if (inWeek.length > limits.maxNightShiftsPerWeek) {
+        violations.push({
+          rule: 'MAX_NIGHT_SHIFTS_PER_WEEK',
+          limit: limits.maxNightShiftsPerWeek,
+          actual: inWeek.length,
+          week,
+          activityIds: inWeek.map(idOf),
+        });
+      }
+    }
+  }
+
+  if (limits.maxConsecutiveNightShifts !== null) {
+    let run: PlannedShift[] = [];
+    const flush = () => {
+      const days = new Set(run.map((s) => startOfUtcDay(s.start).getTime()));
+      if (days.size > limits.maxConsecutiveNightShifts!) {
+        violations.push({
+          rule: 'MAX_CONSECUTIVE_NIGHT_SHIFTS',
+          limit: limits.maxConsecutiveNightShifts!,
+          actual: days.size,
+          activityIds: run.map(idOf),
+        });
+      }
+      run = [];
+    };
+    for (const night of nights) {
+      const last = run[run.length - 1];
+      const day = startOfUtcDay(night.start).getTime();
+      if (
+        last &&
+        day !== startOfUtcDay(last.start).getTime() &&
+        day !== addDays(startOfUtcDay(last.start), 1).getTime()
+      ) {
+        flush();
+      }
+      run.push(night);
+    }
+    flush();
+  }
+
+  return violations;
+}
+
+/**
+ * @function findViolationsInPeriod
+ * @description Loads the non-cancelled SHIFT activities around [startDate, endDate] and
+ * reports, per person, every violation that involves at least one shift in the period.
+ * endDate is inclusive: shifts starting later that day still count.
+ *
+ * @example
+ *   const report = await findViolationsInPeriod(new Date('2025-06-01'), new Date('2025-06-30'));
+ */
+export async function findViolationsInPeriod(
+  startDate: Date,
+  endDate: Date,
+): Promise<PersonViolations[]> {
+  const shifts = await prisma.activity.findMany({
+    where: {
+      activityType: 'SHIFT',
+      status: { not: 'CANCELLED' },
+      start: { lt: addDays(endDate, CONTEXT_DAYS) },
+      end: { gt: addDays(startDate, -CONTEXT_DAYS) },
+    },
+    include: {
+      person: { include: { userConstraints: true } },
+    },
+    orderBy: { start: 'asc' },
+  });
+
+  // endDate is a whole day: shifts starting at any time on it are in the period
+  const periodEnd = addDays(startOfUtcDay(endDate), 1);
+  const inPeriod = new Set(
+    shifts
+      .filter((s) => s.start >= startDate && s.start < periodEnd)
+      .map((s) => s.id),
+  );
+
+  const byPerson = new Map<string, typeof shifts>();
+  for (const shift of shifts) {
+    byPerson.set(shift.personId, [...(byPerson.get(shift.personId) ?? []), shift]);
+  }
+
+  const report: PersonViolations[] = [];
+  for (const [personId, personShifts] of byPerson) {
+    const { person } = personShifts[0];
+    const violations = findConstraintViolations(
+      personShifts.map((s) => ({
+        id: s.id,
+        personId: s.personId,
+        start: s.start,
+        end: s.end,
+      })),
+      resolveConstraintLimits(person.userConstraints),
+    ).filter((v) => v.activityIds.some((id) => inPeriod.has(id)));
+
+    if (violations.length) {
+      report.push({
+        personId,
+        firstName: person.firstName,
+        lastName: person.lastName,
+        violations,
+      });
+    }
+  }
+  return report;
+}
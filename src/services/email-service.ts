@@ -8,7 +8,9 @@
  * Key features:
  * - Select provider by setting `EMAIL_PROVIDER` in environment variables to "sendgrid", "resend", or "nodemailer".
  * - All provider-specific API keys or SMTP settings must be set accordingly in `.env.local`.
- * - Provides a `sendEmail` function for general email sending, plus a specialized `sendResetEmail` as an example use case.
+ * - Provides a `sendEmail` function for general email sending, specialized `sendResetEmail`,
+ *   `sendInvitationEmail`, `sendVerificationEmail`, the registration outcome functions,
+ *   `sendNewDeviceEmail` and `sendTwoFactorEnrollmentEmail`.
  *
  * @dependencies
  * - @sendgrid/mail (for SendGrid)
@@ -188,3 +190,252 @@ export async function sendResetEmail(
 
   await sendEmail(recipient, subject, text, html);
 }
+
+/**
+ * @function sendInvitationEmail
+ * @description
+ * Sends the invitation to create a MedEcare account, reusing `sendEmail`.
+ *
+ * @param {string} recipient - The e-mail address of the invitee
+ * @param {string} inviteLink - A URL containing the invitation token
+ * @param {Date} expiresAt - When the link stops working
+ *
+ * @returns {Promise<void>} - Resolves when the email is sent
+ *
+ * @example
+ *  await sendInvitationEmail("new.doctor@example.com", "https://yourapp.com/accept?inviteToken=abc123", expiresAt);
+ */
+export async function sendInvitationEmail(
+  recipient: string,
+  inviteLink: string,
+  expiresAt: Date,
+): Promise<void> {
+  const subject = 'You are invited to MedEcare';
+  const validUntil = expiresAt.toISOString().slice(0, 10);
+  const text = `You have been invited to create a MedEcare account. Choose your password via the link below (valid until ${validUntil}):\n${inviteLink}`;
+  const html = `
+  <p>You have been invited to create a MedEcare account.</p>
+  <p>Please click the link below to choose your password:</p>
+  <p>
+    <a
+      href="${inviteLink}"
+      style="
+        display: inline-block;
+        background-color: #4CAF50;
+        color: white !important;
+        padding: 10px 20px;
+        text-decoration: none;
+        border-radius: 4px;
+        font-weight: bold;
+      "
+      target="_blank"
+      rel="noopener noreferrer"
+    >
+      Create Account
+    </a>
+  </p>
+  <p>The link is valid until ${validUntil} and can be used once.</p>
+`;
+
+  await sendEmail(recipient, subject, text, html);
+}
+
+/**
+ * @function sendVerificationEmail
+ * @description
+ * Sends the link to confirm the e-mail address of a new account, reusing `sendEmail`.
+ *
+ * @param {string} recipient - The e-mail address to confirm
+ * @param {string} verifyLink - A URL containing the verification token
+ *
+ * @returns {Promise<void>} - Resolves when the email is sent
+ *
+ * @example
+ *  await sendVerificationEmail("user@example.com", "https://yourapp.com/verify?verifyToken=abc123");
+ */
+export async function sendVerificationEmail(
+  recipient: string,
+  verifyLink: string,
+): Promise<void> {
+  const subject = 'Confirm your MedEcare e-mail address';
+  const text = `Welcome to MedEcare. Confirm your e-mail address via the link below (valid for 24 hours):\n${verifyLink}`;
+  const html = `
+  <p>Welcome to MedEcare.</p>
+  <p>Please click the link below to confirm your e-mail address:</p>
+  <p>
+    <a
+      href="${verifyLink}"
+      style="
+        display: inline-block;
+        background-color: #4CAF50;
+        color: white !important;
+        padding: 10px 20px;
+        text-decoration: none;
+        border-radius: 4px;
+        font-weight: bold;
+      "
+      target="_blank"
+      rel="noopener noreferrer"
+    >
+      Confirm E-mail Address
+    </a>
+  </p>
+  <p>The link is valid for 24 hours. You can sign in once your address is confirmed.</p>
+`;
+
+  await sendEmail(recipient, subject, text, html);
+}
+
+/**
+ * @function sendRegistrationApprovedEmail
+ * @description
+ * Tells a self-registered applicant that an admin approved their account, reusing `sendEmail`.
+ *
+ * @param {string} recipient - The e-mail address of the applicant
+ * @param {string} loginLink - A URL of the login page
+ *
+ * @returns {Promise<void>} - Resolves when the email is sent
+ *
+ * @example
+ *  await sendRegistrationApprovedEmail("new.doctor@example.com", "https://yourapp.com/login");
+ */
+export async function sendRegistrationApprovedEmail(
+  recipient: string,
+  loginLink: string,
+): Promise<void> {
+  const subject = 'Your MedEcare registration has been approved';
+  const text = `Your MedEcare registration has been approved. You can log in via the link below:\n${loginLink}`;
+  const html = `
+  <p>Your MedEcare registration has been approved.</p>
+  <p>
+    <a
+      href="${loginLink}"
+      style="
+        display: inline-block;
+        background-color: #4CAF50;
+        color: white !important;
+        padding: 10px 20px;
+        text-decoration: none;
+        border-radius: 4px;
+        font-weight: bold;
+      "
+      target="_blank"
+      rel="noopener noreferrer"
+    >
+      Log In
+    </a>
+  </p>
+`;
+
+  await sendEmail(recipient, subject, text, html);
+}
+
+/**
+ * @function sendRegistrationRejectedEmail
+ * @description
+ * Tells a self-registered applicant that an admin rejected their account, and why.
+ *
+ * @param {string} recipient - The e-mail address of the applicant
+ * @param {string} reason - The reason given by the admin
+ *
+ * @returns {Promise<void>} - Resolves when the email is sent
+ *
+ * @example
+ *  await sendRegistrationRejectedEmail("new.doctor@example.com", "Unknown RIZIV number");
+ */
+export async function sendRegistrationRejectedEmail(
+  recipient: string,
+  reason: string,
+): Promise<void> {
+  const subject = 'Your MedEcare registration has been rejected';
+  const text = `Your MedEcare registration has been rejected.\nReason: ${reason}`;
+  const html = `
+  <p>Your MedEcare registration has been rejected.</p>
+  <p>Reason: ${escapeHtml(reason)}</p>
+  <p>Please contact the planning administrator if you think this is a mistake.</p>
+`;
+
+  await sendEmail(recipient, subject, text, html);
+}
+
+/**
+ * @function sendNewDeviceEmail
+ * @description
+ * Warns a user about a sign-in from a device (user agent) their account was not used on before.
+ *
+ * @param {string} recipient - The e-mail address of the user
+ * @param {{ at: Date; ip: string | null; userAgent: string | null; platform: string }} device -
+ *   When and from where the sign-in happened
+ *
+ * @returns {Promise<void>} - Resolves when the email is sent
+ *
+ * @example
+ *  await sendNewDeviceEmail("doctor@example.com", {
+ *    at: new Date(), ip: "203.0.113.7", userAgent: "Mozilla/5.0 ...", platform: "web",
+ *  });
+ */
+export async function sendNewDeviceEmail(
+  recipient: string,
+  device: { at: Date; ip: string | null; userAgent: string | null; platform: string },
+): Promise<void> {
+  const subject = 'New sign-in to your MedEcare account';
+  const details = [
+    `Time: ${device.at.toISOString()}`,
+    `IP address: ${device.ip ?? 'unknown'}`,
+    `Device: ${device.userAgent ?? 'unknown'} (${device.platform})`,
+  ];
+  const text =
+    'Your MedEcare account was just used to sign in from a new device.\n' +
+    details.join('\n') +
+    '\nIf this was not you, change your password and end your other sessions.';
+  const html = `
+  <p>Your MedEcare account was just used to sign in from a new device.</p>
+  <ul>
+    ${details.map((line) => `<li>${escapeHtml(line)}</li>`).join('\n    ')}
+  </ul>
+  <p>If this was not you, change your password and end your other sessions.</p>
+`;
+
+  await sendEmail(recipient, subject, text, html);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * @function sendTwoFactorEnrollmentEmail
+ * @description
+ * Sends the one-time code a user needs to set up two-factor authentication during login.
+ *
+ * @param {string} recipient - The e-mail address of the user
+ * @param {string} code - The 6-digit enrollment code
+ * @param {number} validMinutes - How long the code stays valid
+ *
+ * @returns {Promise<void>} - Resolves when the email is sent
+ *
+ * @example
+ *  await sendTwoFactorEnrollmentEmail("doctor@example.com", "042917", 15);
+ */
+export async function sendTwoFactorEnrollmentEmail(
+  recipient: string,
+  code: string,
+  validMinutes: number,
+): Promise<void> {
+  const subject = 'Your MedEcare two-factor setup code';
+  const text =
+    `Someone signed in with your password and wants to set up two-factor authentication.\n` +
+    `Your setup code is ${code} (valid for ${validMinutes} minutes).\n` +
+    'If this was not you, do not share the code and change your password.';
+  const html = `
+  <p>Someone signed in with your password and wants to set up two-factor authentication.</p>
+  <p>Your setup code is <strong>${code}</strong> (valid for ${validMinutes} minutes).</p>
+  <p>If this was not you, do not share the code and change your password.</p>
+`;
+
+  await sendEmail(recipient, subject, text, html);
+}
@@ -0,0 +1,96 @@
+/**
+ * @description
+ * E-mail verification of self-registered accounts.
+ *
+ * Key features:
+ * - issueVerificationToken: New single-use token for a user (replaces an older one)
+ * - verifyEmailToken: Marks the e-mail address of the token's user as verified
+ * - findResendCandidate: The unverified user a new verification e-mail may be sent to
+ *
+ * @notes
+ * - The local strategy refuses unverified accounts (code EMAIL_NOT_VERIFIED).
+ * - Tokens are stored as SHA-256 hashes and expire after VERIFICATION_TTL_HOURS.
+ * - A new e-mail is sent at most once per RESEND_INTERVAL_SECONDS per account; the route
+ *   is rate-limited per IP on top of that.
+ */
+
+import crypto from 'crypto';
+import { PrismaClient, User } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export const VERIFICATION_TTL_HOURS = 24;
+export const RESEND_INTERVAL_SECONDS = 60;
+
+export type EmailVerificationResult = 'VERIFIED' | 'ALREADY_VERIFIED' | 'INVALID' | 'EXPIRED';
+
+function hashVerificationToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * @function issueVerificationToken
+ * @description Creates a verification token for a user; an earlier token stops working.
+ *
+ * @param {string} userId - personId of the user
+ * @returns {Promise<{ token: string; expiresAt: Date }>} The plain token for the e-mail link
+ */
+export async function issueVerificationToken(
+  userId: string,
+): Promise<{ token: string; expiresAt: Date }> {
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + VERIFICATION_TTL_HOURS * 3_600_000);
+  await prisma.user.update({
+    where: { personId: userId },
+    data: {
+      emailVerificationTokenHash: hashVerificationToken(token),
+      emailVerificationExpire: expiresAt,
+      emailVerificationSentAt: new Date(),
+    },
+  });
+  return { token, expiresAt };
+}
+
+/**
+ * @function verifyEmailToken
+ * @description Confirms the e-mail address of the user the token was sent to.
+ *
+ * @param {string} token - The token from the e-mail link
+ * @returns {Promise<EmailVerificationResult>} What happened; only 'VERIFIED' changes data
+ */
+export async function verifyEmailToken(token: string): Promise<EmailVerificationResult> {
+  const user = await prisma.user.findUnique({
+    where: { emailVerificationTokenHash: hashVerificationToken(token) },
+  });
+  if (!user) return 'INVALID';
+  if (user.emailVerifiedAt) return 'ALREADY_VERIFIED';
+  if (!user.emailVerificationExpire || user.emailVerificationExpire < new Date()) return 'EXPIRED';
+
+  await prisma.user.update({
+    where: { personId: user.personId },
+    data: {
+      emailVerifiedAt: new Date(),
+      emailVerificationTokenHash: null,
+      emailVerificationExpire: null,
+    },
+  });
+  return 'VERIFIED';
+}
+
+/**
+ * @function findResendCandidate
+ * @description
+ * Looks up the unverified user with this e-mail address, unless a verification e-mail
+ * was sent to them less than RESEND_INTERVAL_SECONDS ago.
+ *
+ * @param {string} email - The e-mail address entered by the user
+ * @returns {Promise<User | null>} The user to send a new e-mail to, or null
+ */
+export async function findResendCandidate(email: string): Promise<User | null> {
+  const user = await prisma.user.findUnique({ where: { email } });
+  if (!user || user.emailVerifiedAt) return null;
+
+  const sentAt = user.emailVerificationSentAt?.getTime() ?? 0;
+  if (Date.now() - sentAt < RESEND_INTERVAL_SECONDS * 1000) return null;
+  return user;
+}
@@ -0,0 +1,124 @@
+/**
+ * @description
+ * Holiday calendar: the single source of non-working days for leave counting,
+ * rate premiums and the UI.
+ *
+ * Key features:
+ * - easterSunday: Date of Easter Sunday in a year (Gregorian calendar)
+ * - getBelgianHolidays: The ten Belgian national (legal) holidays of a year
+ * - withClosingDays / getHolidays: National holidays plus the hospital's own closing days
+ * - getHolidayKeys: The same days as a set of "YYYY-MM-DD" keys, for quick lookups
+ *
+ * @notes
+ * - Dates are UTC midnights, like the other planning helpers in utils/date-utils.
+ * - A closing day on a national holiday is listed once, as the national holiday.
+ */
+
+import { ClosingDay, PrismaClient } from '@prisma/client';
+import { addDays, utcDateKey } from '../utils/date-utils';
+
+const prisma = new PrismaClient();
+
+export type HolidayType = 'NATIONAL' | 'CLOSING_DAY';
+
+export interface Holiday {
+  date: Date;
+  name: string;
+  type: HolidayType;
+  closingDayId?: string;
+}
+
+/**
+ * @function easterSunday
+ * @description Computes Easter Sunday with the anonymous Gregorian algorithm (Meeus/Jones/Butcher).
+ *
+ * @example
+ *   easterSunday(2025); // => 2025-04-20T00:00:00.000Z
+ */
+export function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+export function getBelgianHolidays(year: number): Holiday[] {
+  const easter = easterSunday(year);
+  const fixed = (month: number, day: number) => new Date(Date.UTC(year, month - 1, day));
+  const national = (date: Date, name: string): Holiday => ({ date, name, type: 'NATIONAL' });
+
+  return [
+    national(fixed(1, 1), 'Nieuwjaar'),
+    national(addDays(easter, 1), 'Paasmaandag'),
+    national(fixed(5, 1), 'Dag van de Arbeid'),
+    national(addDays(easter, 39), 'O.L.H. Hemelvaart'),
+    national(addDays(easter, 50), 'Pinkstermaandag'),
+    national(fixed(7, 21), 'Nationale feestdag'),
+    national(fixed(8, 15), 'O.L.V. Hemelvaart'),
+    national(fixed(11, 1), 'Allerheiligen'),
+    national(fixed(11, 11), 'Wapenstilstand'),
+    national(fixed(12, 25), 'Kerstmis'),
+  ].sort((x, y) => x.date.getTime() - y.date.getTime());
+}
+
+/**
+ * @function withClosingDays
+ * @description
+ * Adds closing days to the national holidays of a year, in date order. A closing day on
+ * a national holiday is dropped, so every date is listed once.
+ */
+export function withClosingDays(national: Holiday[], closingDays: ClosingDay[]): Holiday[] {
+  const nationalKeys = new Set(national.map((h) => utcDateKey(h.date)));
+  return [
+    ...national,
+    ...closingDays
+      .filter((c) => !nationalKeys.has(utcDateKey(c.date)))
+      .map((c): Holiday => ({
+        date: c.date,
+        name: c.name,
+        type: 'CLOSING_DAY',
+        closingDayId: c.id,
+      })),
+  ].sort((x, y) => x.date.getTime() - y.date.getTime());
+}
+
+/**
+ * @function getHolidays
+ * @description All non-working days of a year: national holidays and closing days.
+ *
+ * @example
+ *   const holidays = await getHolidays(2025);
+ */
+export async function getHolidays(year: number): Promise<Holiday[]> {
+  const closingDays = await prisma.closingDay.findMany({
+    where: {
+      date: {
+        gte: new Date(Date.UTC(year, 0, 1)),
+        lt: new Date(Date.UTC(year + 1, 0, 1)),
+      },
+    },
+  });
+  return withClosingDays(getBelgianHolidays(year), closingDays);
+}
+
+export async function getHolidayKeys(
+  fromYear: number,
+  toYear: number,
+): Promise<Set<string>> {
+  const keys = new Set<string>();
+  for (let year = fromYear; year <= toYear; year++) {
+    (await getHolidays(year)).forEach((h) => keys.add(utcDateKey(h.date)));
+  }
+  return keys;
+}
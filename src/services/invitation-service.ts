@@ -0,0 +1,266 @@
+/**
+ * @description
+ * Account invitations: an admin invites a person by e-mail and the invitee chooses their
+ * own password.
+ *
+ * Key features:
+ * - createInvitation: For an existing person, or a new person (and optionally doctor)
+ * - listInvitations: All invitations, optionally filtered by status
+ * - resendInvitation: New token and expiry for an invitation that was not used yet
+ * - revokeInvitation: The link stops working
+ * - acceptInvitation: Creates the user with the invited role and marks the invitation used
+ *
+ * @notes
+ * - The token is only sent by e-mail; the database stores its SHA-256 hash.
+ * - Every token works once and expires after INVITATION_TTL_DAYS; a resend replaces it.
+ * - The status (PENDING, ACCEPTED, REVOKED, EXPIRED) is derived from the timestamps.
+ * - Accepting and revoking claim the invitation with a conditional update on its open
+ *   state, so an accept that races a revoke (or a second accept) changes nothing.
+ */
+
+import crypto from 'crypto';
+import { Invitation, Person, PrismaClient, User } from '@prisma/client';
+import { ConflictError, NotFoundError, UnprocessableEntityError } from '../utils/app-error';
+import { createUser } from './user-service';
+
+const prisma = new PrismaClient();
+
+export const INVITATION_TTL_DAYS = 7;
+
+export type InvitationStatus = 'PENDING' | 'ACCEPTED' | 'REVOKED' | 'EXPIRED';
+
+export type InvitationRecord = Invitation & { person?: Person };
+
+export interface NewInvitation {
+  email: string;
+  role?: string;
+  personId?: string;
+  person?: {
+    firstName: string;
+    lastName: string;
+    dateOfBirth: Date;
+    employmentStart?: Date | null;
+    employmentEnd?: Date | null;
+  };
+  doctor?: { rizivNumber: string; isEnabledInShifts?: boolean };
+}
+
+export interface IssuedInvitation {
+  invitation: InvitationRecord;
+  token: string;
+}
+
+function hashInvitationToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function newToken(): { token: string; tokenHash: string; expiresAt: Date } {
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * 86_400_000);
+  return { token, tokenHash: hashInvitationToken(token), expiresAt };
+}
+
+export function invitationStatus(invitation: Invitation, now: Date = new Date()): InvitationStatus {
+  if (invitation.acceptedAt) return 'ACCEPTED';
+  if (invitation.revokedAt) return 'REVOKED';
+  return invitation.expiresAt <= now ? 'EXPIRED' : 'PENDING';
+}
+
+async function findOpenInvitation(id: string): Promise<Invitation> {
+  const invitation = await prisma.invitation.findUnique({ where: { id } });
+  if (!invitation) throw new NotFoundError('Invitation not found');
+
+  const status = invitationStatus(invitation);
+  if (status === 'ACCEPTED' || status === 'REVOKED') {
+    throw new ConflictError(`Invitation is already ${status.toLowerCase()}.`, `INVITATION_${status}`);
+  }
+  return invitation;
+}
+
+/**
+ * @function createInvitation
+ * @description
+ * Stores an invitation for an existing person (personId) or for a new person, which is
+ * created together with its doctor record when `doctor` is given.
+ *
+ * @param {NewInvitation} input - E-mail, optional role, and either personId or person
+ * @param {string | null} invitedById - personId of the inviting admin
+ * @returns {Promise<IssuedInvitation>} The invitation and the plain token for the e-mail link
+ * @throws {ConflictError} EMAIL_TAKEN, PERSON_HAS_ACCOUNT or INVITATION_PENDING
+ * @throws {UnprocessableEntityError} UNKNOWN_ROLE
+ */
+export async function createInvitation(
+  input: NewInvitation,
+  invitedById: string | null,
+): Promise<IssuedInvitation> {
+  const { email } = input;
+  if (await prisma.user.findUnique({ where: { email } })) {
+    throw new ConflictError(`User with email ${email} already exists.`, 'EMAIL_TAKEN');
+  }
+
+  const roleName = input.role?.toLowerCase();
+  if (roleName && !(await prisma.role.findUnique({ where: { name: roleName } }))) {
+    throw new UnprocessableEntityError(`Role "${roleName}" not found in the database.`, 'UNKNOWN_ROLE');
+  }
+
+  if (input.personId) {
+    const person = await prisma.person.findUnique({
+      where: { id: input.personId },
+      include: { user: true },
+    });
+    if (!person) throw new NotFoundError(`Person with ID ${input.personId} not found.`);
+    if (person.user) {
+      throw new ConflictError('This person already has an account.', 'PERSON_HAS_ACCOUNT');
+    }
+  }
+
+  const open = await prisma.invitation.findFirst({
+    where: {
+      OR: [{ email }, ...(input.personId ? [{ personId: input.personId }] : [])],
+      acceptedAt: null,
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+  });
+  if (open) {
+    throw new ConflictError(
+      'An invitation is still pending; resend or revoke it instead.',
+      'INVITATION_PENDING',
+    );
+  }
+
+  const { token, tokenHash, expiresAt } = newToken();
+  const invitation = await prisma.$transaction(async (tx) => {
+    let personId = input.personId;
+    if (!personId && input.person) {
+      const person = await tx.person.create({ data: input.person });
+      personId = person.id;
+      if (input.doctor) {
+        await tx.doctor.create({
+          data: {
+            personId,
+            rizivNumber: input.doctor.rizivNumber,
+            isEnabledInShifts: input.doctor.isEnabledInShifts ?? true,
+          },
+        });
+      }
+    }
+
+    return tx.invitation.create({
+      data: {
+        email,
+        role: roleName ?? null,
+        personId: personId!,
+        tokenHash,
+        expiresAt,
+        sentAt: new Date(),
+        invitedById,
+      },
+      include: { person: true },
+    });
+  });
+
+  return { invitation, token };
+}
+
+/**
+ * @function listInvitations
+ * @description Retrieves invitations with their person, newest first.
+ *
+ * @param {InvitationStatus} [status] - Only invitations with this status
+ * @returns {Promise<InvitationRecord[]>} The invitations
+ */
+export async function listInvitations(status?: InvitationStatus): Promise<InvitationRecord[]> {
+  const now = new Date();
+  const where = {
+    PENDING: { acceptedAt: null, revokedAt: null, expiresAt: { gt: now } },
+    ACCEPTED: { acceptedAt: { not: null } },
+    REVOKED: { acceptedAt: null, revokedAt: { not: null } },
+    EXPIRED: { acceptedAt: null, revokedAt: null, expiresAt: { lte: now } },
+  };
+  return prisma.invitation.findMany({
+    where: status ? where[status] : undefined,
+    include: { person: true },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * @function resendInvitation
+ * @description Issues a new token and expiry for a pending or expired invitation.
+ *
+ * @param {string} id - Invitation id
+ * @returns {Promise<IssuedInvitation>} The updated invitation and the new plain token
+ * @throws {ConflictError} When the invitation was already accepted or revoked
+ */
+export async function resendInvitation(id: string): Promise<IssuedInvitation> {
+  await findOpenInvitation(id);
+  const { token, tokenHash, expiresAt } = newToken();
+  const invitation = await prisma.invitation.update({
+    where: { id },
+    data: { tokenHash, expiresAt, sentAt: new Date() },
+    include: { person: true },
+  });
+  return { invitation, token };
+}
+
+/**
+ * @function revokeInvitation
+ * @description Makes the link of a pending or expired invitation unusable.
+ *
+ * @param {string} id - Invitation id
+ * @returns {Promise<InvitationRecord>} The revoked invitation
+ * @throws {ConflictError} When the invitation was already accepted or revoked
+ */
+export async function revokeInvitation(id: string): Promise<InvitationRecord> {
+  await findOpenInvitation(id);
+  const revoked = await prisma.invitation.updateMany({
+    where: { id, acceptedAt: null, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  if (revoked.count !== 1) {
+    // Accepted or revoked since the check above
+    await findOpenInvitation(id);
+  }
+  return prisma.invitation.findUniqueOrThrow({ where: { id }, include: { person: true } });
+}
+
+/**
+ * @function acceptInvitation
+ * @description Creates the account of the invitee with the chosen password.
+ *
+ * @param {string} token - The token from the e-mail link
+ * @param {string} password - The password chosen by the invitee (strength already checked)
+ * @returns {Promise<{ user: User; invitation: Invitation } | null>} null when the token is
+ *   unknown, used, revoked or expired
+ */
+export async function acceptInvitation(
+  token: string,
+  password: string,
+): Promise<{ user: User; invitation: Invitation } | null> {
+  const tokenHash = hashInvitationToken(token);
+  const now = new Date();
+
+  return prisma.$transaction(async (tx) => {
+    // Claim the invitation first: a revoke, expiry or other accept leaves count 0
+    const claimed = await tx.invitation.updateMany({
+      where: { tokenHash, acceptedAt: null, revokedAt: null, expiresAt: { gt: now } },
+      data: { acceptedAt: now },
+    });
+    if (claimed.count !== 1) return null;
+
+    const invitation = await tx.invitation.findUniqueOrThrow({ where: { tokenHash } });
+    // Rolls the claim back when the account cannot be created (e.g. the e-mail is taken)
+    const user = await createUser(
+      {
+        email: invitation.email,
+        password,
+        role: invitation.role ?? undefined,
+        personId: invitation.personId,
+        emailVerified: true, // the invitee opened the link sent to this address
+      },
+      tx,
+    );
+    return { user, invitation };
+  });
+}
@@ -0,0 +1,228 @@
+/**
+ * @description
+ * Leave balance accounting per person, year and leave category.
+ *
+ * Key features:
+ * - countWorkingDays: Working days within a period (no weekends, no holidays or closing days)
+ * - accumulateLeaveBalance: Applies entitlements and carry-over rules year after year
+ * - getLeaveBalance / getLeaveBalances: Balances of a person, calculated from the database
+ * - evaluateLeaveRequest: The balance impact of a leave request, per year it touches
+ *
+ * @notes
+ * - Taken days come from non-cancelled activities whose activityType equals the leave
+ *   category (approved leave requests create exactly those activities).
+ * - Pending days are those of leave requests that still await a decision.
+ * - Carry-over: whatever is left at the end of a year moves to the next year, capped at
+ *   that year's maxCarryOverDays. A negative balance is not carried over.
+ * - Each day counts as a whole day; a day is counted when the leave covers any part of it.
+ */
+
+import { LeaveEntitlement, PrismaClient } from '@prisma/client';
+import { CANCELLED_STATUS } from './activity-service';
+import { getHolidayKeys } from './holiday-service';
+import {
+  addDays,
+  intervalsOverlap,
+  isoWeekday,
+  startOfUtcDay,
+  utcDateKey,
+} from '../utils/date-utils';
+
+const prisma = new PrismaClient();
+
+export interface LeaveBalance {
+  personId: string;
+  year: number;
+  leaveType: string;
+  entitled: number;
+  carriedOver: number;
+  taken: number;
+  pending: number;
+  remaining: number;
+}
+
+export interface LeaveRequestEvaluation extends LeaveBalance {
+  requestedDays: number;
+  remainingAfterApproval: number;
+}
+
+type EntitlementRule = Pick<LeaveEntitlement, 'year' | 'days' | 'maxCarryOverDays'>;
+
+/**
+ * @function countWorkingDays
+ * @description Counts the weekdays in [start, end) that are not public holidays.
+ *
+ * @param {Date} start - Start of the period
+ * @param {Date} end - End of the period (exclusive)
+ * @param {Set<string>} holidays - Holiday keys as produced by utcDateKey
+ * @param {number} [year] - Only count days in this calendar year
+ *
+ * @example
+ *   // Monday 2025-07-14 .. Friday 2025-07-25, with 21 July as holiday => 9
+ *   countWorkingDays(new Date('2025-07-14'), new Date('2025-07-26'), holidays);
+ */
+export function countWorkingDays(
+  start: Date,
+  end: Date,
+  holidays: Set<string>,
+  year?: number,
+): number {
+  let count = 0;
+  for (let day = startOfUtcDay(start); day < end; day = addDays(day, 1)) {
+    if (!intervalsOverlap(day, addDays(day, 1), start, end)) continue;
+    if (year !== undefined && day.getUTCFullYear() !== year) continue;
+    if (isoWeekday(day) > 5 || holidays.has(utcDateKey(day))) continue;
+    count++;
+  }
+  return count;
+}
+
+/**
+ * @function accumulateLeaveBalance
+ * @description Walks from the first entitlement year up to `year`, carrying unused days over.
+ *
+ * @param {number} year - The year to calculate the balance for
+ * @param {EntitlementRule[]} entitlements - Entitlements of one person and category
+ * @param {Map<number, number>} takenByYear - Working days taken per year
+ */
+export function accumulateLeaveBalance(
+  year: number,
+  entitlements: EntitlementRule[],
+  takenByYear: Map<number, number>,
+): { entitled: number; carriedOver: number; taken: number; remaining: number } {
+  const firstYear = Math.min(year, ...entitlements.map((e) => e.year));
+  let carriedOver = 0;
+  let result = { entitled: 0, carriedOver: 0, taken: 0, remaining: 0 };
+
+  for (let y = firstYear; y <= year; y++) {
+    const entitlement = entitlements.find((e) => e.year === y);
+    const entitled = entitlement?.days ?? 0;
+    const taken = takenByYear.get(y) ?? 0;
+    const remaining = entitled + carriedOver - taken;
+    result = { entitled, carriedOver, taken, remaining };
+    carriedOver = Math.max(0, Math.min(remaining, entitlement?.maxCarryOverDays ?? 0));
+  }
+  return result;
+}
+
+function yearBounds(fromYear: number, toYear: number): { start: Date; end: Date } {
+  return {
+    start: new Date(Date.UTC(fromYear, 0, 1)),
+    end: new Date(Date.UTC(toYear + 1, 0, 1)),
+  };
+}
+
+/**
+ * @function getLeaveBalance
+ * @description Calculates the balance of one leave category of a person for a year.
+ *
+ * @param {string} [excludeLeaveRequestId] - Leave request not to count as pending,
+ *   e.g. the one being evaluated
+ */
+export async function getLeaveBalance(
+  personId: string,
+  leaveType: string,
+  year: number,
+  excludeLeaveRequestId?: string,
+): Promise<LeaveBalance> {
+  const entitlements = await prisma.leaveEntitlement.findMany({
+    where: { personId, leaveType, year: { lte: year } },
+  });
+  const firstYear = Math.min(year, ...entitlements.map((e) => e.year));
+  const { start, end } = yearBounds(firstYear, year);
+  const holidays = await getHolidayKeys(firstYear, year);
+
+  const activities = await prisma.activity.findMany({
+    where: {
+      personId,
+      activityType: leaveType,
+      status: { not: CANCELLED_STATUS },
+      start: { lt: end },
+      end: { gt: start },
+    },
+  });
+  const takenByYear = new Map<number, number>();
+  for (let y = firstYear; y <= year; y++) {
+    takenByYear.set(
+      y,
+      activities.reduce((sum, a) => sum + countWorkingDays(a.start, a.end, holidays, y), 0),
+    );
+  }
+
+  const pendingRequests = await prisma.leaveRequest.findMany({
+    where: {
+      personId,
+      leaveType,
+      status: 'REQUESTED',
+      start: { lt: yearBounds(year, year).end },
+      end: { gt: yearBounds(year, year).start },
+      ...(excludeLeaveRequestId && { id: { not: excludeLeaveRequestId } }),
+    },
+  });
+  const pending = pendingRequests.reduce(
+    (sum, r) => sum + countWorkingDays(r.start, r.end, holidays, year),
+    0,
+  );
+
+  return {
+    personId,
+    year,
+    leaveType,
+    ...accumulateLeaveBalance(year, entitlements, takenByYear),
+    pending,
+  };
+}
+
+/**
+ * @function getLeaveBalances
+ * @description Balances of every leave category a person has an entitlement for in
+ * `year` (or the year before, because of carry-over).
+ */
+export async function getLeaveBalances(
+  personId: string,
+  year: number,
+): Promise<LeaveBalance[]> {
+  const entitlements = await prisma.leaveEntitlement.findMany({
+    where: { personId, year: { in: [year - 1, year] } },
+    select: { leaveType: true },
+  });
+  const leaveTypes = [...new Set(entitlements.map((e) => e.leaveType))].sort();
+
+  const balances: LeaveBalance[] = [];
+  for (const leaveType of leaveTypes) {
+    balances.push(await getLeaveBalance(personId, leaveType, year));
+  }
+  return balances;
+}
+
+/**
+ * @function evaluateLeaveRequest
+ * @description Shows what a leave request costs, for every calendar year it touches.
+ * For an approved request the days are already part of `taken`.
+ */
+export async function evaluateLeaveRequest(leave: {
+  id: string;
+  personId: string;
+  leaveType: string;
+  start: Date;
+  end: Date;
+  status: string;
+}): Promise<LeaveRequestEvaluation[]> {
+  const lastMoment = new Date(leave.end.getTime() - 1);
+  const fromYear = leave.start.getUTCFullYear();
+  const toYear = Math.max(fromYear, lastMoment.getUTCFullYear());
+  const holidays = await getHolidayKeys(fromYear, toYear);
+
+  const evaluations: LeaveRequestEvaluation[] = [];
+  for (let year = fromYear; year <= toYear; year++) {
+    const balance = await getLeaveBalance(leave.personId, leave.leaveType, year, leave.id);
+    const requestedDays = countWorkingDays(leave.start, leave.end, holidays, year);
+    evaluations.push({
+      ...balance,
+      requestedDays,
+      remainingAfterApproval:
+        leave.status === 'REQUESTED' ? balance.remaining - requestedDays : balance.remaining,
+    });
+  }
+  return evaluations;
+}
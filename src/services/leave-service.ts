@@ -0,0 +1,171 @@
+/**
+ * @description
+ * Workflow logic for leave (verlof) requests.
+ *
+ * Key features:
+ * - findCollidingShifts: The SHIFT activities of a person during a leave period
+ * - approveLeave: Marks a request APPROVED and creates its leave activity
+ * - rejectLeave: Marks a request REJECTED
+ * - cancelLeave: Marks a request CANCELLED and cancels its leave activity, if any
+ *
+ * @notes
+ * - Flow: REQUESTED -> APPROVED/REJECTED (admin) -> CANCELLED (requester or admin).
+ *   Rejected requests are final.
+ * - Approval never fails on colliding shifts; they are returned as a warning so the
+ *   planner can reassign them.
+ * - Every decision claims the request with a conditional update on the statuses it may
+ *   start from, so of two concurrent decisions (e.g. approve and cancel) only one succeeds.
+ */
+
+import { Activity, Prisma, PrismaClient, ShiftType } from '@prisma/client';
+import { CANCELLED_STATUS, findOverlappingActivities } from './activity-service';
+import { ConflictError } from '../utils/app-error';
+
+const prisma = new PrismaClient();
+
+export type LeaveStatus = 'REQUESTED' | 'APPROVED' | 'REJECTED' | 'CANCELLED';
+
+/** The statuses a request can still be cancelled from. */
+export const OPEN_STATUSES: LeaveStatus[] = ['REQUESTED', 'APPROVED'];
+
+export const leaveInclude = {
+  person: true,
+  approver: true,
+  activity: true,
+} satisfies Prisma.LeaveRequestInclude;
+
+export type LeaveWithDetails = Prisma.LeaveRequestGetPayload<{
+  include: typeof leaveInclude;
+}>;
+
+export async function findCollidingShifts(
+  personId: string,
+  start: Date,
+  end: Date,
+): Promise<(Activity & { shiftType: ShiftType | null })[]> {
+  const overlapping = await findOverlappingActivities(personId, start, end);
+  return overlapping.filter((a) => a.activityType === 'SHIFT');
+}
+
+/**
+ * Moves a request from one of `from` to a new status.
+ *
+ * @throws {ConflictError} LEAVE_STATE_CHANGED when another decision won the race
+ */
+async function claimLeave(
+  tx: Prisma.TransactionClient,
+  id: string,
+  from: LeaveStatus[],
+  data: Prisma.LeaveRequestUncheckedUpdateManyInput,
+): Promise<void> {
+  const claimed = await tx.leaveRequest.updateMany({
+    where: { id, status: { in: from } },
+    data,
+  });
+  if (claimed.count !== 1) {
+    throw new ConflictError('The leave request was changed in the meantime.', 'LEAVE_STATE_CHANGED');
+  }
+}
+
+/**
+ * @function approveLeave
+ * @description Approves a leave request and creates the matching activity in one transaction.
+ *
+ * @param {LeaveWithDetails} leave - A request with status REQUESTED
+ * @param {string} approverId - personId of the approving admin
+ * @param {string} [comment] - Optional comment of the approver
+ * @returns The approved request and the SHIFT activities it collides with
+ * @throws {ConflictError} LEAVE_STATE_CHANGED when the request is no longer REQUESTED
+ */
+export async function approveLeave(
+  leave: LeaveWithDetails,
+  approverId: string,
+  comment?: string,
+): Promise<{
+  leaveRequest: LeaveWithDetails;
+  collidingShifts: (Activity & { shiftType: ShiftType | null })[];
+}> {
+  const collidingShifts = await findCollidingShifts(
+    leave.personId,
+    leave.start,
+    leave.end,
+  );
+
+  const leaveRequest = await prisma.$transaction(async (tx) => {
+    await claimLeave(tx, leave.id, ['REQUESTED'], {
+      status: 'APPROVED',
+      approverId,
+      approverComment: comment,
+      decidedAt: new Date(),
+    });
+    const activity = await tx.activity.create({
+      data: {
+        activityType: leave.leaveType,
+        start: leave.start,
+        end: leave.end,
+        status: 'SCHEDULED',
+        personId: leave.personId,
+      },
+    });
+    return tx.leaveRequest.update({
+      where: { id: leave.id },
+      data: { activityId: activity.id },
+      include: leaveInclude,
+    });
+  });
+
+  return { leaveRequest, collidingShifts };
+}
+
+/**
+ * @function rejectLeave
+ * @description Rejects a leave request. Rejection is final.
+ *
+ * @throws {ConflictError} LEAVE_STATE_CHANGED when the request is no longer REQUESTED
+ */
+export async function rejectLeave(
+  leave: LeaveWithDetails,
+  approverId: string,
+  comment?: string,
+): Promise<LeaveWithDetails> {
+  return prisma.$transaction(async (tx) => {
+    await claimLeave(tx, leave.id, ['REQUESTED'], {
+      status: 'REJECTED',
+      approverId,
+      approverComment: comment,
+      decidedAt: new Date(),
+    });
+    return tx.leaveRequest.findUniqueOrThrow({
+      where: { id: leave.id },
+      include: leaveInclude,
+    });
+  });
+}
+
+/**
+ * @function cancelLeave
+ * @description Cancels a leave request. The activity of an approved request is kept
+ * for history but gets status CANCELLED, so it no longer blocks planning.
+ *
+ * @throws {ConflictError} LEAVE_STATE_CHANGED when the request is no longer open
+ */
+export async function cancelLeave(leave: LeaveWithDetails): Promise<LeaveWithDetails> {
+  return prisma.$transaction(async (tx) => {
+    await claimLeave(tx, leave.id, OPEN_STATUSES, { status: 'CANCELLED' });
+    // Read the activity after the claim: an approval may have landed since `leave` was loaded
+    const { activityId } = await tx.leaveRequest.findUniqueOrThrow({
+      where: { id: leave.id },
+      select: { activityId: true },
+    });
+    if (activityId) {
+      await tx.activity.update({
+        where: { id: activityId },
+        data: { status: CANCELLED_STATUS },
+      });
+    }
+    return tx.leaveRequest.findUniqueOrThrow({
+      where: { id: leave.id },
+      include: leaveInclude,
+    });
+  });
+}
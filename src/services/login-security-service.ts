@@ -0,0 +1,215 @@
+/**
+ * @description
+ * Per-account lockout and the security log of sign-in attempts.
+ *
+ * Key features:
+ * - lockoutMinutes / activeLock / lockedInfo: Progressive lockout after repeated failed logins
+ * - registerFailedLogin / unlockUser: Counts failures per account; admins lift a lockout
+ * - recordFailedLogin / recordSuccessfulLogin: LoginEvent rows with IP, user agent and platform
+ * - listLoginEvents: Recent sign-ins of a user, newest first
+ *
+ * @notes
+ * - loginRateLimiter throttles per IP; this counts per account, so an attack spread over
+ *   many IPs still locks the account.
+ * - Wrong passwords and wrong 2FA codes both count. The counter is only reset by a
+ *   completed login, so knowing the password does not reset the 2FA attempts.
+ * - While locked, a wrong password gets the generic invalid-credentials answer and does
+ *   not extend the lock; only the right password learns that the account is locked.
+ * - A successful sign-in from a user agent the account never signed in with before is
+ *   flagged newDevice and e-mailed to the user (not on the very first sign-in).
+ */
+
+import { LoginEvent, PrismaClient, User } from '@prisma/client';
+import { NotFoundError } from '../utils/app-error';
+import { SessionDevice } from './auth-service';
+import { sendNewDeviceEmail } from './email-service';
+
+const prisma = new PrismaClient();
+
+export const LOCKOUT_THRESHOLD = 5;
+const LOCKOUT_BASE_MINUTES = 15;
+const LOCKOUT_MAX_MINUTES = 24 * 60;
+
+/**
+ * @function lockoutMinutes
+ * @description
+ * How long an account is locked after `failedCount` consecutive failures: 15 minutes at
+ * the threshold, doubling with every further failure, at most a day.
+ *
+ * @returns {number} 0 below the threshold
+ */
+export function lockoutMinutes(failedCount: number): number {
+  if (failedCount < LOCKOUT_THRESHOLD) return 0;
+  const minutes = LOCKOUT_BASE_MINUTES * 2 ** (failedCount - LOCKOUT_THRESHOLD);
+  return Math.min(minutes, LOCKOUT_MAX_MINUTES);
+}
+
+/**
+ * @function activeLock
+ * @description The end of the lockout of an account, if it is locked at `now`.
+ *
+ * @returns {Date | null} null when the account is not locked
+ */
+export function activeLock(
+  user: Pick<User, 'lockedUntil'>,
+  now: Date = new Date(),
+): Date | null {
+  return user.lockedUntil && user.lockedUntil > now ? user.lockedUntil : null;
+}
+
+/**
+ * @function lockedInfo
+ * @description Why a login is refused while the account is locked, in the shape of a LoginBlock.
+ */
+export function lockedInfo(lockedUntil: Date) {
+  return {
+    message: 'Too many failed login attempts. Try again later.',
+    code: 'ACCOUNT_LOCKED' as const,
+    lockedUntil,
+  };
+}
+
+/**
+ * @function registerFailedLogin
+ * @description Counts a failed password or 2FA code and locks the account at the threshold.
+ *
+ * @param {string} userId - personId of the user
+ * @returns {Promise<User>} The user with the new counter and lock
+ */
+export async function registerFailedLogin(userId: string, now: Date = new Date()): Promise<User> {
+  const user = await prisma.user.update({
+    where: { personId: userId },
+    data: { failedLoginCount: { increment: 1 }, lastFailedLoginAt: now },
+  });
+  const minutes = lockoutMinutes(user.failedLoginCount);
+  if (minutes === 0) return user;
+
+  return prisma.user.update({
+    where: { personId: userId },
+    data: { lockedUntil: new Date(now.getTime() + minutes * 60_000) },
+  });
+}
+
+/**
+ * @function clearFailedLogins
+ * @description Resets the counter and lock after a completed login.
+ */
+async function clearFailedLogins(userId: string): Promise<void> {
+  await prisma.user.updateMany({
+    where: { personId: userId, OR: [{ failedLoginCount: { gt: 0 } }, { lockedUntil: { not: null } }] },
+    data: { failedLoginCount: 0, lockedUntil: null },
+  });
+}
+
+/**
+ * @function unlockUser
+ * @description Lifts the lockout of an account and resets its failed-login counter.
+ *
+ * @param {string} userId - personId of the user
+ * @returns {Promise<User>} The unlocked user
+ * @throws {NotFoundError} When the user does not exist
+ */
+export async function unlockUser(userId: string): Promise<User> {
+  const existing = await prisma.user.findUnique({ where: { personId: userId } });
+  if (!existing) throw new NotFoundError('User not found');
+
+  return prisma.user.update({
+    where: { personId: userId },
+    data: { failedLoginCount: 0, lockedUntil: null },
+  });
+}
+
+/**
+ * @function recordFailedLogin
+ * @description Logs a refused sign-in attempt.
+ *
+ * @param {string} email - The e-mail address as entered
+ * @param {string} reason - e.g. INVALID_CREDENTIALS, ACCOUNT_LOCKED, INVALID_TWO_FACTOR_CODE
+ * @param {SessionDevice} device - Platform, user agent and IP of the request
+ * @returns {Promise<LoginEvent>} The logged event
+ */
+export async function recordFailedLogin(
+  email: string,
+  reason: string,
+  device: SessionDevice,
+): Promise<LoginEvent> {
+  const user = await prisma.user.findUnique({ where: { email } });
+  return prisma.loginEvent.create({
+    data: {
+      userId: user?.personId ?? null,
+      email,
+      success: false,
+      reason,
+      platform: device.platform,
+      userAgent: device.userAgent ?? null,
+      ip: device.ip ?? null,
+    },
+  });
+}
+
+/**
+ * @function recordSuccessfulLogin
+ * @description
+ * Logs a completed login, resets the failed-login counter and warns the user by e-mail
+ * when the sign-in comes from a new device.
+ *
+ * @param {{ personId: string; email: string }} user - The user that logged in
+ * @param {SessionDevice} device - Platform, user agent and IP of the request
+ * @returns {Promise<LoginEvent>} The logged event
+ */
+export async function recordSuccessfulLogin(
+  user: { personId: string; email: string },
+  device: SessionDevice,
+): Promise<LoginEvent> {
+  await clearFailedLogins(user.personId);
+
+  const userAgent = device.userAgent ?? null;
+  const [earlierSignIns, fromThisDevice] = await Promise.all([
+    prisma.loginEvent.count({ where: { userId: user.personId, success: true } }),
+    prisma.loginEvent.count({ where: { userId: user.personId, success: true, userAgent } }),
+  ]);
+  const newDevice = earlierSignIns > 0 && fromThisDevice === 0;
+
+  const event = await prisma.loginEvent.create({
+    data: {
+      userId: user.personId,
+      email: user.email,
+      success: true,
+      platform: device.platform,
+      userAgent,
+      ip: device.ip ?? null,
+      newDevice,
+    },
+  });
+
+  if (newDevice) {
+    try {
+      await sendNewDeviceEmail(user.email, {
+        at: event.createdAt,
+        ip: event.ip,
+        userAgent: event.userAgent,
+        platform: event.platform,
+      });
+    } catch (error) {
+      // The login itself succeeded; a mail outage must not block it
+      console.error(`Could not send new device email to ${user.email}:`, error);
+    }
+  }
+  return event;
+}
+
+/**
+ * @function listLoginEvents
+ * @description Recent sign-in attempts of a user (successful and refused), newest first.
+ *
+ * @param {string} userId - personId of the user
+ * @param {number} [limit=50] - Maximum number of events
+ * @returns {Promise<LoginEvent[]>} The events
+ */
+export async function listLoginEvents(userId: string, limit = 50): Promise<LoginEvent[]> {
+  return prisma.loginEvent.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+}
@@ -0,0 +1,256 @@
+/**
+ * @description
+ * Approval queue for self-registered doctors.
+ *
+ * Key features:
+ * - registerApplicant: Creates the person, account, doctor and pending registration of a
+ *   self-registration in one transaction
+ * - listRegistrations: All registrations, optionally filtered by status
+ * - approveRegistration: Grants the role and shift eligibility
+ * - rejectRegistration: Records the reason; the account stays without roles
+ *
+ * @notes
+ * - POST /auth/register creates the user without roles and the doctor disabled in shifts;
+ *   both are only granted on approval.
+ * - A person that already is a doctor, or has a pending invitation, cannot self-register:
+ *   their account comes from an admin invitation instead.
+ * - The local strategy refuses accounts whose registration is PENDING or REJECTED.
+ * - Users created by an admin or through an invitation have no Registration.
+ * - Decisions claim the registration with a conditional update on PENDING inside their
+ *   transaction, so of a concurrent approve and reject only one takes effect.
+ */
+
+import { Prisma, PrismaClient, Registration, User } from '@prisma/client';
+import bcrypt from 'bcrypt';
+import { PersonRecord } from '../dto/person-dto';
+import { ConflictError, NotFoundError, UnprocessableEntityError } from '../utils/app-error';
+
+const prisma = new PrismaClient();
+
+export type RegistrationStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+export type RegistrationRecord = Registration & { person?: PersonRecord & { user?: User | null } };
+
+export interface Applicant {
+  email: string;
+  password: string;
+  firstName: string;
+  lastName: string;
+  dateOfBirth: Date;
+  rizivNumber: string;
+  role?: string;
+  isEnabledInShifts: boolean;
+}
+
+export interface RegistrationApproval {
+  role?: string;
+  isEnabledInShifts?: boolean;
+}
+
+const registrationInclude = { person: { include: { user: true, doctor: true } } };
+
+async function findRole(name: string) {
+  const role = await prisma.role.findUnique({ where: { name: name.toLowerCase() } });
+  if (!role) {
+    throw new UnprocessableEntityError(`Role "${name.toLowerCase()}" not found in the database.`, 'UNKNOWN_ROLE');
+  }
+  return role;
+}
+
+async function findPendingRegistration(id: string): Promise<Registration> {
+  const registration = await prisma.registration.findUnique({ where: { id } });
+  if (!registration) throw new NotFoundError('Registration not found');
+  if (registration.status !== 'PENDING') {
+    throw new ConflictError(
+      `Registration is already ${registration.status.toLowerCase()}.`,
+      `REGISTRATION_${registration.status}`,
+    );
+  }
+  return registration;
+}
+
+/**
+ * Moves a registration from PENDING to its decision.
+ *
+ * @throws {ConflictError} REGISTRATION_STATE_CHANGED when another decision won the race
+ */
+async function claimPendingRegistration(
+  tx: Prisma.TransactionClient,
+  id: string,
+  data: Prisma.RegistrationUncheckedUpdateManyInput,
+): Promise<void> {
+  const claimed = await tx.registration.updateMany({
+    where: { id, status: 'PENDING' },
+    data,
+  });
+  if (claimed.count !== 1) {
+    throw new ConflictError(
+      'The registration was decided in the meantime.',
+      'REGISTRATION_STATE_CHANGED',
+    );
+  }
+}
+
+/**
+ * @function registerApplicant
+ * @description
+ * Puts a self-registered doctor in the approval queue: the account without roles, the
+ * doctor out of the shifts and the registration with what the applicant asked for.
+ *
+ * @param {Applicant} applicant - The validated registration form
+ * @returns {Promise<User>} The new, unverified account
+ * @throws {ConflictError} EMAIL_TAKEN, PERSON_HAS_ACCOUNT, PERSON_IS_DOCTOR or
+ *   INVITATION_PENDING
+ * @throws {UnprocessableEntityError} UNKNOWN_ROLE
+ *
+ * @notes
+ * - An existing person (same name and date of birth) without account is reused.
+ * - Everything is checked up front and written in one transaction, so a refused or failed
+ *   registration leaves no account or queue entry behind.
+ */
+export async function registerApplicant(applicant: Applicant): Promise<User> {
+  const { email, firstName, lastName, dateOfBirth } = applicant;
+  if (applicant.role) await findRole(applicant.role);
+
+  if (await prisma.user.findUnique({ where: { email } })) {
+    throw new ConflictError(`User with email ${email} already exists.`, 'EMAIL_TAKEN');
+  }
+  const existingPerson = await prisma.person.findFirst({
+    where: { firstName, lastName, dateOfBirth },
+    include: { user: true, doctor: true },
+  });
+  if (existingPerson?.user) {
+    throw new ConflictError('This person already has an account.', 'PERSON_HAS_ACCOUNT');
+  }
+  if (existingPerson?.doctor) {
+    throw new ConflictError(
+      'This person is already registered as a doctor; ask an admin for an invitation.',
+      'PERSON_IS_DOCTOR',
+    );
+  }
+  const pendingInvitation = await prisma.invitation.findFirst({
+    where: {
+      OR: [{ email }, ...(existingPerson ? [{ personId: existingPerson.id }] : [])],
+      acceptedAt: null,
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+  });
+  if (pendingInvitation) {
+    throw new ConflictError(
+      'An invitation is pending for this person; use the link in the invitation e-mail.',
+      'INVITATION_PENDING',
+    );
+  }
+
+  const password = await bcrypt.hash(applicant.password, 10);
+  const requested = {
+    requestedRole: applicant.role?.toLowerCase() ?? null,
+    requestedIsEnabledInShifts: applicant.isEnabledInShifts,
+  };
+
+  return prisma.$transaction(async (tx) => {
+    const person =
+      existingPerson ?? (await tx.person.create({ data: { firstName, lastName, dateOfBirth } }));
+
+    // A person whose earlier account was deleted applies again: back to the queue
+    await tx.registration.upsert({
+      where: { personId: person.id },
+      create: { personId: person.id, ...requested },
+      update: { ...requested, status: 'PENDING', reviewerId: null, reason: null, decidedAt: null },
+    });
+    // Out of the shifts until the registration is approved
+    await tx.doctor.create({
+      data: { personId: person.id, rizivNumber: applicant.rizivNumber, isEnabledInShifts: false },
+    });
+    return tx.user.create({ data: { personId: person.id, email, password } });
+  });
+}
+
+/**
+ * @function listRegistrations
+ * @description Retrieves registrations with their person, account and doctor, oldest first.
+ *
+ * @param {RegistrationStatus} [status] - Only registrations with this status
+ * @returns {Promise<RegistrationRecord[]>} The registrations
+ */
+export async function listRegistrations(status?: RegistrationStatus): Promise<RegistrationRecord[]> {
+  return prisma.registration.findMany({
+    where: status ? { status } : undefined,
+    include: registrationInclude,
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * @function approveRegistration
+ * @description Grants the role and shift eligibility of a pending registration.
+ *
+ * @param {string} id - Registration id
+ * @param {string} reviewerId - personId of the approving admin
+ * @param {RegistrationApproval} approval - Overrides for what the applicant asked for
+ * @returns {Promise<RegistrationRecord>} The approved registration
+ * @throws {NotFoundError} When the registration or its account does not exist
+ * @throws {ConflictError} When the registration was already decided, also concurrently
+ * @throws {UnprocessableEntityError} UNKNOWN_ROLE
+ */
+export async function approveRegistration(
+  id: string,
+  reviewerId: string,
+  approval: RegistrationApproval,
+): Promise<RegistrationRecord> {
+  const registration = await findPendingRegistration(id);
+  const role = await findRole(approval.role ?? registration.requestedRole ?? 'user');
+
+  const user = await prisma.user.findUnique({ where: { personId: registration.personId } });
+  if (!user) throw new NotFoundError('The account of this registration no longer exists.');
+
+  return prisma.$transaction(async (tx) => {
+    await claimPendingRegistration(tx, id, {
+      status: 'APPROVED',
+      reviewerId,
+      decidedAt: new Date(),
+    });
+    await tx.userRole.create({ data: { userId: user.personId, roleId: role.id } });
+    await tx.doctor.updateMany({
+      where: { personId: registration.personId },
+      data: {
+        isEnabledInShifts: approval.isEnabledInShifts ?? registration.requestedIsEnabledInShifts,
+      },
+    });
+    return tx.registration.findUniqueOrThrow({
+      where: { id },
+      include: registrationInclude,
+    });
+  });
+}
+
+/**
+ * @function rejectRegistration
+ * @description Rejects a pending registration; the account keeps no roles and cannot log in.
+ *
+ * @param {string} id - Registration id
+ * @param {string} reviewerId - personId of the rejecting admin
+ * @param {string} reason - Sent to the applicant
+ * @returns {Promise<RegistrationRecord>} The rejected registration
+ * @throws {ConflictError} When the registration was already decided, also concurrently
+ */
+export async function rejectRegistration(
+  id: string,
+  reviewerId: string,
+  reason: string,
+): Promise<RegistrationRecord> {
+  await findPendingRegistration(id);
+  return prisma.$transaction(async (tx) => {
+    await claimPendingRegistration(tx, id, {
+      status: 'REJECTED',
+      reviewerId,
+      reason,
+      decidedAt: new Date(),
+    });
+    return tx.registration.findUniqueOrThrow({
+      where: { id },
+      include: registrationInclude,
+    });
+  });
+}
@@ -0,0 +1,309 @@
+/**
+ * @description
+ * Business logic for weekly roster templates (Roster + RosterSlot).
+ *
+ * Key features:
+ * - nextRosterVersion: Determines the version number for a new save of a template
+ * - saveRosterVersion: Stores a template as the next version of its name
+ * - applyRosterTemplate: Materializes a template into concrete SHIFT activities for a period
+ *
+ * @dependencies
+ * - PrismaClient from '@prisma/client'
+ * - activity-service: overlap detection shared with the activity endpoints
+ *
+ * @notes
+ * - A slot is "filled" on a day when it already has `headcount` non-cancelled SHIFT
+ *   activities for its shift type starting at the same moment; those are skipped.
+ * - Only slots with a default person can be materialized, because an Activity always
+ *   belongs to a person. The remaining headcount is reported as open.
+ * - A default person is never double-booked: slots that would overlap with another
+ *   activity of that person are reported as open with reason CONFLICT.
+ * - Days on which the default person is not employed, or has a deactivated account, are
+ *   reported as open with reason INACTIVE.
+ * - Two saves of the same name at the same moment can pick the same version; the loser
+ *   retries with the next number, see saveRosterVersion.
+ * - The plan is re-checked in the transaction that creates the activities; when a
+ *   concurrent apply got there first, nothing is created (409 ROSTER_APPLY_CONFLICT).
+ */
+
+import { Activity, Prisma, PrismaClient } from '@prisma/client';
+import { isPlannableOn } from './account-lifecycle-service';
+import { CANCELLED_STATUS, findOverlappingActivities } from './activity-service';
+import {
+  addDays,
+  intervalsOverlap,
+  isShiftTypeActiveOn,
+  isoWeekday,
+  shiftWindow,
+  startOfUtcDay,
+} from '../utils/date-utils';
+import { ConflictError } from '../utils/app-error';
+
+const prisma = new PrismaClient();
+
+const MAX_SAVE_ATTEMPTS = 3;
+
+export const rosterInclude = {
+  slots: {
+    include: {
+      shiftType: true,
+      defaultPerson: true,
+    },
+    orderBy: [{ weekday: 'asc' as const }],
+  },
+} satisfies Prisma.RosterInclude;
+
+export interface RosterSlotData {
+  weekday: number;
+  shiftTypeId: string;
+  headcount: number;
+  defaultPersonId: string | null;
+}
+
+export interface OpenRosterSlot {
+  rosterSlotId: string;
+  shiftTypeId: string;
+  start: Date;
+  end: Date;
+  missing: number;
+  reason: 'NO_DEFAULT_PERSON' | 'CONFLICT' | 'INACTIVE';
+}
+
+export interface RosterApplyResult {
+  created: Activity[];
+  skipped: { rosterSlotId: string; shiftTypeId: string; start: Date }[];
+  open: OpenRosterSlot[];
+}
+
+interface PlannedShift {
+  personId: string;
+  shiftTypeId: string;
+  start: Date;
+  end: Date;
+  headcount: number;
+}
+
+/**
+ * Repeats the checks of the plan inside the write transaction, so a concurrent apply
+ * (or activity write) that got there first makes this apply fail instead of double-booking.
+ *
+ * @throws {ConflictError} ROSTER_APPLY_CONFLICT when the person got an overlapping activity
+ *   or the slot got filled in the meantime
+ */
+async function assertStillPlannable(
+  tx: Prisma.TransactionClient,
+  shift: Omit<PlannedShift, 'headcount'>,
+  headcount: number,
+): Promise<void> {
+  const overlapping = await tx.activity.count({
+    where: {
+      personId: shift.personId,
+      status: { not: CANCELLED_STATUS },
+      start: { lt: shift.end },
+      end: { gt: shift.start },
+    },
+  });
+  const assigned = await tx.activity.count({
+    where: {
+      activityType: 'SHIFT',
+      status: { not: CANCELLED_STATUS },
+      shiftTypeId: shift.shiftTypeId,
+      start: shift.start,
+    },
+  });
+  if (overlapping > 0 || assigned >= headcount) {
+    throw new ConflictError(
+      'The schedule changed while the roster was being applied. Please try again.',
+      'ROSTER_APPLY_CONFLICT',
+    );
+  }
+}
+
+export async function nextRosterVersion(name: string): Promise<number> {
+  const latest = await prisma.roster.findFirst({
+    where: { name },
+    orderBy: { version: 'desc' },
+    select: { version: true },
+  });
+  return (latest?.version ?? 0) + 1;
+}
+
+/**
+ * @function saveRosterVersion
+ * @description Stores a template with its slots as the next version of `name`.
+ *
+ * @returns The new version, with its slots
+ * @throws {ConflictError} ROSTER_VERSION_CONFLICT when concurrent saves keep taking the version number
+ */
+export async function saveRosterVersion(
+  name: string,
+  description: string | null | undefined,
+  slots: RosterSlotData[],
+) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.roster.create({
+        data: {
+          name,
+          description,
+          version: await nextRosterVersion(name),
+          slots: { create: slots },
+        },
+        include: rosterInclude,
+      });
+    } catch (error) {
+      // Another save of this name took the version (unique on name + version)
+      const versionTaken =
+        error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+      if (!versionTaken) throw error;
+      if (attempt >= MAX_SAVE_ATTEMPTS) {
+        throw new ConflictError(
+          'The roster was saved by someone else at the same time. Please try again.',
+          'ROSTER_VERSION_CONFLICT',
+        );
+      }
+    }
+  }
+}
+
+/**
+ * @function applyRosterTemplate
+ * @description Generates SHIFT activities from a roster template for [from, to] (inclusive UTC days).
+ *
+ * @param {string} rosterId - The template (a specific version) to apply
+ * @param {Date} from - First day of the period
+ * @param {Date} to - Last day of the period
+ * @returns {Promise<RosterApplyResult | null>} null when the roster does not exist
+ * @throws {ConflictError} ROSTER_APPLY_CONFLICT when the schedule changed during the apply
+ *
+ * @example
+ *   const result = await applyRosterTemplate(rosterId, new Date('2025-07-01'), new Date('2025-07-31'));
+ */
+export async function applyRosterTemplate(
+  rosterId: string,
+  from: Date,
+  to: Date,
+): Promise<RosterApplyResult | null> {
+  const roster = await prisma.roster.findUnique({
+    where: { id: rosterId },
+    include: {
+      slots: {
+        include: { shiftType: true, defaultPerson: { include: { user: true } } },
+      },
+    },
+  });
+  if (!roster) return null;
+
+  const periodStart = startOfUtcDay(from);
+  const periodEnd = startOfUtcDay(to);
+
+  const existingShifts = await prisma.activity.findMany({
+    where: {
+      activityType: 'SHIFT',
+      status: { not: CANCELLED_STATUS },
+      shiftTypeId: { in: roster.slots.map((s) => s.shiftTypeId) },
+      start: { gte: periodStart, lt: addDays(periodEnd, 2) },
+    },
+    select: { personId: true, shiftTypeId: true, start: true },
+  });
+
+  const toCreate: PlannedShift[] = [];
+  const skipped: RosterApplyResult['skipped'] = [];
+  const open: OpenRosterSlot[] = [];
+
+  for (let day = periodStart; day <= periodEnd; day = addDays(day, 1)) {
+    const daySlots = roster.slots.filter(
+      (slot) =>
+        slot.weekday === isoWeekday(day) &&
+        isShiftTypeActiveOn(slot.shiftType, day),
+    );
+
+    for (const slot of daySlots) {
+      const { start, end } = shiftWindow(slot.shiftType, day);
+      const assigned = [
+        ...existingShifts.filter(
+          (a) =>
+            a.shiftTypeId === slot.shiftTypeId &&
+            a.start.getTime() === start.getTime(),
+        ),
+        ...toCreate.filter(
+          (a) =>
+            a.shiftTypeId === slot.shiftTypeId &&
+            a.start.getTime() === start.getTime(),
+        ),
+      ];
+      let missing = slot.headcount - assigned.length;
+
+      if (missing <= 0) {
+        skipped.push({ rosterSlotId: slot.id, shiftTypeId: slot.shiftTypeId, start });
+        continue;
+      }
+
+      const personId = slot.defaultPersonId;
+      if (personId && !assigned.some((a) => a.personId === personId)) {
+        if (slot.defaultPerson && !isPlannableOn(slot.defaultPerson, day)) {
+          open.push({
+            rosterSlotId: slot.id,
+            shiftTypeId: slot.shiftTypeId,
+            start,
+            end,
+            missing,
+            reason: 'INACTIVE',
+          });
+          continue;
+        }
+        const conflicts = await findOverlappingActivities(personId, start, end);
+        const plannedConflict = toCreate.some(
+          (a) =>
+            a.personId === personId &&
+            intervalsOverlap(a.start, a.end, start, end),
+        );
+        if (conflicts.length || plannedConflict) {
+          open.push({
+            rosterSlotId: slot.id,
+            shiftTypeId: slot.shiftTypeId,
+            start,
+            end,
+            missing,
+            reason: 'CONFLICT',
+          });
+          continue;
+        }
+        toCreate.push({
+          personId,
+          shiftTypeId: slot.shiftTypeId,
+          start,
+          end,
+          headcount: slot.headcount,
+        });
+        missing--;
+      }
+
+      if (missing > 0) {
+        open.push({
+          rosterSlotId: slot.id,
+          shiftTypeId: slot.shiftTypeId,
+          start,
+          end,
+          missing,
+          reason: 'NO_DEFAULT_PERSON',
+        });
+      }
+    }
+  }
+
+  const created = await prisma.$transaction(async (tx) => {
+    const activities: Activity[] = [];
+    for (const { headcount, ...data } of toCreate) {
+      await assertStillPlannable(tx, data, headcount);
+      activities.push(
+        await tx.activity.create({
+          data: { ...data, activityType: 'SHIFT', status: 'SCHEDULED' },
+        }),
+      );
+    }
+    return activities;
+  });
+
+  return { created, skipped, open };
+}
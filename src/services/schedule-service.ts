@@ -0,0 +1,304 @@
+/**
+ * @description
+ * Proposes SHIFT activities for a period, based on the active shift types, the doctors
+ * enabled in shift planning, their absences and their personal UserConstraint limits.
+ *
+ * Key features:
+ * - buildSlots: Expands the active ShiftTypes into one concrete slot per day
+ * - generateSchedule: Pure planning algorithm (no database access), easy to test
+ * - proposeSchedule: Loads everything from the database and runs generateSchedule
+ *
+ * @notes
+ * - Nothing is written to the database; the result is a proposal that a planner can
+ *   review and then persist through POST /admin/activities.
+ * - Slots that already have a non-cancelled SHIFT activity are considered filled.
+ * - Non-SHIFT activities (LEAVE, CONFERENCE, ...) make a person unavailable, and so do
+ *   the days outside their employment period. Doctors with a deactivated account are
+ *   not considered (see account-lifecycle-service).
+ * - Doctors are picked greedily: the eligible doctor with the fewest shifts in the
+ *   period gets the slot, which spreads the load evenly.
+ */
+
+import { PrismaClient, ShiftType } from '@prisma/client';
+import {
+  ConstraintLimits,
+  ConstraintRule,
+  PlannedShift,
+  checkShiftAssignment,
+  isNightShift,
+  resolveConstraintLimits,
+} from './constraint-service';
+import { plannableDoctorWhere } from './account-lifecycle-service';
+import {
+  addDays,
+  intervalsOverlap,
+  isShiftTypeActiveOn,
+  shiftWindow,
+  startOfUtcDay,
+} from '../utils/date-utils';
+
+const prisma = new PrismaClient();
+
+/** Extra days loaded around the period so rest and night rules see neighbouring shifts. */
+const CONTEXT_DAYS = 7;
+
+export type RejectionReason = ConstraintRule | 'UNAVAILABLE';
+
+export interface ScheduleSlot {
+  shiftTypeId: string;
+  shiftTypeName: string;
+  start: Date;
+  end: Date;
+}
+
+export interface ScheduleCandidate {
+  personId: string;
+  limits: ConstraintLimits;
+  /** Existing, non-cancelled SHIFT activities of this person */
+  shifts: PlannedShift[];
+  /** Existing, non-cancelled non-SHIFT activities (leave, conference, ...) */
+  absences: { start: Date; end: Date }[];
+}
+
+export interface ScheduleInput {
+  slots: ScheduleSlot[];
+  candidates: ScheduleCandidate[];
+  /** Existing SHIFT activities keyed by `${shiftTypeId}|${start ISO}` */
+  filledSlotKeys: Set<string>;
+}
+
+export interface ProposedShift {
+  activityType: 'SHIFT';
+  status: 'SCHEDULED';
+  personId: string;
+  shiftTypeId: string;
+  start: Date;
+  end: Date;
+}
+
+export interface UnfilledSlot extends ScheduleSlot {
+  rejections: { personId: string; reason: RejectionReason }[];
+}
+
+export interface ScheduleProposal {
+  proposed: ProposedShift[];
+  unfilled: UnfilledSlot[];
+}
+
+export function slotKey(shiftTypeId: string, start: Date): string {
+  return `${shiftTypeId}|${start.toISOString()}`;
+}
+
+/**
+ * @function buildSlots
+ * @description Creates one slot per active shift type per day in [from, to] (inclusive),
+ * sorted chronologically.
+ */
+export function buildSlots(
+  shiftTypes: ShiftType[],
+  from: Date,
+  to: Date,
+): ScheduleSlot[] {
+  const slots: ScheduleSlot[] = [];
+  for (let day = startOfUtcDay(from); day <= to; day = addDays(day, 1)) {
+    for (const shiftType of shiftTypes) {
+      if (!isShiftTypeActiveOn(shiftType, day)) continue;
+      const { start, end } = shiftWindow(shiftType, day);
+      slots.push({
+        shiftTypeId: shiftType.id,
+        shiftTypeName: shiftType.name,
+        start,
+        end,
+      });
+    }
+  }
+  return slots.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * @function generateSchedule
+ * @description Fills every open slot with an eligible doctor without breaking a hard constraint.
+ *
+ * @param {ScheduleInput} input - Slots, candidates and the already filled slots
+ * @returns {ScheduleProposal} The proposed shifts and the slots that could not be filled
+ */
+export function generateSchedule(input: ScheduleInput): ScheduleProposal {
+  const proposed: ProposedShift[] = [];
+  const unfilled: UnfilledSlot[] = [];
+
+  // Work on copies so the caller's input is left untouched
+  const planned = new Map<string, PlannedShift[]>(
+    input.candidates.map((c) => [c.personId, [...c.shifts]]),
+  );
+
+  for (const slot of input.slots) {
+    if (input.filledSlotKeys.has(slotKey(slot.shiftTypeId, slot.start))) {
+      continue;
+    }
+
+    const night = isNightShift(slot.start, slot.end);
+    const rejections: UnfilledSlot['rejections'] = [];
+    const eligible: ScheduleCandidate[] = [];
+
+    for (const candidate of input.candidates) {
+      const absent = candidate.absences.some((a) =>
+        intervalsOverlap(a.start, a.end, slot.start, slot.end),
+      );
+      if (absent) {
+        rejections.push({ personId: candidate.personId, reason: 'UNAVAILABLE' });
+        continue;
+      }
+
+      const shift: PlannedShift = {
+        personId: candidate.personId,
+        start: slot.start,
+        end: slot.end,
+      };
+      const broken = checkShiftAssignment(
+        planned.get(candidate.personId)!,
+        shift,
+        candidate.limits,
+      );
+      if (broken) {
+        rejections.push({ personId: candidate.personId, reason: broken });
+        continue;
+      }
+      eligible.push(candidate);
+    }
+
+    if (!eligible.length) {
+      unfilled.push({ ...slot, rejections });
+      continue;
+    }
+
+    const load = (c: ScheduleCandidate) => {
+      const shifts = planned.get(c.personId)!;
+      return {
+        total: shifts.length,
+        nights: shifts.filter((s) => isNightShift(s.start, s.end)).length,
+      };
+    };
+    eligible.sort((a, b) => {
+      const la = load(a);
+      const lb = load(b);
+      if (la.total !== lb.total) return la.total - lb.total;
+      if (night && la.nights !== lb.nights) return la.nights - lb.nights;
+      return a.personId.localeCompare(b.personId);
+    });
+
+    const chosen = eligible[0];
+    planned.get(chosen.personId)!.push({
+      personId: chosen.personId,
+      start: slot.start,
+      end: slot.end,
+    });
+    proposed.push({
+      activityType: 'SHIFT',
+      status: 'SCHEDULED',
+      personId: chosen.personId,
+      shiftTypeId: slot.shiftTypeId,
+      start: slot.start,
+      end: slot.end,
+    });
+  }
+
+  return { proposed, unfilled };
+}
+
+/**
+ * @function proposeSchedule
+ * @description Loads shift types, enabled doctors, their activities and constraints
+ * and generates a schedule proposal for [from, to] (inclusive, UTC days).
+ *
+ * @example
+ *   const { proposed, unfilled } = await proposeSchedule(new Date('2025-07-01'), new Date('2025-07-31'));
+ */
+export async function proposeSchedule(
+  from: Date,
+  to: Date,
+): Promise<ScheduleProposal> {
+  const periodStart = startOfUtcDay(from);
+  const periodEnd = startOfUtcDay(to);
+  const contextStart = addDays(periodStart, -CONTEXT_DAYS);
+  const contextEnd = addDays(periodEnd, CONTEXT_DAYS + 1);
+
+  const [shiftTypes, doctors] = await Promise.all([
+    prisma.shiftType.findMany(),
+    prisma.doctor.findMany({
+      where: plannableDoctorWhere(periodStart, periodEnd),
+      include: {
+        person: {
+          include: {
+            userConstraints: true,
+            activities: {
+              where: {
+                status: { not: 'CANCELLED' },
+                start: { lt: contextEnd },
+                end: { gt: contextStart },
+              },
+            },
+          },
+        },
+      },
+    }),
+  ]);
+
+  const filledSlotKeys = new Set<string>();
+  const candidates: ScheduleCandidate[] = doctors.map((doctor) => {
+    const shifts: PlannedShift[] = [];
+    const absences: ScheduleCandidate['absences'] = [];
+
+    for (const activity of doctor.person.activities) {
+      if (activity.activityType === 'SHIFT') {
+        shifts.push({
+          id: activity.id,
+          personId: activity.personId,
+          start: activity.start,
+          end: activity.end,
+        });
+        if (activity.shiftTypeId) {
+          filledSlotKeys.add(slotKey(activity.shiftTypeId, activity.start));
+        }
+      } else {
+        absences.push({ start: activity.start, end: activity.end });
+      }
+    }
+
+    // Not employed yet or any more: unavailable, like during leave
+    const { employmentStart, employmentEnd } = doctor.person;
+    if (employmentStart) {
+      absences.push({ start: contextStart, end: startOfUtcDay(employmentStart) });
+    }
+    if (employmentEnd) {
+      absences.push({ start: addDays(startOfUtcDay(employmentEnd), 1), end: contextEnd });
+    }
+
+    return {
+      personId: doctor.personId,
+      limits: resolveConstraintLimits(doctor.person.userConstraints),
+      shifts,
+      absences,
+    };
+  });
+
+  // Shifts of people who are no longer enabled still fill their slot
+  const otherShifts = await prisma.activity.findMany({
+    where: {
+      activityType: 'SHIFT',
+      status: { not: 'CANCELLED' },
+      shiftTypeId: { not: null },
+      start: { gte: periodStart, lt: addDays(periodEnd, 1) },
+      personId: { notIn: candidates.map((c) => c.personId) },
+    },
+    select: { shiftTypeId: true, start: true },
+  });
+  for (const shift of otherShifts) {
+    filledSlotKeys.add(slotKey(shift.shiftTypeId!, shift.start));
+  }
+
+  return generateSchedule({
+    slots: buildSlots(shiftTypes, periodStart, periodEnd),
+    candidates,
+    filledSlotKeys,
+  });
+}
@@ -0,0 +1,120 @@
+/**
+ * @description
+ * Active sessions of a user, for the "where am I logged in" views of users and admins.
+ *
+ * Key features:
+ * - listSessions: The active sessions of a user, most recently used first
+ * - findSessionId: The session a refresh token belongs to (to mark the current session)
+ * - revokeSession: Ends one session
+ * - revokeAllSessions: Ends every session of a user
+ *
+ * @notes
+ * - A session is a refresh token family (see auth-service): it starts at login and ends on
+ *   logout, revocation or expiry. Its id is the familyId.
+ * - Only the newest token of a family is usable, so it holds the current device data.
+ * - Revoking a session stops further refreshes; an access token already handed out stays
+ *   valid until it expires (ACCESS_TOKEN_EXPIRY_WEB / ACCESS_TOKEN_EXPIRY_MOBILE).
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { hashRefreshToken } from './auth-service';
+
+const prisma = new PrismaClient();
+
+export interface Session {
+  id: string;
+  platform: string;
+  userAgent: string | null;
+  ip: string | null;
+  signedInAt: Date;
+  lastUsedAt: Date | null;
+  expiresAt: Date;
+}
+
+/**
+ * @function listSessions
+ * @description Retrieves the active sessions of a user.
+ *
+ * @param {string} userId - personId of the user
+ * @returns {Promise<Session[]>} Sessions that can still be refreshed, most recently used first
+ */
+export async function listSessions(userId: string): Promise<Session[]> {
+  const current = await prisma.refreshToken.findMany({
+    where: {
+      userId,
+      rotatedAt: null,
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+  if (current.length === 0) return [];
+
+  const starts = await prisma.refreshToken.groupBy({
+    by: ['familyId'],
+    where: { familyId: { in: current.map((token) => token.familyId) } },
+    _min: { createdAt: true },
+  });
+  const signedInAt = new Map(starts.map((s) => [s.familyId, s._min.createdAt]));
+
+  return current.map((token) => ({
+    id: token.familyId,
+    platform: token.platform,
+    userAgent: token.userAgent,
+    ip: token.ip,
+    signedInAt: signedInAt.get(token.familyId) ?? token.createdAt,
+    lastUsedAt: token.lastUsedAt,
+    expiresAt: token.expiresAt,
+  }));
+}
+
+/**
+ * @function findSessionId
+ * @description Looks up the session (token family) of a refresh token.
+ *
+ * @param {string} token - The refresh token string (JWT)
+ * @returns {Promise<string | null>} The session id, or null for an unknown token
+ */
+export async function findSessionId(token: string): Promise<string | null> {
+  const record = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashRefreshToken(token) },
+    select: { familyId: true },
+  });
+  return record?.familyId ?? null;
+}
+
+/**
+ * @function revokeSession
+ * @description Ends one session of a user.
+ *
+ * @param {string} userId - personId of the user the session must belong to
+ * @param {string} sessionId - The session id (familyId)
+ * @returns {Promise<boolean>} False when the user has no active session with this id
+ */
+export async function revokeSession(userId: string, sessionId: string): Promise<boolean> {
+  const { count } = await prisma.refreshToken.updateMany({
+    where: { userId, familyId: sessionId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return count > 0;
+}
+
+/**
+ * @function revokeAllSessions
+ * @description Ends every session of a user, e.g. after a password leak.
+ *
+ * @param {string} userId - personId of the user
+ * @returns {Promise<number>} The number of sessions that were ended
+ */
+export async function revokeAllSessions(userId: string): Promise<number> {
+  const active = await prisma.refreshToken.findMany({
+    where: { userId, revokedAt: null, rotatedAt: null, expiresAt: { gt: new Date() } },
+    select: { familyId: true },
+  });
+
+  await prisma.refreshToken.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return new Set(active.map((token) => token.familyId)).size;
+}
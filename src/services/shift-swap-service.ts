@@ -0,0 +1,282 @@
+/**
+ * @description
+ * Workflow logic for shift swaps between doctors.
+ *
+ * Key features:
+ * - recordSwapStep: Moves a swap request to a new status and records the step as an event
+ * - canTakeStep: Which statuses a step may start from
+ * - evaluateSwap: Checks what the swap would cause (overlaps, UserConstraint breaches,
+ *   a doctor who is not employed on that day or deactivated)
+ * - executeSwap: Reassigns the activities atomically and marks the swap as APPROVED
+ * - notifySwapStep: Emails the participants about every step through sendEmail
+ * - isAutoApproveEnabled: The auto-approve rule (SHIFT_SWAP_AUTO_APPROVE=true)
+ *
+ * @notes
+ * - Flow: PROPOSED -> ACCEPTED (counterpart) -> APPROVED/REJECTED (admin or auto-approve).
+ *   The counterpart can also decline, and the requester can cancel while not decided.
+ * - Auto-approve only confirms a swap that causes no overlap and breaks no UserConstraint
+ *   for either doctor; otherwise the swap waits for an admin.
+ * - Email failures are logged and never block the workflow.
+ * - Every status change is a conditional update on the expected status, so of two
+ *   concurrent steps (e.g. cancel and approve) only one can succeed.
+ */
+
+import { Activity, Prisma, PrismaClient } from '@prisma/client';
+import { CANCELLED_STATUS, findOverlappingActivities } from './activity-service';
+import {
+  ConstraintRule,
+  checkShiftAssignment,
+  resolveConstraintLimits,
+} from './constraint-service';
+import { isPlannableOn } from './account-lifecycle-service';
+import { sendEmail } from './email-service';
+import { ConflictError } from '../utils/app-error';
+import { addDays } from '../utils/date-utils';
+
+const prisma = new PrismaClient();
+
+export type SwapStatus =
+  | 'PROPOSED'
+  | 'ACCEPTED'
+  | 'DECLINED'
+  | 'APPROVED'
+  | 'REJECTED'
+  | 'CANCELLED';
+
+export const swapInclude = {
+  requester: { include: { user: { select: { personId: true, email: true } } } },
+  counterpart: { include: { user: { select: { personId: true, email: true } } } },
+  activity: { include: { shiftType: true } },
+  counterActivity: { include: { shiftType: true } },
+  events: { orderBy: { createdAt: 'asc' as const } },
+} satisfies Prisma.ShiftSwapRequestInclude;
+
+export type SwapWithDetails = Prisma.ShiftSwapRequestGetPayload<{
+  include: typeof swapInclude;
+}>;
+
+export interface SwapEvaluation {
+  conflicts: Activity[];
+  brokenRules: { personId: string; rule: ConstraintRule | 'NOT_PLANNABLE' }[];
+}
+
+class StaleSwapError extends Error {}
+
+/** The statuses each step may start from. */
+const STEP_FROM: Record<Exclude<SwapStatus, 'PROPOSED'>, SwapStatus[]> = {
+  ACCEPTED: ['PROPOSED'],
+  DECLINED: ['PROPOSED'],
+  CANCELLED: ['PROPOSED', 'ACCEPTED'],
+  APPROVED: ['ACCEPTED'],
+  REJECTED: ['ACCEPTED'],
+};
+
+export function canTakeStep(current: string, step: Exclude<SwapStatus, 'PROPOSED'>): boolean {
+  return STEP_FROM[step].includes(current as SwapStatus);
+}
+
+export function isAutoApproveEnabled(): boolean {
+  return process.env.SHIFT_SWAP_AUTO_APPROVE === 'true';
+}
+
+/**
+ * @function recordSwapStep
+ * @description Updates the status of a swap request and stores the step in its history.
+ *
+ * @param {string} swapId - The swap request
+ * @param {SwapStatus} status - The new status
+ * @param {string | null} actorId - personId of who took the step (null = automatic)
+ * @param {string} [comment] - Optional comment, e.g. the reason of a rejection
+ * @throws {ConflictError} SWAP_STATE_CHANGED when the swap is no longer in a status the
+ *   step may start from (another step won the race)
+ */
+export async function recordSwapStep(
+  swapId: string,
+  status: Exclude<SwapStatus, 'PROPOSED' | 'APPROVED'>,
+  actorId: string | null,
+  comment?: string,
+): Promise<SwapWithDetails> {
+  return prisma.$transaction(async (tx) => {
+    const changed = await tx.shiftSwapRequest.updateMany({
+      where: { id: swapId, status: { in: STEP_FROM[status] } },
+      data: { status },
+    });
+    if (changed.count !== 1) {
+      throw new ConflictError('The swap request was changed in the meantime.', 'SWAP_STATE_CHANGED');
+    }
+    await tx.shiftSwapEvent.create({
+      data: { swapRequestId: swapId, action: status, actorId, comment },
+    });
+    return tx.shiftSwapRequest.findUniqueOrThrow({
+      where: { id: swapId },
+      include: swapInclude,
+    });
+  });
+}
+
+/**
+ * Checks whether `personId` can take over `incoming` once `outgoing` (if any) is gone.
+ */
+async function evaluateTakeOver(
+  personId: string,
+  incoming: Activity,
+  outgoing: Activity | null,
+): Promise<SwapEvaluation> {
+  const conflicts = (
+    await findOverlappingActivities(personId, incoming.start, incoming.end)
+  ).filter((a) => a.id !== outgoing?.id && a.id !== incoming.id);
+
+  const person = await prisma.person.findUnique({
+    where: { id: personId },
+    include: {
+      user: true,
+      userConstraints: true,
+      activities: {
+        where: {
+          activityType: 'SHIFT',
+          status: { not: CANCELLED_STATUS },
+          start: { lt: addDays(incoming.end, 7) },
+          end: { gt: addDays(incoming.start, -7) },
+          id: { notIn: [incoming.id, ...(outgoing ? [outgoing.id] : [])] },
+        },
+      },
+    },
+  });
+
+  const brokenRules: SwapEvaluation['brokenRules'] = [];
+  if (person) {
+    const rule = checkShiftAssignment(
+      person.activities.filter((a) => !conflicts.some((c) => c.id === a.id)),
+      { personId, start: incoming.start, end: incoming.end },
+      resolveConstraintLimits(person.userConstraints),
+    );
+    if (rule) brokenRules.push({ personId, rule });
+    if (!isPlannableOn(person, incoming.start)) {
+      brokenRules.push({ personId, rule: 'NOT_PLANNABLE' });
+    }
+  }
+  return { conflicts, brokenRules };
+}
+
+/**
+ * @function evaluateSwap
+ * @description Determines the overlaps and UserConstraint breaches the swap would cause
+ * for both doctors.
+ */
+export async function evaluateSwap(swap: SwapWithDetails): Promise<SwapEvaluation> {
+  const forCounterpart = await evaluateTakeOver(
+    swap.counterpartId,
+    swap.activity,
+    swap.counterActivity,
+  );
+  if (!swap.counterActivity) {
+    return forCounterpart;
+  }
+  const forRequester = await evaluateTakeOver(
+    swap.requesterId,
+    swap.counterActivity,
+    swap.activity,
+  );
+  return {
+    conflicts: [...forCounterpart.conflicts, ...forRequester.conflicts],
+    brokenRules: [...forCounterpart.brokenRules, ...forRequester.brokenRules],
+  };
+}
+
+/**
+ * @function executeSwap
+ * @description Reassigns the activities of an accepted swap in one transaction and
+ * marks it APPROVED.
+ *
+ * @returns {Promise<SwapWithDetails | null>} null when the swap is no longer ACCEPTED or one
+ * of the activities is no longer assigned to the expected doctor (the swap is stale and
+ * nothing was changed)
+ */
+export async function executeSwap(
+  swap: SwapWithDetails,
+  actorId: string | null,
+  comment?: string,
+): Promise<SwapWithDetails | null> {
+  try {
+    await prisma.$transaction(async (tx) => {
+      // Claim the swap first: a concurrent cancel, reject or approval leaves count 0
+      const claimed = await tx.shiftSwapRequest.updateMany({
+        where: { id: swap.id, status: { in: STEP_FROM.APPROVED } },
+        data: { status: 'APPROVED' },
+      });
+      if (claimed.count !== 1) throw new StaleSwapError();
+
+      const moved = await tx.activity.updateMany({
+        where: { id: swap.activityId, personId: swap.requesterId },
+        data: { personId: swap.counterpartId },
+      });
+      if (moved.count !== 1) throw new StaleSwapError();
+
+      if (swap.counterActivityId) {
+        const movedBack = await tx.activity.updateMany({
+          where: { id: swap.counterActivityId, personId: swap.counterpartId },
+          data: { personId: swap.requesterId },
+        });
+        if (movedBack.count !== 1) throw new StaleSwapError();
+      }
+
+      await tx.shiftSwapEvent.create({
+        data: { swapRequestId: swap.id, action: 'APPROVED', actorId, comment },
+      });
+    });
+  } catch (error) {
+    if (error instanceof StaleSwapError) return null;
+    throw error;
+  }
+
+  return prisma.shiftSwapRequest.findUnique({
+    where: { id: swap.id },
+    include: swapInclude,
+  });
+}
+
+function describeShift(activity: SwapWithDetails['activity']): string {
+  const name = activity.shiftType?.name ?? activity.activityType;
+  return `${name} on ${activity.start.toISOString().slice(0, 16).replace('T', ' ')} (UTC)`;
+}
+
+const stepTexts: Record<SwapStatus, (swap: SwapWithDetails) => string> = {
+  PROPOSED: (swap) =>
+    `${swap.requester.firstName} ${swap.requester.lastName} proposes to ` +
+    (swap.counterActivity
+      ? `exchange ${describeShift(swap.activity)} for your ${describeShift(swap.counterActivity)}.`
+      : `give you ${describeShift(swap.activity)}.`),
+  ACCEPTED: (swap) =>
+    `${swap.counterpart.firstName} ${swap.counterpart.lastName} accepted the swap of ${describeShift(swap.activity)}. It now awaits confirmation.`,
+  DECLINED: (swap) =>
+    `${swap.counterpart.firstName} ${swap.counterpart.lastName} declined the swap of ${describeShift(swap.activity)}.`,
+  APPROVED: (swap) =>
+    `The swap of ${describeShift(swap.activity)} has been approved. The schedule is updated.`,
+  REJECTED: (swap) =>
+    `The swap of ${describeShift(swap.activity)} has been rejected.`,
+  CANCELLED: (swap) =>
+    `The swap of ${describeShift(swap.activity)} has been cancelled by the requester.`,
+};
+
+/**
+ * @function notifySwapStep
+ * @description Emails both doctors about the current step of the swap.
+ */
+export async function notifySwapStep(
+  swap: SwapWithDetails,
+  comment?: string,
+): Promise<void> {
+  const status = swap.status as SwapStatus;
+  const text =
+    stepTexts[status](swap) + (comment ? `\nComment: ${comment}` : '');
+  const recipients = [swap.requester.user?.email, swap.counterpart.user?.email]
+    .filter((email): email is string => !!email);
+
+  for (const recipient of recipients) {
+    try {
+      await sendEmail(recipient, `Shift swap ${status.toLowerCase()}`, text);
+    } catch (error) {
+      console.error(`Could not send shift swap email to ${recipient}:`, error);
+    }
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * @description
+ * Shared rules for time-bound ShiftTypeRate periods.
+ *
+ * Key features:
+ * - rateWindow: The concrete [start, end) interval in which a rate applies
+ * - findRateAt: The rate of a shift type valid on a given day
+ * - createRate: Adds a rate, checking its period for overlaps in the same transaction
+ * - supersedeRate: Closes the open-ended rate and starts a new one
+ * - updatedRatePeriod: The period of a rate after a (partial) update
+ * - updateRate: Changes a rate, checking its (new) period for overlaps in the same transaction
+ *
+ * @notes
+ * - validFrom and validUntil are calendar days (UTC) and both inclusive:
+ *   a rate with validUntil 2025-06-30 still applies during the whole of 30 June.
+ * - validUntil = null means the rate is open-ended.
+ * - Periods of the rates of one shift type never overlap, so at most one rate
+ *   applies at any moment.
+ */
+
+import { PrismaClient, ShiftTypeRate } from '@prisma/client';
+import { addDays, startOfUtcDay } from '../utils/date-utils';
+
+const prisma = new PrismaClient();
+
+type RatePeriod = Pick<ShiftTypeRate, 'validFrom' | 'validUntil'>;
+
+export type SupersedeResult =
+  | { closed: ShiftTypeRate | null; created: ShiftTypeRate }
+  | { conflicts: ShiftTypeRate[] };
+
+export type CreateRateResult = { created: ShiftTypeRate } | { conflicts: ShiftTypeRate[] };
+
+export type UpdateRateResult = { updated: ShiftTypeRate } | { conflicts: ShiftTypeRate[] };
+
+export function rateWindow(rate: RatePeriod): { start: Date; end: Date | null } {
+  return {
+    start: startOfUtcDay(rate.validFrom),
+    end: rate.validUntil ? addDays(startOfUtcDay(rate.validUntil), 1) : null,
+  };
+}
+
+export function ratePeriodsOverlap(a: RatePeriod, b: RatePeriod): boolean {
+  const wa = rateWindow(a);
+  const wb = rateWindow(b);
+  return (!wb.end || wa.start < wb.end) && (!wa.end || wb.start < wa.end);
+}
+
+export async function findRateAt(
+  shiftTypeId: string,
+  date: Date,
+): Promise<ShiftTypeRate | null> {
+  const rates = await prisma.shiftTypeRate.findMany({ where: { shiftTypeId } });
+  return (
+    rates.find((r) => {
+      const window = rateWindow(r);
+      return window.start <= date && (!window.end || date < window.end);
+    }) ?? null
+  );
+}
+
+/**
+ * @function createRate
+ * @description
+ * Adds a rate; the overlap check and the insert run in one transaction, so two
+ * concurrent creates cannot both pass the check.
+ *
+ * @returns The created rate, or the conflicting rates when the period overlaps
+ */
+export async function createRate(
+  data: { shiftTypeId: string; rate: number } & RatePeriod,
+): Promise<CreateRateResult> {
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.shiftTypeRate.findMany({
+      where: { shiftTypeId: data.shiftTypeId },
+      orderBy: { validFrom: 'asc' },
+    });
+    const conflicts = existing.filter((r) => ratePeriodsOverlap(r, data));
+    if (conflicts.length) {
+      return { conflicts };
+    }
+
+    const created = await tx.shiftTypeRate.create({ data });
+    return { created };
+  });
+}
+
+/**
+ * @function supersedeRate
+ * @description Starts a new open-ended rate on `validFrom` and closes the current
+ * open-ended rate on the day before, in one transaction.
+ *
+ * @returns The closed and the created rate, or the conflicting rates when the new
+ * period still overlaps with other rates (e.g. a rate already planned later on)
+ *
+ * @example
+ *   await supersedeRate(shiftTypeId, 90, new Date('2025-07-01'));
+ *   // open rate from 2025-01-01 now ends 2025-06-30, the new one starts 2025-07-01
+ */
+export async function supersedeRate(
+  shiftTypeId: string,
+  rate: number,
+  validFrom: Date,
+): Promise<SupersedeResult> {
+  const newFrom = startOfUtcDay(validFrom);
+
+  return prisma.$transaction(async (tx) => {
+    const open = await tx.shiftTypeRate.findFirst({
+      where: { shiftTypeId, validUntil: null },
+    });
+    const toClose = open && startOfUtcDay(open.validFrom) < newFrom ? open : null;
+
+    const others = await tx.shiftTypeRate.findMany({
+      where: { shiftTypeId, ...(toClose && { id: { not: toClose.id } }) },
+    });
+    const conflicts = others.filter((r) =>
+      ratePeriodsOverlap(r, { validFrom: newFrom, validUntil: null }),
+    );
+    if (conflicts.length) {
+      return { conflicts };
+    }
+
+    const closed = toClose
+      ? await tx.shiftTypeRate.update({
+          where: { id: toClose.id },
+          data: { validUntil: addDays(newFrom, -1) },
+        })
+      : null;
+    const created = await tx.shiftTypeRate.create({
+      data: { shiftTypeId, rate, validFrom: newFrom, validUntil: null },
+    });
+    return { closed, created };
+  });
+}
+
+/**
+ * @function updatedRatePeriod
+ * @description
+ * Merges the period of an update with the stored one: an omitted validUntil keeps the
+ * stored end, only an explicit null makes the rate open-ended.
+ */
+export function updatedRatePeriod(
+  existing: RatePeriod,
+  changes: { validFrom?: Date | string; validUntil?: Date | string | null },
+): RatePeriod {
+  return {
+    validFrom: changes.validFrom ? new Date(changes.validFrom) : existing.validFrom,
+    validUntil:
+      changes.validUntil === undefined
+        ? existing.validUntil
+        : changes.validUntil
+          ? new Date(changes.validUntil)
+          : null,
+  };
+}
+
+/**
+ * @function updateRate
+ * @description
+ * Updates a rate; the overlap check and the write run in one transaction, so two
+ * concurrent edits cannot both pass the check.
+ *
+ * @param {ShiftTypeRate} existing - The rate as it is stored
+ * @param {object} changes - New shift type, amount and period (the period already merged
+ *   with the stored values)
+ * @returns The updated rate, or the conflicting rates when the period overlaps
+ */
+export async function updateRate(
+  existing: ShiftTypeRate,
+  changes: { shiftTypeId?: string; rate?: number } & RatePeriod,
+): Promise<UpdateRateResult> {
+  return prisma.$transaction(async (tx) => {
+    const others = await tx.shiftTypeRate.findMany({
+      where: { shiftTypeId: changes.shiftTypeId ?? existing.shiftTypeId, id: { not: existing.id } },
+      orderBy: { validFrom: 'asc' },
+    });
+    const conflicts = others.filter((r) => ratePeriodsOverlap(r, changes));
+    if (conflicts.length) {
+      return { conflicts };
+    }
+
+    const updated = await tx.shiftTypeRate.update({
+      where: { id: existing.id },
+      data: changes,
+    });
+    return { updated };
+  });
+}
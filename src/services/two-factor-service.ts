@@ -0,0 +1,305 @@
+/**
+ * @description
+ * TOTP two-factor authentication: enrollment, verification and recovery codes.
+ *
+ * Key features:
+ * - getTwoFactorStatus: Whether 2FA is enabled for a user and whether a role requires it
+ * - startEnrollment / confirmEnrollment: New secret + otpauth URI, enabled by the first valid code
+ * - issueEnrollmentCode / consumeEnrollmentCode: One-time e-mail code that must accompany an
+ *   enrollment during login
+ * - verifySecondFactor: Checks a TOTP code or consumes a recovery code
+ * - regenerateRecoveryCodes / disableTwoFactor
+ *
+ * @notes
+ * - A user must use 2FA when any of their roles has requiresTwoFactor; otherwise it is
+ *   optional. auth-controller asks for the second factor before issuing tokens.
+ * - Accepted TOTP codes cannot be used twice: the time step is stored in totpLastStep.
+ * - Recovery codes are shown once and stored as SHA-256 hashes; each works once.
+ * - During login only the password is proven, so enrolling there also needs the e-mailed
+ *   code; otherwise a stolen password would be enough to bind the thief's authenticator.
+ *   A pending secret younger than PENDING_SECRET_TTL_MINUTES is only replaced for a user
+ *   who is logged in.
+ */
+
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { ConflictError, NotFoundError, UnprocessableEntityError } from '../utils/app-error';
+import { generateTotpSecret, otpauthUri, verifyTotp } from '../utils/totp';
+
+const prisma = new PrismaClient();
+
+const RECOVERY_CODE_COUNT = 10;
+export const ENROLLMENT_CODE_TTL_MINUTES = 15;
+export const PENDING_SECRET_TTL_MINUTES = 15;
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesLeft: number;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface SecondFactor {
+  code?: string;
+  recoveryCode?: string;
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^0-9a-f]/g, '');
+}
+
+function hashEnrollmentCode(code: string): string {
+  return crypto.createHash('sha256').update(code.trim()).digest('hex');
+}
+
+function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+function newRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+}
+
+async function replaceRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = newRecoveryCodes();
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.createMany({
+      data: codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })),
+    }),
+  ]);
+  return codes;
+}
+
+async function findUser(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { personId: userId },
+    include: { userRoles: { include: { role: true } } },
+  });
+  if (!user) throw new NotFoundError('User not found');
+  return user;
+}
+
+/**
+ * @function getTwoFactorStatus
+ * @description Reports the 2FA state of a user.
+ *
+ * @param {string} userId - personId of the user
+ * @returns {Promise<TwoFactorStatus>} enabled, required by a role, and unused recovery codes
+ */
+export async function getTwoFactorStatus(userId: string): Promise<TwoFactorStatus> {
+  const user = await findUser(userId);
+  const recoveryCodesLeft = await prisma.recoveryCode.count({ where: { userId, usedAt: null } });
+  return {
+    enabled: user.totpEnabledAt !== null,
+    required: user.userRoles.some((ur) => ur.role.requiresTwoFactor),
+    recoveryCodesLeft,
+  };
+}
+
+/**
+ * @function issueEnrollmentCode
+ * @description
+ * Creates the one-time code that proves, next to the password, that the person enrolling
+ * during login owns the account's mailbox. An earlier code stops working.
+ *
+ * @param {string} userId - personId of the user
+ * @returns {Promise<{ code: string; email: string }>} The plain code and where to send it
+ * @throws {ConflictError} TWO_FACTOR_ALREADY_ENABLED when 2FA is already on
+ */
+export async function issueEnrollmentCode(userId: string): Promise<{ code: string; email: string }> {
+  const user = await findUser(userId);
+  if (user.totpEnabledAt) {
+    throw new ConflictError('Two-factor authentication is already enabled.', 'TWO_FACTOR_ALREADY_ENABLED');
+  }
+
+  const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+  await prisma.user.update({
+    where: { personId: userId },
+    data: {
+      twoFactorEnrollCodeHash: hashEnrollmentCode(code),
+      twoFactorEnrollCodeExpire: new Date(Date.now() + ENROLLMENT_CODE_TTL_MINUTES * 60_000),
+    },
+  });
+  return { code, email: user.email };
+}
+
+/**
+ * @function consumeEnrollmentCode
+ * @description Checks an e-mailed enrollment code and makes sure it cannot be used again.
+ *
+ * @param {string} userId - personId of the user
+ * @param {string} code - The code from the e-mail
+ * @returns {Promise<boolean>} True when the code was valid, unexpired and not used before
+ */
+export async function consumeEnrollmentCode(userId: string, code: string): Promise<boolean> {
+  const { count } = await prisma.user.updateMany({
+    where: {
+      personId: userId,
+      twoFactorEnrollCodeHash: hashEnrollmentCode(code),
+      twoFactorEnrollCodeExpire: { gt: new Date() },
+    },
+    data: { twoFactorEnrollCodeHash: null, twoFactorEnrollCodeExpire: null },
+  });
+  return count === 1;
+}
+
+/**
+ * @function startEnrollment
+ * @description
+ * Generates a new TOTP secret for the user. It is not used for logins until
+ * confirmEnrollment receives a valid code from the authenticator app.
+ *
+ * @param {string} userId - personId of the user
+ * @param {object} [options]
+ * @param {boolean} [options.replacePending] - Also replace a pending secret that is still
+ *   fresh; only for a logged-in user
+ * @returns {Promise<TwoFactorEnrollment>} The secret and the otpauth:// URI to show as QR code
+ * @throws {ConflictError} TWO_FACTOR_ALREADY_ENABLED when 2FA is already on
+ * @throws {ConflictError} TWO_FACTOR_ENROLLMENT_PENDING when a fresh pending secret may not be replaced
+ */
+export async function startEnrollment(
+  userId: string,
+  { replacePending = false }: { replacePending?: boolean } = {},
+): Promise<TwoFactorEnrollment> {
+  const user = await findUser(userId);
+  if (user.totpEnabledAt) {
+    throw new ConflictError('Two-factor authentication is already enabled.', 'TWO_FACTOR_ALREADY_ENABLED');
+  }
+
+  const secret = generateTotpSecret();
+  const staleBefore = new Date(Date.now() - PENDING_SECRET_TTL_MINUTES * 60_000);
+  // Conditional, so a concurrent enrollment cannot slip in between the check and the write
+  const { count } = await prisma.user.updateMany({
+    where: {
+      personId: userId,
+      totpEnabledAt: null,
+      ...(!replacePending && {
+        OR: [
+          { totpSecret: null },
+          { totpSecretCreatedAt: null },
+          { totpSecretCreatedAt: { lt: staleBefore } },
+        ],
+      }),
+    },
+    data: { totpSecret: secret, totpSecretCreatedAt: new Date(), totpLastStep: null },
+  });
+  if (count !== 1) {
+    throw new ConflictError(
+      `An enrollment was started less than ${PENDING_SECRET_TTL_MINUTES} minutes ago. Finish it or try again later.`,
+      'TWO_FACTOR_ENROLLMENT_PENDING',
+    );
+  }
+  return { secret, otpauthUri: otpauthUri(secret, user.email) };
+}
+
+/**
+ * @function confirmEnrollment
+ * @description Enables 2FA once the user proves the authenticator app works.
+ *
+ * @param {string} userId - personId of the user
+ * @param {string} code - A code from the authenticator app
+ * @returns {Promise<string[] | null>} The new recovery codes, or null when the code is wrong
+ * @throws {UnprocessableEntityError} TWO_FACTOR_NOT_ENROLLING when no enrollment was started
+ */
+export async function confirmEnrollment(userId: string, code: string): Promise<string[] | null> {
+  const user = await findUser(userId);
+  if (user.totpEnabledAt) {
+    throw new ConflictError('Two-factor authentication is already enabled.', 'TWO_FACTOR_ALREADY_ENABLED');
+  }
+  if (!user.totpSecret) {
+    throw new UnprocessableEntityError(
+      'Start the two-factor enrollment first.',
+      'TWO_FACTOR_NOT_ENROLLING',
+    );
+  }
+
+  const step = verifyTotp(user.totpSecret, code);
+  if (step === null) return null;
+
+  await prisma.user.update({
+    where: { personId: userId },
+    data: { totpEnabledAt: new Date(), totpLastStep: step },
+  });
+  return replaceRecoveryCodes(userId);
+}
+
+/**
+ * @function verifySecondFactor
+ * @description
+ * Checks a TOTP code, or consumes a recovery code, of a user with 2FA enabled.
+ *
+ * @param {string} userId - personId of the user
+ * @param {SecondFactor} factor - Either a code from the app or a recovery code
+ * @returns {Promise<boolean>} True when the factor is valid and was not used before
+ */
+export async function verifySecondFactor(userId: string, factor: SecondFactor): Promise<boolean> {
+  const user = await prisma.user.findUnique({ where: { personId: userId } });
+  if (!user?.totpEnabledAt || !user.totpSecret) return false;
+
+  if (factor.code) {
+    const step = verifyTotp(user.totpSecret, factor.code);
+    if (step === null) return false;
+
+    // Guarded update, so the same code cannot log in twice, not even concurrently
+    const { count } = await prisma.user.updateMany({
+      where: {
+        personId: userId,
+        OR: [{ totpLastStep: null }, { totpLastStep: { lt: step } }],
+      },
+      data: { totpLastStep: step },
+    });
+    return count === 1;
+  }
+
+  if (factor.recoveryCode) {
+    const { count } = await prisma.recoveryCode.updateMany({
+      where: { userId, codeHash: hashRecoveryCode(factor.recoveryCode), usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    return count > 0;
+  }
+
+  return false;
+}
+
+/**
+ * @function regenerateRecoveryCodes
+ * @description Replaces all recovery codes of a user; the old ones stop working.
+ *
+ * @param {string} userId - personId of a user with 2FA enabled
+ * @returns {Promise<string[]>} The new recovery codes
+ */
+export async function regenerateRecoveryCodes(userId: string): Promise<string[]> {
+  return replaceRecoveryCodes(userId);
+}
+
+/**
+ * @function disableTwoFactor
+ * @description Turns 2FA off and removes the secret and recovery codes.
+ *
+ * @param {string} userId - personId of the user
+ */
+export async function disableTwoFactor(userId: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.user.update({
+      where: { personId: userId },
+      data: {
+        totpSecret: null,
+        totpSecretCreatedAt: null,
+        totpEnabledAt: null,
+        totpLastStep: null,
+        twoFactorEnrollCodeHash: null,
+        twoFactorEnrollCodeExpire: null,
+      },
+    }),
+  ]);
+}
@@ -19,57 +19,62 @@
  * @notes
  * - The schema now includes a mandatory `personId` referencing Person.
  * - Roles are attached via a many-to-many relationship with Role.
+ * - createUser leaves the e-mail address unverified unless `emailVerified` is passed; only
+ *   self-registered accounts have to confirm it (see email-verification-service).
  * - We flatten user roles into user.roles in the passport strategies.
  */
 
-import { Person, PrismaClient, User } from '@prisma/client';
+import { Person, Prisma, PrismaClient, User } from '@prisma/client';
 import bcrypt from 'bcrypt';
+import { resolvePermissions } from '../config/permissions';
+import { ConflictError, NotFoundError, UnprocessableEntityError } from '../utils/app-error';
 
 const prisma = new PrismaClient();
 
 interface CreateUserParams {
   email: string;
   password: string;
-  role?: string; // e.g. 'ADMIN' or 'USER'
+  role?: string | null; // e.g. 'ADMIN' or 'USER'; null = no role (registration pending approval)
   personId?: string; // If the Person record is pre-created, pass it here
+  emailVerified?: boolean; // True when the e-mail address is known to be the user's (admin, invitation)
 }
 
-export async function createUser({
-  email,
-  password,
-  role,
-  personId,
-}: CreateUserParams): Promise<User> {
+export async function createUser(
+  { email, password, role, personId, emailVerified = false }: CreateUserParams,
+  db: Prisma.TransactionClient = prisma, // pass a transaction client to create the user inside it
+): Promise<User> {
   try {
     // Require a personId to be provided
     if (!personId) {
-      throw new Error('A personId must be provided to create a user.');
+      throw new UnprocessableEntityError('A personId must be provided to create a user.');
     }
 
     // Verify that the person exists
-    const existingPerson = await prisma.person.findUnique({
+    const existingPerson = await db.person.findUnique({
       where: { id: personId },
     });
 
     if (!existingPerson) {
-      throw new Error(`Person with ID ${personId} not found.`);
+      throw new NotFoundError(`Person with ID ${personId} not found.`);
     }
 
     // Hash the password
     const hashedPassword = await bcrypt.hash(password, 10);
 
     // Attempt to connect to the role or default to 'user' (matches seed data)
-    let connectRoleData = [];
+    let connectRoleData: { roleId: string }[] = [];
     let roleName = role ? role.toLowerCase() : 'user';
 
-    const foundRole = await prisma.role.findUnique({
-      where: { name: roleName },
-    });
+    // null: no role yet, it is granted when an admin approves the registration
+    if (role !== null) {
+      const foundRole = await db.role.findUnique({
+        where: { name: roleName },
+      });
 
-    if (!foundRole) {
-      // For demonstration, we throw an error if role not found:
-      throw new Error(`Role "${roleName}" not found in the database.`);
-    } else {
+      if (!foundRole) {
+        // For demonstration, we throw an error if role not found:
+        throw new UnprocessableEntityError(`Role "${roleName}" not found in the database.`, 'UNKNOWN_ROLE');
+      }
       connectRoleData = [
         {
           roleId: foundRole.id,
@@ -78,11 +83,12 @@ export async function createUser({
     }
 
     // Create user with the chosen Person ID
-    const newUser = await prisma.user.create({
+    const newUser = await db.user.create({
       data: {
         personId: personId, // same value for PK and foreign key
         email,
         password: hashedPassword,
+        emailVerifiedAt: emailVerified ? new Date() : null,
         userRoles: {
           create: connectRoleData,
         },
@@ -93,7 +99,7 @@ export async function createUser({
   } catch (error: any) {
     // Unique constraint violation on email
     if (error.code === 'P2002') {
-      throw new Error(`User with email ${email} already exists.`);
+      throw new ConflictError(`User with email ${email} already exists.`, 'EMAIL_TAKEN');
     }
     throw error;
   }
@@ -144,13 +150,13 @@ export async function findByResetToken(token: string): Promise<User | null> {
 
 export async function findById(
   id: string,
-): Promise<(User & { roles: string[]; person: Person }) | null> {
+): Promise<(User & { roles: string[]; permissions: string[]; person: Person }) | null> {
   const user = await prisma.user.findUnique({
     where: { personId: id },
     include: {
       userRoles: {
         include: {
-          role: true,
+          role: { include: { rolePermissions: { include: { permission: true } } } },
         },
       },
       person: true, // Include the Person record if needed
@@ -159,10 +165,15 @@ export async function findById(
 
   if (!user) return null;
 
-  // Add roles array to user object
+  // Add roles and effective permissions to user object
+  const roles = user.userRoles.map((ur) => ur.role.name);
+  const granted = user.userRoles.flatMap((ur) =>
+    ur.role.rolePermissions.map((rp) => rp.permission.name),
+  );
   return {
     ...user,
-    roles: user.userRoles.map((ur) => ur.role.name),
+    roles,
+    permissions: resolvePermissions(roles, granted),
   };
 }
 
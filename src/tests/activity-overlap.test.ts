@@ -0,0 +1,134 @@
+/**
+ * @description
+ * Integration tests for overlapping activities of one person.
+ *
+ * Key features:
+ * - findOverlappingActivities: boundary cases of the [start, end) query
+ * - POST/PUT /admin/activities: 409 with the conflicts, unless `force` is sent, also for
+ *   two concurrent requests
+ */
+
+import { PrismaClient } from '@prisma/client';
+import request from 'supertest';
+import app from '../app';
+import { findOverlappingActivities } from '../services/activity-service';
+import { createTestUser, removeTestPersons, TestUser } from './test-users';
+
+const prisma = new PrismaClient();
+
+const at = (time: string) => new Date(`2031-03-10T${time}:00.000Z`);
+
+describe('ACTIVITY OVERLAP', () => {
+  let admin: TestUser;
+  let doctor: TestUser;
+  let existingId: string;
+
+  beforeAll(async () => {
+    admin = await createTestUser('OverlapAdmin', { roles: ['admin'] });
+    doctor = await createTestUser('OverlapDoc', { doctor: true });
+    const existing = await prisma.activity.create({
+      data: { activityType: 'CONFERENCE', personId: doctor.personId, start: at('08:00'), end: at('12:00') },
+    });
+    existingId = existing.id;
+  });
+
+  afterAll(async () => {
+    await removeTestPersons([admin.personId, doctor.personId]);
+    await prisma.$disconnect();
+  });
+
+  describe('findOverlappingActivities', () => {
+    const overlaps = async (start: string, end: string, excludeId?: string) =>
+      (await findOverlappingActivities(doctor.personId, at(start), at(end), excludeId)).map((a) => a.id);
+
+    it('finds partial, containing and contained periods', async () => {
+      expect(await overlaps('07:00', '09:00')).toEqual([existingId]);
+      expect(await overlaps('11:59', '13:00')).toEqual([existingId]);
+      expect(await overlaps('06:00', '14:00')).toEqual([existingId]);
+      expect(await overlaps('09:00', '10:00')).toEqual([existingId]);
+      expect(await overlaps('08:00', '12:00')).toEqual([existingId]);
+    });
+
+    it('does not treat back-to-back periods as overlapping', async () => {
+      expect(await overlaps('06:00', '08:00')).toEqual([]);
+      expect(await overlaps('12:00', '14:00')).toEqual([]);
+    });
+
+    it('ignores the excluded and cancelled activities', async () => {
+      expect(await overlaps('09:00', '10:00', existingId)).toEqual([]);
+
+      const cancelled = await prisma.activity.create({
+        data: {
+          activityType: 'CONFERENCE',
+          personId: doctor.personId,
+          start: at('13:00'),
+          end: at('15:00'),
+          status: 'CANCELLED',
+        },
+      });
+      expect(await overlaps('13:00', '15:00')).toEqual([]);
+      await prisma.activity.delete({ where: { id: cancelled.id } });
+    });
+  });
+
+  describe('POST and PUT /admin/activities', () => {
+    const body = (start: string, end: string) => ({
+      activityType: 'CONFERENCE',
+      personId: doctor.personId,
+      start: at(start).toISOString(),
+      end: at(end).toISOString(),
+    });
+
+    it('should refuse an overlapping activity with 409 and list the conflicts', async () => {
+      const res = await request(app)
+        .post('/admin/activities')
+        .set('Cookie', admin.cookies)
+        .send(body('10:00', '14:00'));
+      expect(res.status).toBe(409);
+      expect(res.body.conflicts.map((c: { id: string }) => c.id)).toEqual([existingId]);
+    });
+
+    it('should save an overlapping activity with force', async () => {
+      const res = await request(app)
+        .post('/admin/activities')
+        .set('Cookie', admin.cookies)
+        .send({ ...body('10:00', '14:00'), force: true });
+      expect(res.status).toBe(201);
+      await prisma.activity.delete({ where: { id: res.body.id } });
+    });
+
+    it('should not let an activity conflict with itself, but check the others on update', async () => {
+      const own = await request(app)
+        .put(`/admin/activities/${existingId}`)
+        .set('Cookie', admin.cookies)
+        .send({ end: at('12:30').toISOString() });
+      expect(own.status).toBe(200);
+
+      const later = await prisma.activity.create({
+        data: { activityType: 'CONFERENCE', personId: doctor.personId, start: at('13:00'), end: at('15:00') },
+      });
+      const moved = await request(app)
+        .put(`/admin/activities/${later.id}`)
+        .set('Cookie', admin.cookies)
+        .send({ start: at('12:00').toISOString() });
+      expect(moved.status).toBe(409);
+
+      const backToBack = await request(app)
+        .put(`/admin/activities/${later.id}`)
+        .set('Cookie', admin.cookies)
+        .send({ start: at('12:30').toISOString() });
+      expect(backToBack.status).toBe(200);
+    });
+
+    it('should save only one of two concurrent overlapping activities', async () => {
+      const [first, second] = await Promise.all([
+        request(app).post('/admin/activities').set('Cookie', admin.cookies).send(body('16:00', '18:00')),
+        request(app).post('/admin/activities').set('Cookie', admin.cookies).send(body('17:00', '19:00')),
+      ]);
+      expect([first.status, second.status].filter((status) => status === 201)).toHaveLength(1);
+
+      const saved = await findOverlappingActivities(doctor.personId, at('16:00'), at('19:00'));
+      expect(saved).toHaveLength(1);
+    });
+  });
+});
@@ -20,12 +20,14 @@ import { PrismaClient } from '@prisma/client';
 import bcrypt from 'bcrypt';
 import request from 'supertest';
 import app from '../app';
+import { createInvitation, revokeInvitation } from '../services/invitation-service';
 
 const prisma = new PrismaClient();
 
 describe('ADMIN FLOWS', () => {
   let adminCookies: string[] = [];
   let normalUserId: string; // This will store the personId of a "normal" user
+  let adminId: string;
 
   // Hardcode an admin user email for the tests
   const adminEmail = `admin_tester_${Date.now()}@example.com`;
@@ -54,11 +56,13 @@ describe('ADMIN FLOWS', () => {
         personId: person.id,
         email: adminEmail,
         password: hashedPassword,
+        emailVerifiedAt: new Date(),
         userRoles: {
           create: [{ roleId: adminRole.id }],
         },
       },
     });
+    adminId = adminUser.personId;
 
     // 2. Log in as admin to get cookies
     const loginRes = await request(app).post('/auth/login').send({
@@ -129,6 +133,7 @@ describe('ADMIN FLOWS', () => {
           personId: person.id,
           email: `normal_user_${Date.now()}@example.com`,
           password: hashed,
+          emailVerifiedAt: new Date(),
           // userRoles: link them to 'USER' if needed
         },
       });
@@ -147,6 +152,54 @@ describe('ADMIN FLOWS', () => {
           .get('/admin/users')
           .set('Cookie', normalCookies);
         expect(adminRes.status).toBe(403); // Forbidden for non-admin
+
+        // Nor may they make themselves admin, or take over another account
+        const promote = await request(app)
+          .put(`/admin/users/${normalUser.personId}`)
+          .set('Cookie', normalCookies)
+          .send({ role: 'admin' });
+        expect(promote.status).toBe(403);
+        const takeOver = await request(app)
+          .put(`/admin/users/${adminId}`)
+          .set('Cookie', normalCookies)
+          .send({ password: 'Hijacked#Pass1' });
+        expect(takeOver.status).toBe(403);
+
+        const shift = await request(app)
+          .post('/admin/activities')
+          .set('Cookie', normalCookies)
+          .send({
+            activityType: 'SHIFT',
+            start: '2031-01-06T08:00:00Z',
+            end: '2031-01-06T16:00:00Z',
+            personId: adminId,
+          });
+        expect(shift.status).toBe(403);
+      }
+    });
+  });
+
+  describe('No credentials in responses', () => {
+    const paths = () => [
+      '/admin/users',
+      `/admin/users/${adminId}`,
+      `/admin/persons/${adminId}`,
+      '/admin/doctors',
+      '/admin/user-roles',
+      `/admin/user-roles/user/${adminId}`,
+    ];
+
+    it('never returns password or resetToken', async () => {
+      await prisma.user.update({
+        where: { personId: adminId },
+        data: { resetToken: 'secret-reset-token', resetExpire: new Date() },
+      });
+
+      for (const path of paths()) {
+        const res = await request(app).get(path).set('Cookie', adminCookies);
+        expect(res.status).toBe(200);
+        expect(res.text).not.toMatch(/"password"|"resetToken"|"resetExpire"/);
+        expect(res.text).not.toContain('secret-reset-token');
       }
     });
   });
@@ -161,6 +214,9 @@ describe('ADMIN FLOWS', () => {
     });
 
     it('should create a new user with specified role', async () => {
+      const person = await prisma.person.create({
+        data: { firstName: 'CreatedFirst', lastName: 'CreatedLast', dateOfBirth: new Date('1990-01-01') },
+      });
       const res = await request(app)
         .post('/admin/users')
         .set('Cookie', adminCookies)
@@ -168,18 +224,21 @@ describe('ADMIN FLOWS', () => {
           email: `test_admin_create_${Date.now()}@example.com`,
           password: 'UserPass#1',
           role: 'user',
+          personId: person.id,
         });
 
-      // In practice, 'createNewUser' might fail if personId is required and not provided.
-      // This is just a test illustration. Adjust in real code as needed.
-      if (res.status === 201) {
-        expect(res.body.user).toHaveProperty('personId');
-        expect(res.body.user).toHaveProperty('email');
-        normalUserId = res.body.user.personId;
-      } else {
-        // Possibly 400 if your real code requires a personId
-        expect([201, 400]).toContain(res.status);
-      }
+      expect(res.status).toBe(201);
+      expect(res.body.user).toHaveProperty('personId', person.id);
+      expect(res.body.user).toHaveProperty('email');
+      normalUserId = res.body.user.personId;
+    });
+
+    it('should require a personId instead of inventing a person', async () => {
+      const res = await request(app)
+        .post('/admin/users')
+        .set('Cookie', adminCookies)
+        .send({ email: `test_admin_noperson_${Date.now()}@example.com`, password: 'UserPass#1' });
+      expect(res.status).toBe(400);
     });
 
     it('should update an existing user (e.g., change email or password)', async () => {
@@ -205,4 +264,300 @@ describe('ADMIN FLOWS', () => {
       expect([200, 400, 404]).toContain(deleteRes.status);
     });
   });
+
+  describe('Account status', () => {
+    it('should suspend a user instead of deleting it, and reactivate it again', async () => {
+      const person = await prisma.person.create({
+        data: { firstName: 'StatusFirst', lastName: 'StatusLast', dateOfBirth: new Date('1991-04-01') },
+      });
+      const email = `status_user_${Date.now()}@example.com`;
+      await prisma.user.create({
+        data: {
+          personId: person.id,
+          email,
+          password: await bcrypt.hash('StatusPass#1', 10),
+          emailVerifiedAt: new Date(),
+        },
+      });
+      const login = () => request(app).post('/auth/login').send({ email, password: 'StatusPass#1' });
+
+      const active = await login();
+      expect(active.status).toBe(200);
+      const userCookies = active.headers['set-cookie'];
+      const feed = await request(app).post('/calendar/feed-token').set('Cookie', userCookies);
+      const feedPath = new URL(feed.body.url).pathname;
+      expect((await request(app).get(feedPath)).status).toBe(200);
+
+      const suspended = await request(app)
+        .put(`/admin/users/${person.id}/status`)
+        .set('Cookie', adminCookies)
+        .send({ status: 'SUSPENDED', reason: 'Lost laptop' });
+      expect(suspended.status).toBe(200);
+      expect(suspended.body.user).toMatchObject({ status: 'SUSPENDED', statusReason: 'Lost laptop' });
+
+      // Existing tokens stop working right away
+      const me = await request(app).get('/me/sessions').set('Cookie', userCookies);
+      expect(me.status).toBe(401);
+      const blocked = await login();
+      expect(blocked.status).toBe(403);
+      expect(blocked.body.code).toBe('ACCOUNT_SUSPENDED');
+      expect((await request(app).get(feedPath)).status).toBe(404);
+
+      await request(app)
+        .put(`/admin/users/${person.id}/status`)
+        .set('Cookie', adminCookies)
+        .send({ status: 'ACTIVE' });
+      expect((await login()).status).toBe(200);
+      expect((await request(app).get(feedPath)).status).toBe(200);
+
+      await prisma.refreshToken.deleteMany({ where: { userId: person.id } });
+      await prisma.user.delete({ where: { personId: person.id } });
+      await prisma.person.delete({ where: { id: person.id } });
+    });
+  });
+
+  describe('Account lockout', () => {
+    it('should lock an account after repeated failures until an admin unlocks it', async () => {
+      const person = await prisma.person.create({
+        data: { firstName: 'LockFirst', lastName: 'LockLast', dateOfBirth: new Date('1990-02-01') },
+      });
+      const email = `lock_user_${Date.now()}@example.com`;
+      await prisma.user.create({
+        data: {
+          personId: person.id,
+          email,
+          password: await bcrypt.hash('LockPass#1', 10),
+          emailVerifiedAt: new Date(),
+          failedLoginCount: 4, // as if four attempts from other IPs already failed
+        },
+      });
+
+      const wrong = await request(app).post('/auth/login').send({ email, password: 'Wrong#Pass1' });
+      expect(wrong.status).toBe(401);
+
+      // Now even the right password is refused, and told why
+      const locked = await request(app).post('/auth/login').send({ email, password: 'LockPass#1' });
+      expect(locked.status).toBe(403);
+      expect(locked.body.code).toBe('ACCOUNT_LOCKED');
+      expect(new Date(locked.body.lockedUntil).getTime()).toBeGreaterThan(Date.now());
+
+      const events = await prisma.loginEvent.findMany({ where: { userId: person.id } });
+      expect(events.map((e) => e.reason).sort()).toEqual(['ACCOUNT_LOCKED', 'INVALID_CREDENTIALS']);
+
+      const unlocked = await request(app)
+        .post(`/admin/users/${person.id}/unlock`)
+        .set('Cookie', adminCookies);
+      expect(unlocked.status).toBe(200);
+      expect(unlocked.body.user.lockedUntil).toBeNull();
+      const stored = await prisma.user.findUniqueOrThrow({ where: { personId: person.id } });
+      expect(stored.failedLoginCount).toBe(0);
+
+      await prisma.loginEvent.deleteMany({ where: { email } });
+      await prisma.user.delete({ where: { personId: person.id } });
+      await prisma.person.delete({ where: { id: person.id } });
+    });
+  });
+
+  describe('Invitations', () => {
+    it('should invite a new person, then resend and revoke the invitation', async () => {
+      const email = `test_invite_${Date.now()}@example.com`;
+      const created = await request(app)
+        .post('/admin/invitations')
+        .set('Cookie', adminCookies)
+        .send({
+          email,
+          person: { firstName: 'InvitedFirst', lastName: 'InvitedLast', dateOfBirth: '1985-03-01' },
+        });
+      expect(created.status).toBe(201);
+      expect(created.body).toMatchObject({ email, status: 'PENDING' });
+      expect(created.body.person).toMatchObject({ firstName: 'InvitedFirst' });
+      expect(JSON.stringify(created.body)).not.toMatch(/token/i);
+
+      const duplicate = await request(app)
+        .post('/admin/invitations')
+        .set('Cookie', adminCookies)
+        .send({ email, personId: created.body.personId });
+      expect(duplicate.status).toBe(409);
+
+      const pending = await request(app)
+        .get('/admin/invitations?status=PENDING')
+        .set('Cookie', adminCookies);
+      expect(pending.body.map((i: any) => i.id)).toContain(created.body.id);
+
+      const resent = await request(app)
+        .post(`/admin/invitations/${created.body.id}/resend`)
+        .set('Cookie', adminCookies);
+      expect(resent.status).toBe(200);
+
+      const revoked = await request(app)
+        .delete(`/admin/invitations/${created.body.id}`)
+        .set('Cookie', adminCookies);
+      expect(revoked.body.status).toBe('REVOKED');
+
+      const again = await request(app)
+        .post(`/admin/invitations/${created.body.id}/resend`)
+        .set('Cookie', adminCookies);
+      expect(again.status).toBe(409);
+
+      await prisma.person.delete({ where: { id: created.body.personId } });
+    });
+
+    it('should create exactly one account from a link, and none once it is revoked', async () => {
+      const invite = (suffix: string) =>
+        createInvitation(
+          {
+            email: `test_invite_${suffix}_${Date.now()}@example.com`,
+            person: { firstName: `Invited${suffix}`, lastName: 'InvitedLast', dateOfBirth: new Date('1985-03-01') },
+          },
+          null,
+        );
+      const accept = (token: string) =>
+        request(app).post('/auth/accept-invite').send({ token, password: 'StrongPass#1' });
+
+      const raced = await invite('Raced');
+      const attempts = await Promise.all([accept(raced.token), accept(raced.token)]);
+      expect(attempts.map((a) => a.status).sort()).toEqual([201, 400]);
+      expect(await prisma.user.count({ where: { email: raced.invitation.email } })).toBe(1);
+
+      const revoked = await invite('Revoked');
+      await revokeInvitation(revoked.invitation.id);
+      expect((await accept(revoked.token)).status).toBe(400);
+      expect(await prisma.user.count({ where: { email: revoked.invitation.email } })).toBe(0);
+
+      await prisma.userRole.deleteMany({ where: { userId: raced.invitation.personId } });
+      await prisma.user.delete({ where: { personId: raced.invitation.personId } });
+      for (const { invitation } of [raced, revoked]) {
+        await prisma.person.delete({ where: { id: invitation.personId } });
+      }
+    });
+
+    it('should refuse unknown invitation tokens', async () => {
+      const res = await request(app)
+        .post('/auth/accept-invite')
+        .send({ token: 'not-a-real-token', password: 'StrongPass#1' });
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('Registrations', () => {
+    const password = 'StrongPass#1';
+    const register = async (suffix: string) => {
+      const email = `test_registration_${suffix}_${Date.now()}@example.com`;
+      const res = await request(app)
+        .post('/auth/register')
+        .send({
+          email,
+          password,
+          firstName: `Applicant${suffix}`,
+          lastName: 'Registration',
+          dateOfBirth: '1988-02-01',
+          rizivNumber: String(Date.now()).slice(-11).padStart(11, '1'),
+          isEnabledInShifts: false,
+        });
+      expect(res.status).toBe(201);
+      // Skip the e-mail round trip; the approval is what is tested here
+      await prisma.user.update({ where: { email }, data: { emailVerifiedAt: new Date() } });
+      return { email, personId: res.body.user.personId as string };
+    };
+    const cleanUp = async (personId: string) => {
+      await prisma.userRole.deleteMany({ where: { userId: personId } });
+      await prisma.user.delete({ where: { personId } });
+      await prisma.doctor.delete({ where: { personId } });
+      await prisma.person.delete({ where: { id: personId } });
+    };
+
+    it('should grant roles and shift eligibility only on approval', async () => {
+      const applicant = await register('Approved');
+      const before = await prisma.user.findUniqueOrThrow({
+        where: { personId: applicant.personId },
+        include: { userRoles: true, person: { include: { doctor: true } } },
+      });
+      expect(before.userRoles).toHaveLength(0);
+      expect(before.person.doctor?.isEnabledInShifts).toBe(false);
+
+      const blocked = await request(app).post('/auth/login').send({ email: applicant.email, password });
+      expect(blocked.status).toBe(403);
+      expect(blocked.body.code).toBe('REGISTRATION_PENDING');
+
+      const queue = await request(app)
+        .get('/admin/registrations?status=PENDING')
+        .set('Cookie', adminCookies);
+      const registration = queue.body.find((r: any) => r.personId === applicant.personId);
+      expect(registration).toMatchObject({ requestedIsEnabledInShifts: false, emailVerified: true });
+
+      const approved = await request(app)
+        .post(`/admin/registrations/${registration.id}/approve`)
+        .set('Cookie', adminCookies)
+        .send({ isEnabledInShifts: true });
+      expect(approved.status).toBe(200);
+      expect(approved.body.status).toBe('APPROVED');
+      expect(approved.body.person.doctor.isEnabledInShifts).toBe(true);
+
+      const twice = await request(app)
+        .post(`/admin/registrations/${registration.id}/approve`)
+        .set('Cookie', adminCookies);
+      expect(twice.status).toBe(409);
+
+      const login = await request(app).post('/auth/login').send({ email: applicant.email, password });
+      expect(login.status).toBe(200);
+      expect(login.body.authenticatedUser.roles).toEqual(['user']);
+
+      await cleanUp(applicant.personId);
+    });
+
+    it('should reject with a reason and keep refusing the login', async () => {
+      const applicant = await register('Rejected');
+      const { id } = await prisma.registration.findUniqueOrThrow({
+        where: { personId: applicant.personId },
+      });
+
+      const missingReason = await request(app)
+        .post(`/admin/registrations/${id}/reject`)
+        .set('Cookie', adminCookies)
+        .send({});
+      expect(missingReason.status).toBe(400);
+
+      const rejected = await request(app)
+        .post(`/admin/registrations/${id}/reject`)
+        .set('Cookie', adminCookies)
+        .send({ reason: 'Unknown RIZIV number' });
+      expect(rejected.body).toMatchObject({ status: 'REJECTED', reason: 'Unknown RIZIV number' });
+
+      const login = await request(app).post('/auth/login').send({ email: applicant.email, password });
+      expect(login.status).toBe(403);
+      expect(login.body.code).toBe('REGISTRATION_REJECTED');
+
+      await cleanUp(applicant.personId);
+    });
+
+    it('should let only one of a concurrent approval and rejection decide', async () => {
+      const applicant = await register('Raced');
+      const { id } = await prisma.registration.findUniqueOrThrow({
+        where: { personId: applicant.personId },
+      });
+
+      const [approve, reject] = await Promise.all([
+        request(app)
+          .post(`/admin/registrations/${id}/approve`)
+          .set('Cookie', adminCookies)
+          .send({ isEnabledInShifts: true }),
+        request(app)
+          .post(`/admin/registrations/${id}/reject`)
+          .set('Cookie', adminCookies)
+          .send({ reason: 'Duplicate application' }),
+      ]);
+      expect([approve.status, reject.status].sort()).toEqual([200, 409]);
+
+      const stored = await prisma.user.findUniqueOrThrow({
+        where: { personId: applicant.personId },
+        include: { userRoles: true, person: { include: { doctor: true, registration: true } } },
+      });
+      // A rejected applicant never keeps the role or the shifts of the losing approval
+      const approved = stored.person.registration?.status === 'APPROVED';
+      expect(stored.userRoles).toHaveLength(approved ? 1 : 0);
+      expect(stored.person.doctor?.isEnabledInShifts).toBe(approved);
+
+      await cleanUp(applicant.personId);
+    });
+  });
 });
@@ -0,0 +1,107 @@
+/**
+ * @description
+ * Tests for the audit trail: snapshots and the mutations that are recorded.
+ *
+ * Key features:
+ * - Snapshots never contain credentials, at any depth
+ * - toAuditLogDto turns the stored JSON back into objects, no database needed
+ * - Integration: closing day mutations show up in /admin/audit with before and after
+ */
+
+import { AuditLog, PrismaClient } from '@prisma/client';
+import request from 'supertest';
+import app from '../app';
+import { toAuditLogDto } from '../dto/audit-dto';
+import { auditSnapshot } from '../services/audit-service';
+import { createTestUser, removeTestPersons, TestUser } from './test-users';
+
+const prisma = new PrismaClient();
+
+describe('AUDIT SNAPSHOTS', () => {
+  it('stores no snapshot for a missing state', () => {
+    expect(auditSnapshot(undefined)).toBeNull();
+    expect(auditSnapshot(null)).toBeNull();
+  });
+
+  it('removes credentials before storing', () => {
+    const json = auditSnapshot({
+      personId: 'p1',
+      email: 'jan.peeters@medecare.be',
+      password: '$2b$10$hash',
+      person: { user: { resetToken: 'reset-token' } },
+    });
+    expect(json).not.toMatch(/password|resetToken|\$2b\$/);
+    expect(JSON.parse(json as string)).toEqual({
+      personId: 'p1',
+      email: 'jan.peeters@medecare.be',
+      person: { user: {} },
+    });
+  });
+
+  it('returns before and after as objects', () => {
+    const before = { id: 'r1', rate: 40, validFrom: new Date('2025-01-01T00:00:00Z') };
+    const after = { ...before, rate: 45 };
+    const entry: AuditLog = {
+      id: 'a1',
+      actorId: 'p1',
+      action: 'UPDATE',
+      entityType: 'ShiftTypeRate',
+      entityId: 'r1',
+      before: auditSnapshot(before),
+      after: auditSnapshot(after),
+      createdAt: new Date('2025-07-01T10:00:00Z'),
+    };
+
+    const dto = toAuditLogDto(entry);
+    expect(dto.before).toEqual({ id: 'r1', rate: 40, validFrom: '2025-01-01T00:00:00.000Z' });
+    expect(dto.after).toMatchObject({ rate: 45 });
+    expect(toAuditLogDto({ ...entry, action: 'CREATE', before: null }).before).toBeNull();
+  });
+});
+
+describe('AUDITED MUTATIONS', () => {
+  let admin: TestUser;
+
+  beforeAll(async () => {
+    admin = await createTestUser('AuditAdmin', { roles: ['admin'] });
+  });
+
+  afterAll(async () => {
+    await prisma.auditLog.deleteMany({ where: { actorId: admin.personId } });
+    await removeTestPersons([admin.personId]);
+    await prisma.$disconnect();
+  });
+
+  it('records create, update and delete of a closing day', async () => {
+    const created = await request(app)
+      .post('/admin/holidays/closing-days')
+      .set('Cookie', admin.cookies)
+      .send({ date: '2031-08-14', name: 'Audit closing day' });
+    expect(created.status).toBe(201);
+    const id = created.body.id;
+
+    const updated = await request(app)
+      .put(`/admin/holidays/closing-days/${id}`)
+      .set('Cookie', admin.cookies)
+      .send({ name: 'Renamed closing day' });
+    expect(updated.status).toBe(200);
+    const deleted = await request(app)
+      .delete(`/admin/holidays/closing-days/${id}`)
+      .set('Cookie', admin.cookies);
+    expect(deleted.status).toBe(200);
+
+    const res = await request(app)
+      .get('/admin/audit')
+      .query({ entity: 'ClosingDay', entityId: id })
+      .set('Cookie', admin.cookies);
+    expect(res.status).toBe(200);
+    const byAction = Object.fromEntries(res.body.map((e: any) => [e.action, e]));
+    expect(Object.keys(byAction).sort()).toEqual(['CREATE', 'DELETE', 'UPDATE']);
+    expect(byAction.CREATE).toMatchObject({ actorId: admin.personId, before: null });
+    expect(byAction.CREATE.after.name).toBe('Audit closing day');
+    expect(byAction.UPDATE.before.name).toBe('Audit closing day');
+    expect(byAction.UPDATE.after.name).toBe('Renamed closing day');
+    expect(byAction.DELETE).toMatchObject({ after: null });
+    expect(byAction.DELETE.before.name).toBe('Renamed closing day');
+  });
+});
@@ -6,7 +6,7 @@
  * - Tests are done using supertest to simulate real HTTP calls to the Express app.
  * - Includes sample test cases for:
  *    1. User registration
- *    2. User login
+ *    2. User login (after e-mail verification and approval)
  *    3. Forgot password
  *    4. Reset password
  *    5. Change password
@@ -17,6 +17,7 @@
  */
 
 import { PrismaClient } from '@prisma/client';
+import crypto from 'crypto';
 import request from 'supertest';
 import app from '../app';
 
@@ -41,6 +42,7 @@ describe('AUTHENTICATION FLOWS', () => {
       await prisma.person.deleteMany({ where: { id: { in: ids } } });
     }
     await prisma.user.deleteMany({ where: { email: { startsWith: 'testuser_' } } });
+    await prisma.loginEvent.deleteMany({ where: { email: { startsWith: 'testuser_' } } });
     await prisma.$disconnect();
   });
 
@@ -53,10 +55,13 @@ describe('AUTHENTICATION FLOWS', () => {
         firstName: `John_${Date.now()}`,
         lastName: 'Doe',
         dateOfBirth: '1990-05-01',
+        rizivNumber: String(Date.now()).slice(-11).padStart(11, '1'),
       });
       // Could be 201 on success
       if (res.status === 201) {
         expect(res.body).toHaveProperty('message', 'Registration successful.');
+        expect(res.body).toHaveProperty('emailVerificationRequired', true);
+        expect(res.body).toHaveProperty('approvalRequired', true);
         expect(res.body.user).toHaveProperty('email', testEmail);
         expect(res.body.user).toHaveProperty('personId');
       } else {
@@ -79,6 +84,31 @@ describe('AUTHENTICATION FLOWS', () => {
       // Usually we'd expect 400 with an error message
     });
 
+    it('should refuse to self-register a person who already is a doctor', async () => {
+      const person = await prisma.person.create({
+        data: { firstName: `Known_${Date.now()}`, lastName: 'Doctor', dateOfBirth: new Date('1975-02-03') },
+      });
+      await prisma.doctor.create({ data: { personId: person.id, rizivNumber: '19750203001' } });
+      const email = `testuser_known_${Date.now()}@example.com`;
+
+      const res = await request(app).post('/auth/register').send({
+        email,
+        password: testPassword,
+        firstName: person.firstName,
+        lastName: 'Doctor',
+        dateOfBirth: '1975-02-03',
+        rizivNumber: '19750203002',
+      });
+      expect(res.status).toBe(409);
+      expect(res.body.code).toBe('PERSON_IS_DOCTOR');
+      // Nothing was written: no account and nothing in the approval queue
+      expect(await prisma.user.findUnique({ where: { email } })).toBeNull();
+      expect(await prisma.registration.findUnique({ where: { personId: person.id } })).toBeNull();
+
+      await prisma.doctor.delete({ where: { personId: person.id } });
+      await prisma.person.delete({ where: { id: person.id } });
+    });
+
     it('should fail to register if email is missing', async () => {
       const res = await request(app).post('/auth/register').send({
         password: 'MissingEmail#1',
@@ -93,6 +123,44 @@ describe('AUTHENTICATION FLOWS', () => {
 
   // 2. Login
   describe('POST /auth/login', () => {
+    it('should refuse login until the e-mail address is verified and approved', async () => {
+      const blocked = await request(app).post('/auth/login').send({
+        email: testEmail,
+        password: testPassword,
+      });
+      expect(blocked.status).toBe(403);
+      expect(blocked.body).toHaveProperty('code', 'EMAIL_NOT_VERIFIED');
+
+      // The token normally arrives by e-mail; only its hash is stored
+      const token = crypto.randomBytes(32).toString('hex');
+      await prisma.user.update({
+        where: { email: testEmail },
+        data: {
+          emailVerificationTokenHash: crypto.createHash('sha256').update(token).digest('hex'),
+          emailVerificationExpire: new Date(Date.now() + 60_000),
+        },
+      });
+      const verified = await request(app).post('/auth/verify-email').send({ token });
+      expect(verified.status).toBe(200);
+
+      const reused = await request(app).post('/auth/verify-email').send({ token });
+      expect(reused.status).toBe(400);
+
+      // Verified, but self-registered accounts also wait for an admin
+      const pending = await request(app).post('/auth/login').send({
+        email: testEmail,
+        password: testPassword,
+      });
+      expect(pending.status).toBe(403);
+      expect(pending.body).toHaveProperty('code', 'REGISTRATION_PENDING');
+
+      const user = await prisma.user.findUniqueOrThrow({ where: { email: testEmail } });
+      await prisma.registration.update({
+        where: { personId: user.personId },
+        data: { status: 'APPROVED' },
+      });
+    });
+
     it('should login an existing user and set tokens in cookies', async () => {
       // Attempt login after successful registration
       const res = await request(app).post('/auth/login').send({
@@ -144,6 +212,93 @@ describe('AUTHENTICATION FLOWS', () => {
       // Possibly 400 with an error
       expect([400, 401]).toContain(res.status);
     });
+
+    it('should revoke the whole token family when a rotated token is replayed', async () => {
+      const loginRes = await request(app).post('/auth/login').send({
+        email: testEmail,
+        password: testPassword,
+        platform: 'mobile',
+      });
+      expect(loginRes.status).toBe(200);
+      const first = loginRes.body.refreshToken;
+
+      const rotated = await request(app).post('/auth/refresh').send({ refreshToken: first, platform: 'mobile' });
+      expect(rotated.status).toBe(200);
+      const second = rotated.body.refreshToken;
+      expect(second).not.toBe(first);
+
+      const replayed = await request(app).post('/auth/refresh').send({ refreshToken: first, platform: 'mobile' });
+      expect(replayed.status).toBe(401);
+
+      // The legitimate successor is revoked together with the replayed token
+      const afterReuse = await request(app).post('/auth/refresh').send({ refreshToken: second, platform: 'mobile' });
+      expect(afterReuse.status).toBe(401);
+
+      const stored = await prisma.refreshToken.findMany({ where: { tokenHash: { in: [first, second] } } });
+      expect(stored).toHaveLength(0); // only hashes are stored
+    });
+  });
+
+  // 3b. Sessions
+  describe('/me/sessions', () => {
+    it('should list sessions per login and end one of them', async () => {
+      const login = () =>
+        request(app)
+          .post('/auth/login')
+          .set('User-Agent', 'MedEcare-iOS/1.0')
+          .send({ email: testEmail, password: testPassword, platform: 'mobile' });
+      const phone = await login();
+      const tablet = await login();
+      expect(tablet.status).toBe(200);
+      const auth = { Authorization: `Bearer ${phone.body.accessToken}` };
+
+      const list = await request(app)
+        .get('/me/sessions')
+        .set(auth)
+        .set('x-refresh-token', phone.body.refreshToken);
+      expect(list.status).toBe(200);
+      const mine = list.body.find((s: any) => s.current);
+      const other = list.body.find((s: any) => !s.current && s.userAgent === 'MedEcare-iOS/1.0');
+      expect(mine).toMatchObject({ platform: 'mobile', userAgent: 'MedEcare-iOS/1.0' });
+      expect(other).toBeDefined();
+
+      const revoked = await request(app).delete(`/me/sessions/${other.id}`).set(auth);
+      expect(revoked.status).toBe(200);
+
+      const refreshed = await request(app)
+        .post('/auth/refresh')
+        .send({ refreshToken: tablet.body.refreshToken, platform: 'mobile' });
+      expect(refreshed.status).toBe(401);
+
+      const unknown = await request(app).delete(`/me/sessions/${other.id}`).set(auth);
+      expect(unknown.status).toBe(404);
+    });
+  });
+
+  // 3c. Sign-in history
+  describe('GET /me/sign-ins', () => {
+    it('should list successful and refused sign-ins and flag new devices', async () => {
+      const res = await request(app)
+        .post('/auth/login')
+        .set('User-Agent', 'MedEcare-Android/2.0')
+        .send({ email: testEmail, password: testPassword, platform: 'mobile' });
+      expect(res.status).toBe(200);
+
+      const list = await request(app)
+        .get('/me/sign-ins')
+        .set('Authorization', `Bearer ${res.body.accessToken}`);
+      expect(list.status).toBe(200);
+      expect(list.body[0]).toMatchObject({
+        success: true,
+        platform: 'mobile',
+        userAgent: 'MedEcare-Android/2.0',
+        newDevice: true,
+      });
+      expect(list.body).toContainEqual(
+        expect.objectContaining({ success: false, reason: 'INVALID_CREDENTIALS' }),
+      );
+      expect(list.body[0]).not.toHaveProperty('email');
+    });
   });
 
   // 4. Forgot & Reset Password
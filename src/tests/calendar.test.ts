@@ -0,0 +1,79 @@
+/**
+ * @description
+ * Unit tests for the ICS calendar feed rendering.
+ *
+ * Key features:
+ * - Exercises the pure buildIcsCalendar helpers, no database needed
+ * - Covers date format, text escaping, line folding and cancelled events
+ */
+
+import {
+  CalendarActivity,
+  buildIcsCalendar,
+  escapeIcsText,
+  foldIcsLine,
+  formatIcsDate,
+} from '../services/calendar-service';
+
+function activity(overrides: Partial<CalendarActivity>): CalendarActivity {
+  return {
+    id: 'a1',
+    activityType: 'SHIFT',
+    start: new Date('2025-06-02T19:00:00Z'),
+    end: new Date('2025-06-03T09:00:00Z'),
+    status: 'SCHEDULED',
+    personId: 'p1',
+    shiftTypeId: 'st1',
+    shiftType: {
+      id: 'st1',
+      name: 'nacht',
+      startHour: 19,
+      startMinute: 0,
+      durationMinutes: 840,
+      activeFrom: null,
+      activeUntil: null,
+      createdAt: new Date('2025-01-01T00:00:00Z'),
+      updatedAt: new Date('2025-01-01T00:00:00Z'),
+    },
+    createdAt: new Date('2025-05-01T00:00:00Z'),
+    updatedAt: new Date('2025-05-01T08:30:00Z'),
+    ...overrides,
+  };
+}
+
+describe('CALENDAR FEED', () => {
+  it('formats dates as UTC date-times', () => {
+    expect(formatIcsDate(new Date('2025-06-02T19:05:09.123Z'))).toBe('20250602T190509Z');
+  });
+
+  it('escapes special characters in text', () => {
+    expect(escapeIcsText('a,b;c\\d\ne')).toBe('a\\,b\\;c\\\\d\\ne');
+  });
+
+  it('folds lines longer than 75 octets', () => {
+    const folded = foldIcsLine(`SUMMARY:${'x'.repeat(100)}`);
+    const lines = folded.split('\r\n');
+    expect(lines[0]).toHaveLength(75);
+    expect(lines[1].startsWith(' ')).toBe(true);
+    expect(lines.map((l, i) => (i ? l.slice(1) : l)).join('')).toBe(`SUMMARY:${'x'.repeat(100)}`);
+  });
+
+  it('renders shifts with their shift type and cancelled activities as cancelled', () => {
+    const ics = buildIcsCalendar('MedEcare - Jan Peeters', [
+      activity({}),
+      activity({ id: 'a2', status: 'CANCELLED' }),
+      activity({ id: 'a3', activityType: 'LEAVE', shiftTypeId: null, shiftType: null }),
+    ]);
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics).toContain('UID:a1@medecare\r\n');
+    expect(ics).toContain('DTSTART:20250602T190000Z\r\nDTEND:20250603T090000Z\r\n');
+    expect(ics).toContain('SUMMARY:nacht\r\n');
+    expect(ics).toContain('DESCRIPTION:Type: SHIFT\\nStatus: SCHEDULED\r\n');
+    expect(ics).toContain('SUMMARY:nacht (cancelled)\r\n');
+    expect(ics).toContain('SUMMARY:LEAVE\r\n');
+    expect(ics.match(/STATUS:CANCELLED/g)).toHaveLength(1);
+    expect(ics.match(/STATUS:CONFIRMED/g)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * @description
+ * Unit tests for the compensation engine.
+ *
+ * Key features:
+ * - Exercises the pure splitShiftByRates function, no database needed
+ * - Covers a single rate, a shift crossing a rate boundary and parts without a rate
+ * - Covers the non-overlap rule for rate periods of one shift type, and how an update
+ *   merges its period with the stored one
+ */
+
+import { splitShiftByRates } from '../services/compensation-service';
+import { ratePeriodsOverlap, updatedRatePeriod } from '../services/shift-type-rate-service';
+
+const rateUntilJune = {
+  id: 'r1',
+  rate: 85,
+  validFrom: new Date('2025-01-01T00:00:00Z'),
+  validUntil: new Date('2025-06-30T00:00:00Z'),
+};
+const rateFromJuly = {
+  id: 'r2',
+  rate: 90,
+  validFrom: new Date('2025-07-01T00:00:00Z'),
+  validUntil: null,
+};
+
+describe('COMPENSATION', () => {
+  it('pays a shift within one rate period at that rate', () => {
+    const lines = splitShiftByRates(
+      new Date('2025-03-10T19:00:00Z'),
+      new Date('2025-03-11T09:00:00Z'),
+      [rateUntilJune, rateFromJuly],
+    );
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toMatchObject({ rateId: 'r1', hours: 14, amount: 1190 });
+  });
+
+  it('treats validUntil as an inclusive day and splits at the boundary', () => {
+    const lines = splitShiftByRates(
+      new Date('2025-06-30T19:00:00Z'),
+      new Date('2025-07-01T09:00:00Z'),
+      [rateUntilJune, rateFromJuly],
+    );
+    expect(lines.map((l) => [l.rateId, l.hours, l.amount])).toEqual([
+      ['r1', 5, 425],
+      ['r2', 9, 810],
+    ]);
+  });
+
+  it('reports parts without a valid rate with amount 0', () => {
+    const lines = splitShiftByRates(
+      new Date('2024-12-31T20:00:00Z'),
+      new Date('2025-01-01T08:00:00Z'),
+      [rateUntilJune],
+    );
+    expect(lines.map((l) => [l.rateId, l.hours, l.amount])).toEqual([
+      [null, 4, 0],
+      ['r1', 8, 680],
+    ]);
+  });
+});
+
+describe('RATE PERIODS', () => {
+  it('accepts a rate starting the day after the previous one ends', () => {
+    expect(ratePeriodsOverlap(rateUntilJune, rateFromJuly)).toBe(false);
+  });
+
+  it('rejects periods sharing a day, including open-ended ones', () => {
+    const fromJune30 = { validFrom: new Date('2025-06-30T00:00:00Z'), validUntil: null };
+    expect(ratePeriodsOverlap(rateUntilJune, fromJune30)).toBe(true);
+
+    const later = { validFrom: new Date('2026-01-01T00:00:00Z'), validUntil: null };
+    expect(ratePeriodsOverlap(rateFromJuly, later)).toBe(true);
+  });
+
+  it('keeps a closed period closed when an update only changes the amount', () => {
+    expect(updatedRatePeriod(rateUntilJune, {})).toEqual({
+      validFrom: rateUntilJune.validFrom,
+      validUntil: rateUntilJune.validUntil,
+    });
+    expect(updatedRatePeriod(rateUntilJune, { validUntil: null }).validUntil).toBeNull();
+    expect(updatedRatePeriod(rateUntilJune, { validUntil: '2025-05-31T00:00:00Z' }).validUntil)
+      .toEqual(new Date('2025-05-31T00:00:00Z'));
+  });
+});
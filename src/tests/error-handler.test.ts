@@ -0,0 +1,109 @@
+/**
+ * @description
+ * Unit tests for the central error handler.
+ *
+ * Key features:
+ * - Throws Prisma and domain errors from routes in a small Express app, no database needed
+ * - Checks status, problem+json content type, stable codes and the stack trace rule
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { Prisma } from '@prisma/client';
+import { errorHandler } from '../middleware/error-middleware';
+import { ConflictError, NotFoundError } from '../utils/app-error';
+
+const prismaError = (code: string, meta?: Record<string, unknown>) =>
+  new Prisma.PrismaClientKnownRequestError(`Prisma error ${code}`, {
+    code,
+    clientVersion: 'test',
+    meta,
+  });
+
+function appThrowing(error: unknown) {
+  const app = express();
+  app.use(express.json());
+  app.all('/boom', (req, res, next) => next(error));
+  app.use(errorHandler);
+  return app;
+}
+
+describe('ERROR HANDLER', () => {
+  const originalEnv = process.env.NODE_ENV;
+  afterEach(() => {
+    process.env.NODE_ENV = originalEnv;
+  });
+
+  it('maps P2002 to 409 with the conflicting fields', async () => {
+    const res = await request(appThrowing(prismaError('P2002', { target: ['rizivNumber'] }))).post('/boom');
+
+    expect(res.status).toBe(409);
+    expect(res.headers['content-type']).toMatch(/^application\/problem\+json/);
+    expect(res.body).toEqual({
+      type: 'about:blank',
+      title: 'Conflict',
+      status: 409,
+      detail: 'A record with this rizivNumber already exists.',
+      instance: '/boom',
+      code: 'UNIQUE_CONSTRAINT_VIOLATION',
+      error: 'A record with this rizivNumber already exists.',
+      fields: ['rizivNumber'],
+    });
+  });
+
+  it('maps P2025 to 404', async () => {
+    const res = await request(appThrowing(prismaError('P2025'))).put('/boom');
+    expect(res.status).toBe(404);
+    expect(res.body.code).toBe('RECORD_NOT_FOUND');
+  });
+
+  it('maps P2003 to 409 on delete and 422 otherwise', async () => {
+    const app = appThrowing(prismaError('P2003'));
+    const deleted = await request(app).delete('/boom');
+    const created = await request(app).post('/boom');
+
+    expect(deleted.status).toBe(409);
+    expect(deleted.body.code).toBe('RECORD_IN_USE');
+    expect(created.status).toBe(422);
+    expect(created.body.code).toBe('RELATED_RECORD_NOT_FOUND');
+  });
+
+  it('keeps the status and code of domain errors', async () => {
+    const notFound = await request(appThrowing(new NotFoundError('Doctor not found'))).get('/boom');
+    const taken = await request(
+      appThrowing(new ConflictError('User with email a@b.be already exists.', 'EMAIL_TAKEN')),
+    ).post('/boom');
+
+    expect(notFound.status).toBe(404);
+    expect(notFound.body.detail).toBe('Doctor not found');
+    expect(taken.status).toBe(409);
+    expect(taken.body.code).toBe('EMAIL_TAKEN');
+  });
+
+  it('answers 400 for malformed JSON', async () => {
+    const res = await request(appThrowing(null))
+      .post('/boom')
+      .set('Content-Type', 'application/json')
+      .send('{"name": ');
+
+    expect(res.status).toBe(400);
+    expect(res.body.code).toBe('MALFORMED_JSON');
+  });
+
+  it('hides unexpected errors and shows the stack only in development', async () => {
+    const error = new Error('connect ECONNREFUSED 10.0.0.5:5432');
+    const log = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    process.env.NODE_ENV = 'production';
+    const prod = await request(appThrowing(error)).get('/boom');
+    process.env.NODE_ENV = 'development';
+    const dev = await request(appThrowing(error)).get('/boom');
+    log.mockRestore();
+
+    expect(prod.status).toBe(500);
+    expect(prod.body.code).toBe('INTERNAL_ERROR');
+    expect(prod.text).not.toMatch(/ECONNREFUSED/);
+    expect(prod.body).not.toHaveProperty('stack');
+    expect(dev.body.stack).toMatch(/ECONNREFUSED/);
+  });
+});
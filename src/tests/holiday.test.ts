@@ -0,0 +1,94 @@
+/**
+ * @description
+ * Tests for the holiday calendar: national holidays plus the hospital's closing days.
+ *
+ * Key features:
+ * - withClosingDays: closing days are merged in date order, once per date (no database)
+ * - Integration: getHolidays pins the Belgian holidays of 2024 and reads closing days
+ *   of that year only
+ */
+
+import { ClosingDay, PrismaClient } from '@prisma/client';
+import { getHolidays, getBelgianHolidays, withClosingDays } from '../services/holiday-service';
+import { utcDateKey } from '../utils/date-utils';
+
+const prisma = new PrismaClient();
+
+// Easter Sunday 2024 is 31 March
+const BELGIAN_HOLIDAYS_2024 = [
+  ['2024-01-01', 'Nieuwjaar'],
+  ['2024-04-01', 'Paasmaandag'],
+  ['2024-05-01', 'Dag van de Arbeid'],
+  ['2024-05-09', 'O.L.H. Hemelvaart'],
+  ['2024-05-20', 'Pinkstermaandag'],
+  ['2024-07-21', 'Nationale feestdag'],
+  ['2024-08-15', 'O.L.V. Hemelvaart'],
+  ['2024-11-01', 'Allerheiligen'],
+  ['2024-11-11', 'Wapenstilstand'],
+  ['2024-12-25', 'Kerstmis'],
+];
+
+function closingDay(id: string, date: string, name: string): ClosingDay {
+  const at = new Date('2024-01-01T00:00:00Z');
+  return { id, date: new Date(`${date}T00:00:00Z`), name, createdAt: at, updatedAt: at };
+}
+
+describe('CLOSING DAYS', () => {
+  it('adds closing days in date order', () => {
+    const holidays = withClosingDays(getBelgianHolidays(2024), [
+      closingDay('c2', '2024-12-24', 'Kerstavond'),
+      closingDay('c1', '2024-05-10', 'Brugdag'),
+    ]);
+    const keys = holidays.map((h) => utcDateKey(h.date));
+    expect(keys).toHaveLength(12);
+    expect(keys).toEqual([...keys].sort());
+    expect(holidays.find((h) => h.closingDayId === 'c1')).toMatchObject({
+      name: 'Brugdag',
+      type: 'CLOSING_DAY',
+    });
+  });
+
+  it('lists a closing day on a national holiday once, as the national holiday', () => {
+    const holidays = withClosingDays(getBelgianHolidays(2024), [
+      closingDay('c1', '2024-07-21', 'Hospital closed'),
+    ]);
+    expect(holidays).toHaveLength(10);
+    expect(holidays.find((h) => utcDateKey(h.date) === '2024-07-21')).toEqual({
+      date: new Date('2024-07-21T00:00:00Z'),
+      name: 'Nationale feestdag',
+      type: 'NATIONAL',
+    });
+  });
+});
+
+describe('HOLIDAY CALENDAR', () => {
+  const ids: string[] = [];
+
+  beforeAll(async () => {
+    const created = await Promise.all([
+      prisma.closingDay.create({ data: { date: new Date('2024-05-10T00:00:00Z'), name: 'Brugdag' } }),
+      prisma.closingDay.create({ data: { date: new Date('2024-11-11T00:00:00Z'), name: 'Dubbel' } }),
+      prisma.closingDay.create({ data: { date: new Date('2025-01-02T00:00:00Z'), name: 'Next year' } }),
+    ]);
+    ids.push(...created.map((c) => c.id));
+  });
+
+  afterAll(async () => {
+    await prisma.closingDay.deleteMany({ where: { id: { in: ids } } });
+    await prisma.$disconnect();
+  });
+
+  it('returns the Belgian holidays of 2024 plus that year\'s closing days', async () => {
+    const holidays = await getHolidays(2024);
+    const national = holidays
+      .filter((h) => h.type === 'NATIONAL')
+      .map((h) => [utcDateKey(h.date), h.name]);
+    expect(national).toEqual(BELGIAN_HOLIDAYS_2024);
+
+    // Only ours: the database may hold other closing days of 2024
+    const closing = holidays.filter((h) => h.closingDayId && ids.includes(h.closingDayId));
+    expect(closing).toEqual([
+      { date: new Date('2024-05-10T00:00:00Z'), name: 'Brugdag', type: 'CLOSING_DAY', closingDayId: ids[0] },
+    ]);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * @description
+ * Unit tests for leave balance accounting and the public holiday calendar it relies on.
+ *
+ * Key features:
+ * - Exercises the pure countWorkingDays / accumulateLeaveBalance functions, no database needed
+ * - Covers weekends, Belgian holidays (including the Easter-based ones) and carry-over caps
+ */
+
+import {
+  accumulateLeaveBalance,
+  countWorkingDays,
+} from '../services/leave-balance-service';
+import { easterSunday, getBelgianHolidays } from '../services/holiday-service';
+import { utcDateKey } from '../utils/date-utils';
+
+function holidaySet(year: number): Set<string> {
+  return new Set(getBelgianHolidays(year).map((h) => utcDateKey(h.date)));
+}
+
+describe('PUBLIC HOLIDAYS', () => {
+  it('computes Easter Sunday', () => {
+    expect(utcDateKey(easterSunday(2024))).toBe('2024-03-31');
+    expect(utcDateKey(easterSunday(2025))).toBe('2025-04-20');
+    expect(utcDateKey(easterSunday(2026))).toBe('2026-04-05');
+  });
+
+  it('returns the ten Belgian national holidays in date order', () => {
+    const holidays = getBelgianHolidays(2025).map((h) => utcDateKey(h.date));
+    expect(holidays).toEqual([
+      '2025-01-01',
+      '2025-04-21', // Paasmaandag
+      '2025-05-01',
+      '2025-05-29', // O.L.H. Hemelvaart
+      '2025-06-09', // Pinkstermaandag
+      '2025-07-21',
+      '2025-08-15',
+      '2025-11-01',
+      '2025-11-11',
+      '2025-12-25',
+    ]);
+  });
+});
+
+describe('LEAVE BALANCE', () => {
+  it('counts working days without weekends and holidays', () => {
+    // Monday 14 July .. Friday 25 July 2025, Monday 21 July is the national holiday
+    const days = countWorkingDays(
+      new Date('2025-07-14T00:00:00Z'),
+      new Date('2025-07-26T00:00:00Z'),
+      holidaySet(2025),
+    );
+    expect(days).toBe(9);
+  });
+
+  it('counts partially covered days and can limit to one year', () => {
+    const start = new Date('2025-12-31T08:00:00Z');
+    const end = new Date('2026-01-02T12:00:00Z');
+    const holidays = new Set([...holidaySet(2025), ...holidaySet(2026)]);
+
+    expect(countWorkingDays(start, end, holidays)).toBe(2); // 31 Dec + 2 Jan
+    expect(countWorkingDays(start, end, holidays, 2025)).toBe(1);
+    expect(countWorkingDays(start, end, holidays, 2026)).toBe(1);
+  });
+
+  it('carries unused days over up to the cap', () => {
+    const entitlements = [
+      { year: 2024, days: 20, maxCarryOverDays: 5 },
+      { year: 2025, days: 20, maxCarryOverDays: 0 },
+    ];
+    const taken = new Map([
+      [2024, 12],
+      [2025, 3],
+    ]);
+
+    expect(accumulateLeaveBalance(2025, entitlements, taken)).toEqual({
+      entitled: 20,
+      carriedOver: 5,
+      taken: 3,
+      remaining: 22,
+    });
+  });
+
+  it('does not carry over a negative balance or days of a year without cap', () => {
+    const overdrawn = accumulateLeaveBalance(
+      2025,
+      [
+        { year: 2024, days: 10, maxCarryOverDays: 5 },
+        { year: 2025, days: 10, maxCarryOverDays: 5 },
+      ],
+      new Map([[2024, 12]]),
+    );
+    expect(overdrawn.carriedOver).toBe(0);
+    expect(overdrawn.remaining).toBe(10);
+
+    const expired = accumulateLeaveBalance(
+      2026,
+      [
+        { year: 2024, days: 10, maxCarryOverDays: 5 },
+        { year: 2026, days: 10, maxCarryOverDays: 5 },
+      ],
+      new Map(),
+    );
+    // 2025 has no entitlement, so nothing can be carried from 2025 into 2026
+    expect(expired.carriedOver).toBe(0);
+  });
+});
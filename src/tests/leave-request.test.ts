@@ -0,0 +1,194 @@
+/**
+ * @description
+ * Integration tests for the leave request workflow.
+ *
+ * Key features:
+ * - Approval creates the leave activity and warns about colliding shifts
+ * - Rejection is final; cancelling an approved leave cancels its activity
+ * - Only approvers decide, and requesters only see their own requests
+ */
+
+import { PrismaClient } from '@prisma/client';
+import request from 'supertest';
+import app from '../app';
+import { createTestUser, removeTestPersons, TestUser } from './test-users';
+
+const prisma = new PrismaClient();
+
+describe('LEAVE REQUEST WORKFLOW', () => {
+  let admin: TestUser;
+  let doctor: TestUser;
+  let colleague: TestUser;
+
+  const requestLeave = (start: string, end: string, reason?: string) =>
+    request(app)
+      .post('/leave-requests')
+      .set('Cookie', doctor.cookies)
+      .send({ start: `${start}T00:00:00.000Z`, end: `${end}T00:00:00.000Z`, reason });
+
+  beforeAll(async () => {
+    admin = await createTestUser('LeaveAdmin', { roles: ['admin'] });
+    doctor = await createTestUser('LeaveDoc', { doctor: true });
+    colleague = await createTestUser('LeaveColleague', { doctor: true });
+  });
+
+  afterAll(async () => {
+    await removeTestPersons([admin.personId, doctor.personId, colleague.personId]);
+    await prisma.$disconnect();
+  });
+
+  it('should approve leave, create its activity and warn about colliding shifts', async () => {
+    const shift = await prisma.activity.create({
+      data: {
+        activityType: 'SHIFT',
+        personId: doctor.personId,
+        start: new Date('2031-05-06T08:00:00Z'),
+        end: new Date('2031-05-06T18:00:00Z'),
+      },
+    });
+
+    const created = await requestLeave('2031-05-05', '2031-05-10', 'Holiday');
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ status: 'REQUESTED', leaveType: 'LEAVE' });
+
+    const overlapping = await requestLeave('2031-05-08', '2031-05-12');
+    expect(overlapping.status).toBe(409);
+    expect(overlapping.body.leaveRequestId).toBe(created.body.id);
+
+    const approved = await request(app)
+      .post(`/leave-requests/${created.body.id}/approve`)
+      .set('Cookie', admin.cookies)
+      .send({ comment: 'Enjoy' });
+    expect(approved.status).toBe(200);
+    expect(approved.body).toMatchObject({
+      status: 'APPROVED',
+      approverId: admin.personId,
+      approverComment: 'Enjoy',
+    });
+    expect(approved.body.activity).toMatchObject({
+      activityType: 'LEAVE',
+      personId: doctor.personId,
+      status: 'SCHEDULED',
+    });
+    expect(approved.body.collidingShifts.map((s: { id: string }) => s.id)).toEqual([shift.id]);
+    expect(approved.body.warning).toMatch(/1 assigned shift/);
+
+    const again = await request(app)
+      .post(`/leave-requests/${created.body.id}/approve`)
+      .set('Cookie', admin.cookies)
+      .send({});
+    expect(again.status).toBe(409);
+
+    // Cancelling keeps the activity for history, but it no longer blocks planning
+    const cancelled = await request(app)
+      .post(`/leave-requests/${created.body.id}/cancel`)
+      .set('Cookie', doctor.cookies);
+    expect(cancelled.status).toBe(200);
+    expect(cancelled.body.status).toBe('CANCELLED');
+    expect(cancelled.body.activity.status).toBe('CANCELLED');
+  });
+
+  it('should approve without warning when no shifts collide', async () => {
+    const created = await requestLeave('2031-06-02', '2031-06-04');
+    const approved = await request(app)
+      .post(`/leave-requests/${created.body.id}/approve`)
+      .set('Cookie', admin.cookies)
+      .send({});
+    expect(approved.status).toBe(200);
+    expect(approved.body.collidingShifts).toEqual([]);
+    expect(approved.body.warning).toBeUndefined();
+  });
+
+  it('should reject leave for good', async () => {
+    const created = await requestLeave('2031-07-07', '2031-07-09');
+
+    const rejected = await request(app)
+      .post(`/leave-requests/${created.body.id}/reject`)
+      .set('Cookie', admin.cookies)
+      .send({ comment: 'Too busy' });
+    expect(rejected.status).toBe(200);
+    expect(rejected.body).toMatchObject({
+      status: 'REJECTED',
+      approverComment: 'Too busy',
+      activity: null,
+    });
+
+    const approve = await request(app)
+      .post(`/leave-requests/${created.body.id}/approve`)
+      .set('Cookie', admin.cookies)
+      .send({});
+    expect(approve.status).toBe(409);
+    const cancel = await request(app)
+      .post(`/leave-requests/${created.body.id}/cancel`)
+      .set('Cookie', doctor.cookies);
+    expect(cancel.status).toBe(409);
+
+    // A rejected request no longer blocks a new one for the same period
+    expect((await requestLeave('2031-07-07', '2031-07-09')).status).toBe(201);
+  });
+
+  it('should only let approvers decide and requesters see their own requests', async () => {
+    const created = await requestLeave('2031-08-04', '2031-08-06');
+
+    const selfApproval = await request(app)
+      .post(`/leave-requests/${created.body.id}/approve`)
+      .set('Cookie', doctor.cookies)
+      .send({});
+    expect(selfApproval.status).toBe(403);
+
+    const foreign = await request(app)
+      .get(`/leave-requests/${created.body.id}`)
+      .set('Cookie', colleague.cookies);
+    expect(foreign.status).toBe(404);
+    const foreignCancel = await request(app)
+      .post(`/leave-requests/${created.body.id}/cancel`)
+      .set('Cookie', colleague.cookies);
+    expect(foreignCancel.status).toBe(404);
+
+    const list = await request(app).get('/leave-requests').set('Cookie', colleague.cookies);
+    expect(list.status).toBe(200);
+    expect(list.body.every((l: { personId: string }) => l.personId === colleague.personId)).toBe(true);
+  });
+
+  it('should answer 409 to the second of two concurrent approvals', async () => {
+    const created = await requestLeave('2031-09-01', '2031-09-03');
+
+    const decisions = await Promise.all([
+      request(app).post(`/leave-requests/${created.body.id}/approve`).set('Cookie', admin.cookies).send({}),
+      request(app).post(`/leave-requests/${created.body.id}/approve`).set('Cookie', admin.cookies).send({}),
+    ]);
+    expect(decisions.map((d) => d.status).sort()).toEqual([200, 409]);
+
+    // The losing approval left no orphaned leave activity behind
+    const activities = await prisma.activity.findMany({
+      where: {
+        personId: doctor.personId,
+        activityType: 'LEAVE',
+        start: new Date('2031-09-01T00:00:00Z'),
+      },
+    });
+    expect(activities).toHaveLength(1);
+  });
+
+  it('should let only one of a concurrent approval and cancellation through', async () => {
+    const created = await requestLeave('2031-10-06', '2031-10-08');
+
+    const [approve, cancel] = await Promise.all([
+      request(app).post(`/leave-requests/${created.body.id}/approve`).set('Cookie', admin.cookies).send({}),
+      request(app).post(`/leave-requests/${created.body.id}/cancel`).set('Cookie', doctor.cookies),
+    ]);
+    // Cancelling is allowed from both REQUESTED and APPROVED; the approval may lose
+    expect(cancel.status).toBe(200);
+    expect([200, 409]).toContain(approve.status);
+
+    const stored = await prisma.leaveRequest.findUniqueOrThrow({
+      where: { id: created.body.id },
+      include: { activity: true },
+    });
+    expect(stored.status).toBe('CANCELLED');
+    // An approval that won the race is cancelled with its activity, never left live
+    if (stored.activity) {
+      expect(stored.activity.status).toBe('CANCELLED');
+    }
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * @description
+ * Integration tests for what a login attempt reveals about an account.
+ *
+ * Key features:
+ * - An unknown e-mail and a wrong password get the same generic 401
+ * - While locked, a wrong password still gets that 401 and does not extend the lock
+ * - Only the right password learns that the account is locked
+ *
+ * @notes
+ * - Kept apart from admin.test.ts so the attempts stay within loginRateLimiter.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import bcrypt from 'bcrypt';
+import request from 'supertest';
+import app from '../app';
+
+const prisma = new PrismaClient();
+
+describe('LOGIN LOCKOUT RESPONSES', () => {
+  const email = `lockresp_${Date.now()}@example.com`;
+  const password = 'LockResp#1';
+  let personId: string;
+
+  beforeAll(async () => {
+    const person = await prisma.person.create({
+      data: { firstName: 'LockRespFirst', lastName: 'LockRespLast', dateOfBirth: new Date('1988-06-01') },
+    });
+    personId = person.id;
+    await prisma.user.create({
+      data: {
+        personId,
+        email,
+        password: await bcrypt.hash(password, 10),
+        emailVerifiedAt: new Date(),
+        failedLoginCount: 4,
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await prisma.loginEvent.deleteMany({ where: { email: { startsWith: 'lockresp_' } } });
+    await prisma.user.deleteMany({ where: { personId } });
+    await prisma.person.deleteMany({ where: { id: personId } });
+    await prisma.$disconnect();
+  });
+
+  it('should answer an unknown e-mail and a locked account alike', async () => {
+    const unknown = await request(app)
+      .post('/auth/login')
+      .send({ email: `lockresp_unknown_${Date.now()}@example.com`, password });
+    expect(unknown.status).toBe(401);
+    expect(unknown.body.code).toBeUndefined();
+
+    // The fifth failure locks the account
+    const wrong = await request(app).post('/auth/login').send({ email, password: 'Wrong#Pass1' });
+    expect(wrong.status).toBe(401);
+    const lockedUser = await prisma.user.findUniqueOrThrow({ where: { personId } });
+    expect(lockedUser.lockedUntil!.getTime()).toBeGreaterThan(Date.now());
+
+    const whileLocked = await request(app).post('/auth/login').send({ email, password: 'Wrong#Pass2' });
+    expect(whileLocked.status).toBe(401);
+    expect(whileLocked.body).toEqual(unknown.body);
+    const unchanged = await prisma.user.findUniqueOrThrow({ where: { personId } });
+    expect(unchanged.failedLoginCount).toBe(lockedUser.failedLoginCount);
+    expect(unchanged.lockedUntil).toEqual(lockedUser.lockedUntil);
+  });
+
+  it('should only tell the right password that the account is locked', async () => {
+    const locked = await request(app).post('/auth/login').send({ email, password });
+    expect(locked.status).toBe(403);
+    expect(locked.body.code).toBe('ACCOUNT_LOCKED');
+
+    const stored = await prisma.user.findUniqueOrThrow({ where: { personId } });
+    expect(stored.failedLoginCount).toBe(5);
+  });
+});
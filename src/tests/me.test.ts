@@ -0,0 +1,119 @@
+/**
+ * @description
+ * Integration tests for the personal /me routes.
+ *
+ * Key features:
+ * - /me/profile, /me/activities, /me/constraints and /me/leave return the caller's own
+ *   data only, even when colleagues have data in the same period
+ * - The admin activity list stays closed to users without activity:read
+ */
+
+import { PrismaClient } from '@prisma/client';
+import request from 'supertest';
+import app from '../app';
+import { createTestUser, removeTestPersons, TestUser } from './test-users';
+
+const prisma = new PrismaClient();
+
+describe('ME ROUTES', () => {
+  let admin: TestUser;
+  let me: TestUser;
+  let colleague: TestUser;
+
+  beforeAll(async () => {
+    admin = await createTestUser('MeAdmin', { roles: ['admin'] });
+    me = await createTestUser('MeDoc', { doctor: true });
+    colleague = await createTestUser('MeColleague', { doctor: true });
+
+    for (const { personId } of [me, colleague]) {
+      await prisma.activity.createMany({
+        data: [
+          {
+            activityType: 'SHIFT',
+            personId,
+            start: new Date('2031-09-01T08:00:00Z'),
+            end: new Date('2031-09-01T18:00:00Z'),
+          },
+          {
+            activityType: 'CONFERENCE',
+            personId,
+            start: new Date('2031-10-01T08:00:00Z'),
+            end: new Date('2031-10-01T16:00:00Z'),
+          },
+        ],
+      });
+      await prisma.userConstraint.create({ data: { personId, maxNightShiftsPerWeek: 2 } });
+      await prisma.leaveRequest.create({
+        data: {
+          personId,
+          start: new Date('2031-11-03T00:00:00Z'),
+          end: new Date('2031-11-05T00:00:00Z'),
+        },
+      });
+    }
+  });
+
+  afterAll(async () => {
+    await removeTestPersons([admin.personId, me.personId, colleague.personId]);
+    await prisma.$disconnect();
+  });
+
+  it('should refuse /me without a login', async () => {
+    const res = await request(app).get('/me/profile');
+    expect(res.status).toBe(401);
+  });
+
+  it('should return the own profile with doctor details and no credentials', async () => {
+    const res = await request(app).get('/me/profile').set('Cookie', me.cookies);
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      personId: me.personId,
+      email: me.email,
+      firstName: 'MeDocFirst',
+      roles: [],
+    });
+    expect(res.body.doctor.personId).toBe(me.personId);
+    expect(JSON.stringify(res.body)).not.toMatch(/password/i);
+  });
+
+  it('should list only the own activities, optionally for a period', async () => {
+    const all = await request(app).get('/me/activities').set('Cookie', me.cookies);
+    expect(all.status).toBe(200);
+    expect(all.body).toHaveLength(2);
+    expect(all.body.every((a: { personId: string }) => a.personId === me.personId)).toBe(true);
+
+    const september = await request(app)
+      .get('/me/activities')
+      .query({ from: '2031-09-01T00:00:00.000Z', to: '2031-09-30T00:00:00.000Z' })
+      .set('Cookie', me.cookies);
+    expect(september.status).toBe(200);
+    expect(september.body.map((a: { activityType: string }) => a.activityType)).toEqual(['SHIFT']);
+  });
+
+  it('should list only the own constraints', async () => {
+    const res = await request(app).get('/me/constraints').set('Cookie', me.cookies);
+    expect(res.status).toBe(200);
+    expect(res.body).toHaveLength(1);
+    expect(res.body[0]).toMatchObject({ personId: me.personId, maxNightShiftsPerWeek: 2 });
+  });
+
+  it('should return the own leave requests and balances of a year', async () => {
+    const res = await request(app).get('/me/leave').query({ year: 2031 }).set('Cookie', me.cookies);
+    expect(res.status).toBe(200);
+    expect(res.body.year).toBe(2031);
+    expect(Array.isArray(res.body.balances)).toBe(true);
+    expect(res.body.requests).toHaveLength(1);
+    expect(res.body.requests[0].personId).toBe(me.personId);
+
+    const otherYear = await request(app).get('/me/leave').query({ year: 2030 }).set('Cookie', me.cookies);
+    expect(otherYear.body.requests).toEqual([]);
+  });
+
+  it('should keep GET /admin/activities admin-only', async () => {
+    const forbidden = await request(app).get('/admin/activities').set('Cookie', me.cookies);
+    expect(forbidden.status).toBe(403);
+
+    const allowed = await request(app).get('/admin/activities').set('Cookie', admin.cookies);
+    expect(allowed.status).toBe(200);
+  });
+});
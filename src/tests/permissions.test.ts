@@ -0,0 +1,62 @@
+/**
+ * @description
+ * Unit tests for the permission model.
+ *
+ * Key features:
+ * - resolvePermissions: union of role permissions, admin holds everything
+ * - requirePermission: 403 unless every requested permission is present
+ */
+
+import { Request, Response } from 'express';
+import { ALL_PERMISSIONS, resolvePermissions } from '../config/permissions';
+import { requirePermission } from '../middleware/role-middleware';
+
+function run(permissions: string[] | undefined, ...required: Parameters<typeof requirePermission>) {
+  const req = { user: permissions && { permissions } } as unknown as Request;
+  const res = {
+    statusCode: 200,
+    body: undefined as unknown,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body: unknown) {
+      this.body = body;
+      return this;
+    },
+  };
+  const next = jest.fn();
+  requirePermission(...required)(req, res as unknown as Response, next);
+  return { res, next };
+}
+
+describe('PERMISSIONS', () => {
+  it('merges the permissions of all roles without duplicates', () => {
+    expect(
+      resolvePermissions(['planner', 'user'], ['roster:write', 'activity:read', 'roster:write']),
+    ).toEqual(['activity:read', 'roster:write']);
+  });
+
+  it('gives the admin role every permission', () => {
+    expect(resolvePermissions(['admin'], [])).toEqual([...ALL_PERMISSIONS].sort());
+  });
+
+  it('lets a request through when all permissions are held', () => {
+    const { res, next } = run(['activity:read', 'activity:write'], 'activity:read', 'activity:write');
+    expect(next).toHaveBeenCalled();
+    expect(res.statusCode).toBe(200);
+  });
+
+  it('answers 403 naming the missing permission', () => {
+    const { res, next } = run(['activity:read'], 'activity:read', 'schedule:publish');
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(403);
+    expect(res.body).toEqual({ error: 'Forbidden. Missing permission: schedule:publish' });
+  });
+
+  it('answers 403 without an authenticated user', () => {
+    const { res, next } = run(undefined, 'rates:read');
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(403);
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * @description
+ * Unit tests for the response DTOs and the response guard.
+ *
+ * Key features:
+ * - Feeds complete User records (password hash, reset token, feed token hash) through
+ *   every DTO that can nest a user, and checks nothing sensitive comes out
+ * - Runs guardResponses in a small Express app, no database needed
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { Doctor, Person, Role, User } from '@prisma/client';
+import { toActivityDto } from '../dto/activity-dto';
+import { toLeaveRequestDto } from '../dto/leave-request-dto';
+import { toDoctorDto, toPersonDto } from '../dto/person-dto';
+import { toRosterDto } from '../dto/roster-dto';
+import { toShiftSwapDto } from '../dto/shift-swap-dto';
+import { toUserDto, toUserRoleDto } from '../dto/user-dto';
+import { guardResponses, stripSensitiveFields } from '../middleware/response-middleware';
+
+const SENSITIVE = /"password"|"resetToken"|"resetExpire"|"calendarFeedTokenHash"|"totpSecret\w*"|"twoFactorEnrollCode\w*"/;
+
+const created = new Date('2025-01-01T00:00:00Z');
+
+const person: Person = {
+  id: 'p1',
+  firstName: 'Jan',
+  lastName: 'Peeters',
+  dateOfBirth: new Date('1980-05-01T00:00:00Z'),
+  employmentStart: created,
+  employmentEnd: null,
+  createdAt: created,
+  updatedAt: created,
+};
+
+const user: User = {
+  personId: 'p1',
+  email: 'jan.peeters@medecare.be',
+  password: '$2b$10$hash',
+  createdAt: created,
+  updatedAt: created,
+  status: 'ACTIVE',
+  statusReason: null,
+  statusChangedAt: null,
+  failedLoginCount: 0,
+  lastFailedLoginAt: null,
+  lockedUntil: null,
+  resetToken: 'reset-token',
+  resetExpire: created,
+  calendarFeedTokenHash: 'feed-hash',
+  calendarFeedTokenCreatedAt: created,
+  totpSecret: 'JBSWY3DPEHPK3PXP',
+  totpSecretCreatedAt: created,
+  totpEnabledAt: created,
+  totpLastStep: 1,
+  twoFactorEnrollCodeHash: 'enroll-code-hash',
+  twoFactorEnrollCodeExpire: created,
+  emailVerifiedAt: created,
+  emailVerificationTokenHash: 'verification-hash',
+  emailVerificationExpire: created,
+  emailVerificationSentAt: created,
+};
+
+const doctor: Doctor = {
+  personId: 'p1',
+  rizivNumber: '12345678901',
+  isEnabledInShifts: true,
+  createdAt: created,
+  updatedAt: created,
+};
+
+const role: Role = { id: 'r1', name: 'admin', requiresTwoFactor: true };
+
+describe('RESPONSE DTOS', () => {
+  it('reduces the user of a person to personId and e-mail', () => {
+    const dto = toPersonDto({ ...person, user, doctor });
+    expect(dto.user).toEqual({ personId: 'p1', email: 'jan.peeters@medecare.be' });
+    expect(JSON.stringify(dto)).not.toMatch(SENSITIVE);
+  });
+
+  it('keeps an absent user absent and a missing user null', () => {
+    expect(toPersonDto(person)).not.toHaveProperty('user');
+    expect(toPersonDto({ ...person, user: null }).user).toBeNull();
+  });
+
+  it('strips credentials from doctors, users, role assignments and activities', () => {
+    const withUser = { ...person, user };
+    const dtos = [
+      toDoctorDto({ ...doctor, person: withUser }),
+      toUserDto({ ...user, person: withUser, userRoles: [{ userId: 'p1', roleId: 'r1', role }] }),
+      toUserRoleDto({ userId: 'p1', roleId: 'r1', role, user: { ...user, person } }),
+      toActivityDto({
+        id: 'a1',
+        activityType: 'SHIFT',
+        start: created,
+        end: created,
+        status: 'SCHEDULED',
+        personId: 'p1',
+        shiftTypeId: null,
+        createdAt: created,
+        updatedAt: created,
+        person: withUser,
+      }),
+    ];
+    for (const dto of dtos) {
+      expect(JSON.stringify(dto)).not.toMatch(SENSITIVE);
+    }
+  });
+
+  it('strips credentials from rosters, leave requests and shift swaps', () => {
+    const withUser = { ...person, user };
+    const shift = {
+      id: 'a1',
+      activityType: 'SHIFT',
+      start: created,
+      end: created,
+      status: 'SCHEDULED',
+      personId: 'p1',
+      shiftTypeId: null,
+      createdAt: created,
+      updatedAt: created,
+      person: withUser,
+    };
+    const dtos = [
+      toRosterDto({
+        id: 'r1',
+        name: 'Week',
+        version: 1,
+        description: null,
+        createdAt: created,
+        updatedAt: created,
+        slots: [
+          {
+            id: 's1',
+            rosterId: 'r1',
+            weekday: 1,
+            headcount: 1,
+            shiftTypeId: 'st1',
+            defaultPersonId: 'p1',
+            createdAt: created,
+            updatedAt: created,
+            defaultPerson: withUser,
+          },
+        ],
+      }),
+      toLeaveRequestDto({
+        id: 'l1',
+        leaveType: 'LEAVE',
+        start: created,
+        end: created,
+        reason: null,
+        status: 'APPROVED',
+        personId: 'p1',
+        approverId: 'p1',
+        approverComment: null,
+        decidedAt: created,
+        activityId: 'a1',
+        createdAt: created,
+        updatedAt: created,
+        person: withUser,
+        approver: withUser,
+        activity: shift,
+      }),
+      toShiftSwapDto({
+        id: 'sw1',
+        type: 'EXCHANGE',
+        status: 'PROPOSED',
+        requesterId: 'p1',
+        counterpartId: 'p1',
+        activityId: 'a1',
+        counterActivityId: 'a1',
+        message: null,
+        createdAt: created,
+        updatedAt: created,
+        requester: withUser,
+        counterpart: withUser,
+        activity: shift,
+        counterActivity: shift,
+        events: [],
+      }),
+    ];
+    for (const dto of dtos) {
+      expect(JSON.stringify(dto)).not.toMatch(SENSITIVE);
+      expect(JSON.stringify(dto)).toContain('"email":"jan.peeters@medecare.be"');
+    }
+  });
+});
+
+describe('RESPONSE GUARD', () => {
+  it('removes sensitive keys at any depth and keeps dates', () => {
+    expect(
+      stripSensitiveFields({ items: [{ user, when: created }] }),
+    ).toEqual({
+      items: [
+        {
+          user: {
+            personId: 'p1',
+            email: 'jan.peeters@medecare.be',
+            createdAt: created,
+            updatedAt: created,
+            status: 'ACTIVE',
+            statusReason: null,
+            statusChangedAt: null,
+            failedLoginCount: 0,
+            lastFailedLoginAt: null,
+            lockedUntil: null,
+            calendarFeedTokenCreatedAt: created,
+            totpEnabledAt: created,
+            emailVerifiedAt: created,
+            emailVerificationSentAt: created,
+          },
+          when: created,
+        },
+      ],
+    });
+  });
+
+  it('never sends password or resetToken, even for raw Prisma records', async () => {
+    const app = express();
+    app.use(guardResponses);
+    app.get('/leak', (req, res) => {
+      res.json({ doctor: { ...doctor, person: { ...person, user } } });
+    });
+
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const res = await request(app).get('/leak');
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+
+    expect(res.status).toBe(200);
+    expect(res.text).not.toMatch(SENSITIVE);
+    expect(res.body.doctor.person.user.email).toBe('jan.peeters@medecare.be');
+  });
+});
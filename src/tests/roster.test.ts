@@ -0,0 +1,171 @@
+/**
+ * @description
+ * Integration tests for weekly roster templates.
+ *
+ * Key features:
+ * - saveRosterVersion / nextRosterVersion: every save of a name is the next version, also
+ *   when two saves race for the same number
+ * - applyRosterTemplate: creates SHIFT activities, skips filled slots and reports slots it
+ *   cannot fill (no default person, conflicting activity, person not plannable), and
+ *   never creates a shift twice when two applies race
+ */
+
+import { PrismaClient } from '@prisma/client';
+import {
+  applyRosterTemplate,
+  nextRosterVersion,
+  saveRosterVersion,
+} from '../services/roster-service';
+import { ConflictError } from '../utils/app-error';
+
+const prisma = new PrismaClient();
+
+// Monday
+const DAY = new Date('2031-03-03T00:00:00Z');
+
+describe('ROSTER TEMPLATES', () => {
+  const name = `Test roster ${Date.now()}`;
+  const personIds: string[] = [];
+  let shiftTypeId: string;
+
+  const createPerson = async (lastName: string, employmentEnd?: Date) => {
+    const person = await prisma.person.create({
+      data: { firstName: 'Roster', lastName, dateOfBirth: new Date('1984-09-01'), employmentEnd },
+    });
+    personIds.push(person.id);
+    return person.id;
+  };
+
+  beforeAll(async () => {
+    const shiftType = await prisma.shiftType.create({
+      data: { name: `Roster day ${Date.now()}`, startHour: 8, startMinute: 0, durationMinutes: 600 },
+    });
+    shiftTypeId = shiftType.id;
+  });
+
+  afterAll(async () => {
+    await prisma.activity.deleteMany({ where: { personId: { in: personIds } } });
+    await prisma.roster.deleteMany({ where: { name } });
+    await prisma.shiftType.delete({ where: { id: shiftTypeId } });
+    await prisma.person.deleteMany({ where: { id: { in: personIds } } });
+    await prisma.$disconnect();
+  });
+
+  it('saves every version of a name with the next number, also concurrently', async () => {
+    expect(await nextRosterVersion(name)).toBe(1);
+    const first = await saveRosterVersion(name, 'First', []);
+    expect(first.version).toBe(1);
+
+    const racing = await Promise.all([
+      saveRosterVersion(name, 'Second', []),
+      saveRosterVersion(name, 'Third', []),
+    ]);
+    expect(racing.map((r) => r.version).sort()).toEqual([2, 3]);
+    expect(await nextRosterVersion(name)).toBe(4);
+  });
+
+  it('creates a shift per free slot and skips the filled ones', async () => {
+    const free = await createPerson('Free');
+    const busy = await createPerson('Busy');
+    const left = await createPerson('Left', new Date('2031-01-31T00:00:00Z'));
+    await prisma.activity.create({
+      data: {
+        activityType: 'CONFERENCE',
+        personId: busy,
+        start: new Date('2031-03-03T07:00:00Z'),
+        end: new Date('2031-03-03T09:00:00Z'),
+      },
+    });
+
+    const roster = await saveRosterVersion(name, 'Apply', [
+      { weekday: 1, shiftTypeId, headcount: 1, defaultPersonId: free },
+      { weekday: 1, shiftTypeId, headcount: 1, defaultPersonId: busy },
+      { weekday: 1, shiftTypeId, headcount: 1, defaultPersonId: left },
+      { weekday: 1, shiftTypeId, headcount: 1, defaultPersonId: null },
+      { weekday: 2, shiftTypeId, headcount: 1, defaultPersonId: free },
+    ]);
+    const slotOf = (personId: string | null) =>
+      roster.slots.find((s) => s.weekday === 1 && s.defaultPersonId === personId)!.id;
+
+    const result = await applyRosterTemplate(roster.id, DAY, DAY);
+    expect(result!.created).toHaveLength(1);
+    expect(result!.created[0]).toMatchObject({
+      personId: free,
+      activityType: 'SHIFT',
+      start: new Date('2031-03-03T08:00:00Z'),
+      end: new Date('2031-03-03T18:00:00Z'),
+    });
+
+    // All Monday slots share shift type and start, so the created shift fills the others
+    expect(result!.open).toEqual([]);
+    expect(result!.skipped.map((s) => s.rosterSlotId).sort()).toEqual(
+      [slotOf(busy), slotOf(left), slotOf(null)].sort(),
+    );
+  });
+
+  it('reports conflicting, inactive and unassigned slots as open', async () => {
+    const busy = personIds[1];
+    const left = personIds[2];
+    const roster = await saveRosterVersion(name, 'Open slots', [
+      { weekday: 1, shiftTypeId, headcount: 2, defaultPersonId: busy },
+      { weekday: 1, shiftTypeId, headcount: 3, defaultPersonId: left },
+      { weekday: 1, shiftTypeId, headcount: 4, defaultPersonId: null },
+    ]);
+    const [busySlot, leftSlot, openSlot] = [busy, left, null].map(
+      (personId) => roster.slots.find((s) => s.defaultPersonId === personId)!.id,
+    );
+
+    // The shift created above already counts towards each headcount
+    const result = await applyRosterTemplate(roster.id, DAY, DAY);
+    expect(result!.created).toEqual([]);
+    expect(result!.open).toHaveLength(3);
+    expect(result!.open).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ rosterSlotId: busySlot, reason: 'CONFLICT', missing: 1 }),
+        expect.objectContaining({ rosterSlotId: leftSlot, reason: 'INACTIVE', missing: 2 }),
+        expect.objectContaining({ rosterSlotId: openSlot, reason: 'NO_DEFAULT_PERSON', missing: 3 }),
+      ]),
+    );
+  });
+
+  it('skips slots that are already filled when applied again', async () => {
+    const free = personIds[0];
+    const roster = await prisma.roster.findFirstOrThrow({ where: { name, description: 'Apply' } });
+    const again = await applyRosterTemplate(roster.id, DAY, DAY);
+    expect(again!.created).toEqual([]);
+    expect(again!.skipped).toHaveLength(4);
+
+    const shifts = await prisma.activity.count({
+      where: { personId: free, activityType: 'SHIFT', start: new Date('2031-03-03T08:00:00Z') },
+    });
+    expect(shifts).toBe(1);
+  });
+
+  it('creates every shift once when the same template is applied concurrently', async () => {
+    const racer = await createPerson('Racer');
+    const roster = await saveRosterVersion(name, 'Race', [
+      { weekday: 3, shiftTypeId, headcount: 1, defaultPersonId: racer },
+    ]);
+    const wednesday = new Date('2031-03-05T00:00:00Z');
+
+    const results = await Promise.allSettled([
+      applyRosterTemplate(roster.id, wednesday, wednesday),
+      applyRosterTemplate(roster.id, wednesday, wednesday),
+    ]);
+    // The loser either saw the filled slot or failed the re-check in its transaction
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        expect(result.reason).toBeInstanceOf(ConflictError);
+      }
+    }
+
+    const shifts = await prisma.activity.count({
+      where: { personId: racer, activityType: 'SHIFT' },
+    });
+    expect(shifts).toBe(1);
+  });
+
+  it('returns null for an unknown roster', async () => {
+    expect(await applyRosterTemplate('00000000-0000-0000-0000-000000000000', DAY, DAY)).toBeNull();
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * @description
+ * Unit tests for the automatic schedule generator and the UserConstraint rules it relies on
+ * (also used by the violation report).
+ *
+ * Key features:
+ * - Exercises the pure generateSchedule / checkShiftAssignment functions, no database needed
+ * - Covers leave, minimum rest, night-shift limits and already filled slots
+ * - Employment periods and account status decide who may be planned or log in
+ */
+
+import { ShiftType } from '@prisma/client';
+import {
+  checkShiftAssignment,
+  findConstraintViolations,
+  isNightShift,
+  resolveConstraintLimits,
+} from '../services/constraint-service';
+import {
+  ScheduleCandidate,
+  buildSlots,
+  generateSchedule,
+  slotKey,
+} from '../services/schedule-service';
+import { isPlannableOn, loginBlock } from '../services/account-lifecycle-service';
+import { isEmployedOn, isoWeekKey } from '../utils/date-utils';
+
+const noLimits = {
+  maxNightShiftsPerWeek: null,
+  maxConsecutiveNightShifts: null,
+  minRestHoursBetweenShifts: null,
+};
+
+function shiftType(overrides: Partial<ShiftType>): ShiftType {
+  return {
+    id: 'st',
+    name: 'st',
+    startHour: 9,
+    startMinute: 0,
+    durationMinutes: 600,
+    activeFrom: null,
+    activeUntil: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function candidate(
+  personId: string,
+  overrides: Partial<ScheduleCandidate> = {},
+): ScheduleCandidate {
+  return { personId, limits: noLimits, shifts: [], absences: [], ...overrides };
+}
+
+const dag = shiftType({ id: 'dag', name: 'dag' });
+const nacht = shiftType({
+  id: 'nacht',
+  name: 'nacht',
+  startHour: 19,
+  durationMinutes: 840,
+});
+
+describe('CONSTRAINT RULES', () => {
+  it('treats shifts covering 00:00-06:00 as night shifts', () => {
+    expect(
+      isNightShift(new Date('2025-06-02T19:00Z'), new Date('2025-06-03T09:00Z')),
+    ).toBe(true);
+    expect(
+      isNightShift(new Date('2025-06-02T09:00Z'), new Date('2025-06-02T19:00Z')),
+    ).toBe(false);
+  });
+
+  it('uses the strictest value when a person has several constraints', () => {
+    const limits = resolveConstraintLimits([
+      { maxNightShiftsPerWeek: 3, maxConsecutiveNightShifts: null, minRestHoursBetweenShifts: 8 },
+      { maxNightShiftsPerWeek: 2, maxConsecutiveNightShifts: 2, minRestHoursBetweenShifts: 11 },
+    ]);
+    expect(limits).toEqual({
+      maxNightShiftsPerWeek: 2,
+      maxConsecutiveNightShifts: 2,
+      minRestHoursBetweenShifts: 11,
+    });
+  });
+
+  it('rejects a shift that leaves too little rest', () => {
+    const existing = {
+      personId: 'p1',
+      start: new Date('2025-06-02T09:00Z'),
+      end: new Date('2025-06-02T19:00Z'),
+    };
+    const next = {
+      personId: 'p1',
+      start: new Date('2025-06-03T01:00Z'),
+      end: new Date('2025-06-03T09:00Z'),
+    };
+    expect(
+      checkShiftAssignment([existing], next, { ...noLimits, minRestHoursBetweenShifts: 11 }),
+    ).toBe('MIN_REST');
+  });
+
+  it('reports night shifts per week and consecutive nights with their activity IDs', () => {
+    const nights = ['2025-06-02', '2025-06-03', '2025-06-04'].map((day, i) => ({
+      id: `a${i}`,
+      personId: 'p1',
+      start: new Date(`${day}T19:00Z`),
+      end: new Date(new Date(`${day}T19:00Z`).getTime() + 840 * 60_000),
+    }));
+    const violations = findConstraintViolations(nights, {
+      ...noLimits,
+      maxNightShiftsPerWeek: 2,
+      maxConsecutiveNightShifts: 2,
+    });
+    expect(violations).toEqual([
+      expect.objectContaining({
+        rule: 'MAX_NIGHT_SHIFTS_PER_WEEK',
+        week: '2025-W23',
+        actual: 3,
+        activityIds: ['a0', 'a1', 'a2'],
+      }),
+      expect.objectContaining({
+        rule: 'MAX_CONSECUTIVE_NIGHT_SHIFTS',
+        actual: 3,
+        activityIds: ['a0', 'a1', 'a2'],
+      }),
+    ]);
+  });
+
+  it('reports overlapping shifts and too little rest', () => {
+    const shifts = [
+      { id: 'a', personId: 'p1', start: new Date('2025-06-02T09:00Z'), end: new Date('2025-06-02T19:00Z') },
+      { id: 'b', personId: 'p1', start: new Date('2025-06-02T18:00Z'), end: new Date('2025-06-02T22:00Z') },
+      { id: 'c', personId: 'p1', start: new Date('2025-06-03T02:00Z'), end: new Date('2025-06-03T08:00Z') },
+    ];
+    const rules = findConstraintViolations(shifts, {
+      ...noLimits,
+      minRestHoursBetweenShifts: 11,
+    }).map((v) => [v.rule, v.activityIds]);
+    expect(rules).toEqual([
+      ['OVERLAP', ['a', 'b']],
+      ['MIN_REST', ['a', 'c']],
+      ['MIN_REST', ['b', 'c']],
+    ]);
+  });
+
+  it('computes ISO weeks across the year boundary', () => {
+    expect(isoWeekKey(new Date('2024-12-30T12:00Z'))).toBe('2025-W01');
+    expect(isoWeekKey(new Date('2021-01-03T12:00Z'))).toBe('2020-W53');
+  });
+});
+
+describe('SCHEDULE GENERATOR', () => {
+  const from = new Date('2025-06-02');
+  const to = new Date('2025-06-04');
+
+  it('only creates slots for shift types active on that day', () => {
+    const ended = shiftType({ id: 'old', activeUntil: new Date('2025-06-02') });
+    const slots = buildSlots([dag, ended], from, to);
+    expect(slots.filter((s) => s.shiftTypeId === 'old')).toHaveLength(1);
+    expect(slots.filter((s) => s.shiftTypeId === 'dag')).toHaveLength(3);
+  });
+
+  it('fills every slot and spreads the load', () => {
+    const { proposed, unfilled } = generateSchedule({
+      slots: buildSlots([dag], from, to),
+      candidates: [candidate('p1'), candidate('p2')],
+      filledSlotKeys: new Set(),
+    });
+    expect(unfilled).toHaveLength(0);
+    expect(proposed.map((p) => p.personId)).toEqual(['p1', 'p2', 'p1']);
+  });
+
+  it('skips people on leave and slots that are already filled', () => {
+    const slots = buildSlots([dag], from, to);
+    const { proposed } = generateSchedule({
+      slots,
+      candidates: [
+        candidate('p1', {
+          absences: [{ start: new Date('2025-06-02'), end: new Date('2025-06-05') }],
+        }),
+        candidate('p2'),
+      ],
+      filledSlotKeys: new Set([slotKey('dag', slots[0].start)]),
+    });
+    expect(proposed).toHaveLength(2);
+    expect(proposed.every((p) => p.personId === 'p2')).toBe(true);
+  });
+
+  it('reports slots it cannot fill without breaking a constraint', () => {
+    const { proposed, unfilled } = generateSchedule({
+      slots: buildSlots([nacht], from, to),
+      candidates: [
+        candidate('p1', { limits: { ...noLimits, maxConsecutiveNightShifts: 2 } }),
+      ],
+      filledSlotKeys: new Set(),
+    });
+    expect(proposed).toHaveLength(2);
+    expect(unfilled).toHaveLength(1);
+    expect(unfilled[0].rejections).toEqual([
+      { personId: 'p1', reason: 'MAX_CONSECUTIVE_NIGHT_SHIFTS' },
+    ]);
+  });
+});
+
+describe('ACCOUNT LIFECYCLE', () => {
+  const employed = {
+    employmentStart: new Date('2025-07-01T00:00:00Z'),
+    employmentEnd: new Date('2025-07-31T00:00:00Z'),
+  };
+
+  it('treats both employment dates as working days', () => {
+    expect(isEmployedOn(employed, new Date('2025-06-30T23:00:00Z'))).toBe(false);
+    expect(isEmployedOn(employed, new Date('2025-07-01T08:00:00Z'))).toBe(true);
+    expect(isEmployedOn(employed, new Date('2025-07-31T20:00:00Z'))).toBe(true);
+    expect(isEmployedOn(employed, new Date('2025-08-01T00:00:00Z'))).toBe(false);
+    expect(isEmployedOn({ employmentStart: null, employmentEnd: null }, new Date())).toBe(true);
+  });
+
+  it('does not plan deactivated accounts, but does plan suspended ones', () => {
+    const day = new Date('2025-07-15T08:00:00Z');
+    expect(isPlannableOn({ ...employed, user: null }, day)).toBe(true);
+    expect(isPlannableOn({ ...employed, user: { status: 'SUSPENDED' } }, day)).toBe(true);
+    expect(isPlannableOn({ ...employed, user: { status: 'DEACTIVATED' } }, day)).toBe(false);
+  });
+
+  it('refuses the login of suspended, deactivated and former staff', () => {
+    const now = new Date('2025-08-01T09:00:00Z');
+    const user = (status: string, employmentEnd: Date | null = null) => ({
+      status,
+      person: { employmentEnd },
+    });
+
+    expect(loginBlock(user('ACTIVE'), now)).toBeNull();
+    expect(loginBlock(user('ACTIVE', employed.employmentEnd), new Date('2025-07-31T22:00:00Z'))).toBeNull();
+    expect(loginBlock(user('ACTIVE', employed.employmentEnd), now)?.code).toBe('EMPLOYMENT_ENDED');
+    expect(loginBlock(user('SUSPENDED'), now)?.code).toBe('ACCOUNT_SUSPENDED');
+    expect(loginBlock(user('DEACTIVATED'), now)?.code).toBe('ACCOUNT_DEACTIVATED');
+  });
+});
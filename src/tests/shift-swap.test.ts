@@ -0,0 +1,279 @@
+/**
+ * @description
+ * Tests for the shift swap workflow.
+ *
+ * Key features:
+ * - canTakeStep: which statuses each step may start from, no database needed
+ * - The workflow through the API: propose, accept, decline, cancel, approve, reject,
+ *   auto-approve, stale swaps and two concurrent steps on the same swap
+ */
+
+import { PrismaClient } from '@prisma/client';
+import request from 'supertest';
+import app from '../app';
+import { canTakeStep } from '../services/shift-swap-service';
+import { createTestUser, removeTestPersons, TestUser } from './test-users';
+
+const prisma = new PrismaClient();
+
+describe('SWAP STEPS', () => {
+  it('only lets the counterpart answer a proposed swap', () => {
+    expect(canTakeStep('PROPOSED', 'ACCEPTED')).toBe(true);
+    expect(canTakeStep('PROPOSED', 'DECLINED')).toBe(true);
+    expect(canTakeStep('ACCEPTED', 'ACCEPTED')).toBe(false);
+    expect(canTakeStep('CANCELLED', 'DECLINED')).toBe(false);
+  });
+
+  it('only decides accepted swaps, once', () => {
+    expect(canTakeStep('ACCEPTED', 'APPROVED')).toBe(true);
+    expect(canTakeStep('ACCEPTED', 'REJECTED')).toBe(true);
+    expect(canTakeStep('PROPOSED', 'APPROVED')).toBe(false);
+    expect(canTakeStep('APPROVED', 'APPROVED')).toBe(false);
+    expect(canTakeStep('CANCELLED', 'APPROVED')).toBe(false);
+  });
+
+  it('lets the requester cancel until the swap is decided', () => {
+    expect(canTakeStep('PROPOSED', 'CANCELLED')).toBe(true);
+    expect(canTakeStep('ACCEPTED', 'CANCELLED')).toBe(true);
+    expect(canTakeStep('APPROVED', 'CANCELLED')).toBe(false);
+    expect(canTakeStep('REJECTED', 'CANCELLED')).toBe(false);
+  });
+});
+
+describe('SHIFT SWAP WORKFLOW', () => {
+  let requester: TestUser;
+  let counterpart: TestUser;
+  let approver: TestUser;
+  let approvingDoctor: TestUser;
+  let day = 0;
+
+  // Every test gets its own future shift, a day after the previous one
+  async function futureShift(personId: string) {
+    day += 1;
+    const start = new Date(Date.UTC(2031, 0, day, 8));
+    return prisma.activity.create({
+      data: {
+        activityType: 'SHIFT',
+        start,
+        end: new Date(start.getTime() + 8 * 3_600_000),
+        personId,
+      },
+    });
+  }
+
+  async function proposedSwap() {
+    const shift = await futureShift(requester.personId);
+    const res = await request(app)
+      .post('/shift-swaps')
+      .set('Cookie', requester.cookies)
+      .send({ activityId: shift.id, counterpartId: counterpart.personId });
+    expect(res.status).toBe(201);
+    return { shift, swapId: res.body.id as string };
+  }
+
+  async function acceptedSwap() {
+    const proposed = await proposedSwap();
+    const res = await request(app)
+      .post(`/shift-swaps/${proposed.swapId}/accept`)
+      .set('Cookie', counterpart.cookies)
+      .send({});
+    expect(res.body.status).toBe('ACCEPTED');
+    return proposed;
+  }
+
+  const shiftOwner = async (id: string) =>
+    (await prisma.activity.findUniqueOrThrow({ where: { id } })).personId;
+
+  beforeAll(async () => {
+    requester = await createTestUser('SwapRequester', { doctor: true });
+    counterpart = await createTestUser('SwapCounterpart', { doctor: true });
+    approver = await createTestUser('SwapApprover', { roles: ['admin'] });
+    approvingDoctor = await createTestUser('SwapApprovingDoctor', { roles: ['admin'], doctor: true });
+  });
+
+  afterAll(async () => {
+    delete process.env.SHIFT_SWAP_AUTO_APPROVE;
+    await removeTestPersons([
+      requester.personId,
+      counterpart.personId,
+      approver.personId,
+      approvingDoctor.personId,
+    ]);
+    await prisma.$disconnect();
+  });
+
+  it('refuses a counterpart that is not a doctor enabled in shifts', async () => {
+    const shift = await futureShift(requester.personId);
+    const res = await request(app)
+      .post('/shift-swaps')
+      .set('Cookie', requester.cookies)
+      .send({ activityId: shift.id, counterpartId: approver.personId });
+    expect(res.status).toBe(400);
+  });
+
+  it('refuses a second open swap for the same shift', async () => {
+    const { shift } = await proposedSwap();
+    const again = await request(app)
+      .post('/shift-swaps')
+      .set('Cookie', requester.cookies)
+      .send({ activityId: shift.id, counterpartId: counterpart.personId });
+    expect(again.status).toBe(409);
+  });
+
+  it('moves the shift only once an approver approves the accepted swap', async () => {
+    const { shift, swapId } = await proposedSwap();
+
+    const byRequester = await request(app)
+      .post(`/shift-swaps/${swapId}/accept`)
+      .set('Cookie', requester.cookies)
+      .send({});
+    expect(byRequester.status).toBe(403);
+
+    await request(app).post(`/shift-swaps/${swapId}/accept`).set('Cookie', counterpart.cookies).send({});
+    expect(await shiftOwner(shift.id)).toBe(requester.personId);
+
+    const approved = await request(app)
+      .post(`/shift-swaps/${swapId}/approve`)
+      .set('Cookie', approver.cookies)
+      .send({});
+    expect(approved.status).toBe(200);
+    expect(approved.body.status).toBe('APPROVED');
+    expect(approved.body.events.map((e: any) => e.action)).toEqual(['PROPOSED', 'ACCEPTED', 'APPROVED']);
+    expect(await shiftOwner(shift.id)).toBe(counterpart.personId);
+
+    const twice = await request(app)
+      .post(`/shift-swaps/${swapId}/approve`)
+      .set('Cookie', approver.cookies)
+      .send({});
+    expect(twice.status).toBe(409);
+  });
+
+  it('ends a swap on decline, reject or cancel without moving the shift', async () => {
+    const declined = await proposedSwap();
+    const decline = await request(app)
+      .post(`/shift-swaps/${declined.swapId}/decline`)
+      .set('Cookie', counterpart.cookies)
+      .send({ comment: 'On holiday' });
+    expect(decline.body.status).toBe('DECLINED');
+    const lateAccept = await request(app)
+      .post(`/shift-swaps/${declined.swapId}/accept`)
+      .set('Cookie', counterpart.cookies)
+      .send({});
+    expect(lateAccept.status).toBe(409);
+
+    const rejected = await acceptedSwap();
+    const reject = await request(app)
+      .post(`/shift-swaps/${rejected.swapId}/reject`)
+      .set('Cookie', approver.cookies)
+      .send({ comment: 'Not enough seniority' });
+    expect(reject.body.status).toBe('REJECTED');
+
+    const cancelled = await acceptedSwap();
+    const cancel = await request(app)
+      .post(`/shift-swaps/${cancelled.swapId}/cancel`)
+      .set('Cookie', requester.cookies)
+      .send({});
+    expect(cancel.body.status).toBe('CANCELLED');
+
+    for (const { shift } of [declined, rejected, cancelled]) {
+      expect(await shiftOwner(shift.id)).toBe(requester.personId);
+    }
+  });
+
+  it('auto-approves an accepted swap without conflicts when enabled', async () => {
+    process.env.SHIFT_SWAP_AUTO_APPROVE = 'true';
+    try {
+      const { shift, swapId } = await proposedSwap();
+      const accepted = await request(app)
+        .post(`/shift-swaps/${swapId}/accept`)
+        .set('Cookie', counterpart.cookies)
+        .send({});
+      expect(accepted.body.status).toBe('APPROVED');
+      expect(await shiftOwner(shift.id)).toBe(counterpart.personId);
+
+      // Nobody reviewed the move, so the audit trail records it with the system as actor
+      const audit = await prisma.auditLog.findMany({
+        where: { entityType: 'Activity', entityId: shift.id, action: 'UPDATE' },
+      });
+      expect(audit).toHaveLength(1);
+      expect(audit[0].actorId).toBeNull();
+      expect(JSON.parse(audit[0].after!).personId).toBe(counterpart.personId);
+    } finally {
+      delete process.env.SHIFT_SWAP_AUTO_APPROVE;
+    }
+  });
+
+  it('does not let a participant approve their own swap', async () => {
+    const shift = await futureShift(approvingDoctor.personId);
+    const proposed = await request(app)
+      .post('/shift-swaps')
+      .set('Cookie', approvingDoctor.cookies)
+      .send({ activityId: shift.id, counterpartId: counterpart.personId });
+    await request(app)
+      .post(`/shift-swaps/${proposed.body.id}/accept`)
+      .set('Cookie', counterpart.cookies)
+      .send({});
+
+    const byRequester = await request(app)
+      .post(`/shift-swaps/${proposed.body.id}/approve`)
+      .set('Cookie', approvingDoctor.cookies)
+      .send({});
+    expect(byRequester.status).toBe(403);
+
+    const other = await futureShift(requester.personId);
+    const toDoctor = await request(app)
+      .post('/shift-swaps')
+      .set('Cookie', requester.cookies)
+      .send({ activityId: other.id, counterpartId: approvingDoctor.personId });
+    await request(app)
+      .post(`/shift-swaps/${toDoctor.body.id}/accept`)
+      .set('Cookie', approvingDoctor.cookies)
+      .send({});
+
+    const byCounterpart = await request(app)
+      .post(`/shift-swaps/${toDoctor.body.id}/approve`)
+      .set('Cookie', approvingDoctor.cookies)
+      .send({});
+    expect(byCounterpart.status).toBe(403);
+    expect(await shiftOwner(shift.id)).toBe(approvingDoctor.personId);
+    expect(await shiftOwner(other.id)).toBe(requester.personId);
+  });
+
+  it('refuses to approve a swap whose shift was reassigned in the meantime', async () => {
+    const { shift, swapId } = await acceptedSwap();
+    await prisma.activity.update({ where: { id: shift.id }, data: { personId: approver.personId } });
+
+    const res = await request(app)
+      .post(`/shift-swaps/${swapId}/approve`)
+      .set('Cookie', approver.cookies)
+      .send({ force: true });
+    expect(res.status).toBe(409);
+    expect(await shiftOwner(shift.id)).toBe(approver.personId);
+    const stored = await prisma.shiftSwapRequest.findUniqueOrThrow({ where: { id: swapId } });
+    expect(stored.status).toBe('ACCEPTED');
+  });
+
+  it('lets only one of a concurrent cancel and approval through', async () => {
+    const { shift, swapId } = await acceptedSwap();
+
+    const [cancel, approve] = await Promise.all([
+      request(app).post(`/shift-swaps/${swapId}/cancel`).set('Cookie', requester.cookies).send({}),
+      request(app).post(`/shift-swaps/${swapId}/approve`).set('Cookie', approver.cookies).send({}),
+    ]);
+    expect([cancel.status, approve.status].sort()).toEqual([200, 409]);
+
+    const stored = await prisma.shiftSwapRequest.findUniqueOrThrow({
+      where: { id: swapId },
+      include: { events: true },
+    });
+    const owner = await shiftOwner(shift.id);
+    if (stored.status === 'APPROVED') {
+      expect(owner).toBe(counterpart.personId);
+    } else {
+      expect(stored.status).toBe('CANCELLED');
+      expect(owner).toBe(requester.personId);
+    }
+    // Only the winning step is in the history
+    expect(stored.events.filter((e) => e.action === 'APPROVED' || e.action === 'CANCELLED')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * @description
+ * Fixtures for the integration tests: users created directly in the database and logged
+ * in through /auth/login.
+ *
+ * Key features:
+ * - createTestUser: Person + verified user with the given roles, optionally a doctor
+ * - removeTestPersons: Deletes the persons again together with everything that points at them
+ *
+ * @notes
+ * - Each login counts towards loginRateLimiter (10 per IP per test file), so log in once
+ *   per user and reuse the cookies.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import bcrypt from 'bcrypt';
+import crypto from 'crypto';
+import request from 'supertest';
+import app from '../app';
+
+const prisma = new PrismaClient();
+
+export const TEST_PASSWORD = 'FixturePass#1';
+
+export interface TestUser {
+  personId: string;
+  email: string;
+  cookies: string[];
+}
+
+export async function createTestUser(
+  prefix: string,
+  options: { roles?: string[]; doctor?: boolean } = {},
+): Promise<TestUser> {
+  const roles = await Promise.all(
+    (options.roles ?? []).map((name) =>
+      prisma.role.upsert({ where: { name }, update: {}, create: { name } }),
+    ),
+  );
+  const person = await prisma.person.create({
+    data: { firstName: `${prefix}First`, lastName: `${prefix}Last`, dateOfBirth: new Date('1985-03-01') },
+  });
+  const email = `${prefix.toLowerCase()}_${Date.now()}_${crypto.randomBytes(3).toString('hex')}@example.com`;
+  await prisma.user.create({
+    data: {
+      personId: person.id,
+      email,
+      password: await bcrypt.hash(TEST_PASSWORD, 10),
+      emailVerifiedAt: new Date(),
+      userRoles: { create: roles.map((role) => ({ roleId: role.id })) },
+    },
+  });
+  if (options.doctor) {
+    await prisma.doctor.create({
+      data: { personId: person.id, rizivNumber: String(crypto.randomInt(1e10, 1e11 - 1)) },
+    });
+  }
+
+  const login = await request(app).post('/auth/login').send({ email, password: TEST_PASSWORD });
+  const cookies = login.headers['set-cookie'];
+  return {
+    personId: person.id,
+    email,
+    cookies: typeof cookies === 'string' ? [cookies] : (cookies ?? []),
+  };
+}
+
+export async function removeTestPersons(personIds: string[]): Promise<void> {
+  const ids = { in: personIds };
+  await prisma.shiftSwapRequest.deleteMany({
+    where: { OR: [{ requesterId: ids }, { counterpartId: ids }] },
+  });
+  await prisma.leaveRequest.deleteMany({ where: { personId: ids } });
+  await prisma.activity.deleteMany({ where: { personId: ids } });
+  await prisma.userConstraint.deleteMany({ where: { personId: ids } });
+  await prisma.doctor.deleteMany({ where: { personId: ids } });
+  await prisma.loginEvent.deleteMany({ where: { userId: ids } });
+  await prisma.refreshToken.deleteMany({ where: { userId: ids } });
+  await prisma.userRole.deleteMany({ where: { userId: ids } });
+  await prisma.user.deleteMany({ where: { personId: ids } });
+  await prisma.person.deleteMany({ where: { id: ids } });
+}
@@ -0,0 +1,180 @@
+/**
+ * @description
+ * Unit tests for TOTP two-factor authentication.
+ *
+ * Key features:
+ * - Codes match the RFC 6238 test vectors; one step of clock drift is accepted
+ * - The otpauth URI for authenticator apps
+ * - Challenge tokens of the two-step login are never accepted as access tokens
+ * - The progressive lockout that wrong passwords and wrong codes lead to
+ * - Enrollment during login needs the e-mailed code besides the password, and does not
+ *   replace a fresh pending secret
+ */
+
+import { PrismaClient } from '@prisma/client';
+import express from 'express';
+import request from 'supertest';
+import mainApp from '../app';
+import '../config/passport-strategies';
+import { jwtAuth } from '../middleware/auth-middleware';
+import {
+  activeLock,
+  LOCKOUT_THRESHOLD,
+  lockoutMinutes,
+} from '../services/login-security-service';
+import { issueEnrollmentCode, startEnrollment } from '../services/two-factor-service';
+import { loginSecondFactorBody } from '../validation/request-schemas';
+import {
+  generateTwoFactorChallenge,
+  verifyTwoFactorChallenge,
+} from '../utils/token-utils';
+import {
+  base32Decode,
+  base32Encode,
+  generateTotpSecret,
+  otpauthUri,
+  timeStep,
+  totpCode,
+  verifyTotp,
+} from '../utils/totp';
+import { createTestUser, removeTestPersons, TestUser } from './test-users';
+
+const prisma = new PrismaClient();
+
+// RFC 6238 appendix B: the ASCII secret "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TOTP', () => {
+  it('matches the RFC 6238 test vectors', () => {
+    expect(totpCode(RFC_SECRET, timeStep(new Date(59_000)), 8)).toBe('94287082');
+    expect(totpCode(RFC_SECRET, timeStep(new Date(1_111_111_109_000)), 8)).toBe('07081804');
+    expect(totpCode(RFC_SECRET, timeStep(new Date(2_000_000_000_000)), 8)).toBe('69279037');
+  });
+
+  it('round-trips base32 secrets', () => {
+    const secret = generateTotpSecret();
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(base32Encode(base32Decode(secret))).toBe(secret);
+  });
+
+  it('accepts one step of clock drift and returns the matched step', () => {
+    const now = new Date('2025-07-01T08:00:00Z');
+    const step = timeStep(now);
+
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step), now)).toBe(step);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 1), now)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 2), now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abc123', now)).toBeNull();
+  });
+
+  it('builds the otpauth URI for authenticator apps', () => {
+    const uri = new URL(otpauthUri('JBSWY3DPEHPK3PXP', 'jane@medecare.be'));
+    expect(uri.protocol).toBe('otpauth:');
+    expect(uri.host).toBe('totp');
+    expect(decodeURIComponent(uri.pathname)).toBe('/MedEcare:jane@medecare.be');
+    expect(uri.searchParams.get('secret')).toBe('JBSWY3DPEHPK3PXP');
+    expect(uri.searchParams.get('issuer')).toBe('MedEcare');
+  });
+});
+
+describe('TWO-STEP LOGIN', () => {
+  it('requires a code or a recovery code', () => {
+    const result = loginSecondFactorBody.safeParse({ challengeToken: 'x' });
+    expect(result.success).toBe(false);
+    expect(loginSecondFactorBody.safeParse({ challengeToken: 'x', code: '123456' }).success).toBe(true);
+  });
+
+  it('round-trips challenge tokens', () => {
+    const token = generateTwoFactorChallenge('p1', 'mobile');
+    expect(verifyTwoFactorChallenge(token)).toEqual({ personId: 'p1', platform: 'mobile' });
+    expect(verifyTwoFactorChallenge(`${token}x`)).toBeNull();
+  });
+
+  it('never accepts a challenge token as access token', async () => {
+    const app = express();
+    app.get('/protected', jwtAuth, (req, res) => {
+      res.json({ ok: true });
+    });
+
+    const res = await request(app)
+      .get('/protected')
+      .set('Authorization', `Bearer ${generateTwoFactorChallenge('p1', 'web')}`);
+    expect(res.status).toBe(401);
+  });
+});
+
+describe('LOGIN LOCKOUT', () => {
+  it('locks from the threshold on, doubling per failure up to a day', () => {
+    expect(lockoutMinutes(LOCKOUT_THRESHOLD - 1)).toBe(0);
+    expect(lockoutMinutes(LOCKOUT_THRESHOLD)).toBe(15);
+    expect(lockoutMinutes(LOCKOUT_THRESHOLD + 1)).toBe(30);
+    expect(lockoutMinutes(LOCKOUT_THRESHOLD + 2)).toBe(60);
+    expect(lockoutMinutes(LOCKOUT_THRESHOLD + 20)).toBe(24 * 60);
+  });
+
+  it('only reports a lock that has not expired yet', () => {
+    const now = new Date('2025-07-10T12:00:00Z');
+    const later = new Date('2025-07-10T12:15:00Z');
+    expect(activeLock({ lockedUntil: later }, now)).toEqual(later);
+    expect(activeLock({ lockedUntil: now }, now)).toBeNull();
+    expect(activeLock({ lockedUntil: null }, now)).toBeNull();
+  });
+});
+
+describe('ENROLLMENT DURING LOGIN', () => {
+  let user: TestUser;
+
+  const setup = (body: object) =>
+    request(mainApp)
+      .post('/auth/login/2fa/setup')
+      .send({ challengeToken: generateTwoFactorChallenge(user.personId, 'web'), ...body });
+
+  const pendingSecret = async () =>
+    (await prisma.user.findUniqueOrThrow({ where: { personId: user.personId } })).totpSecret;
+
+  beforeAll(async () => {
+    user = await createTestUser('Enroll');
+  });
+
+  afterAll(async () => {
+    await removeTestPersons([user.personId]);
+    await prisma.$disconnect();
+  });
+
+  it('only e-mails a code when the password is all that was proven', async () => {
+    const res = await setup({});
+    expect(res.status).toBe(202);
+    expect(res.body.emailCodeSent).toBe(true);
+    expect(res.body).not.toHaveProperty('secret');
+    expect(await pendingSecret()).toBeNull();
+  });
+
+  it('refuses a wrong e-mail code', async () => {
+    await issueEnrollmentCode(user.personId);
+    const res = await setup({ emailCode: '000000' });
+    expect(res.status).toBe(401);
+    expect(await pendingSecret()).toBeNull();
+  });
+
+  it('enrolls with the e-mailed code, once', async () => {
+    const { code } = await issueEnrollmentCode(user.personId);
+    const res = await setup({ emailCode: code });
+    expect(res.status).toBe(200);
+    expect(res.body.secret).toBe(await pendingSecret());
+
+    const reused = await setup({ emailCode: code });
+    expect(reused.status).toBe(401);
+  });
+
+  it('does not replace a fresh pending secret during login, only when logged in', async () => {
+    const pending = await pendingSecret();
+    const { code } = await issueEnrollmentCode(user.personId);
+    const res = await setup({ emailCode: code });
+    expect(res.status).toBe(409);
+    expect(res.body.code).toBe('TWO_FACTOR_ENROLLMENT_PENDING');
+    expect(await pendingSecret()).toBe(pending);
+
+    const replaced = await startEnrollment(user.personId, { replacePending: true });
+    expect(await pendingSecret()).toBe(replaced.secret);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * @description
+ * Unit tests for the request schemas and the validate() middleware.
+ *
+ * Key features:
+ * - Ranges, ISO dates, cross-field rules (end > start) and the RIZIV number format
+ * - The 400 response shape with field-level details, in a small Express app
+ * - The OpenAPI components generated from the same schemas
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { validate } from '../middleware/validation-middleware';
+import { generatedSchemaComponents } from '../routes/schema-components';
+import { z } from 'zod';
+import {
+  activityBody,
+  doctorBody,
+  periodQuery,
+  shiftTypeBody,
+} from '../validation/request-schemas';
+
+const fields = (result: z.ZodSafeParseResult<unknown>) =>
+  result.success ? [] : result.error.issues.map((issue) => issue.path.join('.'));
+
+describe('REQUEST SCHEMAS', () => {
+  it('checks integer ranges', () => {
+    const base = { name: 'Night', startMinute: 0, durationMinutes: 480 };
+    expect(shiftTypeBody.safeParse({ ...base, startHour: 23 }).success).toBe(true);
+    expect(fields(shiftTypeBody.safeParse({ ...base, startHour: 24 }))).toEqual(['startHour']);
+    expect(fields(shiftTypeBody.safeParse({ ...base, startHour: 7.5 }))).toEqual(['startHour']);
+  });
+
+  it('parses ISO dates and rejects anything else', () => {
+    const base = { activityType: 'SHIFT', personId: 'p1' };
+    const ok = activityBody.safeParse({
+      ...base,
+      start: '2025-07-01T08:00:00Z',
+      end: '2025-07-01T16:00:00Z',
+    });
+    expect(ok.success && ok.data.start).toEqual(new Date('2025-07-01T08:00:00Z'));
+
+    const bad = activityBody.safeParse({ ...base, start: '01/07/2025', end: 'tomorrow' });
+    expect(fields(bad)).toEqual(['start', 'end']);
+  });
+
+  it('requires end after start', () => {
+    const result = activityBody.safeParse({
+      activityType: 'SHIFT',
+      personId: 'p1',
+      start: '2025-07-01T16:00:00Z',
+      end: '2025-07-01T08:00:00Z',
+    });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues).toMatchObject([{ path: ['end'], message: 'must be after start' }]);
+  });
+
+  it('requires an 11-digit RIZIV number', () => {
+    expect(doctorBody.safeParse({ personId: 'p1', rizivNumber: '12345678901' }).success).toBe(true);
+    expect(fields(doctorBody.safeParse({ personId: 'p1', rizivNumber: '1234567890' }))).toEqual([
+      'rizivNumber',
+    ]);
+    expect(fields(doctorBody.safeParse({ personId: 'p1', rizivNumber: '1234567890A' }))).toEqual([
+      'rizivNumber',
+    ]);
+  });
+
+  it('drops keys that are not in the schema', () => {
+    const result = doctorBody.safeParse({
+      personId: 'p1',
+      rizivNumber: '12345678901',
+      createdAt: '2000-01-01',
+    });
+    expect(result.success && result.data).toEqual({ personId: 'p1', rizivNumber: '12345678901' });
+  });
+});
+
+describe('VALIDATE MIDDLEWARE', () => {
+  const app = express();
+  app.use(express.json());
+  app.post('/shift-types', validate({ body: shiftTypeBody }), (req, res) => {
+    res.json({ startHour: req.body.startHour, extra: req.body.extra ?? null });
+  });
+  app.get('/period', validate({ query: periodQuery }), (req, res) => {
+    res.json({ startDate: req.query.startDate });
+  });
+
+  it('answers 400 with one detail per invalid field', async () => {
+    const res = await request(app)
+      .post('/shift-types')
+      .send({ name: 'Night', startHour: 25, startMinute: 0 });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('Validation failed');
+    expect(res.body.details).toEqual([
+      { field: 'startHour', in: 'body', message: 'must be an integer between 0 and 23' },
+      { field: 'durationMinutes', in: 'body', message: 'is required' },
+    ]);
+  });
+
+  it('passes the parsed body on to the handler', async () => {
+    const res = await request(app)
+      .post('/shift-types')
+      .send({ name: 'Night', startHour: 22, startMinute: 0, durationMinutes: 600, extra: 'x' });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ startHour: 22, extra: null });
+  });
+
+  it('validates query strings and leaves them as strings', async () => {
+    const bad = await request(app).get('/period?startDate=2025-07-31&endDate=2025-07-01');
+    expect(bad.status).toBe(400);
+    expect(bad.body.details).toEqual([
+      { field: 'endDate', in: 'query', message: 'must be on or after startDate' },
+    ]);
+
+    const ok = await request(app).get('/period?startDate=2025-07-01&endDate=2025-07-31');
+    expect(ok.status).toBe(200);
+    expect(ok.body.startDate).toBe('2025-07-01');
+  });
+});
+
+describe('GENERATED OPENAPI COMPONENTS', () => {
+  it('renders ranges, formats and required fields from the schemas', () => {
+    const shiftType = generatedSchemaComponents.ShiftTypeRequestBody as any;
+    expect(shiftType.required).toEqual(['name', 'startHour', 'startMinute', 'durationMinutes']);
+    expect(shiftType.properties.startHour).toMatchObject({ type: 'integer', minimum: 0, maximum: 23 });
+    expect(shiftType.properties.activeFrom).toMatchObject({ format: 'date-time', nullable: true });
+
+    const doctor = generatedSchemaComponents.DoctorRequestBody as any;
+    expect(doctor.properties.rizivNumber.pattern).toBe('^\\d{11}$');
+  });
+});
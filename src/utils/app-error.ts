@@ -0,0 +1,42 @@
+/**
+ * @description
+ * Domain errors that services and controllers can throw (or pass to next()) and that the
+ * central error handler turns into RFC 7807 problem responses.
+ *
+ * Key features:
+ * - AppError: Carries an HTTP status and a stable, machine-readable error code
+ * - NotFoundError (404), ConflictError (409), UnprocessableEntityError (422)
+ *
+ * @notes
+ * - The message becomes the `detail` of the problem response, so it must be safe to show
+ *   to the client.
+ */
+
+export class AppError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string, code = 'NOT_FOUND') {
+    super(404, code, message);
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string, code = 'CONFLICT') {
+    super(409, code, message);
+  }
+}
+
+export class UnprocessableEntityError extends AppError {
+  constructor(message: string, code = 'UNPROCESSABLE_ENTITY') {
+    super(422, code, message);
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * @description
+ * Small UTC date helpers shared by the planning features (schedule generation,
+ * constraint checks, ...).
+ *
+ * Key features:
+ * - startOfUtcDay / addDays: Calendar arithmetic on UTC days
+ * - isoWeekday: Monday = 1 ... Sunday = 7
+ * - utcDateKey: "YYYY-MM-DD" key of a UTC day, handy for sets of days
+ * - isoWeekKey: Returns the ISO-8601 week ("2025-W23") a date falls in
+ * - intervalsOverlap: Checks whether two [start, end) intervals overlap
+ * - isShiftTypeActiveOn: Respects ShiftType.activeFrom / activeUntil
+ * - isEmployedOn: Respects Person.employmentStart / employmentEnd
+ * - shiftWindow: Computes the concrete start/end of a ShiftType on a given day
+ *
+ * @notes
+ * - All calculations are done in UTC, consistent with how activities are stored
+ *   (see filterActivities and the seed scripts).
+ */
+
+import { Person, ShiftType } from '@prisma/client';
+
+const MS_PER_DAY = 86_400_000;
+
+export function startOfUtcDay(date: Date): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * MS_PER_DAY);
+}
+
+export function isoWeekday(date: Date): number {
+  return date.getUTCDay() || 7;
+}
+
+export function utcDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * @function isoWeekKey
+ * @description Returns the ISO-8601 week of a date, e.g. "2025-W01".
+ * Weeks start on Monday and week 1 is the week containing the first Thursday.
+ */
+export function isoWeekKey(date: Date): string {
+  const day = startOfUtcDay(date);
+  const thursday = addDays(day, 4 - isoWeekday(day));
+  const year = thursday.getUTCFullYear();
+  const firstOfYear = new Date(Date.UTC(year, 0, 1));
+  const week =
+    Math.floor((thursday.getTime() - firstOfYear.getTime()) / MS_PER_DAY / 7) +
+    1;
+  return `${year}-W${String(week).padStart(2, '0')}`;
+}
+
+/**
+ * @function intervalsOverlap
+ * @description True when [aStart, aEnd) and [bStart, bEnd) share any moment.
+ * Back-to-back intervals (aEnd === bStart) do not overlap.
+ */
+export function intervalsOverlap(
+  aStart: Date,
+  aEnd: Date,
+  bStart: Date,
+  bEnd: Date,
+): boolean {
+  return aStart < bEnd && bStart < aEnd;
+}
+
+export function isShiftTypeActiveOn(
+  shiftType: Pick<ShiftType, 'activeFrom' | 'activeUntil'>,
+  day: Date,
+): boolean {
+  const dayStart = startOfUtcDay(day);
+  if (shiftType.activeFrom && startOfUtcDay(shiftType.activeFrom) > dayStart) {
+    return false;
+  }
+  if (shiftType.activeUntil && startOfUtcDay(shiftType.activeUntil) < dayStart) {
+    return false;
+  }
+  return true;
+}
+
+export function isEmployedOn(
+  person: Pick<Person, 'employmentStart' | 'employmentEnd'>,
+  day: Date,
+): boolean {
+  const dayStart = startOfUtcDay(day);
+  if (person.employmentStart && startOfUtcDay(person.employmentStart) > dayStart) {
+    return false;
+  }
+  if (person.employmentEnd && startOfUtcDay(person.employmentEnd) < dayStart) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * @function shiftWindow
+ * @description Computes the start and end of a ShiftType when it is worked on `day`.
+ *
+ * @example
+ *   // 'nacht' starts at 19:00 and lasts 840 minutes
+ *   shiftWindow(nacht, new Date('2025-06-02'));
+ *   // => { start: 2025-06-02T19:00Z, end: 2025-06-03T09:00Z }
+ */
+export function shiftWindow(
+  shiftType: Pick<ShiftType, 'startHour' | 'startMinute' | 'durationMinutes'>,
+  day: Date,
+): { start: Date; end: Date } {
+  const dayStart = startOfUtcDay(day);
+  const start = new Date(
+    dayStart.getTime() +
+      (shiftType.startHour * 60 + shiftType.startMinute) * 60_000,
+  );
+  const end = new Date(start.getTime() + shiftType.durationMinutes * 60_000);
+  return { start, end };
+}
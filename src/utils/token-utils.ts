@@ -5,6 +5,10 @@
  * Key features:
  * - generateTokens: Generates both accessToken and refreshToken using different expirations
  *   for web and mobile platforms.
+ * - suppliedRefreshToken: The refresh token sent with a request (cookie, body or header)
+ * - sessionDevice: Platform, user agent and IP of a request, stored with its refresh token
+ * - generateTwoFactorChallenge / verifyTwoFactorChallenge: Short-lived token that links the
+ *   two steps of a login with two-factor authentication
  *
  * @dependencies
  * - jsonwebtoken: For signing JWT tokens
@@ -17,11 +21,17 @@
  *   - Web: 7 days
  *   - Mobile: 30 days
  * - The user payload is minimal (only user.id) to reduce token size.
- * - In future steps, we may store refresh tokens in the database for revocation or blacklisting.
+ * - Challenge tokens have no `id` claim, so the JWT strategy never accepts them as access
+ *   tokens; they expire after 5 minutes.
+ * - Refresh tokens carry a random `jti`, because the database stores them by hash and
+ *   every issued token must be distinct.
  */
 
+import crypto from 'crypto';
 import { User } from '@prisma/client';
+import { Request } from 'express';
 import jwt, { Secret, SignOptions } from 'jsonwebtoken';
+import { SessionDevice } from '../services/auth-service';
 
 interface TokenPair {
   accessToken: string;
@@ -67,8 +77,8 @@ export function generateTokens(user: User, platform: string): TokenPair {
     expiresIn: accessExp,
   } as SignOptions);
 
-  // Generate Refresh Token
-  const refreshToken = jwt.sign(payload, secret, {
+  // Generate Refresh Token; the random jti keeps tokens issued in the same second unique
+  const refreshToken = jwt.sign({ ...payload, jti: crypto.randomUUID() }, secret, {
     expiresIn: refreshExp,
   } as SignOptions);
 
@@ -77,3 +87,74 @@ export function generateTokens(user: User, platform: string): TokenPair {
     refreshToken,
   };
 }
+
+/**
+ * @function suppliedRefreshToken
+ * @description Reads the refresh token from the cookie (web), the body or the
+ * x-refresh-token header (mobile).
+ *
+ * @param {Request} req - The incoming request
+ * @returns {string | undefined} The refresh token, if any
+ */
+export function suppliedRefreshToken(req: Request): string | undefined {
+  return (
+    req.cookies?.refreshToken ||
+    req.body?.refreshToken ||
+    (req.headers['x-refresh-token'] as string | undefined)
+  );
+}
+
+/**
+ * @function sessionDevice
+ * @description Describes the device of a login or refresh request, for the session list.
+ *
+ * @param {Request} req - The login or refresh request
+ * @param {string} platform - 'web', 'web-persist' or 'mobile' from the request body
+ * @returns {SessionDevice} Platform, user agent and client IP
+ */
+export function sessionDevice(req: Request, platform: string): SessionDevice {
+  return {
+    platform,
+    userAgent: req.get('user-agent') ?? null,
+    ip: req.ip ?? null,
+  };
+}
+
+export interface TwoFactorChallenge {
+  personId: string;
+  platform: string;
+}
+
+const TWO_FACTOR_PURPOSE = 'two-factor';
+
+/**
+ * @function generateTwoFactorChallenge
+ * @description Issues the token a client sends back with the second factor of a login.
+ *
+ * @param {string} personId - The user whose password was correct
+ * @param {string} platform - Platform of the login, used when the tokens are issued
+ * @returns {string} A JWT valid for 5 minutes
+ */
+export function generateTwoFactorChallenge(personId: string, platform: string): string {
+  const secret = process.env.JWT_SECRET || ('changeme' as Secret);
+  return jwt.sign({ sub: personId, purpose: TWO_FACTOR_PURPOSE, platform }, secret, {
+    expiresIn: '5m',
+  });
+}
+
+/**
+ * @function verifyTwoFactorChallenge
+ * @description Checks a challenge token from generateTwoFactorChallenge.
+ *
+ * @param {string} token - The challenge token
+ * @returns {TwoFactorChallenge | null} The user and platform, or null when invalid or expired
+ */
+export function verifyTwoFactorChallenge(token: string): TwoFactorChallenge | null {
+  try {
+    const payload = jwt.verify(token, process.env.JWT_SECRET || 'changeme') as jwt.JwtPayload;
+    if (payload.purpose !== TWO_FACTOR_PURPOSE || typeof payload.sub !== 'string') return null;
+    return { personId: payload.sub, platform: String(payload.platform ?? 'web') };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * @description
+ * Time-based one-time passwords (RFC 6238) as used by authenticator apps.
+ *
+ * Key features:
+ * - generateTotpSecret: A random 160-bit secret, base32-encoded
+ * - totpCode: The code for a secret at a time step
+ * - verifyTotp: Checks a submitted code, allowing one step of clock drift
+ * - otpauthUri: The otpauth:// URI that authenticator apps scan as a QR code
+ *
+ * @notes
+ * - HMAC-SHA1, 6 digits and 30-second steps: the defaults every authenticator app supports.
+ * - verifyTotp returns the matched time step, so callers can refuse a code that was
+ *   already used (replay within the same 30 seconds).
+ */
+
+import crypto from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+export function base32Decode(text: string): Buffer {
+  const clean = text.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character '${char}'`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+export function timeStep(at: Date = new Date()): number {
+  return Math.floor(at.getTime() / 1000 / STEP_SECONDS);
+}
+
+/**
+ * @function totpCode
+ * @description Computes the one-time code of a secret for a time step (RFC 4226 truncation).
+ *
+ * @param {string} secret - Base32-encoded secret
+ * @param {number} step - Time step (seconds since the epoch / 30)
+ * @param {number} [digits=6] - Code length
+ * @returns {string} The zero-padded code
+ */
+export function totpCode(secret: string, step: number, digits = DIGITS): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** digits).padStart(digits, '0');
+}
+
+/**
+ * @function verifyTotp
+ * @description Checks a code against the current time step and one step before and after.
+ *
+ * @param {string} secret - Base32-encoded secret
+ * @param {string} code - The code the user typed
+ * @param {Date} [at] - The time to check against (defaults to now)
+ * @returns {number | null} The matched time step, or null when the code is wrong
+ *
+ * @example
+ * const step = verifyTotp(user.totpSecret, '287082');
+ * if (step !== null && step > (user.totpLastStep ?? -1)) { ... }
+ */
+export function verifyTotp(secret: string, code: string, at: Date = new Date()): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const current = timeStep(at);
+  for (const step of [current, current - 1, current + 1]) {
+    const expected = totpCode(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) return step;
+  }
+  return null;
+}
+
+/**
+ * @function otpauthUri
+ * @description Builds the otpauth:// URI for enrollment; clients render it as a QR code.
+ *
+ * @param {string} secret - Base32-encoded secret
+ * @param {string} account - Account label shown in the app (the e-mail address)
+ * @param {string} [issuer='MedEcare'] - Issuer shown in the app
+ * @returns {string} e.g. otpauth://totp/MedEcare:jane%40example.com?secret=...&issuer=MedEcare
+ */
+export function otpauthUri(secret: string, account: string, issuer = 'MedEcare'): string {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(account)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
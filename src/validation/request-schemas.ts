@@ -0,0 +1,535 @@
+/**
+ * @description
+ * Request schemas (zod) for every route that accepts a body or query parameters.
+ *
+ * Key features:
+ * - One schema per request body, named after its OpenAPI component (e.g. ShiftTypeRequestBody)
+ * - Query schemas for list, period and calendar endpoints
+ * - requestBodyComponents: The registry from which config/swagger.ts generates the
+ *   OpenAPI request body components, so docs and validation cannot drift apart
+ *
+ * @notes
+ * - Route files attach these with validate() from validation-middleware.ts.
+ * - Update bodies are the partial form of the create body unless a field may not change.
+ * - Objects drop keys that are not in their shape, so a request can never set columns the
+ *   route does not expect.
+ * - dateTime() and date() accept ISO 8601 strings and produce Date objects.
+ */
+
+import { z } from 'zod';
+import { ALL_PERMISSIONS } from '../config/permissions';
+
+/** A trimmed, non-empty string of at most `maxLength` characters. */
+const text = (maxLength: number) => z.string().trim().min(1).max(maxLength);
+
+const id = () => text(64);
+const name = () => text(100);
+const comment = () => text(1000).optional();
+
+const integer = (min: number, max: number) => {
+  const range = `must be an integer between ${min} and ${max}`;
+  return z.number().int({ error: range }).min(min, { error: range }).max(max, { error: range });
+};
+
+const amount = (max?: number) => {
+  const range = max === undefined ? '>= 0' : `between 0 and ${max}`;
+  const schema = z.number().min(0, { error: `must be a number ${range}` });
+  return max === undefined ? schema : schema.max(max, { error: `must be a number ${range}` });
+};
+
+const year = () => integer(1900, 2100);
+
+// Query strings only hold strings, so numbers in them are coerced before the range check
+const queryInteger = (min: number, max: number) => {
+  const range = `must be an integer between ${min} and ${max}`;
+  return z.coerce.number().int({ error: range }).min(min, { error: range }).max(max, { error: range });
+};
+
+// A date (YYYY-MM-DD) optionally followed by a time and offset
+const ISO_8601 = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/** date() and dateTime() accept the same input; they only differ in the documented format. */
+const isoDate = (format: 'date' | 'date-time') =>
+  z
+    .string()
+    .refine((value) => ISO_8601.test(value) && !isNaN(Date.parse(value)), {
+      error: format === 'date' ? 'must be a date (YYYY-MM-DD)' : 'must be an ISO 8601 date-time',
+    })
+    .meta({ format })
+    .transform((value) => new Date(value));
+
+const dateTime = () => isoDate('date-time');
+const date = () => isoDate('date');
+
+/* ------------------------------------------------------------------ */
+/* Persons, doctors and accounts                                       */
+/* ------------------------------------------------------------------ */
+
+// zod refuses .partial() on refined objects, so update bodies start from the plain fields
+const personFields = z.object({
+  firstName: name(),
+  lastName: name(),
+  dateOfBirth: date(),
+  employmentStart: date().describe('First working day (null = not limited)').nullable().optional(),
+  employmentEnd: date().describe('Last working day (null = not limited)').nullable().optional(),
+});
+
+export const personBody = personFields.refine(
+  (p) => !p.employmentStart || !p.employmentEnd || p.employmentEnd >= p.employmentStart,
+  { path: ['employmentEnd'], error: 'must be on or after employmentStart' },
+);
+
+export const personUpdateBody = personFields
+  .partial()
+  .refine(
+    (p) => !p.employmentStart || !p.employmentEnd || p.employmentEnd >= p.employmentStart,
+    { path: ['employmentEnd'], error: 'must be on or after employmentStart' },
+  );
+
+const rizivNumber = () =>
+  text(11)
+    .regex(/^\d{11}$/, { error: 'must be exactly 11 digits' })
+    .meta({ example: '17276985800' })
+    .describe('Belgian RIZIV number (11 digits)');
+
+export const doctorBody = z.object({
+  personId: id(),
+  rizivNumber: rizivNumber(),
+  isEnabledInShifts: z.boolean().optional(),
+});
+
+export const doctorUpdateBody = z.object({
+  rizivNumber: rizivNumber().optional(),
+  isEnabledInShifts: z.boolean().optional(),
+});
+
+const email = () => z.email({ error: 'must be a valid e-mail address' }).max(254);
+// Passwords are taken as typed, surrounding spaces included
+const password = () => z.string().min(1).max(128);
+
+export const registerBody = z.object({
+  email: email(),
+  password: password(),
+  role: text(50).optional(),
+  firstName: name(),
+  lastName: name(),
+  dateOfBirth: date(),
+  rizivNumber: rizivNumber(),
+  isEnabledInShifts: z.boolean().optional(),
+});
+
+export const loginBody = z.object({
+  email: text(254),
+  password: password(),
+  platform: z.enum(['web', 'mobile', 'web-persist']).optional(),
+});
+
+export const forgotPasswordBody = z.object({ email: text(254) });
+
+export const resetPasswordBody = z.object({
+  token: text(256),
+  newPassword: password(),
+});
+
+export const changePasswordBody = z.object({
+  oldPassword: password(),
+  newPassword: password(),
+});
+
+const totpCode = () =>
+  text(10)
+    .regex(/^\d{6}$/, { error: 'must be a 6-digit code' })
+    .meta({ example: '287082' });
+const recoveryCode = () => text(20).meta({ example: 'a1b2c-3d4e5' });
+
+export const twoFactorCodeBody = z.object({ code: totpCode() });
+
+export const secondFactorBody = z
+  .object({
+    code: totpCode().optional(),
+    recoveryCode: recoveryCode().optional(),
+  })
+  .refine((f) => !!f.code || !!f.recoveryCode, {
+    path: ['code'],
+    error: 'code or recoveryCode is required',
+  });
+
+export const loginSecondFactorBody = z
+  .object({
+    challengeToken: text(2048),
+    code: totpCode().optional(),
+    recoveryCode: recoveryCode().optional(),
+  })
+  .refine((f) => !!f.code || !!f.recoveryCode, {
+    path: ['code'],
+    error: 'code or recoveryCode is required',
+  });
+
+export const twoFactorChallengeBody = z.object({
+  challengeToken: text(2048),
+  emailCode: text(6)
+    .regex(/^\d{6}$/, { error: 'must be a 6-digit code' })
+    .describe('The 6-digit code e-mailed by the first call; omit it to receive one')
+    .optional(),
+});
+
+const accountFields = {
+  email: email(),
+  password: password(),
+  role: text(50).describe('Optional user role, e.g. admin or user').optional(),
+};
+
+export const adminUserBody = z.object({
+  ...accountFields,
+  personId: id().describe('The existing person that gets the account; invite new people instead'),
+});
+
+export const adminUserUpdateBody = z.object(accountFields).partial();
+
+export const userStatusBody = z.object({
+  status: z.enum(['ACTIVE', 'SUSPENDED', 'DEACTIVATED']),
+  reason: text(500).describe('Why, for other admins').optional(),
+});
+
+export const invitationBody = z
+  .object({
+    email: email(),
+    role: text(50).describe('Role granted on acceptance (default user)').optional(),
+    personId: id().describe('Invite an existing person (or doctor)').optional(),
+    person: personBody.describe('Or create a new person').optional(),
+    doctor: z
+      .object({
+        rizivNumber: rizivNumber(),
+        isEnabledInShifts: z.boolean().optional(),
+      })
+      .describe('Also register the new person as doctor')
+      .optional(),
+  })
+  .refine((i) => !!i.personId !== !!i.person, {
+    path: ['personId'],
+    error: 'give either personId or person',
+  })
+  .refine((i) => !i.doctor || !!i.person, {
+    path: ['doctor'],
+    error: 'can only be given with a new person',
+  });
+
+export const acceptInviteBody = z.object({
+  token: text(256),
+  password: password(),
+});
+
+export const verifyEmailBody = z.object({ token: text(256) });
+
+export const resendVerificationBody = z.object({ email: text(254) });
+
+export const registrationApprovalBody = z.object({
+  role: text(50).describe('Role to grant; defaults to the requested role').optional(),
+  isEnabledInShifts: z
+    .boolean()
+    .describe('Shift eligibility; defaults to what the applicant asked for')
+    .optional(),
+});
+
+export const registrationRejectionBody = z.object({ reason: text(1000) });
+
+export const roleBody = z.object({
+  name: text(50),
+  requiresTwoFactor: z
+    .boolean()
+    .describe('Users with this role must use two-factor authentication')
+    .optional(),
+});
+
+export const rolePermissionsBody = z.object({
+  permissions: z.array(z.enum(ALL_PERMISSIONS)),
+});
+
+export const userRoleBody = z.object({ userId: id(), roleId: id() });
+
+/* ------------------------------------------------------------------ */
+/* Planning                                                            */
+/* ------------------------------------------------------------------ */
+
+const activityFields = z.object({
+  activityType: text(50),
+  start: dateTime(),
+  end: dateTime(),
+  personId: id(),
+  shiftTypeId: id().nullable().optional(),
+  status: text(50).optional(),
+  force: z
+    .boolean()
+    .describe('Requires activity:write. Save even if it overlaps with other activities of the person.')
+    .optional(),
+});
+
+export const activityBody = activityFields.refine((a) => a.end > a.start, {
+  path: ['end'],
+  error: 'must be after start',
+});
+
+export const activityUpdateBody = activityFields
+  .partial()
+  .refine((a) => !a.start || !a.end || a.end > a.start, {
+    path: ['end'],
+    error: 'must be after start',
+  });
+
+const shiftTypeFields = z.object({
+  name: name(),
+  startHour: integer(0, 23),
+  startMinute: integer(0, 59),
+  durationMinutes: integer(1, 1440),
+  activeFrom: dateTime().nullable().optional(),
+  activeUntil: dateTime().nullable().optional(),
+});
+
+export const shiftTypeBody = shiftTypeFields.refine(
+  (s) => !s.activeFrom || !s.activeUntil || s.activeUntil >= s.activeFrom,
+  { path: ['activeUntil'], error: 'must be on or after activeFrom' },
+);
+
+export const shiftTypeUpdateBody = shiftTypeFields
+  .partial()
+  .refine(
+    (s) => !s.activeFrom || !s.activeUntil || s.activeUntil >= s.activeFrom,
+    { path: ['activeUntil'], error: 'must be on or after activeFrom' },
+  );
+
+const shiftTypeRateFields = z.object({
+  shiftTypeId: id(),
+  rate: amount(),
+  validFrom: dateTime(),
+  validUntil: dateTime()
+    .describe('Last day the rate applies (inclusive); null = open-ended, omitted on update = unchanged')
+    .nullable()
+    .optional(),
+});
+
+export const shiftTypeRateBody = shiftTypeRateFields.refine(
+  (r) => !r.validUntil || r.validUntil >= r.validFrom,
+  { path: ['validUntil'], error: 'must be on or after validFrom' },
+);
+
+export const shiftTypeRateUpdateBody = shiftTypeRateFields
+  .partial()
+  .refine(
+    (r) => !r.validFrom || !r.validUntil || r.validUntil >= r.validFrom,
+    { path: ['validUntil'], error: 'must be on or after validFrom' },
+  );
+
+export const supersedeRateBody = z.object({
+  rate: amount(),
+  validFrom: dateTime(),
+});
+
+export const userConstraintBody = z.object({
+  personId: id(),
+  maxNightShiftsPerWeek: integer(0, 7).nullable().optional(),
+  maxConsecutiveNightShifts: integer(0, 31).nullable().optional(),
+  minRestHoursBetweenShifts: integer(0, 168).nullable().optional(),
+});
+
+export const userConstraintUpdateBody = userConstraintBody.partial();
+
+export const rosterSlotBody = z.object({
+  weekday: integer(1, 7).describe('ISO weekday: 1 = Monday .. 7 = Sunday'),
+  shiftTypeId: id(),
+  headcount: integer(1, 100).optional(),
+  defaultPersonId: id().nullable().optional(),
+});
+
+export const rosterBody = z.object({
+  name: name(),
+  description: text(500).nullable().optional(),
+  slots: z.array(rosterSlotBody),
+});
+
+export const rosterUpdateBody = z.object({
+  description: text(500).nullable().optional(),
+  slots: z.array(rosterSlotBody).optional(),
+});
+
+export const closingDayBody = z.object({ date: date(), name: name() });
+
+export const closingDayUpdateBody = closingDayBody.partial();
+
+/* ------------------------------------------------------------------ */
+/* Leave and shift swaps                                               */
+/* ------------------------------------------------------------------ */
+
+export const leaveRequestBody = z
+  .object({
+    leaveType: text(50)
+      .describe('Activity type of the leave, e.g. LEAVE or CONFERENCE (not SHIFT)')
+      .optional(),
+    start: dateTime(),
+    end: dateTime(),
+    reason: text(1000).optional(),
+  })
+  .refine((l) => l.end > l.start, { path: ['end'], error: 'must be after start' })
+  .refine((l) => l.leaveType !== 'SHIFT', { path: ['leaveType'], error: 'must not be SHIFT' });
+
+export const leaveEntitlementBody = z.object({
+  personId: id(),
+  year: year(),
+  leaveType: text(50).optional(),
+  days: amount(366),
+  maxCarryOverDays: amount(366).describe('Unused days that may move to the next year').optional(),
+});
+
+export const leaveEntitlementUpdateBody = z.object({
+  year: year().optional(),
+  leaveType: text(50).optional(),
+  days: amount(366).optional(),
+  maxCarryOverDays: amount(366).optional(),
+});
+
+export const decisionBody = z.object({ comment: comment() });
+
+export const swapApprovalBody = z.object({
+  comment: comment(),
+  force: z.boolean().describe('Approve despite overlaps or broken constraints').optional(),
+});
+
+export const shiftSwapBody = z.object({
+  activityId: id().describe('One of your own future shifts'),
+  counterpartId: id(),
+  counterActivityId: id()
+    .describe("A shift of the counterpart to get in return (omit to give the shift away)")
+    .optional(),
+  message: text(1000).optional(),
+});
+
+/* ------------------------------------------------------------------ */
+/* Query strings                                                       */
+/* ------------------------------------------------------------------ */
+
+export const yearMonthQuery = z.object({
+  year: queryInteger(1900, 2100),
+  month: queryInteger(1, 12),
+  activityType: text(50).optional(),
+});
+
+export const periodQuery = z
+  .object({
+    startDate: dateTime(),
+    endDate: dateTime(),
+    activityType: text(50).optional(),
+  })
+  .refine((q) => q.endDate >= q.startDate, {
+    path: ['endDate'],
+    error: 'must be on or after startDate',
+  });
+
+export const fromToQuery = z
+  .object({
+    from: dateTime(),
+    to: dateTime(),
+  })
+  .refine((q) => q.to >= q.from, { path: ['to'], error: 'must be on or after from' });
+
+export const optionalFromToQuery = z.object({
+  from: dateTime().optional(),
+  to: dateTime().optional(),
+});
+
+export const yearQuery = z.object({ year: queryInteger(1900, 2100).optional() });
+
+export const leaveEntitlementQuery = z.object({
+  personId: id().optional(),
+  year: queryInteger(1900, 2100).optional(),
+});
+
+export const leaveBalanceQuery = z.object({
+  year: queryInteger(1900, 2100).optional(),
+  leaveType: text(50).optional(),
+});
+
+export const leaveRequestQuery = z.object({
+  status: z.enum(['REQUESTED', 'APPROVED', 'REJECTED', 'CANCELLED']).optional(),
+  personId: id().optional(),
+});
+
+export const invitationQuery = z.object({
+  status: z.enum(['PENDING', 'ACCEPTED', 'REVOKED', 'EXPIRED']).optional(),
+});
+
+export const registrationQuery = z.object({
+  status: z.enum(['PENDING', 'APPROVED', 'REJECTED']).optional(),
+});
+
+export const shiftSwapQuery = z.object({
+  status: z.enum(['PROPOSED', 'ACCEPTED', 'DECLINED', 'APPROVED', 'REJECTED', 'CANCELLED']).optional(),
+});
+
+export const rosterListQuery = z.object({ latest: z.enum(['true', 'false']).optional() });
+
+export const rateAtQuery = z.object({ date: dateTime() });
+
+export const auditQuery = z
+  .object({
+    entity: text(50).optional(),
+    entityId: id().optional(),
+    actor: id().optional(),
+    from: dateTime().optional(),
+    to: dateTime().optional(),
+    limit: queryInteger(1, 500).optional(),
+  })
+  .refine((q) => !q.from || !q.to || q.to >= q.from, {
+    path: ['to'],
+    error: 'must be on or after from',
+  });
+
+/* ------------------------------------------------------------------ */
+/* OpenAPI registry                                                    */
+/* ------------------------------------------------------------------ */
+
+export const requestBodyComponents: Record<string, z.ZodType> = {
+  AcceptInviteRequestBody: acceptInviteBody,
+  ActivityRequestBody: activityBody,
+  ActivityUpdateRequestBody: activityUpdateBody,
+  AdminUserRequestBody: adminUserBody,
+  AdminUserUpdateRequestBody: adminUserUpdateBody,
+  ChangePasswordRequestBody: changePasswordBody,
+  ClosingDayRequestBody: closingDayBody,
+  ClosingDayUpdateRequestBody: closingDayUpdateBody,
+  DecisionRequestBody: decisionBody,
+  DoctorRequestBody: doctorBody,
+  DoctorUpdateRequestBody: doctorUpdateBody,
+  ForgotPasswordRequestBody: forgotPasswordBody,
+  InvitationRequestBody: invitationBody,
+  LeaveEntitlementRequestBody: leaveEntitlementBody,
+  LeaveEntitlementUpdateRequestBody: leaveEntitlementUpdateBody,
+  LeaveRequestBody: leaveRequestBody,
+  LoginRequestBody: loginBody,
+  LoginSecondFactorRequestBody: loginSecondFactorBody,
+  PersonRequestBody: personBody,
+  PersonUpdateRequestBody: personUpdateBody,
+  RegisterRequestBody: registerBody,
+  RegistrationApprovalRequestBody: registrationApprovalBody,
+  RegistrationRejectionRequestBody: registrationRejectionBody,
+  ResendVerificationRequestBody: resendVerificationBody,
+  ResetPasswordRequestBody: resetPasswordBody,
+  SecondFactorRequestBody: secondFactorBody,
+  RolePermissionsRequestBody: rolePermissionsBody,
+  RoleRequestBody: roleBody,
+  RosterRequestBody: rosterBody,
+  RosterSlotRequestBody: rosterSlotBody,
+  RosterUpdateRequestBody: rosterUpdateBody,
+  ShiftSwapApprovalRequestBody: swapApprovalBody,
+  ShiftSwapRequestBody: shiftSwapBody,
+  ShiftTypeRateRequestBody: shiftTypeRateBody,
+  ShiftTypeRateUpdateRequestBody: shiftTypeRateUpdateBody,
+  ShiftTypeRequestBody: shiftTypeBody,
+  ShiftTypeUpdateRequestBody: shiftTypeUpdateBody,
+  SupersedeRateRequestBody: supersedeRateBody,
+  TwoFactorChallengeRequestBody: twoFactorChallengeBody,
+  TwoFactorCodeRequestBody: twoFactorCodeBody,
+  UserConstraintRequestBody: userConstraintBody,
+  UserConstraintUpdateRequestBody: userConstraintUpdateBody,
+  UserRoleRequestBody: userRoleBody,
+  UserStatusRequestBody: userStatusBody,
+  VerifyEmailRequestBody: verifyEmailBody,
+};